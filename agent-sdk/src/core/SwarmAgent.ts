@@ -1,34 +1,56 @@
 import { 
     Client, 
     PrivateKey, 
-    AccountId, 
-    TopicId,
-    TopicMessageSubmitTransaction,
-    TopicMessageQuery,
-    Hbar,
-    ContractCallQuery,
-    ContractExecuteTransaction,
-    ContractFunctionParameters
+    AccountId
 } from '@hashgraph/sdk';
-import { 
-    HederaAgentKit,
-    HederaLangchainToolkit,
-    AgentMode 
-} from 'hedera-agent-kit';
+import type { HederaAgentKit } from 'hedera-agent-kit';
 import { ChatOpenAI } from '@langchain/openai';
 import { AgentExecutor, createToolCallingAgent } from 'langchain/agents';
 import { ChatPromptTemplate } from '@langchain/core/prompts';
 import { BufferMemory } from 'langchain/memory';
 import { EventEmitter } from 'events';
-import { create, IPFSHTTPClient } from 'ipfs-http-client';
+import * as crypto from 'crypto';
+import {
+    SwarmTransport,
+    TransportSubscription,
+    HederaTransport,
+    FramedTransport,
+    BlobStore,
+    IpfsBlobStore,
+    MessageProcessor,
+    CheckpointStore,
+    ReputationRegistry,
+    SwarmOrchestratorClient,
+    AgentBid,
+    AuctionTerms,
+    CapabilityMatchResult,
+    ProficiencyLevel,
+    computeBidCommitment,
+    defaultCapabilityTaxonomy,
+    dutchPrice,
+    isSealed,
+    MessageType,
+    SwarmMessage,
+    createMessage,
+    encodeMessage,
+    decodeMessage
+} from '@hedera-swarm/protocol';
+
+export type { SwarmMessage } from '@hedera-swarm/protocol';
+
+type AgentTools = Parameters<typeof createToolCallingAgent>[0]['tools'];
+
+const MIN_STAKE = BigInt(10 * 10 ** 8); // 10 HBAR, the orchestrator's minimum stake
 
 export interface SwarmAgentConfig {
     accountId: string;
     privateKey: string;
     network: 'testnet' | 'mainnet' | 'previewnet';
     capabilities: string[];
+    proficiency?: Record<string, ProficiencyLevel>; // How well it does each capability; competent when absent
     aiModel: 'gpt-4' | 'gpt-3.5-turbo' | 'claude' | 'llama' | 'custom';
     aiApiKey?: string;
+    agentExecutor?: AgentExecutor; // Solves assigned tasks; built from aiModel and the Hedera tools on first use when absent
     swarmTopics: {
         tasks: string;
         consensus: string;
@@ -36,6 +58,11 @@ export interface SwarmAgentConfig {
     };
     orchestratorAddress: string;
     ipfsGateway?: string;
+    blobStore?: BlobStore; // Where solutions, knowledge and large message bodies are stored; IPFS at ipfsGateway when absent
+    transport?: SwarmTransport; // Defaults to framed HCS, with large bodies kept in the blob store
+    checkpointStore?: CheckpointStore; // Resume topics after restarts instead of replaying history
+    reputation?: ReputationRegistry; // The swarm's reputation registry, e.g. from a ConsensusEngine
+    heartbeatInterval?: number; // How often (ms) liveness and task progress are published; 60s by default
 }
 
 export interface Task {
@@ -45,6 +72,12 @@ export interface Task {
     bounty: number;
     deadline: number;
     assignedAgents?: string[];
+    parentId?: string; // Set when this is a sub-task of a larger task
+    inputs?: Record<string, string[]>; // IPFS hashes of upstream sub-task solutions, by sub-task id
+    auction?: AuctionTerms; // Open bidding when absent
+    preselectedAgents?: string[]; // Only these agents may bid
+    excludedAgents?: string[];
+    minProficiency?: Record<string, ProficiencyLevel>; // Level asked for, by capability
 }
 
 export interface Solution {
@@ -55,35 +88,32 @@ export interface Solution {
     collaborators?: string[];
 }
 
-export interface SwarmMessage {
-    type: 'TASK_ANNOUNCEMENT' | 'AGENT_BID' | 'CONSENSUS_PROPOSAL' | 'KNOWLEDGE_SHARE';
-    sender: string;
-    timestamp: number;
-    payload: any;
-    signature?: string;
-}
-
 export class SwarmAgent extends EventEmitter {
     private client: Client;
-    private hederaKit: HederaAgentKit;
-    private langchainToolkit: HederaLangchainToolkit;
-    private agentExecutor: AgentExecutor;
+    private transport: SwarmTransport;
+    private processor: MessageProcessor;
+    private hederaKit?: HederaAgentKit;
+    private agentExecutor?: AgentExecutor;
     private config: SwarmAgentConfig;
-    private ipfs: IPFSHTTPClient;
+    private blobStore: BlobStore;
+    private orchestrator: SwarmOrchestratorClient;
     
     // Agent state
     private reputation: number = 100;
     private activeTasks: Map<string, Task> = new Map();
     private knowledgeCache: Map<string, any> = new Map();
     private collaborators: Map<string, string[]> = new Map();
+    private taskProgress: Map<string, number> = new Map();
+    private heartbeatTimer?: NodeJS.Timeout;
+    private revealTimers: Map<string, NodeJS.Timeout> = new Map(); // Sealed bids waiting to be revealed, by task
     
     // Topic subscriptions
-    private subscriptions: Map<string, any> = new Map();
+    private subscriptions: Map<string, TransportSubscription> = new Map();
     
     constructor(config: SwarmAgentConfig) {
         super();
         this.config = config;
-        this.ipfs = create({ url: config.ipfsGateway || 'https://ipfs.infura.io:5001' });
+        this.blobStore = config.blobStore || new IpfsBlobStore(config.ipfsGateway);
     }
     
     /**
@@ -97,69 +127,79 @@ export class SwarmAgent extends EventEmitter {
         const accountId = AccountId.fromString(this.config.accountId);
         const privateKey = PrivateKey.fromString(this.config.privateKey);
         this.client.setOperator(accountId, privateKey);
-        
-        // Initialize Hedera Agent Kit
-        this.hederaKit = new HederaAgentKit({
-            client: this.client,
-            network: this.config.network
+        this.orchestrator = new SwarmOrchestratorClient(this.client, this.config.orchestratorAddress);
+        this.transport = this.config.transport || new FramedTransport(new HederaTransport(this.client), {
+            blobStore: this.blobStore
         });
-        
-        // Initialize LangChain toolkit
-        this.langchainToolkit = new HederaLangchainToolkit({
-            client: this.client,
-            configuration: {
-                tools: [],
-                context: {
-                    mode: AgentMode.AUTONOMOUS,
-                    accountId: this.config.accountId
-                }
-            }
+        this.processor = new MessageProcessor(this.transport, {
+            consumerId: `swarm-agent:${this.config.accountId}`,
+            checkpointStore: this.config.checkpointStore
         });
-        
-        // Initialize AI agent executor
-        await this.initializeAIAgent();
+        this.processor.on('messageRejected', (event) => this.emit('messageRejected', event));
+        this.agentExecutor = this.config.agentExecutor;
         
         // Subscribe to swarm topics
         await this.subscribeToSwarmTopics();
         
+        // Let task distributors know this agent is alive and working
+        this.heartbeatTimer = setInterval(() => {
+            this.publishHeartbeat().catch((error) => console.error('Error publishing heartbeat:', error));
+        }, this.config.heartbeatInterval ?? 60000);
+        
         console.log('SwarmAgent initialized successfully');
     }
     
+    /**
+     * Stop all topic subscriptions and release the Hedera client
+     */
+    async shutdown(): Promise<void> {
+        for (const subscription of this.subscriptions.values()) {
+            subscription.unsubscribe();
+        }
+        this.subscriptions.clear();
+        
+        if (this.heartbeatTimer) {
+            clearInterval(this.heartbeatTimer);
+            this.heartbeatTimer = undefined;
+        }
+        this.revealTimers.forEach(timer => clearTimeout(timer));
+        this.revealTimers.clear();
+        
+        this.client?.close();
+        this.emit('shutdown', { accountId: this.config.accountId });
+    }
+    
     /**
      * Register the agent in the swarm orchestrator
      */
     async joinSwarm(): Promise<void> {
         console.log('Registering agent in swarm...');
         
-        const contract = new ContractExecuteTransaction()
-            .setContractId(this.config.orchestratorAddress)
-            .setGas(200000)
-            .setFunction(
-                "registerAgent",
-                new ContractFunctionParameters()
-                    .addStringArray(this.config.capabilities)
-            )
-            .setPayableAmount(new Hbar(10)); // Minimum stake
-            
-        const txResponse = await contract.execute(this.client);
-        const receipt = await txResponse.getReceipt(this.client);
-        
-        if (receipt.status.toString() === 'SUCCESS') {
-            console.log('Successfully joined swarm');
-            this.emit('swarmJoined', { accountId: this.config.accountId });
-        } else {
-            throw new Error(`Failed to join swarm: ${receipt.status}`);
-        }
+        // Reverts surface as ContractRevertError, e.g. 'Agent already registered'
+        await this.orchestrator.registerAgent(this.config.capabilities, MIN_STAKE);
+        
+        console.log('Successfully joined swarm');
+        this.emit('swarmJoined', { accountId: this.config.accountId });
     }
     
     /**
      * Bid on a task based on capabilities and availability
      */
     async bidOnTask(task: Task): Promise<void> {
-        // Check if agent has required capabilities
-        const hasCapabilities = task.requiredCapabilities.every(
-            cap => this.config.capabilities.includes(cap)
-        );
+        const accountId = this.config.accountId;
+        if (task.excludedAgents?.includes(accountId) ||
+            (task.preselectedAgents?.length && !task.preselectedAgents.includes(accountId))) {
+            console.log(`Skipping task ${task.id} - not open to this agent`);
+            return;
+        }
+        
+        // Open tasks are taken on by teams, so bringing some of the
+        // required capabilities is enough; auctions need them all
+        const open = (task.auction?.type ?? 'open') === 'open';
+        const { covered } = this.matchCapabilities(task);
+        const hasCapabilities = open && task.requiredCapabilities.length > 0
+            ? covered.length > 0
+            : covered.length === task.requiredCapabilities.length;
         
         if (!hasCapabilities) {
             console.log(`Skipping task ${task.id} - missing capabilities`);
@@ -175,21 +215,64 @@ export class SwarmAgent extends EventEmitter {
             agentId: this.config.accountId,
             estimatedTime,
             confidence,
-            requestedReward: this.calculateBid(task.bounty, confidence)
+            requestedReward: this.calculateBid(task.bounty, confidence),
+            capabilities: this.config.capabilities,
+            proficiency: this.config.proficiency,
+            reputation: this.reputation
         };
         
+        const auction = task.auction;
+        if (auction && isSealed(auction.type)) {
+            await this.commitBid(bid, auction);
+            return;
+        }
+        if (auction?.type === 'dutch') {
+            // The offer only drops, so take it now if it pays enough
+            const price = dutchPrice(auction, Date.now());
+            if (price < bid.requestedReward) {
+                console.log(`Skipping task ${task.id} - offered reward ${price} is below our bid`);
+                return;
+            }
+            bid.requestedReward = price;
+        }
+        
         // Submit bid to consensus topic
-        await this.publishMessage(this.config.swarmTopics.consensus, {
-            type: 'AGENT_BID',
-            sender: this.config.accountId,
-            timestamp: Date.now(),
-            payload: bid
-        });
+        await this.publishMessage(
+            this.config.swarmTopics.consensus,
+            createMessage(MessageType.AGENT_BID, this.config.accountId, bid)
+        );
         
         console.log(`Submitted bid for task ${task.id}`);
         this.emit('bidSubmitted', bid);
     }
     
+    /**
+     * Publish the commitment to a sealed bid, and reveal the bid once
+     * bidding closes
+     */
+    private async commitBid(bid: AgentBid, auction: AuctionTerms): Promise<void> {
+        const salt = crypto.randomBytes(16).toString('hex');
+        await this.publishMessage(
+            this.config.swarmTopics.consensus,
+            createMessage(MessageType.AGENT_BID_COMMIT, this.config.accountId, {
+                taskId: bid.taskId,
+                agentId: bid.agentId,
+                commitment: computeBidCommitment(bid, salt)
+            })
+        );
+        
+        this.revealTimers.set(bid.taskId, setTimeout(() => {
+            this.revealTimers.delete(bid.taskId);
+            this.publishMessage(
+                this.config.swarmTopics.consensus,
+                createMessage(MessageType.AGENT_BID_REVEAL, this.config.accountId, { ...bid, salt })
+            ).catch(error => console.error(`Error revealing bid for task ${bid.taskId}:`, error));
+        }, Math.max(0, (auction.commitDeadline ?? Date.now()) - Date.now())));
+        
+        console.log(`Committed sealed bid for task ${bid.taskId}`);
+        this.emit('bidSubmitted', bid);
+    }
+    
     /**
      * Execute an assigned task
      */
@@ -200,7 +283,8 @@ export class SwarmAgent extends EventEmitter {
         try {
             // Use AI to analyze and solve the task
             const prompt = this.buildTaskPrompt(task);
-            const response = await this.agentExecutor.invoke({
+            const executor = await this.getAgentExecutor();
+            const response = await executor.invoke({
                 input: prompt,
                 chat_history: []
             });
@@ -216,12 +300,14 @@ export class SwarmAgent extends EventEmitter {
             await this.submitSolution(solution);
             
             this.activeTasks.delete(task.id);
+            this.taskProgress.delete(task.id);
             this.emit('taskCompleted', { taskId: task.id, solution });
             
             return solution;
         } catch (error) {
             console.error(`Error executing task ${task.id}:`, error);
             this.activeTasks.delete(task.id);
+            this.taskProgress.delete(task.id);
             throw error;
         }
     }
@@ -264,17 +350,15 @@ export class SwarmAgent extends EventEmitter {
         const ipfsHash = await this.storeInIPFS(knowledge);
         
         // Publish to knowledge topic
-        await this.publishMessage(this.config.swarmTopics.knowledge, {
-            type: 'KNOWLEDGE_SHARE',
-            sender: this.config.accountId,
-            timestamp: Date.now(),
-            payload: {
+        await this.publishMessage(
+            this.config.swarmTopics.knowledge,
+            createMessage(MessageType.KNOWLEDGE_SHARE, this.config.accountId, {
                 ipfsHash,
                 category: knowledge.category,
                 confidence: quality,
                 tags: knowledge.tags || []
-            }
-        });
+            })
+        );
         
         console.log('Knowledge shared with swarm');
         this.emit('knowledgeShared', { ipfsHash, quality });
@@ -299,21 +383,24 @@ export class SwarmAgent extends EventEmitter {
     }
     
     /**
-     * Get agent's current reputation
+     * Get agent's current reputation, from the swarm's reputation registry
+     * when the agent has one; the starting score until it is initialized
      */
     async getReputation(): Promise<number> {
-        const query = new ContractCallQuery()
-            .setContractId(this.config.orchestratorAddress)
-            .setGas(100000)
-            .setFunction(
-                "getAgent",
-                new ContractFunctionParameters()
-                    .addAddress(this.config.accountId)
-            );
-            
-        const result = await query.execute(this.client);
-        // Parse reputation from result
-        this.reputation = 100; // Placeholder
+        if (this.config.reputation) {
+            this.reputation = this.config.reputation.getScore(this.config.accountId, Date.now());
+            return this.reputation;
+        }
+        if (!this.orchestrator) {
+            return this.reputation;
+        }
+        
+        const agent = await this.orchestrator.getAgent(this.config.accountId);
+        if (!agent) {
+            throw new Error('Agent is not registered with the orchestrator');
+        }
+        
+        this.reputation = agent.reputationScore;
         return this.reputation;
     }
     
@@ -330,7 +417,25 @@ export class SwarmAgent extends EventEmitter {
         }
     }
     
-    private async initializeAIAgent(): Promise<void> {
+    /**
+     * The AI agent that solves tasks. The Hedera tools and LLM it needs are
+     * only set up once a task is executed, so an agent that just follows
+     * the swarm's topics runs without model keys.
+     */
+    private async getAgentExecutor(): Promise<AgentExecutor> {
+        if (this.agentExecutor) {
+            return this.agentExecutor;
+        }
+        
+        // Initialize Hedera Agent Kit, loaded only once it is needed
+        const { HederaAgentKit, createHederaTools } = await import('hedera-agent-kit');
+        this.hederaKit = new HederaAgentKit(
+            this.config.accountId,
+            this.config.privateKey,
+            undefined,
+            this.config.network
+        );
+        
         // Initialize LLM based on config
         const llm = new ChatOpenAI({
             modelName: this.config.aiModel === 'gpt-4' ? 'gpt-4' : 'gpt-3.5-turbo',
@@ -347,8 +452,9 @@ export class SwarmAgent extends EventEmitter {
             ['placeholder', '{agent_scratchpad}']
         ]);
         
-        // Get tools from Hedera toolkit
-        const tools = this.langchainToolkit.getTools();
+        // Get tools from Hedera Agent Kit, which builds them on a newer
+        // @langchain/core than the one the agent runs on
+        const tools = createHederaTools(this.hederaKit) as unknown as AgentTools;
         
         // Create agent
         const agent = createToolCallingAgent({
@@ -372,58 +478,78 @@ export class SwarmAgent extends EventEmitter {
             memory,
             returnIntermediateSteps: true
         });
+        return this.agentExecutor;
     }
     
     private async subscribeToSwarmTopics(): Promise<void> {
         // Subscribe to task announcements
-        this.subscribeToTopic(
+        await this.subscribeToTopic(
             this.config.swarmTopics.tasks,
             this.handleTaskAnnouncement.bind(this)
         );
         
         // Subscribe to consensus messages
-        this.subscribeToTopic(
+        await this.subscribeToTopic(
             this.config.swarmTopics.consensus,
             this.handleConsensusMessage.bind(this)
         );
         
         // Subscribe to knowledge shares
-        this.subscribeToTopic(
+        await this.subscribeToTopic(
             this.config.swarmTopics.knowledge,
             this.handleKnowledgeShare.bind(this)
         );
     }
     
-    private subscribeToTopic(topicId: string, handler: (message: SwarmMessage) => void): void {
-        const query = new TopicMessageQuery()
-            .setTopicId(TopicId.fromString(topicId))
-            .setStartTime(0);
-            
-        query.subscribe(this.client, (message) => {
-            try {
-                const swarmMessage = JSON.parse(
-                    Buffer.from(message.contents).toString()
-                ) as SwarmMessage;
-                handler(swarmMessage);
-            } catch (error) {
-                console.error('Error parsing message:', error);
+    private async subscribeToTopic(
+        topicId: string,
+        handler: (message: SwarmMessage) => Promise<void>
+    ): Promise<void> {
+        // Awaiting the handler means the checkpoint only moves past a task
+        // announcement once our bid for it has been submitted
+        const subscription = await this.processor.subscribe(topicId, async (content) => {
+            const decoded = decodeMessage(content);
+            if (!decoded.ok) {
+                console.error(`Dropping undecodable message on ${topicId}: ${decoded.error}`);
+                this.emit('messageRejected', { topicId, reason: decoded.reason, message: decoded.raw });
+                return;
             }
+            await handler(decoded.message);
         });
         
-        this.subscriptions.set(topicId, query);
+        this.subscriptions.set(topicId, subscription);
     }
     
-    private async publishMessage(topicId: string, message: SwarmMessage): Promise<void> {
-        const messageJson = JSON.stringify(message);
+    /**
+     * Report how far along an active task is; sent with the next heartbeat
+     */
+    reportProgress(taskId: string, progress: number): void {
+        if (this.activeTasks.has(taskId)) {
+            this.taskProgress.set(taskId, Math.min(1, Math.max(0, progress)));
+        }
+    }
+    
+    private async publishHeartbeat(): Promise<void> {
+        const tasks = Array.from(this.activeTasks.keys()).map(taskId => ({
+            taskId,
+            progress: this.taskProgress.get(taskId)
+        }));
         
-        await new TopicMessageSubmitTransaction()
-            .setTopicId(TopicId.fromString(topicId))
-            .setMessage(messageJson)
-            .execute(this.client);
+        await this.publishMessage(
+            this.config.swarmTopics.consensus,
+            createMessage(MessageType.HEARTBEAT, this.config.accountId, {
+                status: tasks.length > 0 ? 'busy' : 'idle',
+                tasks
+            })
+        );
+    }
+    
+    private async publishMessage(topicId: string, message: SwarmMessage): Promise<void> {
+        await this.transport.publish(topicId, encodeMessage(message));
     }
     
     private async handleTaskAnnouncement(message: SwarmMessage): Promise<void> {
-        if (message.type !== 'TASK_ANNOUNCEMENT') return;
+        if (message.type !== MessageType.TASK_ANNOUNCEMENT) return;
         
         const task = message.payload as Task;
         console.log(`New task announced: ${task.id}`);
@@ -435,7 +561,7 @@ export class SwarmAgent extends EventEmitter {
     }
     
     private async handleConsensusMessage(message: SwarmMessage): Promise<void> {
-        if (message.type !== 'CONSENSUS_PROPOSAL') return;
+        if (message.type !== MessageType.CONSENSUS_PROPOSAL) return;
         
         // Participate in consensus voting
         console.log('Consensus proposal received');
@@ -443,7 +569,7 @@ export class SwarmAgent extends EventEmitter {
     }
     
     private async handleKnowledgeShare(message: SwarmMessage): Promise<void> {
-        if (message.type !== 'KNOWLEDGE_SHARE') return;
+        if (message.type !== MessageType.KNOWLEDGE_SHARE) return;
         
         // Cache relevant knowledge
         const knowledge = message.payload;
@@ -454,12 +580,19 @@ export class SwarmAgent extends EventEmitter {
     }
     
     private buildTaskPrompt(task: Task): string {
+        // Sub-tasks build on the solutions of the steps before them
+        const inputs = Object.entries(task.inputs || {})
+            .map(([subtaskId, hashes]) => `- ${subtaskId}: ${hashes.join(', ') || 'no solution'}`);
+        const upstream = inputs.length > 0
+            ? `\nThis is one step of task ${task.parentId}. Solutions of the steps it builds on (IPFS):\n${inputs.join('\n')}\n`
+            : '';
+        
         return `
 Task ID: ${task.id}
 Description: ${task.description}
 Required Capabilities: ${task.requiredCapabilities.join(', ')}
 Deadline: ${new Date(task.deadline).toISOString()}
-
+${upstream}
 Please analyze this task and provide a comprehensive solution. Include:
 1. Your approach to solving the task
 2. Any Hedera blockchain operations needed
@@ -480,22 +613,11 @@ Please analyze this task and provide a comprehensive solution. Include:
     }
     
     private async storeInIPFS(data: any): Promise<string> {
-        const { cid } = await this.ipfs.add(JSON.stringify(data));
-        return cid.toString();
+        return this.blobStore.put(Buffer.from(JSON.stringify(data)));
     }
     
     private async submitSolution(solution: Solution): Promise<void> {
-        const contract = new ContractExecuteTransaction()
-            .setContractId(this.config.orchestratorAddress)
-            .setGas(200000)
-            .setFunction(
-                "submitSolution",
-                new ContractFunctionParameters()
-                    .addString(solution.taskId)
-                    .addString(solution.evidence?.[0] || '')
-            );
-            
-        await contract.execute(this.client);
+        await this.orchestrator.submitSolution(solution.taskId, solution.evidence?.[0] || '');
     }
     
     private async estimateTaskTime(task: Task): Promise<number> {
@@ -505,7 +627,19 @@ Please analyze this task and provide a comprehensive solution. Include:
     
     private async calculateTaskConfidence(task: Task): Promise<number> {
         // Calculate based on capabilities match and past performance
-        return 0.85;
+        return 0.85 * this.matchCapabilities(task).score;
+    }
+    
+    /**
+     * How well this agent's capabilities fit a task's, counting
+     * specializations, broader capabilities and aliases
+     */
+    private matchCapabilities(task: Task): CapabilityMatchResult {
+        return defaultCapabilityTaxonomy.match(
+            { capabilities: this.config.capabilities, proficiency: this.config.proficiency },
+            task.requiredCapabilities,
+            task.minProficiency
+        );
     }
     
     private calculateBid(bounty: number, confidence: number): number {
@@ -537,8 +671,9 @@ Please analyze this task and provide a comprehensive solution. Include:
     
     private async createCollaborationTopic(taskId: string): Promise<string> {
         // Create a dedicated topic for task collaboration
-        // Implementation would create actual HCS topic
-        return `0.0.${Date.now()}`; // Placeholder
+        return this.transport.createTopic({
+            memo: `HederaSwarm collaboration: ${taskId}`
+        });
     }
     
     private async inviteCollaborator(
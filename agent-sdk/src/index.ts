@@ -5,6 +5,9 @@
  * in the HederaSwarm decentralized multi-agent orchestration platform.
  */
 
+import { Client } from '@hashgraph/sdk';
+import type { SwarmAgentConfig } from './core/SwarmAgent';
+
 // Core exports
 export { SwarmAgent } from './core/SwarmAgent';
 export type { 
@@ -14,6 +17,29 @@ export type {
     SwarmMessage 
 } from './core/SwarmAgent';
 
+// Wire protocol shared with the rest of the swarm
+export {
+    MessageType,
+    PROTOCOL_VERSION,
+    createMessage,
+    decodeMessage
+} from '@hedera-swarm/protocol';
+
+// Capability ontology, so bids and task requirements match the same way
+export {
+    CAPABILITIES,
+    CapabilityTaxonomy,
+    DEFAULT_CAPABILITY_DEFINITIONS,
+    PROFICIENCY_LEVELS,
+    defaultCapabilityTaxonomy
+} from '@hedera-swarm/protocol';
+export type {
+    CapabilityDefinition,
+    CapabilityMatch,
+    CapabilityMatchResult,
+    ProficiencyLevel
+} from '@hedera-swarm/protocol';
+
 // Integration exports
 export { hederaSwarmPlugin } from './integrations/ElizaOSPlugin';
 
@@ -27,12 +53,8 @@ export {
     TransactionReceipt
 } from '@hashgraph/sdk';
 
-// Re-export Hedera Agent Kit utilities
-export {
-    HederaAgentKit,
-    HederaLangchainToolkit,
-    AgentMode
-} from 'hedera-agent-kit';
+// Hedera Agent Kit is only loaded once an agent builds its executor
+export type { HederaAgentKit } from 'hedera-agent-kit';
 
 // Version
 export const VERSION = '1.0.0';
@@ -83,38 +105,6 @@ export async function createSwarmTopics(
     };
 }
 
-// Export capability definitions
-export const CAPABILITIES = {
-    // Cognitive capabilities
-    REASONING: 'reasoning',
-    LEARNING: 'learning',
-    PLANNING: 'planning',
-    CREATIVITY: 'creativity',
-    
-    // Technical capabilities
-    DATA_ANALYSIS: 'data_analysis',
-    MACHINE_LEARNING: 'machine_learning',
-    NATURAL_LANGUAGE_PROCESSING: 'natural_language_processing',
-    COMPUTER_VISION: 'computer_vision',
-    
-    // Domain capabilities
-    FINANCIAL_ANALYSIS: 'financial_analysis',
-    SMART_CONTRACT_ANALYSIS: 'smart_contract_analysis',
-    SECURITY_ANALYSIS: 'security_analysis',
-    MARKET_PREDICTION: 'market_prediction',
-    
-    // Blockchain capabilities
-    TRANSACTION_ANALYSIS: 'transaction_analysis',
-    CONSENSUS_PARTICIPATION: 'consensus_participation',
-    CROSS_CHAIN_ANALYSIS: 'cross_chain_analysis',
-    
-    // Research capabilities
-    LITERATURE_REVIEW: 'literature_review',
-    HYPOTHESIS_GENERATION: 'hypothesis_generation',
-    EXPERIMENT_DESIGN: 'experiment_design',
-    STATISTICAL_MODELING: 'statistical_modeling'
-} as const;
-
 // Export task types
 export const TASK_TYPES = {
     RESEARCH: 'research',
@@ -18,6 +18,12 @@ contract SwarmOrchestrator is ISwarmOrchestrator, ReentrancyGuard, Ownable {
     mapping(address => uint256) public agentStakes;
     mapping(string => address[]) public taskAssignments;
     mapping(address => string[]) public agentActiveTasks;
+    mapping(string => address) public taskTokens; // HTS token a task's bounty is escrowed in; zero for HBAR
+    mapping(string => address[]) private rewardRecipients;
+    mapping(string => uint256[]) private rewardAmounts;
+    mapping(string => bool) private rewardSplitSet; // An empty split refunds the whole bounty
+    mapping(string => string) public capabilityParents; // Broader capability each one specializes
+    mapping(string => string) public capabilityAliases; // Canonical name of each alias
     
     uint256 private taskIdCounter;
     
@@ -25,7 +31,13 @@ contract SwarmOrchestrator is ISwarmOrchestrator, ReentrancyGuard, Ownable {
     uint256 public constant REPUTATION_DECAY_RATE = 1; // 1% per week
     uint256 public constant MAX_AGENTS_PER_TASK = 10;
     
+    address private constant HTS_PRECOMPILE = address(0x167);
+    int private constant HTS_SUCCESS = 22;
+    int private constant HTS_TOKEN_ALREADY_ASSOCIATED = 194;
+    uint256 private constant MAX_CAPABILITY_DEPTH = 8;
+    
     address public reputationOracle;
+    address public settlementOracle; // Sets reward splits and finalizes tasks once consensus is reached
     address public evolutionEngine;
     address public knowledgeGraph;
     
@@ -33,10 +45,16 @@ contract SwarmOrchestrator is ISwarmOrchestrator, ReentrancyGuard, Ownable {
     event AgentRegistered(address indexed agent, string[] capabilities, uint256 stake);
     event TaskCreated(string indexed taskId, address requester, uint256 bounty);
     event TaskAssigned(string indexed taskId, address[] agents);
+    event AgentReplaced(string indexed taskId, address abandoned, address replacement);
     event SolutionSubmitted(string indexed taskId, string solutionHash);
     event ConsensusReached(string indexed taskId, string finalSolution);
     event RewardsDistributed(string indexed taskId, address[] agents, uint256[] rewards);
+    event TokenBountyEscrowed(string indexed taskId, address token, uint256 amount);
+    event RewardSplitSet(string indexed taskId, address[] agents, uint256[] rewards);
     event AgentSlashed(address indexed agent, uint256 amount, string reason);
+    event ReputationUpdated(address indexed agent, uint256 oldScore, uint256 newScore);
+    event CapabilityParentSet(string capability, string parent);
+    event CapabilityAliasSet(string name, string capability);
     
     modifier onlyRegisteredAgent() {
         require(agents[msg.sender].isActive, "Not a registered agent");
@@ -93,6 +111,45 @@ contract SwarmOrchestrator is ISwarmOrchestrator, ReentrancyGuard, Ownable {
         uint256 deadline
     ) external payable override returns (string memory) {
         require(msg.value > 0, "Must provide bounty");
+        return _createTask(description, requiredCapabilities, deadline, msg.value);
+    }
+    
+    /**
+     * @dev Create a new task with its bounty escrowed in an HTS token. The
+     * requester must sign the transaction for the token transfer.
+     * @param description Task description
+     * @param requiredCapabilities Required agent capabilities
+     * @param deadline Task deadline timestamp
+     * @param token HTS token the bounty is paid in
+     * @param amount Bounty in the token's smallest unit
+     */
+    function createTokenTask(
+        string memory description,
+        string[] memory requiredCapabilities,
+        uint256 deadline,
+        address token,
+        int64 amount
+    ) external override returns (string memory) {
+        require(amount > 0, "Must provide bounty");
+        string memory taskId = _createTask(description, requiredCapabilities, deadline, uint256(uint64(amount)));
+        
+        IHederaTokenService hts = IHederaTokenService(HTS_PRECOMPILE);
+        int associated = hts.associateToken(address(this), token);
+        require(associated == HTS_SUCCESS || associated == HTS_TOKEN_ALREADY_ASSOCIATED, "Token association failed");
+        require(hts.transferToken(token, msg.sender, address(this), amount) == HTS_SUCCESS, "Token transfer failed");
+        
+        taskTokens[taskId] = token;
+        emit TokenBountyEscrowed(taskId, token, uint256(uint64(amount)));
+        
+        return taskId;
+    }
+    
+    function _createTask(
+        string memory description,
+        string[] memory requiredCapabilities,
+        uint256 deadline,
+        uint256 bounty
+    ) internal returns (string memory) {
         require(deadline > block.timestamp, "Invalid deadline");
         require(bytes(description).length > 0, "Empty description");
         
@@ -103,7 +160,7 @@ contract SwarmOrchestrator is ISwarmOrchestrator, ReentrancyGuard, Ownable {
             id: taskId,
             requester: msg.sender,
             description: description,
-            bounty: msg.value,
+            bounty: bounty,
             deadline: deadline,
             status: TaskStatus.Open,
             requiredCapabilities: requiredCapabilities,
@@ -111,7 +168,7 @@ contract SwarmOrchestrator is ISwarmOrchestrator, ReentrancyGuard, Ownable {
             consensusThreshold: 66 // 66% consensus required
         });
         
-        emit TaskCreated(taskId, msg.sender, msg.value);
+        emit TaskCreated(taskId, msg.sender, bounty);
         
         return taskId;
     }
@@ -146,6 +203,39 @@ contract SwarmOrchestrator is ISwarmOrchestrator, ReentrancyGuard, Ownable {
         emit TaskAssigned(taskId, selectedAgents);
     }
     
+    /**
+     * @dev Hand an agent's place on a task in progress to another, e.g.
+     * when it stopped working on it
+     * @param taskId Task identifier
+     * @param abandoned Assigned agent to drop
+     * @param replacement Agent taking its place
+     */
+    function replaceAgent(
+        string memory taskId,
+        address abandoned,
+        address replacement
+    ) external override {
+        Task storage task = tasks[taskId];
+        require(msg.sender == task.requester || msg.sender == owner(), "Not task requester");
+        require(task.status == TaskStatus.InProgress, "Task not in progress");
+        require(isAssignedToTask(abandoned, taskId), "Not assigned to task");
+        require(!isAssignedToTask(replacement, taskId), "Already assigned to task");
+        require(agents[replacement].isActive, "Agent not active");
+        require(hasRequiredCapabilities(replacement, task.requiredCapabilities), "Agent lacks capabilities");
+        
+        address[] storage assigned = taskAssignments[taskId];
+        for (uint i = 0; i < assigned.length; i++) {
+            if (assigned[i] == abandoned) {
+                assigned[i] = replacement;
+                break;
+            }
+        }
+        removeActiveTask(abandoned, taskId);
+        agentActiveTasks[replacement].push(taskId);
+        
+        emit AgentReplaced(taskId, abandoned, replacement);
+    }
+    
     /**
      * @dev Submit a solution for consensus
      * @param taskId Task identifier
@@ -168,7 +258,46 @@ contract SwarmOrchestrator is ISwarmOrchestrator, ReentrancyGuard, Ownable {
     }
     
     /**
-     * @dev Finalize task after consensus
+     * @dev Set how the bounty is paid out when the task is finalized, instead
+     * of in proportion to reputation. Whatever the split leaves is refunded
+     * to the requester. Only the settlement oracle or owner may, as the
+     * requester would be refunded whatever it left out.
+     * @param taskId Task identifier
+     * @param recipients Assigned agents to pay
+     * @param amounts Amount for each agent, in the bounty's smallest unit
+     */
+    function setRewardSplit(
+        string memory taskId,
+        address[] memory recipients,
+        uint256[] memory amounts
+    ) external override {
+        Task storage task = tasks[taskId];
+        require(msg.sender == settlementOracle || msg.sender == owner(), "Only settlement oracle");
+        require(task.status == TaskStatus.UnderReview, "Task not under review");
+        require(recipients.length == amounts.length, "Length mismatch");
+        require(recipients.length <= MAX_AGENTS_PER_TASK, "Invalid agent count");
+        
+        uint256 total = 0;
+        for (uint256 i = 0; i < recipients.length; i++) {
+            require(agents[recipients[i]].isActive, "Agent not active");
+            require(isAssignedToTask(recipients[i], taskId), "Not assigned to task");
+            for (uint256 j = 0; j < i; j++) {
+                require(recipients[j] != recipients[i], "Duplicate recipient");
+            }
+            total += amounts[i];
+        }
+        require(total <= task.bounty, "Split exceeds bounty");
+        
+        rewardRecipients[taskId] = recipients;
+        rewardAmounts[taskId] = amounts;
+        rewardSplitSet[taskId] = true;
+        
+        emit RewardSplitSet(taskId, recipients, amounts);
+    }
+    
+    /**
+     * @dev Finalize task after consensus, paying out the escrow (called by
+     * the settlement oracle or owner)
      * @param taskId Task identifier
      * @param finalSolution Consensus solution hash
      */
@@ -177,6 +306,7 @@ contract SwarmOrchestrator is ISwarmOrchestrator, ReentrancyGuard, Ownable {
         string memory finalSolution
     ) external override {
         Task storage task = tasks[taskId];
+        require(msg.sender == settlementOracle || msg.sender == owner(), "Only settlement oracle");
         require(task.status == TaskStatus.UnderReview, "Task not under review");
         
         task.status = TaskStatus.Completed;
@@ -198,10 +328,34 @@ contract SwarmOrchestrator is ISwarmOrchestrator, ReentrancyGuard, Ownable {
         uint256 newScore
     ) external override {
         require(msg.sender == reputationOracle, "Only oracle can update");
+        _updateReputation(agent, newScore);
+    }
+    
+    /**
+     * @dev Update several agents' reputations in one transaction (called by reputation oracle)
+     * @param agentList Agent addresses
+     * @param newScores New reputation scores, in the same order
+     */
+    function batchUpdateReputation(
+        address[] memory agentList,
+        uint256[] memory newScores
+    ) external override {
+        require(msg.sender == reputationOracle, "Only oracle can update");
+        require(agentList.length == newScores.length, "Length mismatch");
+        
+        for (uint256 i = 0; i < agentList.length; i++) {
+            _updateReputation(agentList[i], newScores[i]);
+        }
+    }
+    
+    function _updateReputation(address agent, uint256 newScore) internal {
         require(agents[agent].isActive, "Agent not active");
         
+        uint256 oldScore = agents[agent].reputationScore;
         agents[agent].reputationScore = newScore;
         agents[agent].lastActiveTimestamp = block.timestamp;
+        
+        emit ReputationUpdated(agent, oldScore, newScore);
     }
     
     /**
@@ -238,6 +392,15 @@ contract SwarmOrchestrator is ISwarmOrchestrator, ReentrancyGuard, Ownable {
         reputationOracle = oracle;
     }
     
+    /**
+     * @dev Set the settlement oracle address
+     * @param oracle Account that settles tasks once consensus is reached
+     */
+    function setSettlementOracle(address oracle) external onlyOwner {
+        require(oracle != address(0), "Invalid address");
+        settlementOracle = oracle;
+    }
+    
     /**
      * @dev Set the evolution engine address
      * @param engine Evolution engine contract address
@@ -247,6 +410,37 @@ contract SwarmOrchestrator is ISwarmOrchestrator, ReentrancyGuard, Ownable {
         evolutionEngine = engine;
     }
     
+    /**
+     * @dev Make a capability a specialization of another, so agents with it
+     * can be assigned tasks requiring the broader one
+     * @param capability Canonical capability name
+     * @param parent Broader capability; empty to make it a root
+     */
+    function setCapabilityParent(string memory capability, string memory parent) external onlyOwner {
+        require(bytes(capability).length > 0, "Invalid capability");
+        require(
+            bytes(parent).length == 0 || !_specializes(parent, keccak256(bytes(capability))),
+            "Capability cycle"
+        );
+        require(_depth(parent) < MAX_CAPABILITY_DEPTH, "Capability too deep");
+        
+        capabilityParents[capability] = parent;
+        emit CapabilityParentSet(capability, parent);
+    }
+    
+    /**
+     * @dev Make a name stand for a canonical capability
+     * @param name Alternative name, e.g. nlp
+     * @param capability Canonical capability name; empty to remove the alias
+     */
+    function setCapabilityAlias(string memory name, string memory capability) external onlyOwner {
+        require(bytes(name).length > 0, "Invalid capability");
+        require(keccak256(bytes(name)) != keccak256(bytes(capability)), "Alias of itself");
+        
+        capabilityAliases[name] = capability;
+        emit CapabilityAliasSet(name, capability);
+    }
+    
     /**
      * @dev Get agent information
      * @param agent Agent address
@@ -280,9 +474,10 @@ contract SwarmOrchestrator is ISwarmOrchestrator, ReentrancyGuard, Ownable {
         string[] memory agentCaps = agents[agent].capabilities;
         
         for (uint i = 0; i < required.length; i++) {
+            bytes32 target = keccak256(bytes(_canonicalCapability(required[i])));
             bool found = false;
             for (uint j = 0; j < agentCaps.length; j++) {
-                if (keccak256(bytes(agentCaps[j])) == keccak256(bytes(required[i]))) {
+                if (_specializes(_canonicalCapability(agentCaps[j]), target)) {
                     found = true;
                     break;
                 }
@@ -292,6 +487,30 @@ contract SwarmOrchestrator is ISwarmOrchestrator, ReentrancyGuard, Ownable {
         return true;
     }
     
+    function _canonicalCapability(string memory capability) internal view returns (string memory) {
+        string memory canonical = capabilityAliases[capability];
+        return bytes(canonical).length > 0 ? canonical : capability;
+    }
+    
+    /**
+     * @dev Whether a capability is the target or one of its specializations
+     */
+    function _specializes(string memory capability, bytes32 target) internal view returns (bool) {
+        string memory current = capability;
+        for (uint i = 0; i <= MAX_CAPABILITY_DEPTH && bytes(current).length > 0; i++) {
+            if (keccak256(bytes(current)) == target) return true;
+            current = capabilityParents[current];
+        }
+        return false;
+    }
+    
+    function _depth(string memory capability) internal view returns (uint256 depth) {
+        for (string memory current = capability; bytes(current).length > 0; current = capabilityParents[current]) {
+            depth++;
+            if (depth > MAX_CAPABILITY_DEPTH) break;
+        }
+    }
+    
     function isAssignedToTask(
         address agent,
         string memory taskId
@@ -303,29 +522,72 @@ contract SwarmOrchestrator is ISwarmOrchestrator, ReentrancyGuard, Ownable {
         return false;
     }
     
+    function removeActiveTask(address agent, string memory taskId) internal {
+        string[] storage active = agentActiveTasks[agent];
+        bytes32 target = keccak256(bytes(taskId));
+        for (uint i = 0; i < active.length; i++) {
+            if (keccak256(bytes(active[i])) == target) {
+                active[i] = active[active.length - 1];
+                active.pop();
+                return;
+            }
+        }
+    }
+    
     function distributeRewards(string memory taskId) internal {
         Task storage task = tasks[taskId];
-        address[] memory assignedAgents = taskAssignments[taskId];
-        uint256[] memory rewards = new uint256[](assignedAgents.length);
+        address[] memory recipients = rewardRecipients[taskId];
+        uint256[] memory rewards = rewardAmounts[taskId];
         
-        uint256 totalReputation = 0;
-        for (uint i = 0; i < assignedAgents.length; i++) {
-            totalReputation += agents[assignedAgents[i]].reputationScore;
+        if (!rewardSplitSet[taskId]) {
+            // No split was set: proportional to reputation among the assigned agents
+            recipients = taskAssignments[taskId];
+            rewards = new uint256[](recipients.length);
+            
+            uint256 totalReputation = 0;
+            for (uint i = 0; i < recipients.length; i++) {
+                totalReputation += agents[recipients[i]].reputationScore;
+            }
+            for (uint i = 0; i < recipients.length; i++) {
+                rewards[i] = (task.bounty * agents[recipients[i]].reputationScore) / totalReputation;
+            }
         }
         
-        // Distribute rewards proportional to reputation
-        for (uint i = 0; i < assignedAgents.length; i++) {
-            uint256 agentShare = (task.bounty * agents[assignedAgents[i]].reputationScore) / totalReputation;
-            rewards[i] = agentShare;
-            
-            // Transfer reward
-            payable(assignedAgents[i]).transfer(agentShare);
+        uint256 paid = 0;
+        for (uint i = 0; i < recipients.length; i++) {
+            _pay(taskId, recipients[i], rewards[i]);
+            paid += rewards[i];
             
             // Update agent stats
-            agents[assignedAgents[i]].tasksCompleted++;
+            agents[recipients[i]].tasksCompleted++;
+        }
+        
+        // Refund what the split left over
+        _pay(taskId, task.requester, task.bounty - paid);
+        
+        emit RewardsDistributed(taskId, recipients, rewards);
+    }
+    
+    /**
+     * @dev Pay out of a task's escrow, in HBAR or its HTS token
+     */
+    function _pay(string memory taskId, address recipient, uint256 amount) internal {
+        if (amount == 0) {
+            return;
         }
         
-        emit RewardsDistributed(taskId, assignedAgents, rewards);
+        address token = taskTokens[taskId];
+        if (token == address(0)) {
+            payable(recipient).transfer(amount);
+        } else {
+            int response = IHederaTokenService(HTS_PRECOMPILE).transferToken(
+                token,
+                address(this),
+                recipient,
+                int64(uint64(amount))
+            );
+            require(response == HTS_SUCCESS, "Token transfer failed");
+        }
     }
     
     function uint2str(uint256 _i) internal pure returns (string memory) {
@@ -49,16 +49,36 @@ interface ISwarmOrchestrator {
         uint256 deadline
     ) external payable returns (string memory);
     
+    function createTokenTask(
+        string memory description,
+        string[] memory requiredCapabilities,
+        uint256 deadline,
+        address token,
+        int64 amount
+    ) external returns (string memory);
+    
     function assignTask(
         string memory taskId,
         address[] memory selectedAgents
     ) external;
     
+    function replaceAgent(
+        string memory taskId,
+        address abandoned,
+        address replacement
+    ) external;
+    
     function submitSolution(
         string memory taskId,
         string memory solutionHash
     ) external;
     
+    function setRewardSplit(
+        string memory taskId,
+        address[] memory recipients,
+        uint256[] memory amounts
+    ) external;
+    
     function finalizeTask(
         string memory taskId,
         string memory finalSolution
@@ -69,6 +89,11 @@ interface ISwarmOrchestrator {
         uint256 newScore
     ) external;
     
+    function batchUpdateReputation(
+        address[] memory agentList,
+        uint256[] memory newScores
+    ) external;
+    
     function slashAgent(
         address agent,
         uint256 amount,
@@ -0,0 +1,30 @@
+const fs = require("fs");
+const path = require("path");
+
+// Copies the compiled ABIs into the protocol package, where the typed
+// contract client shared by the agent SDK and the dashboard is built from them.
+// Run after `hardhat compile`.
+const CONTRACTS = ["SwarmOrchestrator", "EvolutionEngine"];
+const OUTPUT_DIR = path.join(__dirname, "../../swarm-protocol/src/contracts/abi");
+
+function main() {
+  fs.mkdirSync(OUTPUT_DIR, { recursive: true });
+
+  for (const name of CONTRACTS) {
+    const artifact = path.join(__dirname, `../artifacts/contracts/${name}.sol/${name}.json`);
+    if (!fs.existsSync(artifact)) {
+      throw new Error(`Missing artifact for ${name}; run \`npm run compile\` first`);
+    }
+
+    const { abi } = JSON.parse(fs.readFileSync(artifact, "utf8"));
+    fs.writeFileSync(path.join(OUTPUT_DIR, `${name}.json`), JSON.stringify(abi, null, 2) + "\n");
+    console.log(`✅ Exported ${name} ABI (${abi.length} entries)`);
+  }
+}
+
+try {
+  main();
+} catch (error) {
+  console.error(error.message);
+  process.exit(1);
+}
@@ -0,0 +1,25 @@
+/**
+ * Unit and integration tests under tests/, run against the packages' sources
+ */
+module.exports = {
+  testEnvironment: 'node',
+  roots: ['<rootDir>/tests'],
+  testMatch: ['**/*.test.ts'],
+  moduleNameMapper: {
+    '^@hedera-swarm/protocol$': '<rootDir>/swarm-protocol/src'
+  },
+  transform: {
+    '^.+\\.ts$': ['ts-jest', {
+      tsconfig: {
+        target: 'ES2020',
+        module: 'commonjs',
+        strict: true,
+        esModuleInterop: true,
+        skipLibCheck: true,
+        resolveJsonModule: true,
+        moduleResolution: 'node',
+        isolatedModules: true
+      }
+    }]
+  }
+};
@@ -1,11 +1,20 @@
 import { EventEmitter } from 'events';
 import { 
   TopicId, 
-  TopicMessageSubmitTransaction, 
   Client,
   PrivateKey,
   AccountId
 } from '@hashgraph/sdk';
+import {
+  SwarmTransport,
+  HederaTransport,
+  FramedTransport,
+  IpfsBlobStore,
+  MessageType,
+  MessagePayloads,
+  createMessage,
+  encodeMessage
+} from '@hedera-swarm/protocol';
 import { 
   KnowledgeNode, 
   KnowledgeEdge, 
@@ -25,19 +34,25 @@ export class KnowledgeGraph extends EventEmitter {
   private reverseAdjacencyList: Map<string, Set<string>> = new Map();
   private embeddings: Map<string, tf.Tensor1D> = new Map();
   
-  private client: Client;
+  private transport: SwarmTransport;
   private topicId: TopicId;
   private ipfsStorage: IPFSStorage;
   private agentId: string;
 
   constructor(config: {
-    client: Client;
+    client?: Client;
+    transport?: SwarmTransport;
     topicId: string;
     ipfsEndpoint?: string;
     agentId: string;
   }) {
     super();
-    this.client = config.client;
+    if (!config.transport && !config.client) {
+      throw new Error('KnowledgeGraph requires a client or a transport');
+    }
+    this.transport = config.transport || new FramedTransport(new HederaTransport(config.client!), {
+      blobStore: new IpfsBlobStore(config.ipfsEndpoint)
+    });
     this.topicId = TopicId.fromString(config.topicId);
     this.ipfsStorage = new IPFSStorage(config.ipfsEndpoint);
     this.agentId = config.agentId;
@@ -66,11 +81,7 @@ export class KnowledgeGraph extends EventEmitter {
     this.embeddings.set(id, tf.tensor1d(embedding));
     
     // Publish to HCS
-    await this.publishToHCS({
-      type: 'ADD_NODE',
-      node: fullNode,
-      agentId: this.agentId
-    });
+    await this.publishToHCS(MessageType.KNOWLEDGE_NODE_ADDED, { node: fullNode });
     
     this.emit('nodeAdded', fullNode);
     return fullNode;
@@ -98,11 +109,7 @@ export class KnowledgeGraph extends EventEmitter {
     this.reverseAdjacencyList.get(edge.to)!.add(edge.from);
     
     // Publish to HCS
-    await this.publishToHCS({
-      type: 'ADD_EDGE',
-      edge: fullEdge,
-      agentId: this.agentId
-    });
+    await this.publishToHCS(MessageType.KNOWLEDGE_EDGE_ADDED, { edge: fullEdge });
     
     this.emit('edgeAdded', fullEdge);
     return fullEdge;
@@ -290,18 +297,10 @@ export class KnowledgeGraph extends EventEmitter {
     return `node-${node.type}-${hash.substring(0, 12)}`;
   }
 
-  private async publishToHCS(message: any) {
-    const messageString = JSON.stringify({
-      ...message,
-      timestamp: new Date().toISOString()
-    });
-    
-    const transaction = new TopicMessageSubmitTransaction()
-      .setTopicId(this.topicId)
-      .setMessage(messageString)
-      .setMaxChunks(10);
+  private async publishToHCS<T extends MessageType>(type: T, payload: MessagePayloads[T]) {
+    const message = createMessage(type, this.agentId, payload);
     
-    await transaction.execute(this.client);
+    await this.transport.publish(this.topicId.toString(), encodeMessage(message));
   }
 
   async loadFromIPFS(ipfsHash: string): Promise<any> {
@@ -9,87 +9,91 @@ import * as dotenv from 'dotenv';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as chalk from 'chalk';
+import {
+  MessageType,
+  PROTOCOL_VERSION,
+  SwarmMessage,
+  decodeMessage,
+  isEncryptedEnvelope
+} from '@hedera-swarm/protocol';
 
 dotenv.config();
 
 interface MessageHandler {
   topicName: string;
   color: typeof chalk;
-  parseMessage: (message: string) => any;
+  formatMessage: (message: SwarmMessage) => Record<string, any>;
 }
 
 const handlers: Record<string, MessageHandler> = {
   'swarm-tasks': {
     topicName: 'Task Announcements',
     color: chalk.blue,
-    parseMessage: (msg) => {
-      try {
-        const data = JSON.parse(msg);
-        return {
-          type: data.type,
-          taskId: data.taskId,
-          title: data.metadata?.title || 'Unknown',
-          reward: data.reward ? `${data.reward / 100000000} HBAR` : 'N/A',
-          capabilities: data.capabilities?.join(', ') || 'N/A'
-        };
-      } catch {
-        return { raw: msg };
-      }
-    }
+    formatMessage: (message) => ({
+      taskId: message.payload.id,
+      description: message.payload.description,
+      bounty: message.payload.bounty,
+      capabilities: message.payload.requiredCapabilities?.join(', ') || 'N/A',
+      deadline: new Date(message.payload.deadline).toLocaleString()
+    })
   },
   'swarm-consensus': {
     topicName: 'Consensus Messages',
     color: chalk.green,
-    parseMessage: (msg) => {
-      try {
-        const data = JSON.parse(msg);
-        return {
-          type: data.type,
-          proposalId: data.proposalId,
-          vote: data.vote,
-          agent: data.agentId,
-          weight: data.weight
-        };
-      } catch {
-        return { raw: msg };
+    formatMessage: (message) => {
+      switch (message.type) {
+        case MessageType.CONSENSUS_PROPOSAL:
+          return {
+            proposalId: message.payload.id,
+            taskId: message.payload.taskId,
+            confidence: message.payload.confidence
+          };
+        case MessageType.CONSENSUS_VOTE:
+          return {
+            proposalId: message.payload.proposalId,
+            vote: message.payload.support ? 'support' : 'reject',
+            reason: message.payload.reason || 'N/A'
+          };
+        case MessageType.AGENT_BID:
+          return {
+            taskId: message.payload.taskId,
+            reward: message.payload.requestedReward,
+            confidence: message.payload.confidence
+          };
+        default:
+          return { payload: JSON.stringify(message.payload) };
       }
     }
   },
   'swarm-knowledge': {
     topicName: 'Knowledge Sharing',
     color: chalk.yellow,
-    parseMessage: (msg) => {
-      try {
-        const data = JSON.parse(msg);
-        return {
-          type: data.type,
-          nodeId: data.nodeId,
-          agent: data.agentId,
-          dataType: data.dataType,
-          size: data.size
-        };
-      } catch {
-        return { raw: msg };
+    formatMessage: (message) => {
+      switch (message.type) {
+        case MessageType.KNOWLEDGE_NODE_ADDED:
+          return { nodeId: message.payload.node.id, nodeType: message.payload.node.type };
+        case MessageType.KNOWLEDGE_EDGE_ADDED:
+          return { edge: `${message.payload.edge.from} -[${message.payload.edge.type}]-> ${message.payload.edge.to}` };
+        case MessageType.KNOWLEDGE_SHARE:
+          return {
+            ipfsHash: message.payload.ipfsHash,
+            category: message.payload.category || 'N/A',
+            tags: message.payload.tags?.join(', ') || 'N/A'
+          };
+        default:
+          return { payload: JSON.stringify(message.payload) };
       }
     }
   },
   'swarm-reputation': {
     topicName: 'Reputation Updates',
     color: chalk.magenta,
-    parseMessage: (msg) => {
-      try {
-        const data = JSON.parse(msg);
-        return {
-          type: data.type,
-          agent: data.agentId,
-          change: data.change,
-          reason: data.reason,
-          newScore: data.newScore
-        };
-      } catch {
-        return { raw: msg };
-      }
-    }
+    formatMessage: (message) => ({
+      agent: message.payload.accountId,
+      change: message.payload.delta,
+      reason: message.payload.reason,
+      newScore: message.payload.score
+    })
   }
 };
 
@@ -113,15 +117,23 @@ async function monitorTopic(
         console.log(handler.color(`📨 ${handler.topicName} | ${timestamp}`));
         console.log(handler.color(`🔢 Sequence: ${message.sequenceNumber}`));
         
-        const parsed = handler.parseMessage(contents);
-        
-        if (parsed.raw) {
-          console.log(handler.color(`📄 Raw: ${parsed.raw}`));
-        } else {
-          Object.entries(parsed).forEach(([key, value]) => {
-            console.log(handler.color(`   ${key}: ${value}`));
-          });
+        const decoded = decodeMessage(contents);
+        if (!decoded.ok && isEncryptedEnvelope(decoded.raw)) {
+          console.log(handler.color('🔒 Encrypted message'));
+          return;
+        }
+        if (!decoded.ok) {
+          console.log(chalk.red(`⚠️  Not a valid swarm message (${decoded.reason}): ${decoded.error}`));
+          console.log(handler.color(`📄 Raw: ${contents}`));
+          return;
         }
+        
+        const swarmMessage = decoded.message;
+        const upgraded = decoded.version < PROTOCOL_VERSION ? ` (upgraded from v${decoded.version})` : '';
+        console.log(handler.color(`📋 ${swarmMessage.type} from ${swarmMessage.sender}${upgraded}`));
+        Object.entries(handler.formatMessage(swarmMessage)).forEach(([key, value]) => {
+          console.log(handler.color(`   ${key}: ${value}`));
+        });
       });
   } catch (error) {
     console.error(chalk.red(`❌ Failed to monitor ${topicName}:`, error));
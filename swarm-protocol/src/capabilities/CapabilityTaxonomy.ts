@@ -0,0 +1,320 @@
+/**
+ * Capabilities agents declare and tasks require
+ */
+export const CAPABILITIES = {
+    // Cognitive capabilities
+    REASONING: 'reasoning',
+    LEARNING: 'learning',
+    PLANNING: 'planning',
+    CREATIVITY: 'creativity',
+
+    // Technical capabilities
+    DATA_ANALYSIS: 'data_analysis',
+    MACHINE_LEARNING: 'machine_learning',
+    NATURAL_LANGUAGE_PROCESSING: 'natural_language_processing',
+    COMPUTER_VISION: 'computer_vision',
+    PATTERN_RECOGNITION: 'pattern_recognition',
+
+    // Domain capabilities
+    FINANCIAL_ANALYSIS: 'financial_analysis',
+    SMART_CONTRACT_ANALYSIS: 'smart_contract_analysis',
+    SECURITY_ANALYSIS: 'security_analysis',
+    VULNERABILITY_DETECTION: 'vulnerability_detection',
+    MARKET_PREDICTION: 'market_prediction',
+    RISK_ASSESSMENT: 'risk_assessment',
+
+    // Blockchain capabilities
+    TRANSACTION_ANALYSIS: 'transaction_analysis',
+    CONSENSUS_PARTICIPATION: 'consensus_participation',
+    CROSS_CHAIN_ANALYSIS: 'cross_chain_analysis',
+
+    // Research capabilities
+    LITERATURE_REVIEW: 'literature_review',
+    HYPOTHESIS_GENERATION: 'hypothesis_generation',
+    EXPERIMENT_DESIGN: 'experiment_design',
+    STATISTICAL_MODELING: 'statistical_modeling'
+} as const;
+
+export type ProficiencyLevel = 'novice' | 'competent' | 'expert';
+
+export const PROFICIENCY_LEVELS: Record<ProficiencyLevel, number> = {
+    novice: 1,
+    competent: 2,
+    expert: 3
+};
+
+export interface CapabilityDefinition {
+    name: string;
+    parent?: string; // The broader capability this one is a specialization of
+    aliases?: string[];
+}
+
+/**
+ * The swarm's default ontology: each specialization can stand in for its
+ * parent, and common shorthands resolve to the full name
+ */
+export const DEFAULT_CAPABILITY_DEFINITIONS: CapabilityDefinition[] = [
+    { name: CAPABILITIES.REASONING },
+    { name: CAPABILITIES.PLANNING, parent: CAPABILITIES.REASONING },
+    { name: CAPABILITIES.HYPOTHESIS_GENERATION, parent: CAPABILITIES.REASONING },
+    { name: CAPABILITIES.LEARNING },
+    { name: CAPABILITIES.MACHINE_LEARNING, parent: CAPABILITIES.LEARNING, aliases: ['ml'] },
+    { name: CAPABILITIES.NATURAL_LANGUAGE_PROCESSING, parent: CAPABILITIES.MACHINE_LEARNING, aliases: ['nlp'] },
+    { name: CAPABILITIES.COMPUTER_VISION, parent: CAPABILITIES.MACHINE_LEARNING, aliases: ['vision', 'cv'] },
+    { name: CAPABILITIES.PATTERN_RECOGNITION, parent: CAPABILITIES.MACHINE_LEARNING },
+    { name: CAPABILITIES.CREATIVITY },
+    { name: CAPABILITIES.DATA_ANALYSIS, aliases: ['analytics'] },
+    { name: CAPABILITIES.STATISTICAL_MODELING, parent: CAPABILITIES.DATA_ANALYSIS, aliases: ['statistics'] },
+    { name: CAPABILITIES.FINANCIAL_ANALYSIS, parent: CAPABILITIES.DATA_ANALYSIS },
+    { name: CAPABILITIES.MARKET_PREDICTION, parent: CAPABILITIES.FINANCIAL_ANALYSIS },
+    { name: CAPABILITIES.RISK_ASSESSMENT, parent: CAPABILITIES.FINANCIAL_ANALYSIS },
+    { name: CAPABILITIES.TRANSACTION_ANALYSIS, parent: CAPABILITIES.DATA_ANALYSIS },
+    { name: CAPABILITIES.CROSS_CHAIN_ANALYSIS, parent: CAPABILITIES.TRANSACTION_ANALYSIS },
+    { name: CAPABILITIES.SECURITY_ANALYSIS, aliases: ['security_audit'] },
+    { name: CAPABILITIES.SMART_CONTRACT_ANALYSIS, parent: CAPABILITIES.SECURITY_ANALYSIS, aliases: ['smart_contract_audit'] },
+    { name: CAPABILITIES.VULNERABILITY_DETECTION, parent: CAPABILITIES.SECURITY_ANALYSIS },
+    { name: CAPABILITIES.CONSENSUS_PARTICIPATION },
+    { name: CAPABILITIES.LITERATURE_REVIEW },
+    { name: CAPABILITIES.EXPERIMENT_DESIGN }
+];
+
+/**
+ * How an agent's capability relates to a required one: the same, a
+ * specialization of it, or a broader capability it is part of
+ */
+export type CapabilityRelation = 'exact' | 'specialization' | 'generalization' | 'none';
+
+export interface CapabilityMatch {
+    required: string; // Canonical name
+    matchedBy?: string; // The agent's best capability for it, canonical
+    relation: CapabilityRelation;
+    score: number; // 0-1
+}
+
+export interface CapabilityMatchResult {
+    score: number; // Mean over the required capabilities; 1 when none are
+    matches: CapabilityMatch[];
+    covered: string[]; // Required capabilities matched well enough to take the work on
+}
+
+/**
+ * What an agent brings, optionally with how well it does each capability
+ */
+export interface CapabilityClaim {
+    capabilities: string[];
+    proficiency?: Record<string, ProficiencyLevel>; // By capability; competent when absent
+}
+
+export interface CapabilityTaxonomyConfig {
+    specializationScore: number; // A specialist doing the broader capability
+    generalizationScore: number; // A generalist doing a capability one level below its own
+    distanceDecay: number; // Multiplier for each further level between the two
+    coverageThreshold: number; // Score at which a required capability counts as covered
+}
+
+/**
+ * Capabilities as a hierarchy with aliases. Matching scores how well an
+ * agent's capabilities fit a task's: exact matches score 1, specialists
+ * nearly as much, and generalists partly, discounted further the more
+ * levels lie between and when the agent is less proficient than asked.
+ * Unknown capabilities only match themselves.
+ */
+export class CapabilityTaxonomy {
+    private parents: Map<string, string> = new Map();
+    private aliases: Map<string, string> = new Map();
+    private known: Set<string> = new Set();
+    private config: CapabilityTaxonomyConfig;
+
+    constructor(definitions: CapabilityDefinition[] = DEFAULT_CAPABILITY_DEFINITIONS, config?: Partial<CapabilityTaxonomyConfig>) {
+        this.config = {
+            specializationScore: 0.9,
+            generalizationScore: 0.5,
+            distanceDecay: 0.8,
+            coverageThreshold: 0.75,
+            ...config
+        };
+        definitions.forEach(definition => this.define(definition));
+    }
+
+    /**
+     * Add a capability, or move an existing one under another parent.
+     * Throws when that would make a capability its own ancestor.
+     */
+    define(definition: CapabilityDefinition): void {
+        const name = normalize(definition.name);
+        const parent = definition.parent !== undefined ? this.resolve(definition.parent) : undefined;
+        if (parent !== undefined && (parent === name || this.ancestors(parent).includes(name))) {
+            throw new Error(`Capability ${name} cannot be a specialization of ${parent}`);
+        }
+
+        this.known.add(name);
+        if (parent !== undefined) {
+            this.known.add(parent);
+            this.parents.set(name, parent);
+        }
+        for (const alias of definition.aliases || []) {
+            this.aliases.set(normalize(alias), name);
+        }
+    }
+
+    /**
+     * Canonical name: trimmed, lower-case, snake_case, aliases replaced
+     */
+    resolve(capability: string): string {
+        const name = normalize(capability);
+        return this.aliases.get(name) ?? name;
+    }
+
+    isKnown(capability: string): boolean {
+        return this.known.has(this.resolve(capability));
+    }
+
+    parentOf(capability: string): string | undefined {
+        return this.parents.get(this.resolve(capability));
+    }
+
+    /**
+     * Broader capabilities, nearest first
+     */
+    ancestors(capability: string): string[] {
+        const ancestors: string[] = [];
+        for (let parent = this.parentOf(capability); parent !== undefined; parent = this.parents.get(parent)) {
+            ancestors.push(parent);
+        }
+        return ancestors;
+    }
+
+    /**
+     * Direct specializations
+     */
+    childrenOf(capability: string): string[] {
+        const name = this.resolve(capability);
+        return Array.from(this.parents.entries())
+            .filter(([, parent]) => parent === name)
+            .map(([child]) => child);
+    }
+
+    definitions(): CapabilityDefinition[] {
+        return Array.from(this.known).map(name => {
+            const aliases = Array.from(this.aliases.entries())
+                .filter(([, target]) => target === name)
+                .map(([alias]) => alias);
+            return {
+                name,
+                ...(this.parents.has(name) ? { parent: this.parents.get(name) } : {}),
+                ...(aliases.length > 0 ? { aliases } : {})
+            };
+        });
+    }
+
+    /**
+     * Whether an agent's capability is the required one or a specialization
+     * of it, which is what the orchestrator contract accepts
+     */
+    satisfies(capability: string, required: string): boolean {
+        const name = this.resolve(capability);
+        const target = this.resolve(required);
+        return name === target || this.ancestors(name).includes(target);
+    }
+
+    /**
+     * Score one required capability against the agent's best fitting one
+     *
+     * @param minProficiency Level the task asks for, if any
+     */
+    matchOne(agent: string[] | CapabilityClaim, required: string, minProficiency?: ProficiencyLevel): CapabilityMatch {
+        const claim = Array.isArray(agent) ? { capabilities: agent } : agent;
+        const target = this.resolve(required);
+        let best: CapabilityMatch = { required: target, relation: 'none', score: 0 };
+
+        for (const capability of claim.capabilities) {
+            const name = this.resolve(capability);
+            const { relation, distance } = this.relate(name, target);
+            if (relation === 'none') {
+                continue;
+            }
+
+            const base = relation === 'exact' ? 1
+                : relation === 'specialization' ? this.config.specializationScore
+                : this.config.generalizationScore;
+            const score = base * this.config.distanceDecay ** Math.max(0, distance - 1)
+                * this.proficiencyFactor(claim, capability, minProficiency);
+            if (score > best.score) {
+                best = { required: target, matchedBy: name, relation, score };
+            }
+        }
+        return best;
+    }
+
+    /**
+     * Score an agent's capabilities against everything a task requires
+     *
+     * @param minProficiency Levels the task asks for, by capability
+     */
+    match(
+        agent: string[] | CapabilityClaim,
+        required: string[],
+        minProficiency: Record<string, ProficiencyLevel> = {}
+    ): CapabilityMatchResult {
+        const levels = this.resolveKeys(minProficiency);
+        const matches = required.map(capability => this.matchOne(agent, capability, levels[this.resolve(capability)]));
+        return {
+            score: matches.length > 0 ? matches.reduce((total, match) => total + match.score, 0) / matches.length : 1,
+            matches,
+            covered: matches.filter(match => match.score >= this.config.coverageThreshold).map(match => match.required)
+        };
+    }
+
+    /**
+     * Whether the agent covers every required capability
+     */
+    coversAll(agent: string[] | CapabilityClaim, required: string[], minProficiency?: Record<string, ProficiencyLevel>): boolean {
+        return this.match(agent, required, minProficiency).covered.length === required.length;
+    }
+
+    /**
+     * Whether the agent covers at least one required capability; true when
+     * none are required
+     */
+    coversAny(agent: string[] | CapabilityClaim, required: string[], minProficiency?: Record<string, ProficiencyLevel>): boolean {
+        return required.length === 0 || this.match(agent, required, minProficiency).covered.length > 0;
+    }
+
+    private relate(name: string, target: string): { relation: CapabilityRelation; distance: number } {
+        if (name === target) {
+            return { relation: 'exact', distance: 0 };
+        }
+
+        const above = this.ancestors(name).indexOf(target);
+        if (above >= 0) {
+            return { relation: 'specialization', distance: above + 1 };
+        }
+        const below = this.ancestors(target).indexOf(name);
+        if (below >= 0) {
+            return { relation: 'generalization', distance: below + 1 };
+        }
+        return { relation: 'none', distance: 0 };
+    }
+
+    private proficiencyFactor(claim: CapabilityClaim, capability: string, minProficiency?: ProficiencyLevel): number {
+        if (!minProficiency) {
+            return 1;
+        }
+        const levels = this.resolveKeys(claim.proficiency || {});
+        const level = levels[this.resolve(capability)] ?? 'competent';
+        return Math.min(1, PROFICIENCY_LEVELS[level] / PROFICIENCY_LEVELS[minProficiency]);
+    }
+
+    private resolveKeys<T>(values: Record<string, T>): Record<string, T> {
+        return Object.fromEntries(Object.entries(values).map(([key, value]) => [this.resolve(key), value]));
+    }
+}
+
+function normalize(capability: string): string {
+    return capability.trim().toLowerCase().replace(/[\s-]+/g, '_');
+}
+
+/**
+ * The default ontology, shared by bidding and distribution
+ */
+export const defaultCapabilityTaxonomy = new CapabilityTaxonomy();
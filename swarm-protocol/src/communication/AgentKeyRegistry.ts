@@ -0,0 +1,217 @@
+import {
+    Client,
+    AccountId,
+    AccountInfoQuery,
+    PublicKey
+} from '@hashgraph/sdk';
+import { EventEmitter } from 'events';
+import { promises as fs } from 'fs';
+import { KeyType, parsePublicKey } from '../utils/signatures';
+
+export type KeySource = 'local' | 'file' | 'contract' | 'announcement' | 'manual';
+
+export interface AgentKeyRecord {
+    accountId: string;
+    publicKey: string; // DER encoded, so the key type is unambiguous
+    source: KeySource;
+    registeredAt: number;
+}
+
+/**
+ * Resolves the on-ledger key for an account (e.g. via AccountInfoQuery)
+ */
+export type AccountKeyResolver = (accountId: string) => Promise<PublicKey | null>;
+
+// Sources that may replace a key learned from a weaker source
+const SOURCE_TRUST: Record<KeySource, number> = {
+    announcement: 0,
+    file: 1,
+    manual: 1,
+    contract: 2,
+    local: 3
+};
+
+/**
+ * Registry of agent public keys used to verify swarm message signatures
+ */
+export class AgentKeyRegistry extends EventEmitter {
+    private keys: Map<string, AgentKeyRecord> = new Map();
+    private encryptionKeys: Map<string, string> = new Map();
+    private resolver?: AccountKeyResolver;
+
+    constructor(resolver?: AccountKeyResolver) {
+        super();
+        this.resolver = resolver;
+    }
+
+    /**
+     * Register a public key for an agent account
+     */
+    register(
+        accountId: string,
+        publicKey: string | PublicKey,
+        source: KeySource = 'manual',
+        keyType?: KeyType
+    ): boolean {
+        const existing = this.keys.get(accountId);
+        const derKey = parsePublicKey(publicKey, keyType).toStringDer();
+
+        if (existing && existing.publicKey !== derKey &&
+            SOURCE_TRUST[source] < SOURCE_TRUST[existing.source]) {
+            this.emit('keyConflict', { accountId, existing, attempted: { publicKey: derKey, source } });
+            return false;
+        }
+
+        const record: AgentKeyRecord = {
+            accountId,
+            publicKey: derKey,
+            source,
+            registeredAt: Date.now()
+        };
+
+        this.keys.set(accountId, record);
+        this.emit('keyRegistered', record);
+        return true;
+    }
+
+    /**
+     * Register the key of an agent seen in an orchestrator `AgentRegistered`
+     * event. The event only carries the EVM address, so the key is resolved
+     * from the account itself.
+     */
+    async handleAgentRegistered(agentAddress: string): Promise<boolean> {
+        if (!this.resolver) {
+            throw new Error('Account key resolver not configured');
+        }
+
+        const accountId = agentAddress.startsWith('0x') || agentAddress.length === 40
+            ? AccountId.fromSolidityAddress(agentAddress).toString()
+            : agentAddress;
+
+        const publicKey = await this.resolver(accountId);
+        if (!publicKey) {
+            return false;
+        }
+
+        return this.register(accountId, publicKey, 'contract');
+    }
+
+    /**
+     * Handle a key announced by an agent on a topic. The announcement must
+     * already be signed with the announced key; it is only trusted for
+     * accounts with no known key, or when it matches the on-ledger account key.
+     */
+    async handleAnnouncement(accountId: string, publicKey: string): Promise<boolean> {
+        const existing = this.keys.get(accountId);
+        const announced = parsePublicKey(publicKey).toStringDer();
+
+        if (existing) {
+            return existing.publicKey === announced;
+        }
+
+        if (this.resolver) {
+            const accountKey = await this.resolver(accountId);
+            if (!accountKey || accountKey.toStringDer() !== announced) {
+                this.emit('keyConflict', {
+                    accountId,
+                    existing: null,
+                    attempted: { publicKey: announced, source: 'announcement' }
+                });
+                return false;
+            }
+            return this.register(accountId, announced, 'contract');
+        }
+
+        return this.register(accountId, announced, 'announcement');
+    }
+
+    /**
+     * Register an agent's X25519 message encryption key. Callers must have
+     * authenticated the key against the agent's signing key first.
+     */
+    registerEncryptionKey(accountId: string, publicKey: string): void {
+        this.encryptionKeys.set(accountId, publicKey);
+        this.emit('encryptionKeyRegistered', { accountId, publicKey });
+    }
+
+    getEncryptionKey(accountId: string): string | undefined {
+        return this.encryptionKeys.get(accountId);
+    }
+
+    /**
+     * Get an agent's public key
+     */
+    getPublicKey(accountId: string): PublicKey | undefined {
+        const record = this.keys.get(accountId);
+        return record ? PublicKey.fromString(record.publicKey) : undefined;
+    }
+
+    getRecord(accountId: string): AgentKeyRecord | undefined {
+        return this.keys.get(accountId);
+    }
+
+    has(accountId: string): boolean {
+        return this.keys.has(accountId);
+    }
+
+    remove(accountId: string): void {
+        this.keys.delete(accountId);
+        this.encryptionKeys.delete(accountId);
+    }
+
+    getAll(): AgentKeyRecord[] {
+        return Array.from(this.keys.values());
+    }
+
+    /**
+     * Load keys from a JSON file mapping account ids to public keys
+     */
+    async loadFromFile(path: string): Promise<number> {
+        const data = JSON.parse(await fs.readFile(path, 'utf8'));
+        let loaded = 0;
+
+        for (const [accountId, entry] of Object.entries<any>(data)) {
+            const publicKey = typeof entry === 'string' ? entry : entry.publicKey;
+            const keyType = typeof entry === 'string' ? undefined : entry.keyType;
+
+            if (entry.encryptionKey) {
+                this.registerEncryptionKey(accountId, entry.encryptionKey);
+            }
+
+            if (this.register(accountId, publicKey, 'file', keyType)) {
+                loaded++;
+            }
+        }
+
+        return loaded;
+    }
+
+    /**
+     * Save known keys to a JSON file
+     */
+    async saveToFile(path: string): Promise<void> {
+        const data: Record<string, { publicKey: string; encryptionKey?: string }> = {};
+        for (const record of this.keys.values()) {
+            data[record.accountId] = {
+                publicKey: record.publicKey,
+                encryptionKey: this.encryptionKeys.get(record.accountId)
+            };
+        }
+
+        await fs.writeFile(path, JSON.stringify(data, null, 2));
+    }
+}
+
+/**
+ * Resolve account keys from the ledger. Threshold and key-list accounts
+ * have no single signing key and resolve to null.
+ */
+export function createAccountKeyResolver(client: Client): AccountKeyResolver {
+    return async (accountId: string) => {
+        const info = await new AccountInfoQuery()
+            .setAccountId(AccountId.fromString(accountId))
+            .execute(client);
+
+        return info.key instanceof PublicKey ? info.key : null;
+    };
+}
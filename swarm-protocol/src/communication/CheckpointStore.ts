@@ -0,0 +1,91 @@
+import { promises as fs } from 'fs';
+
+/**
+ * Position of a consumer in a topic's consensus log
+ */
+export interface TopicCheckpoint {
+    consumerId: string;
+    topicId: string;
+    sequenceNumber: number;
+    consensusTimestamp: number;
+    recentIds: [string, number][]; // Message keys still inside the replay window
+}
+
+export interface CheckpointStore {
+    load(consumerId: string, topicId: string): Promise<TopicCheckpoint | null>;
+    save(checkpoint: TopicCheckpoint): Promise<void>;
+}
+
+function checkpointKey(consumerId: string, topicId: string): string {
+    return `${consumerId}:${topicId}`;
+}
+
+/**
+ * Checkpoints kept for the lifetime of the process
+ */
+export class InMemoryCheckpointStore implements CheckpointStore {
+    private checkpoints: Map<string, TopicCheckpoint> = new Map();
+
+    async load(consumerId: string, topicId: string): Promise<TopicCheckpoint | null> {
+        return this.checkpoints.get(checkpointKey(consumerId, topicId)) || null;
+    }
+
+    async save(checkpoint: TopicCheckpoint): Promise<void> {
+        this.checkpoints.set(checkpointKey(checkpoint.consumerId, checkpoint.topicId), checkpoint);
+    }
+}
+
+/**
+ * Checkpoints persisted to a single JSON file. Writes are serialized so a
+ * burst of saves never interleaves on disk.
+ */
+export class FileCheckpointStore implements CheckpointStore {
+    private path: string;
+    private checkpoints: Promise<Map<string, TopicCheckpoint>> | null = null;
+    private writing: Promise<void> = Promise.resolve();
+
+    constructor(path: string) {
+        this.path = path;
+    }
+
+    async load(consumerId: string, topicId: string): Promise<TopicCheckpoint | null> {
+        const checkpoints = await this.readAll();
+        return checkpoints.get(checkpointKey(consumerId, topicId)) || null;
+    }
+
+    async save(checkpoint: TopicCheckpoint): Promise<void> {
+        const checkpoints = await this.readAll();
+        checkpoints.set(checkpointKey(checkpoint.consumerId, checkpoint.topicId), checkpoint);
+
+        this.writing = this.writing.catch(() => undefined).then(async () => {
+            const tmpPath = `${this.path}.tmp`;
+            await fs.writeFile(tmpPath, JSON.stringify(Array.from(checkpoints.values()), null, 2));
+            await fs.rename(tmpPath, this.path);
+        });
+
+        return this.writing;
+    }
+
+    private readAll(): Promise<Map<string, TopicCheckpoint>> {
+        if (!this.checkpoints) {
+            this.checkpoints = this.readFile();
+        }
+        return this.checkpoints;
+    }
+
+    private async readFile(): Promise<Map<string, TopicCheckpoint>> {
+        const checkpoints = new Map<string, TopicCheckpoint>();
+        try {
+            const data: TopicCheckpoint[] = JSON.parse(await fs.readFile(this.path, 'utf8'));
+            for (const checkpoint of data) {
+                checkpoints.set(checkpointKey(checkpoint.consumerId, checkpoint.topicId), checkpoint);
+            }
+        } catch (error: unknown) {
+            if (!(typeof error === 'object' && error !== null && 'code' in error && error.code === 'ENOENT')) {
+                throw error;
+            }
+        }
+
+        return checkpoints;
+    }
+}
@@ -1,73 +1,110 @@
 import {
-    Client,
     TopicId,
-    TopicCreateTransaction,
-    TopicMessageSubmitTransaction,
-    TopicMessageQuery,
     PrivateKey,
     PublicKey,
-    AccountId,
-    Hbar
+    AccountId
 } from '@hashgraph/sdk';
 import { EventEmitter } from 'events';
-import crypto from 'crypto';
-
-export enum MessageType {
-    TASK_ANNOUNCEMENT = 'TASK_ANNOUNCEMENT',
-    AGENT_BID = 'AGENT_BID',
-    CONSENSUS_PROPOSAL = 'CONSENSUS_PROPOSAL',
-    CONSENSUS_VOTE = 'CONSENSUS_VOTE',
-    KNOWLEDGE_SHARE = 'KNOWLEDGE_SHARE',
-    REPUTATION_UPDATE = 'REPUTATION_UPDATE',
-    COLLABORATION_REQUEST = 'COLLABORATION_REQUEST',
-    COLLABORATION_RESPONSE = 'COLLABORATION_RESPONSE',
-    HEARTBEAT = 'HEARTBEAT'
-}
+import {
+    SwarmTransport,
+    TransportSource,
+    TransportSubscription
+} from '../transport/SwarmTransport';
+import { resolveTransport } from '../transport/HederaTransport';
+import { AgentKeyRegistry } from './AgentKeyRegistry';
+import { MessageProcessor } from './MessageProcessor';
+import { CheckpointStore } from './CheckpointStore';
+import { parsePublicKey } from '../utils/signatures';
+import {
+    EncryptedEnvelope,
+    generateEncryptionKeyPair,
+    getEncryptionPublicKey,
+    isEncryptedEnvelope,
+    sealEnvelope,
+    openEnvelope
+} from '../utils/encryption';
+import { MessageType, SwarmMessage } from '../protocol/messages';
+import {
+    ProtocolRejectionReason,
+    createMessage,
+    decodeMessage,
+    signMessage,
+    validateMessage,
+    verifyMessageSignature
+} from '../protocol/codec';
 
-export interface SwarmMessage {
-    id: string;
-    type: MessageType;
-    sender: string;
-    recipient?: string; // For direct messages
-    timestamp: number;
-    payload: any;
-    signature?: string;
-    encrypted?: boolean;
-}
+// Kept for importers that predate the protocol module
+export { MessageType } from '../protocol/messages';
+export type { SwarmMessage } from '../protocol/messages';
 
 export interface TopicSubscription {
     topicId: TopicId;
-    query: TopicMessageQuery;
+    subscription: TransportSubscription;
     handler: (message: SwarmMessage) => void;
     filter?: (message: SwarmMessage) => boolean;
 }
 
+export type RejectionReason = 
+    ProtocolRejectionReason |
+    'missing_signature' | 
+    'unknown_sender' | 
+    'invalid_signature' | 
+    'untrusted_key' |
+    'decryption_failed';
+
 export interface EncryptionConfig {
     enabled: boolean;
-    publicKey?: string;
-    privateKey?: string;
+    publicKey?: string; // X25519 SPKI DER, base64; derived from privateKey when omitted
+    privateKey?: string; // X25519 PKCS8 DER, base64; generated when omitted
 }
 
 export class HCSMessageHandler extends EventEmitter {
-    private client: Client;
+    private transport: SwarmTransport;
     private accountId: AccountId;
     private privateKey: PrivateKey;
     private subscriptions: Map<string, TopicSubscription> = new Map();
     private messageCache: Map<string, SwarmMessage> = new Map();
     private encryptionConfig: EncryptionConfig;
     private messageHandlers: Map<MessageType, ((message: SwarmMessage) => void)[]> = new Map();
+    private keyRegistry: AgentKeyRegistry;
+    private processor: MessageProcessor;
     
     constructor(
-        client: Client,
+        transport: TransportSource,
         accountId: string,
         privateKey: string,
-        encryptionConfig?: EncryptionConfig
+        encryptionConfig?: EncryptionConfig,
+        keyRegistry?: AgentKeyRegistry,
+        checkpointStore?: CheckpointStore
     ) {
         super();
-        this.client = client;
+        this.transport = resolveTransport(transport);
         this.accountId = AccountId.fromString(accountId);
         this.privateKey = PrivateKey.fromString(privateKey);
         this.encryptionConfig = encryptionConfig || { enabled: false };
+        this.keyRegistry = keyRegistry || new AgentKeyRegistry();
+        
+        // Resume from checkpoints and drop replayed messages
+        this.processor = new MessageProcessor(this.transport, {
+            consumerId: `hcs-handler:${accountId}`,
+            checkpointStore
+        });
+        this.processor.on('messageRejected', (event) => this.emit('messageRejected', event));
+        
+        // Our own messages must verify too
+        this.keyRegistry.register(this.accountId.toString(), this.privateKey.publicKey, 'local');
+        
+        if (this.encryptionConfig.enabled) {
+            if (!this.encryptionConfig.privateKey) {
+                this.encryptionConfig = { ...this.encryptionConfig, ...generateEncryptionKeyPair() };
+            }
+            this.encryptionConfig.publicKey = this.encryptionConfig.publicKey ||
+                getEncryptionPublicKey(this.encryptionConfig.privateKey!);
+            this.keyRegistry.registerEncryptionKey(
+                this.accountId.toString(),
+                this.encryptionConfig.publicKey
+            );
+        }
         
         // Initialize message type handlers
         for (const type of Object.values(MessageType)) {
@@ -83,27 +120,14 @@ export class HCSMessageHandler extends EventEmitter {
         submitKey?: PublicKey,
         adminKey?: PrivateKey
     ): Promise<TopicId> {
-        const topicCreateTx = new TopicCreateTransaction()
-            .setTopicMemo(memo)
-            .setMaxTransactionFee(new Hbar(5));
-            
-        if (submitKey) {
-            topicCreateTx.setSubmitKey(submitKey);
-        }
-        
-        if (adminKey) {
-            topicCreateTx.setAdminKey(adminKey);
-        }
-        
-        const txResponse = await topicCreateTx.execute(this.client);
-        const receipt = await txResponse.getReceipt(this.client);
-        
-        if (!receipt.topicId) {
-            throw new Error('Failed to create topic');
-        }
+        const topicId = await this.transport.createTopic({
+            memo,
+            submitKey,
+            adminKey
+        });
         
-        console.log(`Created topic ${receipt.topicId} with memo: ${memo}`);
-        return receipt.topicId;
+        console.log(`Created topic ${topicId} with memo: ${memo}`);
+        return TopicId.fromString(topicId);
     }
     
     /**
@@ -113,25 +137,23 @@ export class HCSMessageHandler extends EventEmitter {
         topicId: string | TopicId,
         message: SwarmMessage
     ): Promise<void> {
+        // Refuse to publish anything other agents could not decode
+        validateMessage(message);
+        
         // Sign the message
-        message.signature = this.signMessage(message);
+        message.signature = signMessage(this.privateKey, message);
         
         // Encrypt if needed
         let messageContent = JSON.stringify(message);
-        if (this.encryptionConfig.enabled && message.encrypted) {
-            messageContent = this.encryptMessage(messageContent);
+        if (message.encrypted) {
+            messageContent = JSON.stringify(this.encryptMessage(message, messageContent));
         }
         
         const topicIdObj = typeof topicId === 'string' 
             ? TopicId.fromString(topicId) 
             : topicId;
             
-        const submitTx = new TopicMessageSubmitTransaction()
-            .setTopicId(topicIdObj)
-            .setMessage(messageContent)
-            .setMaxTransactionFee(new Hbar(1));
-            
-        await submitTx.execute(this.client);
+        await this.transport.publish(topicIdObj.toString(), messageContent);
         
         // Cache the message
         this.messageCache.set(message.id, message);
@@ -143,13 +165,13 @@ export class HCSMessageHandler extends EventEmitter {
     }
     
     /**
-     * Subscribe to a topic
+     * Subscribe to a topic, resuming after the last processed message
      */
-    subscribeToTopic(
+    async subscribeToTopic(
         topicId: string | TopicId,
         handler?: (message: SwarmMessage) => void,
         filter?: (message: SwarmMessage) => boolean
-    ): void {
+    ): Promise<void> {
         const topicIdObj = typeof topicId === 'string' 
             ? TopicId.fromString(topicId) 
             : topicId;
@@ -162,66 +184,105 @@ export class HCSMessageHandler extends EventEmitter {
             return;
         }
         
-        const query = new TopicMessageQuery()
-            .setTopicId(topicIdObj)
-            .setStartTime(0);
-            
-        const subscription: TopicSubscription = {
+        const messageHandler = handler || ((msg: SwarmMessage) => this.handleMessage(msg));
+        
+        // The processor delivers strictly in consensus order, even when
+        // verifying a sender requires an async key lookup
+        const transportSubscription = await this.processor.subscribe(topicIdStr, (content) =>
+            this.processIncoming(topicIdStr, content, messageHandler, filter)
+        );
+        
+        this.subscriptions.set(topicIdStr, {
             topicId: topicIdObj,
-            query,
-            handler: handler || ((msg) => this.handleMessage(msg)),
+            subscription: transportSubscription,
+            handler: messageHandler,
             filter
-        };
-        
-        query.subscribe(this.client, async (message) => {
-            try {
-                let messageContent = Buffer.from(message.contents).toString();
-                
-                // Try to decrypt if encrypted
-                if (this.encryptionConfig.enabled) {
-                    try {
-                        const decrypted = this.decryptMessage(messageContent);
-                        if (decrypted) {
-                            messageContent = decrypted;
-                        }
-                    } catch (e) {
-                        // Not encrypted or not for us
-                    }
-                }
-                
-                const swarmMessage = JSON.parse(messageContent) as SwarmMessage;
-                
-                // Verify signature
-                if (!this.verifyMessage(swarmMessage)) {
-                    console.warn('Invalid message signature:', swarmMessage.id);
-                    return;
-                }
-                
-                // Apply filter if provided
-                if (filter && !filter(swarmMessage)) {
+        });
+        console.log(`Subscribed to topic ${topicIdStr}`);
+    }
+    
+    /**
+     * Decrypt, authenticate and dispatch a raw topic message
+     */
+    private async processIncoming(
+        topicId: string,
+        content: string,
+        handler: (message: SwarmMessage) => void,
+        filter?: (message: SwarmMessage) => boolean
+    ): Promise<void> {
+        try {
+            let parsed = JSON.parse(content);
+            
+            // Decrypt envelopes addressed to us, ignore the rest
+            if (isEncryptedEnvelope(parsed)) {
+                const decrypted = this.decryptMessage(topicId, parsed);
+                if (!decrypted) {
                     return;
                 }
-                
-                // Cache the message
-                this.messageCache.set(swarmMessage.id, swarmMessage);
-                
-                // Call handler
-                subscription.handler(swarmMessage);
-                
-                // Emit event
-                this.emit('messageReceived', {
-                    topicId: topicIdStr,
-                    message: swarmMessage
+                parsed = JSON.parse(decrypted);
+            }
+            
+            // Validate against the protocol, upgrading older envelopes
+            const decoded = decodeMessage(parsed);
+            if (!decoded.ok) {
+                console.warn(`Rejected undecodable message on ${topicId}: ${decoded.error}`);
+                this.emit('messageRejected', {
+                    topicId,
+                    message: parsed,
+                    reason: decoded.reason
                 });
-                
-            } catch (error) {
-                console.error('Error processing message:', error);
-                this.emit('messageError', { topicId: topicIdStr, error });
+                return;
             }
-        });
-        
-        this.subscriptions.set(topicIdStr, subscription);
-        console.log(`Subscribed to topic ${topicIdStr}`);
+            
+            const swarmMessage = decoded.message;
+            
+            // Learn keys from announcements before verifying
+            if (swarmMessage.type === MessageType.KEY_ANNOUNCEMENT) {
+                await this.handleKeyAnnouncement(swarmMessage);
+            }
+            
+            // Verify signature
+            const rejection = this.verifyMessage(swarmMessage);
+            if (rejection) {
+                console.warn(`Rejected message ${swarmMessage.id} from ${swarmMessage.sender}: ${rejection}`);
+                this.emit('messageRejected', {
+                    topicId,
+                    message: swarmMessage,
+                    reason: rejection
+                });
+                return;
+            }
+            
+            // Encryption keys are trusted once the announcement verified
+            if (swarmMessage.type === MessageType.KEY_ANNOUNCEMENT &&
+                swarmMessage.payload?.encryptionKey) {
+                this.keyRegistry.registerEncryptionKey(
+                    swarmMessage.sender,
+                    swarmMessage.payload.encryptionKey
+                );
+            }
+            
+            // Apply filter if provided
+            if (filter && !filter(swarmMessage)) {
+                return;
+            }
+            
+            // Cache the message
+            this.messageCache.set(swarmMessage.id, swarmMessage);
+            
+            // Call handler
+            handler(swarmMessage);
+            
+            // Emit event
+            this.emit('messageReceived', {
+                topicId,
+                message: swarmMessage
+            });
+            
+        } catch (error) {
+            console.error('Error processing message:', error);
+            this.emit('messageError', { topicId, error });
+        }
     }
     
     /**
@@ -230,8 +291,7 @@ export class HCSMessageHandler extends EventEmitter {
     unsubscribeFromTopic(topicId: string): void {
         const subscription = this.subscriptions.get(topicId);
         if (subscription) {
-            // Note: HCS doesn't provide a way to stop subscriptions
-            // In production, you might want to implement a flag to ignore messages
+            subscription.subscription.unsubscribe();
             this.subscriptions.delete(topicId);
             console.log(`Unsubscribed from topic ${topicId}`);
         }
@@ -258,15 +318,28 @@ export class HCSMessageHandler extends EventEmitter {
         payload: any,
         topicId: string
     ): Promise<void> {
-        const message: SwarmMessage = {
-            id: this.generateMessageId(),
-            type,
-            sender: this.accountId.toString(),
+        const message = createMessage(type, this.accountId.toString(), payload, {
             recipient,
-            timestamp: Date.now(),
-            payload,
-            encrypted: true // Direct messages should be encrypted
-        };
+            encrypted: this.encryptionConfig.enabled // Direct messages are encrypted whenever we can
+        });
+        
+        await this.publishMessage(topicId, message);
+    }
+    
+    /**
+     * Send an encrypted message readable only by the given agents,
+     * e.g. the members of a collaboration topic
+     */
+    async sendEncryptedMessage(
+        recipients: string[],
+        type: MessageType,
+        payload: any,
+        topicId: string
+    ): Promise<void> {
+        const message = createMessage(type, this.accountId.toString(), payload, {
+            recipients,
+            encrypted: true
+        });
         
         await this.publishMessage(topicId, message);
     }
@@ -279,17 +352,52 @@ export class HCSMessageHandler extends EventEmitter {
         payload: any,
         topicId: string
     ): Promise<void> {
-        const message: SwarmMessage = {
-            id: this.generateMessageId(),
-            type,
-            sender: this.accountId.toString(),
-            timestamp: Date.now(),
-            payload
-        };
+        const message = createMessage(type, this.accountId.toString(), payload);
         
         await this.publishMessage(topicId, message);
     }
     
+    /**
+     * Announce our public key so other agents can verify our messages
+     */
+    async announcePublicKey(topicId: string): Promise<void> {
+        await this.broadcastMessage(
+            MessageType.KEY_ANNOUNCEMENT,
+            {
+                publicKey: this.privateKey.publicKey.toStringDer(),
+                encryptionKey: this.encryptionConfig.enabled
+                    ? this.encryptionConfig.publicKey
+                    : undefined
+            },
+            topicId
+        );
+    }
+    
+    /**
+     * Get the registry used to verify message senders
+     */
+    getKeyRegistry(): AgentKeyRegistry {
+        return this.keyRegistry;
+    }
+    
+    /**
+     * Register a key announced on a topic, provided the announcement is
+     * signed by the announced key itself
+     */
+    private async handleKeyAnnouncement(message: SwarmMessage): Promise<void> {
+        const publicKey = message.payload?.publicKey;
+        if (!publicKey || !message.signature || this.keyRegistry.has(message.sender)) {
+            return;
+        }
+        
+        const announcedKey = parsePublicKey(publicKey);
+        if (!verifyMessageSignature(announcedKey, message)) {
+            return;
+        }
+        
+        await this.keyRegistry.handleAnnouncement(message.sender, publicKey);
+    }
+    
     /**
      * Handle incoming message
      */
@@ -298,6 +406,9 @@ export class HCSMessageHandler extends EventEmitter {
         if (message.recipient && message.recipient !== this.accountId.toString()) {
             return;
         }
+        if (message.recipients && !message.recipients.includes(this.accountId.toString())) {
+            return;
+        }
         
         // Call type-specific handlers
         const handlers = this.messageHandlers.get(message.type);
@@ -316,92 +427,74 @@ export class HCSMessageHandler extends EventEmitter {
     }
     
     /**
-     * Sign a message
+     * Verify message signature against the sender's registered key,
+     * returning the rejection reason for messages that fail
      */
-    private signMessage(message: SwarmMessage): string {
-        const content = JSON.stringify({
-            type: message.type,
-            sender: message.sender,
-            timestamp: message.timestamp,
-            payload: message.payload
-        });
-        
-        const hash = crypto.createHash('sha256').update(content).digest();
-        const signature = this.privateKey.sign(hash);
-        
-        return Buffer.from(signature).toString('hex');
-    }
-    
-    /**
-     * Verify message signature
-     */
-    private verifyMessage(message: SwarmMessage): boolean {
+    private verifyMessage(message: SwarmMessage): RejectionReason | null {
         if (!message.signature) {
-            return false;
+            return 'missing_signature';
         }
         
-        try {
-            const content = JSON.stringify({
-                type: message.type,
-                sender: message.sender,
-                timestamp: message.timestamp,
-                payload: message.payload
-            });
-            
-            const hash = crypto.createHash('sha256').update(content).digest();
-            const signature = Buffer.from(message.signature, 'hex');
-            
-            // In production, you would get the sender's public key from registry
-            // For now, we'll skip verification
-            return true;
-        } catch (error) {
-            console.error('Signature verification error:', error);
-            return false;
+        const publicKey = this.keyRegistry.getPublicKey(message.sender);
+        if (!publicKey) {
+            return message.type === MessageType.KEY_ANNOUNCEMENT
+                ? 'untrusted_key'
+                : 'unknown_sender';
+        }
+        
+        if (!verifyMessageSignature(publicKey, message)) {
+            return 'invalid_signature';
         }
+        
+        return null;
     }
     
     /**
-     * Encrypt a message
+     * Encrypt a signed message for its recipients (and ourselves, so our
+     * own copy stays readable)
      */
-    private encryptMessage(content: string): string {
-        if (!this.encryptionConfig.publicKey) {
-            throw new Error('Encryption public key not configured');
+    private encryptMessage(message: SwarmMessage, content: string): EncryptedEnvelope {
+        if (!this.encryptionConfig.enabled) {
+            throw new Error('Encryption is not enabled');
         }
         
-        // Simple encryption - in production use proper encryption
-        const cipher = crypto.createCipher('aes-256-cbc', this.encryptionConfig.publicKey);
-        let encrypted = cipher.update(content, 'utf8', 'hex');
-        encrypted += cipher.final('hex');
+        const recipients = new Set([
+            ...(message.recipient ? [message.recipient] : []),
+            ...(message.recipients || []),
+            this.accountId.toString()
+        ]);
         
-        return encrypted;
+        const recipientKeys = Array.from(recipients).map((accountId) => {
+            const key = this.keyRegistry.getEncryptionKey(accountId);
+            if (!key) {
+                throw new Error(`No encryption key registered for ${accountId}`);
+            }
+            return key;
+        });
+        
+        return sealEnvelope(content, recipientKeys);
     }
     
     /**
-     * Decrypt a message
+     * Decrypt an envelope, returning null when it is not addressed to us
      */
-    private decryptMessage(encrypted: string): string | null {
-        if (!this.encryptionConfig.privateKey) {
+    private decryptMessage(topicId: string, envelope: EncryptedEnvelope): string | null {
+        if (!this.encryptionConfig.enabled) {
             return null;
         }
         
         try {
-            const decipher = crypto.createDecipher('aes-256-cbc', this.encryptionConfig.privateKey);
-            let decrypted = decipher.update(encrypted, 'hex', 'utf8');
-            decrypted += decipher.final('utf8');
-            
-            return decrypted;
+            return openEnvelope(envelope, this.encryptionConfig.privateKey!);
         } catch (error) {
+            this.emit('messageRejected', {
+                topicId,
+                message: envelope,
+                reason: 'decryption_failed'
+            });
             return null;
         }
     }
     
-    /**
-     * Generate unique message ID
-     */
-    private generateMessageId(): string {
-        return `${this.accountId.toString()}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-    }
-    
     /**
      * Get cached messages
      */
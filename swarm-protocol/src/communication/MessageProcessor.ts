@@ -0,0 +1,222 @@
+import { EventEmitter } from 'events';
+import {
+    SwarmTransport,
+    TransportMessage,
+    TransportSubscription,
+    decodeContents
+} from '../transport/SwarmTransport';
+import {
+    CheckpointStore,
+    InMemoryCheckpointStore,
+    TopicCheckpoint
+} from './CheckpointStore';
+
+export type ReplayRejectionReason = 'duplicate_sequence' | 'replayed' | 'stale' | 'future';
+
+export interface MessageProcessorConfig {
+    consumerId: string; // Distinguishes checkpoints of components sharing a store
+    checkpointStore?: CheckpointStore;
+    replayWindow: number; // Max age (ms) of a message's own timestamp at consensus
+    maxClockSkew: number; // Max time (ms) a message's timestamp may run ahead of consensus
+}
+
+/**
+ * Identity and claimed send time of a message, used for replay checks
+ */
+export interface MessageIdentity {
+    key?: string; // id or nonce; messages without one are only told apart by sequence number
+    timestamp?: number;
+}
+
+export type ProcessedMessageHandler = (
+    content: string,
+    message: TransportMessage
+) => void | Promise<void>;
+
+/**
+ * Default identity extraction for JSON swarm messages
+ */
+export function identifyJsonMessage(content: string): MessageIdentity {
+    try {
+        const data = JSON.parse(content);
+        const key = data.id || data.nonce ||
+            (data.proposal?.id && data.type ? `${data.type}:${data.proposal.id}` : undefined);
+        const timestamp = typeof data.timestamp === 'string'
+            ? Date.parse(data.timestamp)
+            : data.timestamp;
+
+        return {
+            key: key ? String(key) : undefined,
+            timestamp: Number.isFinite(timestamp) ? timestamp : undefined
+        };
+    } catch (error) {
+        return {};
+    }
+}
+
+interface TopicState {
+    checkpoint: TopicCheckpoint;
+    recentIds: Map<string, number>;
+    subscription?: TransportSubscription;
+    processing: Promise<void>;
+}
+
+/**
+ * Exactly-once, in-order delivery on top of a SwarmTransport.
+ *
+ * Tracks the last processed consensus sequence number per topic, drops
+ * re-delivered sequence numbers, rejects messages whose own timestamp falls
+ * outside the replay window around their consensus time, rejects repeated
+ * ids/nonces inside that window, and persists a checkpoint after each
+ * message so a restarted agent resumes where it stopped.
+ */
+export class MessageProcessor extends EventEmitter {
+    private transport: SwarmTransport;
+    private config: MessageProcessorConfig;
+    private store: CheckpointStore;
+    private topics: Map<string, TopicState> = new Map();
+
+    constructor(transport: SwarmTransport, config: Partial<MessageProcessorConfig> & { consumerId: string }) {
+        super();
+        this.transport = transport;
+        this.config = {
+            replayWindow: 10 * 60 * 1000, // 10 minutes
+            maxClockSkew: 60 * 1000, // 1 minute
+            ...config
+        };
+        this.store = this.config.checkpointStore || new InMemoryCheckpointStore();
+    }
+
+    /**
+     * Subscribe to a topic, resuming after the stored checkpoint
+     */
+    async subscribe(
+        topicId: string,
+        handler: ProcessedMessageHandler,
+        identify: (content: string) => MessageIdentity = identifyJsonMessage
+    ): Promise<TransportSubscription> {
+        if (this.topics.get(topicId)?.subscription) {
+            throw new Error(`Already processing topic ${topicId}`);
+        }
+
+        const stored = await this.store.load(this.config.consumerId, topicId);
+        const checkpoint: TopicCheckpoint = stored || {
+            consumerId: this.config.consumerId,
+            topicId,
+            sequenceNumber: 0,
+            consensusTimestamp: 0,
+            recentIds: []
+        };
+
+        const state: TopicState = {
+            checkpoint,
+            recentIds: new Map(checkpoint.recentIds),
+            processing: Promise.resolve()
+        };
+        this.topics.set(topicId, state);
+
+        // Start time is inclusive; the sequence check drops the checkpointed message itself
+        // A failure, e.g. a checkpoint that could not be saved, must not stop the topic
+        state.subscription = this.transport.subscribe(topicId, (message) => {
+            state.processing = state.processing
+                .then(() => this.process(state, message, handler, identify))
+                .catch((error) => {
+                    console.error(`Error processing message ${message.sequenceNumber} on ${message.topicId}:`, error);
+                    this.emit('messageError', { topicId: message.topicId, sequenceNumber: message.sequenceNumber, error });
+                });
+        }, { startTime: checkpoint.consensusTimestamp });
+
+        return {
+            topicId,
+            unsubscribe: () => {
+                state.subscription?.unsubscribe();
+                state.subscription = undefined;
+            }
+        };
+    }
+
+    /**
+     * Get the last processed position on a topic
+     */
+    getCheckpoint(topicId: string): TopicCheckpoint | undefined {
+        return this.topics.get(topicId)?.checkpoint;
+    }
+
+    /**
+     * Wait for every message received so far to finish processing
+     */
+    async drain(): Promise<void> {
+        await Promise.all(Array.from(this.topics.values()).map(state => state.processing));
+    }
+
+    private async process(
+        state: TopicState,
+        message: TransportMessage,
+        handler: ProcessedMessageHandler,
+        identify: (content: string) => MessageIdentity
+    ): Promise<void> {
+        const { checkpoint } = state;
+
+        if (message.sequenceNumber <= checkpoint.sequenceNumber) {
+            this.reject(message, 'duplicate_sequence');
+            return;
+        }
+
+        const content = decodeContents(message);
+        const identity = identify(content);
+        // Identical messages without an id may be legitimate, e.g. repeated
+        // heartbeats; the sequence check already drops re-deliveries
+        const key = identity.key ?? `#${message.sequenceNumber}`;
+
+        this.pruneRecentIds(state, message.consensusTimestamp);
+
+        let rejection: ReplayRejectionReason | null = null;
+        if (identity.timestamp !== undefined &&
+            message.consensusTimestamp - identity.timestamp > this.config.replayWindow) {
+            rejection = 'stale';
+        } else if (identity.timestamp !== undefined &&
+            identity.timestamp - message.consensusTimestamp > this.config.maxClockSkew) {
+            rejection = 'future';
+        } else if (identity.key !== undefined && state.recentIds.has(key)) {
+            rejection = 'replayed';
+        }
+
+        if (rejection) {
+            this.reject(message, rejection, key);
+        } else {
+            if (identity.key !== undefined) {
+                state.recentIds.set(key, message.consensusTimestamp);
+            }
+            try {
+                await handler(content, message);
+            } catch (error) {
+                console.error(`Error handling message ${message.sequenceNumber} on ${message.topicId}:`, error);
+                this.emit('messageError', { topicId: message.topicId, sequenceNumber: message.sequenceNumber, error });
+            }
+        }
+
+        // Rejected messages still advance the checkpoint; they must never be processed later
+        checkpoint.sequenceNumber = message.sequenceNumber;
+        checkpoint.consensusTimestamp = message.consensusTimestamp;
+        checkpoint.recentIds = Array.from(state.recentIds.entries());
+        await this.store.save(checkpoint);
+    }
+
+    private pruneRecentIds(state: TopicState, now: number): void {
+        // Anything older than the window is rejected as stale anyway
+        for (const [key, seenAt] of state.recentIds) {
+            if (now - seenAt > this.config.replayWindow + this.config.maxClockSkew) {
+                state.recentIds.delete(key);
+            }
+        }
+    }
+
+    private reject(message: TransportMessage, reason: ReplayRejectionReason, key?: string): void {
+        this.emit('messageRejected', {
+            topicId: message.topicId,
+            sequenceNumber: message.sequenceNumber,
+            reason,
+            key
+        });
+    }
+}
@@ -0,0 +1,238 @@
+import { EventEmitter } from 'events';
+import type { AgentProfile, HeartbeatTask } from './TaskDistributor';
+import type { ContractSubscription, ReputationContract } from '../reputation/ReputationContract';
+import { CapabilityTaxonomy, defaultCapabilityTaxonomy } from '../capabilities/CapabilityTaxonomy';
+
+export interface AgentDirectoryConfig {
+    onlineTimeout: number; // How long (ms) after it was last seen an agent still counts as online
+    specializationThreshold: number; // Successful tasks needing a capability before it is a specialization
+    maxSpecializations: number;
+    defaultConcurrency: number; // Tasks at once assumed for agents that state no limit
+    taxonomy: CapabilityTaxonomy; // How agents' capabilities are matched to wanted ones
+}
+
+/**
+ * When an agent was last heard from, and what it said
+ */
+export interface AgentPresence {
+    registeredAt?: number; // When the orchestrator registered it, if seen
+    lastSeen: number;
+    status?: string; // From its last heartbeat, e.g. idle or busy
+    reportedTasks: number; // Tasks its last heartbeat said it was working on
+}
+
+export interface AgentQuery {
+    capabilities?: string[]; // Wanted; agents need to cover at least one
+    requireAll?: boolean; // Only agents with every wanted capability
+    exclude?: string[];
+    includeOffline?: boolean;
+    limit?: number;
+}
+
+export interface RankedAgent {
+    profile: AgentProfile;
+    score: number; // 0-1, best first
+    matched: string[]; // Wanted capabilities it covers
+    online: boolean;
+}
+
+/**
+ * Profiles of the agents in the swarm, built from orchestrator
+ * registrations, heartbeats and the outcome of the tasks they worked on,
+ * with lookup of the best agents for a set of capabilities.
+ */
+export class AgentDirectory extends EventEmitter {
+    private profiles: Map<string, AgentProfile> = new Map();
+    private presence: Map<string, AgentPresence> = new Map();
+    private successes: Map<string, Map<string, number>> = new Map(); // Successful tasks by agent, then capability
+    private timed: Map<string, number> = new Map(); // Completions counted in each agent's average time
+    private config: AgentDirectoryConfig;
+
+    constructor(config?: Partial<AgentDirectoryConfig>) {
+        super();
+        this.config = {
+            onlineTimeout: 10 * 60 * 1000, // 10 minutes
+            specializationThreshold: 3,
+            maxSpecializations: 3,
+            defaultConcurrency: 3,
+            taxonomy: defaultCapabilityTaxonomy,
+            ...config
+        };
+    }
+
+    /**
+     * Add agents as the orchestrator registers them, and follow their
+     * on-chain reputation
+     */
+    watch(contract: ReputationContract): ContractSubscription {
+        return contract.subscribe((event) => {
+            if (event.type === 'agentRegistered') {
+                this.register(event.accountId, event.capabilities, event.timestamp);
+            } else if (event.type === 'reputationUpdated' && this.profiles.has(event.accountId)) {
+                this.update(event.accountId, profile => profile.reputation = event.newScore);
+            }
+        });
+    }
+
+    /**
+     * Add a newly registered agent, or refresh the capabilities of a known one
+     */
+    register(accountId: string, capabilities: string[], timestamp: number = Date.now()): AgentProfile {
+        const known = this.profiles.get(accountId);
+        const profile = known
+            ? { ...known, capabilities: [...capabilities] }
+            : {
+                accountId,
+                capabilities: [...capabilities],
+                reputation: 100, // As the orchestrator starts every agent
+                activeTaskCount: 0,
+                completedTaskCount: 0,
+                successRate: 0,
+                averageCompletionTime: 0
+            };
+
+        this.upsert(profile, timestamp);
+        this.presence.get(accountId)!.registeredAt = timestamp;
+        if (!known) {
+            this.emit('agentRegistered', profile);
+        }
+        return profile;
+    }
+
+    /**
+     * Add or replace a profile as a whole
+     */
+    upsert(profile: AgentProfile, timestamp: number = Date.now()): void {
+        this.profiles.set(profile.accountId, profile);
+        if (!this.presence.has(profile.accountId)) {
+            this.presence.set(profile.accountId, { lastSeen: timestamp, reportedTasks: 0 });
+        }
+        this.emit('profileUpdated', profile);
+    }
+
+    /**
+     * Note an agent's heartbeat; agents not in the directory are ignored
+     * until they register
+     */
+    recordHeartbeat(accountId: string, tasks: HeartbeatTask[] = [], status?: string, timestamp: number = Date.now()): void {
+        const presence = this.presence.get(accountId);
+        if (!presence) {
+            return;
+        }
+
+        presence.lastSeen = Math.max(presence.lastSeen, timestamp);
+        presence.status = status;
+        presence.reportedTasks = tasks.length;
+        this.emit('agentSeen', { accountId, timestamp, status });
+    }
+
+    adjustActiveTasks(accountId: string, delta: number): void {
+        this.update(accountId, profile => {
+            profile.activeTaskCount = Math.max(0, profile.activeTaskCount + delta);
+        });
+    }
+
+    /**
+     * Fold a finished task into an agent's track record. Successful tasks
+     * count towards its average completion time and make the capabilities
+     * they needed its specializations.
+     *
+     * @param duration Time (ms) from assignment to completion, when known
+     * @param capabilities What the task needed
+     */
+    recordOutcome(accountId: string, success: boolean, duration?: number, capabilities: string[] = []): void {
+        this.update(accountId, profile => {
+            profile.activeTaskCount = Math.max(0, profile.activeTaskCount - 1);
+            profile.completedTaskCount++;
+            profile.successRate = (profile.successRate * (profile.completedTaskCount - 1) + (success ? 1 : 0))
+                / profile.completedTaskCount;
+            if (!success) {
+                return;
+            }
+
+            if (duration !== undefined) {
+                const timed = (this.timed.get(accountId) ?? 0) + 1;
+                this.timed.set(accountId, timed);
+                profile.averageCompletionTime += (duration - profile.averageCompletionTime) / timed;
+            }
+
+            const counts = this.successes.get(accountId) ?? new Map<string, number>();
+            capabilities.forEach(capability => counts.set(capability, (counts.get(capability) ?? 0) + 1));
+            this.successes.set(accountId, counts);
+            const specializations = Array.from(counts.entries())
+                .filter(([, count]) => count >= this.config.specializationThreshold)
+                .sort((a, b) => b[1] - a[1])
+                .slice(0, this.config.maxSpecializations)
+                .map(([capability]) => capability);
+            if (specializations.length > 0) {
+                profile.specializations = specializations;
+            }
+        });
+    }
+
+    get(accountId: string): AgentProfile | undefined {
+        return this.profiles.get(accountId);
+    }
+
+    getPresence(accountId: string): AgentPresence | undefined {
+        return this.presence.get(accountId);
+    }
+
+    list(): AgentProfile[] {
+        return Array.from(this.profiles.values());
+    }
+
+    isOnline(accountId: string, now: number = Date.now()): boolean {
+        const presence = this.presence.get(accountId);
+        return !!presence && now - presence.lastSeen <= this.config.onlineTimeout;
+    }
+
+    /**
+     * Agents with the wanted capabilities, best first: by how well they
+     * match them, reputation, track record, specialization and spare capacity
+     */
+    find(query: AgentQuery = {}, now: number = Date.now()): RankedAgent[] {
+        const wanted = query.capabilities || [];
+        const excluded = new Set(query.exclude || []);
+        const ranked: RankedAgent[] = [];
+
+        for (const profile of this.profiles.values()) {
+            const match = this.config.taxonomy.match(profile.capabilities, wanted);
+            const covered = new Set(match.covered);
+            const matched = wanted.filter(capability => covered.has(this.config.taxonomy.resolve(capability)));
+            const online = this.isOnline(profile.accountId, now);
+            if (excluded.has(profile.accountId) ||
+                (!online && !query.includeOffline) ||
+                (wanted.length > 0 && matched.length === 0) ||
+                (query.requireAll && matched.length < wanted.length)) {
+                continue;
+            }
+
+            ranked.push({ profile, score: this.score(profile, match.score, matched, online), matched, online });
+        }
+
+        ranked.sort((a, b) => b.score - a.score || a.profile.accountId.localeCompare(b.profile.accountId));
+        return query.limit !== undefined ? ranked.slice(0, query.limit) : ranked;
+    }
+
+    private score(profile: AgentProfile, coverage: number, matched: string[], online: boolean): number {
+        const reputation = Math.min(profile.reputation / 100, 1);
+        const record = profile.completedTaskCount > 0 ? profile.successRate : 0.5; // Untried agents get the benefit of the doubt
+        const taxonomy = this.config.taxonomy;
+        const specialized = matched.some(capability =>
+            profile.specializations?.some(specialization => taxonomy.satisfies(specialization, capability))) ? 1 : 0;
+        const limit = profile.maxConcurrentTasks ?? this.config.defaultConcurrency;
+        const capacity = limit > 0 ? Math.max(0, 1 - profile.activeTaskCount / limit) : 0;
+
+        const score = 0.3 * coverage + 0.25 * reputation + 0.2 * record + 0.1 * specialized + 0.15 * capacity;
+        return online ? score : score / 2;
+    }
+
+    private update(accountId: string, change: (profile: AgentProfile) => void): void {
+        const profile = this.profiles.get(accountId);
+        if (profile) {
+            change(profile);
+            this.emit('profileUpdated', profile);
+        }
+    }
+}
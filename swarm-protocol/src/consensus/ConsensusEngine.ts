@@ -1,64 +1,235 @@
 import { 
-    Client, 
     TopicId, 
-    TopicMessageSubmitTransaction,
-    TopicMessageQuery,
     AccountId,
     PrivateKey,
     Timestamp
 } from '@hashgraph/sdk';
+import crypto from 'crypto';
 import { EventEmitter } from 'events';
 import { v4 as uuidv4 } from 'uuid';
+import {
+    SwarmTransport,
+    TransportMessage,
+    TransportSource,
+    TransportSubscription
+} from '../transport/SwarmTransport';
+import { resolveTransport } from '../transport/HederaTransport';
+import { AgentKeyRegistry } from '../communication/AgentKeyRegistry';
+import { MessageProcessor } from '../communication/MessageProcessor';
+import { CheckpointStore } from '../communication/CheckpointStore';
+import { BlobStore } from '../storage/BlobStore';
+import {
+    ConsensusStore,
+    ConsensusOutcome,
+    DisputeQuery,
+    InMemoryConsensusStore,
+    ProposalQuery,
+    ReputationChange,
+    StoredProposal
+} from './ConsensusStore';
+import {
+    AgentReputation,
+    AssignmentSource,
+    ConsensusLedger,
+    ConsensusProposal,
+    ConsensusRules,
+    Dispute,
+    Electorate,
+    ElectorateResolver,
+    TaskRound,
+    Vote,
+    VoteChoice,
+    assignedElectorate,
+    computeVoteCommitment
+} from './ConsensusLedger';
+import { ConsensusStrategy } from './ConsensusStrategy';
+import { ReputationRegistry } from '../reputation/ReputationRegistry';
+import { verifyJson, parsePrivateKey } from '../utils/signatures';
+import { MessageType, SwarmMessage } from '../protocol/messages';
+import {
+    DecodeResult,
+    createMessage,
+    encodeMessage,
+    decodeMessage,
+    signMessage,
+    verifyMessageSignature
+} from '../protocol/codec';
 
-export interface ConsensusProposal {
-    id: string;
+export type {
+    AgentReputation,
+    AssignmentSource,
+    ConsensusProposal,
+    Dispute,
+    Electorate,
+    ElectorateResolver,
+    TaskRound,
+    Vote
+} from './ConsensusLedger';
+
+export interface ConsensusConfig extends ConsensusRules {
+    votingPeriod: number; // in milliseconds
+    keyRegistry?: AgentKeyRegistry; // When set, unsigned or forged remote messages are dropped
+    signingKey?: string; // Private key used to sign outgoing proposals and votes
+    checkpointStore?: CheckpointStore; // Resume the consensus topic after restarts
+    consumerId?: string; // Checkpoint owner when several engines share a store
+    store?: ConsensusStore; // Persists proposals, votes and reputations across restarts
+    accountId?: string; // Sender of the clock ticks this engine publishes
+    tickDelay: number; // Wait (ms) past a deadline before publishing a tick that closes a quiet vote
+    confirmationTimeout: number; // Max wait (ms) for our own messages to appear on the topic
+    electorateResolver?: ElectorateResolver; // Who may vote on a task's proposals; the assigned agents, or anyone, when absent
+    assignments?: AssignmentSource; // Task assignments, e.g. the TaskDistributor's, whose agents vote when no resolver is set
+    strategies?: ConsensusStrategy[]; // Custom strategies in addition to the built-in ones
+    disputePeriod?: number; // Jury voting period (ms); the voting period when absent
+    blobStore?: BlobStore; // Where uploaded dispute evidence is stored, e.g. IPFS
+    revealPeriod?: number; // When set, proposals use commit-reveal voting with this reveal phase (ms)
+    reputation?: ReputationRegistry; // Shared with the TaskDistributor; the fixed +5/-2/+10 model when absent
+}
+
+export interface ProposalOptions {
+    quorum?: number; // Overrides the configured quorum
+    strategy?: string; // Overrides the configured strategy
+    revealPeriod?: number; // Overrides the configured reveal period; 0 votes in the open
+    capabilities?: string[]; // Skills the task exercises, e.g. its required capabilities
+}
+
+export interface VoteOptions {
+    value?: number; // Own numeric answer, for confidence-weighted aggregation
+    confidence?: number;
+    ranking?: string[]; // Preference order over competing proposals, for ranked choice
+}
+
+export interface AgentVoteRecord {
+    proposalId: string;
     taskId: string;
-    solution: any;
-    proposer: string;
-    supporters: Map<string, Vote>;
-    rejectors: Map<string, Vote>;
-    confidence: number;
+    support: boolean;
+    weight: number;
     timestamp: number;
-    deadline: number;
-    status: 'pending' | 'accepted' | 'rejected' | 'expired';
+    outcome?: ConsensusOutcome;
 }
 
-export interface Vote {
-    voter: string;
-    weight: number; // Based on reputation
-    timestamp: number;
-    reason?: string;
+export interface AgentConsensusHistory {
+    accountId: string;
+    proposals: StoredProposal[];
+    votes: AgentVoteRecord[];
+    reputation: ReputationChange[];
 }
 
-export interface ConsensusConfig {
-    votingThreshold: number; // e.g., 0.66 for 2/3 majority
-    votingPeriod: number; // in milliseconds
-    minParticipants: number;
-    reputationWeighting: boolean;
+export interface ReplayMismatch {
+    proposalId: string;
+    recorded: StoredProposal;
+    replayed: StoredProposal;
 }
 
-export interface AgentReputation {
-    accountId: string;
-    score: number;
-    tasksCompleted: number;
-    consensusParticipation: number;
+export interface ReplayResult {
+    topicId: string;
+    fromSequenceNumber: number;
+    lastSequenceNumber: number;
+    proposals: StoredProposal[];
+    reputations: AgentReputation[];
+    mismatches: ReplayMismatch[]; // Decided proposals whose replayed outcome differs from ours
+}
+
+// Messages that change consensus state and so must come from their sender
+const SIGNED_TYPES = new Set<string>([
+    MessageType.CONSENSUS_PROPOSAL,
+    MessageType.CONSENSUS_VOTE,
+    MessageType.CONSENSUS_VOTE_COMMIT,
+    MessageType.CONSENSUS_VOTE_REVEAL,
+    MessageType.DISPUTE_RAISED,
+    MessageType.DISPUTE_EVIDENCE,
+    MessageType.DISPUTE_VOTE,
+    MessageType.REPUTATION_LOADED
+]);
+
+function toStoredProposal(proposal: ConsensusProposal): StoredProposal {
+    const votes = [
+        ...Array.from(proposal.supporters.values()).map(vote => ({ ...vote, support: true })),
+        ...Array.from(proposal.rejectors.values()).map(vote => ({ ...vote, support: false }))
+    ];
+    
+    return {
+        id: proposal.id,
+        taskId: proposal.taskId,
+        solution: proposal.solution,
+        proposer: proposal.proposer,
+        confidence: proposal.confidence,
+        timestamp: proposal.timestamp,
+        deadline: proposal.deadline,
+        revealDeadline: proposal.revealDeadline,
+        status: proposal.status,
+        votes: votes.sort((a, b) => a.timestamp - b.timestamp),
+        commitments: proposal.commitments && { ...proposal.commitments },
+        reputationSnapshot: proposal.reputationSnapshot,
+        electorate: proposal.electorate,
+        quorum: proposal.quorum,
+        strategy: proposal.strategy,
+        roundId: proposal.roundId,
+        capabilities: proposal.capabilities,
+        outcome: proposal.outcome,
+        grants: proposal.grants
+    };
+}
+
+function fromStoredProposal(stored: StoredProposal, defaultStrategy: string): ConsensusProposal {
+    const { votes, ...fields } = stored;
+    const voteMap = (support: boolean) => new Map<string, Vote>(
+        votes
+            .filter(vote => vote.support === support)
+            .map(({ support: _, ...vote }) => [vote.voter, vote])
+    );
+    
+    return {
+        ...fields,
+        supporters: voteMap(true),
+        rejectors: voteMap(false),
+        reputationSnapshot: stored.reputationSnapshot || {},
+        quorum: stored.quorum ?? 0,
+        strategy: stored.strategy || defaultStrategy,
+        roundId: stored.roundId || stored.id
+    };
 }
 
+function sameOutcome(a: StoredProposal, b: StoredProposal): boolean {
+    return a.status === b.status &&
+        a.outcome?.supportPercentage === b.outcome?.supportPercentage &&
+        a.outcome?.totalVotes === b.outcome?.totalVotes &&
+        a.outcome?.value === b.outcome?.value &&
+        a.outcome?.winner === b.outcome?.winner &&
+        a.outcome?.decidedAt === b.outcome?.decidedAt;
+}
+
+/**
+ * Reputation-weighted voting on task solutions over a consensus topic.
+ *
+ * Proposals and votes only take effect once they come back from the topic:
+ * the engine feeds the ordered log into a ConsensusLedger, so outcomes are a
+ * pure function of the log and `replay()` can re-derive them independently.
+ */
 export class ConsensusEngine extends EventEmitter {
-    private client: Client;
-    private proposals: Map<string, ConsensusProposal> = new Map();
+    private transport: SwarmTransport;
+    private ledger: ConsensusLedger;
     private config: ConsensusConfig;
-    private reputations: Map<string, AgentReputation> = new Map();
     private consensusTopicId: TopicId;
-    private subscriptions: Map<string, any> = new Map();
+    private subscriptions: Map<string, TransportSubscription> = new Map();
+    private cleanupInterval?: NodeJS.Timeout;
+    private timers: Set<NodeJS.Timeout> = new Set();
+    private signingKey?: PrivateKey;
+    private processor: MessageProcessor;
+    private store: ConsensusStore;
+    private localProposals: Set<string> = new Set();
+    private sealedVotes: Map<string, VoteChoice & { salt: string; reason?: string }> = new Map(); // Until revealed
+    private confirmations: Map<string, () => void> = new Map();
+    private restored: Promise<void> = Promise.resolve();
+    private writes: Set<Promise<void>> = new Set();
+    private stopped = false;
     
     constructor(
-        client: Client,
+        transport: TransportSource,
         consensusTopicId: string,
         config?: Partial<ConsensusConfig>
     ) {
         super();
-        this.client = client;
+        this.transport = resolveTransport(transport);
         this.consensusTopicId = TopicId.fromString(consensusTopicId);
         
         // Default configuration
@@ -66,19 +237,267 @@ export class ConsensusEngine extends EventEmitter {
             votingThreshold: 0.66,
             votingPeriod: 5 * 60 * 1000, // 5 minutes
             minParticipants: 3,
+            quorum: 0.5,
             reputationWeighting: true,
+            tickDelay: 5000,
+            confirmationTimeout: 30000,
             ...config
         };
+        if (!this.config.reputationAuthorities) {
+            // Reputation loads are only taken from this engine unless others are trusted
+            this.config.reputationAuthorities = [this.config.accountId || `consensus-engine:${consensusTopicId}`];
+        }
+        if (!this.config.electorateResolver && this.config.assignments) {
+            this.config.electorateResolver = assignedElectorate(this.config.assignments);
+        }
+        
+        if (this.config.signingKey) {
+            this.signingKey = parsePrivateKey(this.config.signingKey);
+        }
+        
+        this.processor = new MessageProcessor(this.transport, {
+            consumerId: this.config.consumerId || `consensus-engine:${consensusTopicId}`,
+            checkpointStore: this.config.checkpointStore
+        });
+        this.processor.on('messageRejected', (event) => this.emit('messageRejected', event));
+        this.store = this.config.store || new InMemoryConsensusStore();
+        
+        this.ledger = new ConsensusLedger(this.config, this.config.strategies, this.config.reputation,
+            this.config.electorateResolver);
+        this.ledger.on('proposalReceived', (proposal: ConsensusProposal) => {
+            this.persistProposal(proposal);
+            this.scheduleProposalTick(proposal);
+            this.emit(this.localProposals.delete(proposal.id) ? 'proposalCreated' : 'proposalReceived', proposal);
+        });
+        for (const event of ['voteReceived', 'voteCommitted']) {
+            this.ledger.on(event, (data) => {
+                this.persistProposal(this.ledger.getProposal(data.proposalId)!);
+                this.emit(event, data);
+            });
+        }
+        this.ledger.on('consensusReached', (event) => {
+            this.persistProposal(this.ledger.getProposal(event.proposalId)!);
+            this.emit('consensusReached', event);
+        });
+        this.ledger.on('roundDecided', (event) => this.emit('roundDecided', event));
+        this.ledger.on('votingRingDetected', (event) => this.emit('votingRingDetected', event));
+        this.ledger.on('disputeRaised', (dispute: Dispute) => {
+            this.persistDispute(dispute);
+            this.scheduleTick(dispute.id, dispute.deadline, () => this.ledger.getDispute(dispute.id)?.status === 'open');
+            this.emit('disputeRaised', dispute);
+        });
+        this.ledger.on('disputeIgnored', (event) => this.emit('disputeIgnored', event));
+        this.ledger.on('reputationsLoaded', (event) => {
+            for (const accountId of event.accountIds as string[]) {
+                this.trackWrite(this.store.saveReputation(this.ledger.getReputation(accountId)!),
+                    `reputation of ${accountId}`);
+            }
+            this.emit('reputationsLoaded', event);
+        });
+        this.ledger.on('reputationsIgnored', (event) => this.emit('reputationsIgnored', event));
+        for (const event of ['disputeEvidenceAdded', 'disputeVoteReceived']) {
+            this.ledger.on(event, (data) => {
+                this.persistDispute(this.ledger.getDispute(data.disputeId)!);
+                this.emit(event, data);
+            });
+        }
+        this.ledger.on('disputeResolved', (event) => {
+            this.persistDispute(this.ledger.getDispute(event.disputeId)!);
+            this.persistProposal(this.ledger.getProposal(event.proposalId)!);
+            this.emit('disputeResolved', event);
+        });
+        this.ledger.on('reputationUpdated', (event) => {
+            this.trackWrite(this.store.saveReputation(this.ledger.getReputation(event.accountId)!, {
+                accountId: event.accountId,
+                delta: event.delta,
+                score: event.newScore,
+                reason: event.reason,
+                proposalId: event.proposalId,
+                timestamp: event.timestamp
+            }), `reputation of ${event.accountId}`);
+            this.emit('reputationUpdated', event);
+        });
         
         this.initialize();
     }
     
     private initialize(): void {
-        // Subscribe to consensus topic
-        this.subscribeToConsensusTopic();
+        // Restore persisted state before replaying the consensus topic. The
+        // topic is not replayed onto a partly restored ledger, which would
+        // diverge from the other nodes; ready() rejects instead.
+        this.restored = this.restoreState()
+            .catch((error) => {
+                console.error('Error restoring consensus state:', error);
+                this.emit('storeError', error);
+                throw error;
+            })
+            .then(() => this.subscribeToConsensusTopic());
+        this.restored.catch(() => undefined); // Reported by the events above and by ready()
+        
+        // Start periodic cleanup of decided proposals
+        this.cleanupInterval = setInterval(() => this.cleanupExpiredProposals(), 60000); // Every minute
+    }
+    
+    /**
+     * Resolves once persisted proposals and reputations have been restored
+     * and the consensus topic subscribed; rejects when either failed
+     */
+    ready(): Promise<void> {
+        return this.restored;
+    }
+    
+    /**
+     * Load reputations, pending proposals and open disputes from the store,
+     * rescheduling the ticks that close every vote still open when we stopped
+     */
+    private async restoreState(): Promise<void> {
+        this.ledger.loadReputations(await this.store.loadReputations());
+        
+        const disputes = await this.store.findDisputes({ status: 'open' });
+        const disputed = new Set(disputes.map(dispute => dispute.proposalId));
+        
+        const stored = await this.store.findProposals();
+        const active = stored.filter(p => p.status === 'pending' || disputed.has(p.id))
+            .map(p => fromStoredProposal(p, this.config.strategy ?? 'supermajority'));
+        const winners = stored.filter(p => p.status === 'accepted').map(p => [p.taskId, p.id]);
+        this.ledger.restore(
+            active,
+            stored.filter(p => p.status !== 'pending' && !disputed.has(p.id)).map(p => p.id),
+            Object.fromEntries(winners)
+        );
+        this.ledger.restoreDisputes(disputes);
+        
+        if (!this.stopped) {
+            active.filter(p => p.status === 'pending').forEach(proposal => this.scheduleProposalTick(proposal));
+            disputes.forEach(dispute => this.scheduleTick(dispute.id, dispute.deadline,
+                () => this.ledger.getDispute(dispute.id)?.status === 'open'));
+        }
+    }
+    
+    /**
+     * Write a proposal and its votes to the store
+     */
+    private persistProposal(proposal: ConsensusProposal): Promise<void> {
+        return this.trackWrite(this.store.saveProposal(toStoredProposal(proposal)), `proposal ${proposal.id}`);
+    }
+    
+    private persistDispute(dispute: Dispute): Promise<void> {
+        return this.trackWrite(this.store.saveDispute({
+            ...dispute,
+            jury: { ...dispute.jury },
+            votes: [...dispute.votes],
+            evidence: [...dispute.evidence]
+        }), `dispute ${dispute.id}`);
+    }
+    
+    private trackWrite(write: Promise<void>, description: string): Promise<void> {
+        const tracked = write
+            .catch((error) => {
+                console.error(`Error persisting ${description}:`, error);
+                this.emit('storeError', error);
+            })
+            .finally(() => this.writes.delete(tracked));
+        this.writes.add(tracked);
+        return tracked;
+    }
+    
+    /**
+     * Wait until every state change so far has been written to the store
+     */
+    async drain(): Promise<void> {
+        await Promise.all(Array.from(this.writes));
+    }
+    
+    /**
+     * Stop timers and topic subscriptions
+     */
+    shutdown(): void {
+        this.stopped = true;
+        
+        if (this.cleanupInterval) {
+            clearInterval(this.cleanupInterval);
+        }
+        
+        for (const timer of this.timers) {
+            clearTimeout(timer);
+        }
+        this.timers.clear();
+        
+        for (const subscription of this.subscriptions.values()) {
+            subscription.unsubscribe();
+        }
+        this.subscriptions.clear();
+    }
+    
+    /**
+     * Once a deadline has passed on the wall clock, publish a tick if the
+     * topic has been quiet since, so a message ordered after the deadline
+     * exists and every node closes the vote at the same point in the log.
+     * Ticks repeat until one lands after the deadline.
+     */
+    private scheduleTick(id: string, deadline: number, isOpen: () => boolean, retryDelay?: number): void {
+        const delay = retryDelay ?? Math.max(0, deadline + 1 - Date.now()) + this.config.tickDelay;
+        const timer = setTimeout(() => {
+            this.timers.delete(timer);
+            if (!isOpen()) {
+                return;
+            }
+            
+            const tick = createMessage(
+                MessageType.HEARTBEAT,
+                this.config.accountId || `consensus-engine:${this.consensusTopicId.toString()}`,
+                { status: 'tick' }
+            );
+            this.publishToConsensusTopic(tick).catch((error) => {
+                console.error(`Error publishing tick for ${id}:`, error);
+            });
+            this.scheduleTick(id, deadline, isOpen, Math.max(this.config.tickDelay, 1000));
+        }, delay);
+        this.timers.add(timer);
+    }
+    
+    private scheduleProposalTick(proposal: ConsensusProposal): void {
+        this.scheduleTick(proposal.id, proposal.revealDeadline ?? proposal.deadline,
+            () => this.ledger.getProposal(proposal.id)?.status === 'pending');
+    }
+    
+    /**
+     * Reveal a sealed vote once the commit phase is over, retrying while the
+     * reveal is ordered too early and the reveal phase is still open
+     */
+    private scheduleReveal(proposalId: string, voter: string, retryDelay?: number): void {
+        const proposal = this.ledger.getProposal(proposalId)!;
+        const key = `${proposalId}:${voter}`;
+        const delay = retryDelay ?? Math.max(0, proposal.deadline + 1 - Date.now());
         
-        // Start periodic cleanup of expired proposals
-        setInterval(() => this.cleanupExpiredProposals(), 60000); // Every minute
+        const timer = setTimeout(async () => {
+            this.timers.delete(timer);
+            const sealed = this.sealedVotes.get(key);
+            const isOpen = () => proposal.status === 'pending' && !proposal.commitments?.[voter]?.revealed;
+            if (!sealed || !isOpen()) {
+                this.sealedVotes.delete(key);
+                return;
+            }
+            
+            const { salt, reason, ...choice } = sealed;
+            try {
+                await this.publishAndConfirm(createMessage(MessageType.CONSENSUS_VOTE_REVEAL, voter, {
+                    proposalId,
+                    ...choice,
+                    reason,
+                    salt
+                }, { id: uuidv4() }));
+            } catch (error) {
+                console.error(`Error revealing vote on proposal ${proposalId}:`, error);
+            }
+            
+            if (isOpen() && !this.stopped) {
+                this.scheduleReveal(proposalId, voter, 1000);
+            } else {
+                this.sealedVotes.delete(key);
+            }
+        }, delay);
+        this.timers.add(timer);
     }
     
     /**
@@ -88,38 +507,41 @@ export class ConsensusEngine extends EventEmitter {
         taskId: string,
         solution: any,
         proposerAccount: string,
-        confidence: number = 0.5
+        confidence: number = 0.5,
+        options: ProposalOptions = {}
     ): Promise<string> {
-        const proposalId = uuidv4();
-        const deadline = Date.now() + this.config.votingPeriod;
-        
-        const proposal: ConsensusProposal = {
-            id: proposalId,
-            taskId,
-            solution,
-            proposer: proposerAccount,
-            supporters: new Map([[proposerAccount, {
-                voter: proposerAccount,
-                weight: this.getAgentWeight(proposerAccount),
-                timestamp: Date.now()
-            }]]),
-            rejectors: new Map(),
-            confidence,
-            timestamp: Date.now(),
-            deadline,
-            status: 'pending'
-        };
+        const strategy = options.strategy ?? this.config.strategy ?? 'supermajority';
+        if (!this.ledger.hasStrategy(strategy)) {
+            throw new Error(`Unknown consensus strategy: ${strategy}`);
+        }
         
-        this.proposals.set(proposalId, proposal);
+        if (this.ledger.getTaskWinner(taskId)) {
+            throw new Error('Task already has an accepted solution');
+        }
         
-        // Broadcast proposal to consensus topic
-        await this.broadcastProposal(proposal);
+        const proposalId = uuidv4();
+        // Named so nodes whose view of the electorate differs ignore the proposal
+        const electorate = this.config.electorateResolver?.(taskId);
         
-        // Emit event
-        this.emit('proposalCreated', proposal);
+        // Broadcast proposal to consensus topic and wait for it to be ordered
+        this.localProposals.add(proposalId);
+        try {
+            await this.broadcastProposal(proposalId, taskId, solution, proposerAccount, confidence, {
+                electorate,
+                quorum: options.quorum,
+                strategy: options.strategy,
+                revealPeriod: options.revealPeriod ?? this.config.revealPeriod,
+                capabilities: options.capabilities
+            });
+        } catch (error) {
+            this.localProposals.delete(proposalId);
+            throw error;
+        }
         
-        // Set timeout for proposal deadline
-        setTimeout(() => this.evaluateProposal(proposalId), this.config.votingPeriod);
+        if (!this.ledger.getProposal(proposalId)) {
+            this.localProposals.delete(proposalId);
+            throw new Error('Proposal was not accepted on the consensus topic');
+        }
         
         return proposalId;
     }
@@ -131,9 +553,10 @@ export class ConsensusEngine extends EventEmitter {
         proposalId: string,
         voterAccount: string,
         support: boolean,
-        reason?: string
+        reason?: string,
+        options: VoteOptions = {}
     ): Promise<void> {
-        const proposal = this.proposals.get(proposalId);
+        const proposal = this.ledger.getProposal(proposalId);
         if (!proposal) {
             throw new Error('Proposal not found');
         }
@@ -147,369 +570,458 @@ export class ConsensusEngine extends EventEmitter {
         }
         
         // Check if already voted
-        if (proposal.supporters.has(voterAccount) || proposal.rejectors.has(voterAccount)) {
+        if (proposal.supporters.has(voterAccount) || proposal.rejectors.has(voterAccount) ||
+            proposal.commitments?.[voterAccount]) {
             throw new Error('Already voted on this proposal');
         }
         
-        const vote: Vote = {
-            voter: voterAccount,
-            weight: this.getAgentWeight(voterAccount),
-            timestamp: Date.now(),
-            reason
-        };
+        if (proposal.electorate && proposal.electorate[voterAccount] === undefined) {
+            throw new Error('Voter is not in the electorate for this proposal');
+        }
         
-        if (support) {
-            proposal.supporters.set(voterAccount, vote);
-        } else {
-            proposal.rejectors.set(voterAccount, vote);
+        if (support && this.getRoundProposals(proposal.taskId)
+            .some(p => p.id !== proposalId && p.supporters.has(voterAccount))) {
+            throw new Error('Already supports a competing proposal for this task');
         }
         
-        // Broadcast vote
-        await this.broadcastVote(proposalId, vote, support);
+        if (proposal.commitments) {
+            await this.commitVote(proposal, voterAccount, { support, ...options }, reason);
+            return;
+        }
         
-        // Check if consensus reached early
-        this.checkEarlyConsensus(proposalId);
+        // Broadcast vote and wait for it to be ordered
+        await this.broadcastVote(proposalId, voterAccount, support, reason, options);
         
-        this.emit('voteReceived', {
-            proposalId,
-            vote,
-            support
-        });
+        if (!proposal.supporters.has(voterAccount) && !proposal.rejectors.has(voterAccount)) {
+            throw new Error('Vote was not counted; it was ordered after the voting period closed');
+        }
     }
     
     /**
-     * Evaluate a proposal after voting period
+     * Publish a sealed vote, keeping the choice and salt to reveal it after
+     * the commit phase. They are held in memory only, so a vote committed
+     * before a restart goes unrevealed.
      */
-    private evaluateProposal(proposalId: string): void {
-        const proposal = this.proposals.get(proposalId);
-        if (!proposal || proposal.status !== 'pending') {
-            return;
-        }
-        
-        const result = this.calculateConsensus(proposal);
+    private async commitVote(
+        proposal: ConsensusProposal,
+        voterAccount: string,
+        choice: VoteChoice,
+        reason?: string
+    ): Promise<void> {
+        const salt = crypto.randomBytes(16).toString('hex');
+        const commitment = computeVoteCommitment(proposal.id, voterAccount, choice, salt);
         
-        proposal.status = result.accepted ? 'accepted' : 'rejected';
+        await this.publishAndConfirm(createMessage(MessageType.CONSENSUS_VOTE_COMMIT, voterAccount, {
+            proposalId: proposal.id,
+            commitment
+        }, { id: uuidv4() }));
         
-        this.emit('consensusReached', {
-            proposalId,
-            taskId: proposal.taskId,
-            accepted: result.accepted,
-            supportPercentage: result.supportPercentage,
-            totalVotes: result.totalVotes,
-            solution: result.accepted ? proposal.solution : null
-        });
+        if (!proposal.commitments?.[voterAccount]) {
+            throw new Error('Vote was not counted; it was ordered after the commit phase closed');
+        }
         
-        // Update agent reputations based on outcome
-        this.updateReputations(proposal, result.accepted);
+        this.sealedVotes.set(`${proposal.id}:${voterAccount}`, { ...choice, salt, reason });
+        this.scheduleReveal(proposal.id, voterAccount);
     }
     
     /**
-     * Calculate consensus based on votes
+     * Cast a ranked ballot over the competing proposals for a task, as a
+     * supporting vote on the first choice
      */
-    private calculateConsensus(proposal: ConsensusProposal): {
-        accepted: boolean;
-        supportPercentage: number;
-        totalVotes: number;
-    } {
-        let supportWeight = 0;
-        let rejectWeight = 0;
-        
-        // Calculate weighted support
-        for (const vote of proposal.supporters.values()) {
-            supportWeight += vote.weight;
-        }
-        
-        for (const vote of proposal.rejectors.values()) {
-            rejectWeight += vote.weight;
+    async rankProposals(voterAccount: string, ranking: string[], reason?: string): Promise<void> {
+        if (ranking.length === 0) {
+            throw new Error('Ranking must name at least one proposal');
         }
         
-        const totalWeight = supportWeight + rejectWeight;
-        const totalVotes = proposal.supporters.size + proposal.rejectors.size;
-        
-        // Check minimum participation
-        if (totalVotes < this.config.minParticipants) {
-            return {
-                accepted: false,
-                supportPercentage: 0,
-                totalVotes
-            };
+        const first = this.ledger.getProposal(ranking[0]);
+        if (first && ranking.some(id => this.ledger.getProposal(id)?.taskId !== first.taskId)) {
+            throw new Error('Ranked proposals must all belong to the same task');
         }
         
-        const supportPercentage = totalWeight > 0 ? supportWeight / totalWeight : 0;
-        const accepted = supportPercentage >= this.config.votingThreshold;
-        
-        return {
-            accepted,
-            supportPercentage,
-            totalVotes
-        };
+        await this.voteOnProposal(ranking[0], voterAccount, true, reason, { ranking });
     }
     
     /**
-     * Check if consensus can be reached early
+     * Challenge an accepted proposal, staking reputation as a bond. A jury
+     * of the highest-reputation agents decides whether to overturn it.
      */
-    private checkEarlyConsensus(proposalId: string): void {
-        const proposal = this.proposals.get(proposalId);
-        if (!proposal || proposal.status !== 'pending') {
-            return;
+    async raiseDispute(
+        proposalId: string,
+        challengerAccount: string,
+        bond: number,
+        reason: string,
+        evidence: string[] = []
+    ): Promise<string> {
+        const proposal = this.ledger.getProposal(proposalId);
+        if (!proposal) {
+            throw new Error('Proposal not found');
         }
         
-        const result = this.calculateConsensus(proposal);
-        
-        // Get total possible voters (simplified - in production would query from orchestrator)
-        const totalPossibleVoters = 10; // Example
+        if (proposal.status !== 'accepted') {
+            throw new Error('Only accepted proposals can be disputed');
+        }
         
-        // Check if remaining votes cannot change outcome
-        const remainingVoters = totalPossibleVoters - result.totalVotes;
-        const maxPossibleRejectWeight = remainingVoters * 100; // Max reputation
+        if (proposal.disputeId) {
+            throw new Error('Proposal is already disputed');
+        }
         
-        let currentSupportWeight = 0;
-        let currentRejectWeight = 0;
+        const disputeId = uuidv4();
+        const timestamp = Date.now();
+        const message = createMessage(MessageType.DISPUTE_RAISED, challengerAccount, {
+            id: disputeId,
+            proposalId,
+            bond,
+            reason,
+            evidence,
+            deadline: timestamp + (this.config.disputePeriod ?? this.config.votingPeriod)
+        }, { id: uuidv4(), timestamp });
         
-        for (const vote of proposal.supporters.values()) {
-            currentSupportWeight += vote.weight;
+        // The ledger decides whether the dispute stands; keep its reason if not
+        let rejection: string | undefined;
+        const onIgnored = (event: { disputeId: string; reason: string }) => {
+            if (event.disputeId === disputeId) {
+                rejection = event.reason;
+            }
+        };
+        this.ledger.on('disputeIgnored', onIgnored);
+        try {
+            await this.publishAndConfirm(message);
+        } finally {
+            this.ledger.off('disputeIgnored', onIgnored);
         }
         
-        for (const vote of proposal.rejectors.values()) {
-            currentRejectWeight += vote.weight;
+        if (!this.ledger.getDispute(disputeId)) {
+            throw new Error(`Dispute was not accepted: ${rejection ?? 'unknown reason'}`);
         }
         
-        const worstCaseSupport = currentSupportWeight / 
-            (currentSupportWeight + currentRejectWeight + maxPossibleRejectWeight);
-            
-        if (worstCaseSupport >= this.config.votingThreshold) {
-            // Consensus reached early
-            this.evaluateProposal(proposalId);
-        }
+        return disputeId;
     }
     
     /**
-     * Get agent's voting weight based on reputation
+     * Attach evidence, by IPFS content id, to an open dispute
      */
-    private getAgentWeight(accountId: string): number {
-        if (!this.config.reputationWeighting) {
-            return 1; // Equal weight for all
+    async submitEvidence(disputeId: string, account: string, cid: string, description?: string): Promise<void> {
+        const dispute = this.ledger.getDispute(disputeId);
+        if (!dispute) {
+            throw new Error('Dispute not found');
+        }
+        
+        if (dispute.status !== 'open') {
+            throw new Error('Dispute is no longer open');
         }
         
-        const reputation = this.reputations.get(accountId);
-        if (!reputation) {
-            return 50; // Default weight for new agents
+        if (account !== dispute.challenger && account !== this.ledger.getProposal(dispute.proposalId)?.proposer) {
+            throw new Error('Only the parties to a dispute can submit evidence');
         }
         
-        return reputation.score;
+        await this.publishAndConfirm(createMessage(MessageType.DISPUTE_EVIDENCE, account, {
+            disputeId,
+            cid,
+            description
+        }, { id: uuidv4() }));
     }
     
     /**
-     * Update agent reputations based on consensus outcome
+     * Store evidence in the configured blob store and attach it to a dispute
      */
-    private updateReputations(proposal: ConsensusProposal, accepted: boolean): void {
-        // Reward agents who voted with consensus
-        const correctVoters = accepted ? proposal.supporters : proposal.rejectors;
-        const incorrectVoters = accepted ? proposal.rejectors : proposal.supporters;
-        
-        // Increase reputation for correct voters
-        for (const vote of correctVoters.values()) {
-            this.adjustReputation(vote.voter, 5); // +5 points
+    async uploadEvidence(disputeId: string, account: string, data: Uint8Array, description?: string): Promise<string> {
+        if (!this.config.blobStore) {
+            throw new Error('No blob store configured for evidence');
         }
         
-        // Slight decrease for incorrect voters
-        for (const vote of incorrectVoters.values()) {
-            this.adjustReputation(vote.voter, -2); // -2 points
-        }
-        
-        // Bonus for proposal creator if accepted
-        if (accepted) {
-            this.adjustReputation(proposal.proposer, 10); // +10 points
-        }
+        const cid = await this.config.blobStore.put(data);
+        await this.submitEvidence(disputeId, account, cid, description);
+        return cid;
     }
     
     /**
-     * Adjust an agent's reputation
+     * Cast a juror's vote on a dispute
      */
-    private adjustReputation(accountId: string, delta: number): void {
-        let reputation = this.reputations.get(accountId);
+    async voteOnDispute(disputeId: string, jurorAccount: string, uphold: boolean, reason?: string): Promise<void> {
+        const dispute = this.ledger.getDispute(disputeId);
+        if (!dispute) {
+            throw new Error('Dispute not found');
+        }
         
-        if (!reputation) {
-            reputation = {
-                accountId,
-                score: 100, // Starting score
-                tasksCompleted: 0,
-                consensusParticipation: 0
-            };
-            this.reputations.set(accountId, reputation);
+        if (dispute.status !== 'open') {
+            throw new Error('Dispute is no longer open');
         }
         
-        reputation.score = Math.max(0, Math.min(200, reputation.score + delta));
-        reputation.consensusParticipation++;
+        if (dispute.jury[jurorAccount] === undefined) {
+            throw new Error('Voter is not on the jury for this dispute');
+        }
         
-        this.emit('reputationUpdated', {
-            accountId,
-            newScore: reputation.score,
-            delta
-        });
+        if (dispute.votes.some(vote => vote.juror === jurorAccount)) {
+            throw new Error('Already voted on this dispute');
+        }
+        
+        await this.publishAndConfirm(createMessage(MessageType.DISPUTE_VOTE, jurorAccount, {
+            disputeId,
+            uphold,
+            reason
+        }, { id: uuidv4() }));
+        
+        if (!dispute.votes.some(vote => vote.juror === jurorAccount)) {
+            throw new Error('Vote was not counted; it was ordered after the dispute closed');
+        }
     }
     
     /**
      * Broadcast proposal to consensus topic
      */
-    private async broadcastProposal(proposal: ConsensusProposal): Promise<void> {
-        const message = {
-            type: 'CONSENSUS_PROPOSAL',
-            proposal: {
-                id: proposal.id,
-                taskId: proposal.taskId,
-                solution: proposal.solution,
-                proposer: proposal.proposer,
-                confidence: proposal.confidence,
-                deadline: proposal.deadline
-            },
-            timestamp: Date.now()
-        };
+    private async broadcastProposal(
+        proposalId: string,
+        taskId: string,
+        solution: any,
+        proposer: string,
+        confidence: number,
+        options: ProposalOptions & { electorate?: Electorate }
+    ): Promise<void> {
+        const timestamp = Date.now();
+        const message = createMessage(MessageType.CONSENSUS_PROPOSAL, proposer, {
+            id: proposalId,
+            taskId,
+            solution,
+            proposer,
+            confidence,
+            deadline: timestamp + this.config.votingPeriod,
+            electorate: options.electorate?.map(member =>
+                typeof member === 'string' ? { accountId: member } : member
+            ),
+            quorum: options.quorum,
+            strategy: options.strategy,
+            revealPeriod: options.revealPeriod || undefined,
+            capabilities: options.capabilities
+        }, { id: uuidv4(), timestamp });
         
-        await new TopicMessageSubmitTransaction()
-            .setTopicId(this.consensusTopicId)
-            .setMessage(JSON.stringify(message))
-            .execute(this.client);
+        await this.publishAndConfirm(message);
     }
     
     /**
      * Broadcast vote to consensus topic
      */
     private async broadcastVote(
-        proposalId: string, 
-        vote: Vote, 
-        support: boolean
+        proposalId: string,
+        voter: string,
+        support: boolean,
+        reason: string | undefined,
+        options: VoteOptions
     ): Promise<void> {
-        const message = {
-            type: 'CONSENSUS_VOTE',
+        const message = createMessage(MessageType.CONSENSUS_VOTE, voter, {
             proposalId,
-            vote: {
-                voter: vote.voter,
-                support,
-                reason: vote.reason
-            },
-            timestamp: Date.now()
-        };
+            support,
+            reason,
+            value: options.value,
+            confidence: options.confidence,
+            ranking: options.ranking
+        }, { id: uuidv4() });
         
-        await new TopicMessageSubmitTransaction()
-            .setTopicId(this.consensusTopicId)
-            .setMessage(JSON.stringify(message))
-            .execute(this.client);
+        await this.publishAndConfirm(message);
     }
     
     /**
-     * Subscribe to consensus topic for proposals and votes
+     * Publish a message and wait until it has been applied from the topic
      */
-    private subscribeToConsensusTopic(): void {
-        const query = new TopicMessageQuery()
-            .setTopicId(this.consensusTopicId)
-            .setStartTime(0);
-            
-        query.subscribe(this.client, (message) => {
-            try {
-                const data = JSON.parse(Buffer.from(message.contents).toString());
-                
-                switch (data.type) {
-                    case 'CONSENSUS_PROPOSAL':
-                        this.handleRemoteProposal(data.proposal);
-                        break;
-                    case 'CONSENSUS_VOTE':
-                        this.handleRemoteVote(data.proposalId, data.vote);
-                        break;
-                }
-            } catch (error) {
-                console.error('Error processing consensus message:', error);
-            }
+    private async publishAndConfirm(message: SwarmMessage): Promise<void> {
+        let timer: NodeJS.Timeout | undefined;
+        const confirmed = new Promise<void>((resolve, reject) => {
+            this.confirmations.set(message.id, resolve);
+            timer = setTimeout(() => reject(new Error(
+                `Message ${message.id} did not appear on the consensus topic within ${this.config.confirmationTimeout}ms`
+            )), this.config.confirmationTimeout);
         });
         
-        this.subscriptions.set('consensus', query);
+        try {
+            await this.publishToConsensusTopic(message);
+            await confirmed;
+        } finally {
+            clearTimeout(timer);
+            this.confirmations.delete(message.id);
+        }
     }
     
     /**
-     * Handle proposal from another agent
+     * Sign (when a signing key is configured) and publish a message
      */
-    private handleRemoteProposal(proposalData: any): void {
-        if (this.proposals.has(proposalData.id)) {
-            return; // Already have this proposal
+    private async publishToConsensusTopic(message: SwarmMessage): Promise<void> {
+        if (this.signingKey) {
+            message.signature = signMessage(this.signingKey, message);
         }
         
-        const proposal: ConsensusProposal = {
-            ...proposalData,
-            supporters: new Map(),
-            rejectors: new Map(),
-            status: 'pending'
-        };
-        
-        // Add proposer as first supporter
-        proposal.supporters.set(proposalData.proposer, {
-            voter: proposalData.proposer,
-            weight: this.getAgentWeight(proposalData.proposer),
-            timestamp: Date.now()
-        });
+        await this.transport.publish(
+            this.consensusTopicId.toString(),
+            encodeMessage(message)
+        );
+    }
+    
+    /**
+     * Check a remote message is signed by the agent it claims to come from;
+     * returns the rejection reason, or null when authentic
+     */
+    private authenticate(decoded: DecodeResult & { ok: true }): string | null {
+        const registry = this.config.keyRegistry;
+        const { message } = decoded;
+        if (!registry || !SIGNED_TYPES.has(message.type)) {
+            return null;
+        }
         
-        this.proposals.set(proposal.id, proposal);
-        this.emit('proposalReceived', proposal);
+        const publicKey = registry.getPublicKey(message.sender);
         
-        // Set timeout for evaluation
-        const timeRemaining = proposal.deadline - Date.now();
-        if (timeRemaining > 0) {
-            setTimeout(() => this.evaluateProposal(proposal.id), timeRemaining);
+        if (!message.signature) {
+            return 'missing_signature';
+        } else if (!publicKey) {
+            return 'unknown_sender';
+        } else if (decoded.version === 0
+            ? !verifyJson(publicKey, decoded.raw) // Legacy messages signed the whole object
+            : !verifyMessageSignature(publicKey, message)) {
+            return 'invalid_signature';
         }
+        
+        return null;
     }
     
     /**
-     * Handle vote from another agent
+     * Subscribe to consensus topic for proposals and votes
      */
-    private handleRemoteVote(proposalId: string, voteData: any): void {
-        const proposal = this.proposals.get(proposalId);
-        if (!proposal || proposal.status !== 'pending') {
+    private async subscribeToConsensusTopic(): Promise<void> {
+        if (this.stopped) {
             return;
         }
         
-        // Check if already voted
-        if (proposal.supporters.has(voteData.voter) || 
-            proposal.rejectors.has(voteData.voter)) {
+        await this.processor.subscribe(this.consensusTopicId.toString(), (content, transportMessage) => {
+            try {
+                this.handleConsensusMessage(content, transportMessage);
+            } catch (error) {
+                console.error('Error processing consensus message:', error);
+            }
+        }).then((subscription) => {
+            if (this.stopped) {
+                subscription.unsubscribe();
+                return;
+            }
+            this.subscriptions.set('consensus', subscription);
+        }).catch((error) => {
+            console.error('Error subscribing to consensus topic:', error);
+            this.emit('subscriptionError', error);
+            throw error;
+        });
+    }
+    
+    /**
+     * Apply a message from the consensus topic to the ledger
+     */
+    private handleConsensusMessage(content: string, transportMessage: TransportMessage): void {
+        const decoded = decodeMessage(content);
+        if (!decoded.ok) {
+            this.emit('messageRejected', {
+                topicId: this.consensusTopicId.toString(),
+                message: decoded.raw,
+                reason: decoded.reason
+            });
             return;
         }
         
-        const vote: Vote = {
-            voter: voteData.voter,
-            weight: this.getAgentWeight(voteData.voter),
-            timestamp: Date.now(),
-            reason: voteData.reason
-        };
-        
-        if (voteData.support) {
-            proposal.supporters.set(voteData.voter, vote);
+        const { message } = decoded;
+        const rejection = this.authenticate(decoded);
+        if (rejection) {
+            this.emit('messageRejected', {
+                topicId: this.consensusTopicId.toString(),
+                message,
+                reason: rejection
+            });
         } else {
-            proposal.rejectors.set(voteData.voter, vote);
+            this.ledger.apply({
+                message,
+                sequenceNumber: transportMessage.sequenceNumber,
+                consensusTimestamp: transportMessage.consensusTimestamp
+            });
         }
         
-        this.checkEarlyConsensus(proposalId);
+        this.confirmations.get(message.id)?.();
+    }
+    
+    /**
+     * Re-derive consensus state from the topic log into a fresh ledger, starting
+     * at the given sequence number, and compare every proposal decided in the
+     * replay with the outcome this engine recorded. Waits at most
+     * confirmationTimeout between messages.
+     */
+    async replay(
+        topicId: string = this.consensusTopicId.toString(),
+        fromSequenceNumber: number = 1
+    ): Promise<ReplayResult> {
+        const reputation = this.ledger.getReputationRegistry().fork();
+        const ledger = new ConsensusLedger(this.config, this.config.strategies, reputation, this.config.electorateResolver);
+        const processor = new MessageProcessor(this.transport, { consumerId: `consensus-replay:${topicId}` });
+        const latest = await this.transport.getLatestSequenceNumber(topicId);
+        let lastSequenceNumber = 0;
+        let subscription: TransportSubscription | undefined;
         
-        this.emit('voteReceived', {
-            proposalId,
-            vote,
-            support: voteData.support
-        });
+        await new Promise<void>((resolve, reject) => {
+            let timer: NodeJS.Timeout | undefined;
+            const progress = (sequenceNumber: number) => {
+                lastSequenceNumber = sequenceNumber;
+                clearTimeout(timer);
+                if (sequenceNumber >= latest) {
+                    resolve();
+                    return;
+                }
+                timer = setTimeout(() => reject(new Error(
+                    `Replay of ${topicId} stalled after sequence number ${lastSequenceNumber} of ${latest}`
+                )), this.config.confirmationTimeout);
+            };
+            
+            processor.on('messageRejected', (event) => progress(event.sequenceNumber));
+            processor.subscribe(topicId, (content, message) => {
+                if (message.sequenceNumber >= fromSequenceNumber) {
+                    const decoded = decodeMessage(content);
+                    if (decoded.ok && !this.authenticate(decoded)) {
+                        ledger.apply({
+                            message: decoded.message,
+                            sequenceNumber: message.sequenceNumber,
+                            consensusTimestamp: message.consensusTimestamp
+                        });
+                    }
+                }
+                progress(message.sequenceNumber);
+            }).then((created) => {
+                subscription = created;
+            }, reject);
+            
+            progress(0);
+        }).finally(() => subscription?.unsubscribe());
+        
+        const proposals = ledger.getProposals().map(toStoredProposal);
+        const mismatches: ReplayMismatch[] = [];
+        for (const replayed of proposals) {
+            const recorded = await this.store.getProposal(replayed.id);
+            if (recorded && recorded.status !== 'pending' && replayed.status !== 'pending' &&
+                !sameOutcome(recorded, replayed)) {
+                mismatches.push({ proposalId: replayed.id, recorded, replayed });
+            }
+        }
+        
+        return {
+            topicId,
+            fromSequenceNumber,
+            lastSequenceNumber,
+            proposals,
+            reputations: ledger.getReputations(),
+            mismatches
+        };
     }
     
     /**
-     * Clean up expired proposals
+     * Drop decided proposals from memory once an hour past their deadline;
+     * the store keeps their history
      */
     private cleanupExpiredProposals(): void {
         const now = Date.now();
         
-        for (const [id, proposal] of this.proposals) {
-            if (proposal.status === 'pending' && now > proposal.deadline + 60000) {
-                proposal.status = 'expired';
-                this.emit('proposalExpired', id);
-            }
-            
-            // Remove old completed proposals (keep for 1 hour)
-            if (proposal.status !== 'pending' && 
-                now > proposal.deadline + 3600000) {
-                this.proposals.delete(id);
+        for (const proposal of this.ledger.getProposals()) {
+            if (proposal.status !== 'pending' &&
+                now > proposal.deadline + Math.max(3600000, this.config.disputeWindow ?? 0)) {
+                this.ledger.evict(proposal.id);
             }
         }
     }
@@ -518,7 +1030,7 @@ export class ConsensusEngine extends EventEmitter {
      * Get current proposals
      */
     getActiveProposals(): ConsensusProposal[] {
-        return Array.from(this.proposals.values())
+        return this.ledger.getProposals()
             .filter(p => p.status === 'pending');
     }
     
@@ -526,22 +1038,126 @@ export class ConsensusEngine extends EventEmitter {
      * Get proposal by ID
      */
     getProposal(proposalId: string): ConsensusProposal | undefined {
-        return this.proposals.get(proposalId);
+        return this.ledger.getProposal(proposalId);
+    }
+    
+    /**
+     * Get a dispute still held in memory
+     */
+    getDispute(disputeId: string): Dispute | undefined {
+        return this.ledger.getDispute(disputeId);
+    }
+    
+    /**
+     * Get persisted disputes, e.g. for display on a dashboard
+     */
+    async getDisputeHistory(query: DisputeQuery = {}): Promise<Dispute[]> {
+        return this.store.findDisputes(query);
+    }
+    
+    /**
+     * Get the current or most recent round of competing proposals for a task
+     */
+    getRound(taskId: string): TaskRound | undefined {
+        return this.ledger.getRound(taskId);
+    }
+    
+    private getRoundProposals(taskId: string): ConsensusProposal[] {
+        const round = this.ledger.getRound(taskId);
+        if (!round || round.status !== 'open') {
+            return [];
+        }
+        return round.proposalIds
+            .map(id => this.ledger.getProposal(id))
+            .filter((proposal): proposal is ConsensusProposal => proposal !== undefined);
     }
     
     /**
      * Get agent reputation
      */
     getReputation(accountId: string): AgentReputation | undefined {
-        return this.reputations.get(accountId);
+        return this.ledger.getReputation(accountId);
     }
     
     /**
-     * Load reputation data (from smart contract or storage)
+     * Reputation scores and weights behind this engine's votes, to share
+     * with a TaskDistributor
+     */
+    getReputationRegistry(): ReputationRegistry {
+        return this.ledger.getReputationRegistry();
+    }
+    
+    /**
+     * Load reputation data from outside the log, e.g. the smart contract.
+     * It is published to the consensus topic so every node, and every
+     * replay, applies it at the same point in the log.
      */
     async loadReputations(reputationData: AgentReputation[]): Promise<void> {
-        for (const rep of reputationData) {
-            this.reputations.set(rep.accountId, rep);
+        if (reputationData.length === 0) {
+            return;
         }
+        
+        const sender = this.config.accountId || `consensus-engine:${this.consensusTopicId.toString()}`;
+        const message = createMessage(MessageType.REPUTATION_LOADED, sender, {
+            reputations: reputationData
+        }, { id: uuidv4() });
+        
+        let rejection: string | undefined;
+        const onIgnored = (event: { sender: string; reason: string }) => {
+            if (event.sender === sender) {
+                rejection = event.reason;
+            }
+        };
+        this.ledger.on('reputationsIgnored', onIgnored);
+        try {
+            await this.publishAndConfirm(message);
+        } finally {
+            this.ledger.off('reputationsIgnored', onIgnored);
+        }
+        
+        if (rejection) {
+            throw new Error(`Reputations were not loaded: ${rejection}`);
+        }
+        await this.drain();
     }
-}
\ No newline at end of file
+    
+    /**
+     * Query persisted proposals, including ones decided long ago
+     */
+    async getProposalHistory(query: ProposalQuery = {}): Promise<StoredProposal[]> {
+        return this.store.findProposals(query);
+    }
+    
+    /**
+     * Get the decided proposals for a task, oldest first
+     */
+    async getTaskOutcomes(taskId: string): Promise<StoredProposal[]> {
+        const proposals = await this.store.findProposals({ taskId });
+        return proposals.filter(proposal => proposal.status !== 'pending');
+    }
+    
+    /**
+     * Get an agent's proposals, votes and reputation changes
+     */
+    async getAgentHistory(accountId: string): Promise<AgentConsensusHistory> {
+        const [proposals, voted, reputation] = await Promise.all([
+            this.store.findProposals({ proposer: accountId }),
+            this.store.findProposals({ voter: accountId }),
+            this.store.getReputationHistory(accountId)
+        ]);
+        
+        const votes = voted.map(proposal => {
+            const vote = proposal.votes.find(v => v.voter === accountId)!;
+            return {
+                proposalId: proposal.id,
+                taskId: proposal.taskId,
+                support: vote.support,
+                weight: vote.weight,
+                timestamp: vote.timestamp,
+                outcome: proposal.outcome
+            };
+        });
+        
+        return { accountId, proposals, votes, reputation };
+    }
+}
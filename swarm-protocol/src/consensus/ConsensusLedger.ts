@@ -0,0 +1,1120 @@
+import crypto from 'crypto';
+import { EventEmitter } from 'events';
+import { MessageType, SwarmMessage } from '../protocol/messages';
+import { ConsensusOutcome, ReputationChangeReason } from './ConsensusStore';
+import { ConsensusStrategy, StrategyContext, StrategyResult, createDefaultStrategies } from './ConsensusStrategy';
+import { ReputationObservation } from '../reputation/ReputationModel';
+import { AgentReputation, ReputationRegistry, ReputationUpdate } from '../reputation/ReputationRegistry';
+
+export type { AgentReputation } from '../reputation/ReputationRegistry';
+
+export interface ConsensusProposal {
+    id: string;
+    taskId: string;
+    solution: any;
+    proposer: string;
+    supporters: Map<string, Vote>;
+    rejectors: Map<string, Vote>;
+    confidence: number;
+    timestamp: number; // Consensus timestamp of the proposal message
+    deadline: number; // Consensus time after which votes (or commitments) no longer count
+    revealDeadline?: number; // Set in commit-reveal mode: end of the reveal phase
+    commitments?: Record<string, VoteCommitment>; // Sealed votes by voter, in commit-reveal mode
+    status: 'pending' | 'accepted' | 'rejected' | 'expired';
+    reputationSnapshot: Record<string, number>; // Scores when the proposal was created
+    electorate?: Record<string, number>; // Voting weight of every eligible agent; anyone may vote when absent
+    quorum: number;
+    strategy: string; // Name of the strategy that decides the proposal
+    roundId: string; // Round of competing proposals for the task
+    capabilities?: string[]; // Skills the task exercises; reputation is tracked per capability
+    outcome?: ConsensusOutcome;
+    grants?: Record<string, number>; // Points each agent gained or lost by its acceptance, by account
+    disputeId?: string; // Appeal against the accepted proposal, if any
+}
+
+/**
+ * A sealed vote: the hash of the voter's choice and a secret salt
+ */
+export interface VoteCommitment {
+    commitment: string;
+    timestamp: number;
+    revealed: boolean;
+}
+
+export interface VoteChoice {
+    support: boolean;
+    value?: number;
+    confidence?: number;
+    ranking?: string[];
+}
+
+/**
+ * Hash that binds a voter to their choice until they reveal it with the salt
+ */
+export function computeVoteCommitment(proposalId: string, voter: string, choice: VoteChoice, salt: string): string {
+    return crypto.createHash('sha256')
+        .update(JSON.stringify([
+            proposalId,
+            voter,
+            choice.support,
+            choice.value ?? null,
+            choice.confidence ?? null,
+            choice.ranking ?? null,
+            salt
+        ]))
+        .digest('hex');
+}
+
+/**
+ * Competing proposals for one task, decided together with at most one winner.
+ * A round opens with the first proposal for the task and closes at its
+ * deadline; proposals arriving meanwhile join it and share that deadline.
+ */
+export interface TaskRound {
+    id: string; // Id of the proposal that opened the round
+    taskId: string;
+    proposalIds: string[];
+    deadline: number;
+    revealDeadline?: number; // Decided after this instead in commit-reveal mode
+    status: 'open' | 'decided' | 'failed';
+    winner?: string;
+    decidedAt?: number;
+}
+
+export interface ElectorateMember {
+    accountId: string;
+    weight?: number; // Stake; the proposal's reputation snapshot when absent
+}
+
+/**
+ * Agents allowed to vote on a proposal: account ids weighted by reputation,
+ * or members with an explicit (stake) weight
+ */
+export type Electorate = (string | ElectorateMember)[];
+
+/**
+ * Who may vote on a task's proposals, from state every node trusts, e.g. the
+ * agents assigned to it on-chain. It is asked as proposals are applied, so it
+ * must give every node the same answer.
+ */
+export type ElectorateResolver = (taskId: string) => Electorate | undefined;
+
+/**
+ * Where a task's assigned agents are looked up, e.g. a TaskDistributor
+ */
+export interface AssignmentSource {
+    getAssignment(taskId: string): { assignedAgents: string[] } | undefined;
+}
+
+/**
+ * Let the agents assigned to a task vote on its proposals; anyone may vote
+ * on proposals for tasks without an assignment
+ */
+export function assignedElectorate(assignments: AssignmentSource): ElectorateResolver {
+    return (taskId) => assignments.getAssignment(taskId)?.assignedAgents;
+}
+
+function toMembers(electorate: Electorate): ElectorateMember[] {
+    return electorate.map(member => typeof member === 'string' ? { accountId: member } : member);
+}
+
+function sameElectorate(a: ElectorateMember[], b: ElectorateMember[]): boolean {
+    const key = (members: ElectorateMember[]) =>
+        JSON.stringify(members.map(member => [member.accountId, member.weight ?? null]).sort());
+    return key(a) === key(b);
+}
+
+export interface Vote {
+    voter: string;
+    weight: number; // Based on reputation
+    timestamp: number;
+    reason?: string;
+    value?: number; // The voter's own numeric answer
+    confidence?: number;
+    ranking?: string[]; // Competing proposal ids in order of preference
+}
+
+export interface ConsensusRules {
+    votingThreshold: number; // e.g., 0.66 for 2/3 majority
+    minParticipants: number; // Capped at the electorate size when there is one
+    quorum: number; // Default share of electorate weight that must vote, e.g. 0.5
+    reputationWeighting: boolean;
+    strategy?: string; // Default for proposals that do not name one; supermajority when absent
+    disputeWindow?: number; // How long (ms) after acceptance a proposal can be disputed
+    minDisputeBond?: number; // Least reputation a challenger must stake
+    jurySize?: number; // Least jurors; twice the original voters when that is more
+    slashAmount?: number; // Reputation a proposer loses when their solution is overturned
+    unrevealedPenalty?: number; // Reputation lost for a commitment that is never revealed
+    reputationAuthorities?: string[]; // Senders whose reputation loads are applied, e.g. the oracle's engine; no one's when absent
+}
+
+const DEFAULT_STRATEGY = 'supermajority';
+const UNREVEALED_PENALTY = 5; // Matches the reward for a correct vote
+
+const DISPUTE_DEFAULTS = {
+    disputeWindow: 60 * 60 * 1000, // 1 hour
+    minDisputeBond: 10,
+    jurySize: 5,
+    slashAmount: 20
+};
+
+export interface DisputeEvidence {
+    cid: string; // IPFS content id
+    submittedBy: string;
+    description?: string;
+    timestamp: number;
+}
+
+export interface DisputeVote {
+    juror: string;
+    uphold: boolean;
+    weight: number;
+    timestamp: number;
+    reason?: string;
+}
+
+/**
+ * Appeal against an accepted proposal, decided by a jury of the agents with
+ * the highest reputation that are not party to it
+ */
+export interface Dispute {
+    id: string;
+    proposalId: string;
+    taskId: string;
+    challenger: string;
+    bond: number;
+    reason: string;
+    evidence: DisputeEvidence[];
+    jury: Record<string, number>; // Juror weights: reputation when the dispute was raised
+    votes: DisputeVote[];
+    timestamp: number;
+    deadline: number;
+    status: 'open' | 'upheld' | 'dismissed';
+    resolution?: {
+        upheld: boolean;
+        upholdPercentage: number;
+        totalVotes: number;
+        decidedAt: number;
+    };
+}
+
+/**
+ * A message from the consensus topic with its position in the log
+ */
+export interface LedgerEntry {
+    message: SwarmMessage;
+    sequenceNumber: number;
+    consensusTimestamp: number;
+}
+
+/**
+ * Consensus state derived purely from the ordered consensus topic log.
+ *
+ * Nothing here reads the wall clock: proposals open at the consensus
+ * timestamp of their message, votes count when their consensus timestamp is
+ * at or before the deadline, and a round of competing proposals is decided
+ * by the first entry ordered after its deadline (or, for a lone proposal, by
+ * the vote that makes the outcome certain). Vote weights come from the reputation snapshot taken when the
+ * proposal was created, so every node replaying the same log derives the
+ * same outcomes and the same reputation history.
+ */
+export class ConsensusLedger extends EventEmitter {
+    private rules: ConsensusRules;
+    private proposals: Map<string, ConsensusProposal> = new Map();
+    private reputation: ReputationRegistry;
+    private electorates?: ElectorateResolver;
+    private settled: Set<string> = new Set(); // Decided proposals no longer held in memory
+    private strategies: Map<string, ConsensusStrategy> = new Map();
+    private rounds: Map<string, TaskRound> = new Map(); // Latest round per task
+    private winners: Map<string, string> = new Map(); // Accepted proposal per resolved task
+    private disputes: Map<string, Dispute> = new Map();
+    private consensusTime = 0;
+
+    constructor(
+        rules: ConsensusRules,
+        strategies: ConsensusStrategy[] = [],
+        reputation: ReputationRegistry = new ReputationRegistry(),
+        electorates?: ElectorateResolver // Anyone may vote on proposals when absent
+    ) {
+        super();
+        this.rules = rules;
+        this.reputation = reputation;
+        this.electorates = electorates;
+
+        // Custom strategies may replace the built-in ones of the same name
+        for (const strategy of [...createDefaultStrategies(), ...strategies]) {
+            this.strategies.set(strategy.name, strategy);
+        }
+    }
+
+    /**
+     * Apply the next entry of the log
+     */
+    apply(entry: LedgerEntry): void {
+        this.advanceTo(entry.consensusTimestamp);
+
+        const { message } = entry;
+        switch (message.type) {
+            case MessageType.CONSENSUS_PROPOSAL:
+                this.addProposal(message, entry.consensusTimestamp);
+                break;
+            case MessageType.CONSENSUS_VOTE:
+                this.addVote(message, entry.consensusTimestamp);
+                break;
+            case MessageType.CONSENSUS_VOTE_COMMIT:
+                this.addCommitment(message, entry.consensusTimestamp);
+                break;
+            case MessageType.CONSENSUS_VOTE_REVEAL:
+                this.revealVote(message, entry.consensusTimestamp);
+                break;
+            case MessageType.DISPUTE_RAISED:
+                this.addDispute(message, entry.consensusTimestamp);
+                break;
+            case MessageType.DISPUTE_EVIDENCE:
+                this.addEvidence(message, entry.consensusTimestamp);
+                break;
+            case MessageType.DISPUTE_VOTE:
+                this.addDisputeVote(message, entry.consensusTimestamp);
+                break;
+            case MessageType.REPUTATION_LOADED:
+                this.addLoadedReputations(message, entry.consensusTimestamp);
+                break;
+        }
+    }
+
+    /**
+     * Move consensus time forward, deciding every round whose deadline has passed
+     */
+    advanceTo(consensusTimestamp: number): void {
+        if (consensusTimestamp <= this.consensusTime) {
+            return;
+        }
+        this.consensusTime = consensusTimestamp;
+
+        const closesAt = (round: TaskRound) => round.revealDeadline ?? round.deadline;
+        const due = Array.from(this.rounds.values())
+            .filter(round => round.status === 'open' && closesAt(round) < consensusTimestamp)
+            .sort((a, b) => closesAt(a) - closesAt(b) || (a.id < b.id ? -1 : 1));
+
+        for (const round of due) {
+            this.decideRound(round, closesAt(round));
+        }
+
+        const dueDisputes = Array.from(this.disputes.values())
+            .filter(dispute => dispute.status === 'open' && dispute.deadline < consensusTimestamp)
+            .sort((a, b) => a.deadline - b.deadline || (a.id < b.id ? -1 : 1));
+
+        for (const dispute of dueDisputes) {
+            this.resolveDispute(dispute, dispute.deadline);
+        }
+    }
+
+    getConsensusTime(): number {
+        return this.consensusTime;
+    }
+
+    getProposal(proposalId: string): ConsensusProposal | undefined {
+        return this.proposals.get(proposalId);
+    }
+
+    getProposals(): ConsensusProposal[] {
+        return Array.from(this.proposals.values());
+    }
+
+    /**
+     * Current or most recent round for a task
+     */
+    getRound(taskId: string): TaskRound | undefined {
+        return this.rounds.get(taskId);
+    }
+
+    /**
+     * Id of the accepted proposal for a task, once it has one
+     */
+    getTaskWinner(taskId: string): string | undefined {
+        return this.winners.get(taskId);
+    }
+
+    getDispute(disputeId: string): Dispute | undefined {
+        return this.disputes.get(disputeId);
+    }
+
+    getDisputes(): Dispute[] {
+        return Array.from(this.disputes.values());
+    }
+
+    /**
+     * Reinstate open disputes; the proposals they challenge must be restored too
+     */
+    restoreDisputes(disputes: Dispute[]): void {
+        for (const dispute of disputes) {
+            this.disputes.set(dispute.id, dispute);
+        }
+    }
+
+    hasStrategy(name: string): boolean {
+        return this.strategies.has(name);
+    }
+
+    getReputation(accountId: string): AgentReputation | undefined {
+        return this.reputation.get(accountId);
+    }
+
+    getReputations(): AgentReputation[] {
+        return this.reputation.getAll();
+    }
+
+    getReputationRegistry(): ReputationRegistry {
+        return this.reputation;
+    }
+
+    /**
+     * Reinstate reputations derived from the log earlier, e.g. from the
+     * store. Scores from anywhere else must enter through the log as a
+     * REPUTATION_LOADED message, or replays will not see them.
+     */
+    loadReputations(reputations: AgentReputation[]): void {
+        this.reputation.load(reputations);
+    }
+
+    /**
+     * Reinstate persisted state, ids of decided proposals included so they
+     * are not opened again when the log is replayed, and the winners of
+     * resolved tasks so they are not competed for again
+     */
+    restore(proposals: ConsensusProposal[], settledIds: string[], taskWinners: Record<string, string> = {}): void {
+        for (const proposal of proposals) {
+            this.proposals.set(proposal.id, proposal);
+
+            // Rebuild the open rounds of pending proposals
+            const round = this.rounds.get(proposal.taskId);
+            if (round?.id === proposal.roundId && round.status === 'open') {
+                round.proposalIds.push(proposal.id);
+            } else if (proposal.status === 'pending') {
+                this.rounds.set(proposal.taskId, {
+                    id: proposal.roundId,
+                    taskId: proposal.taskId,
+                    proposalIds: [proposal.id],
+                    deadline: proposal.deadline,
+                    revealDeadline: proposal.revealDeadline,
+                    status: 'open'
+                });
+            }
+        }
+        for (const id of settledIds) {
+            this.settled.add(id);
+        }
+        for (const [taskId, proposalId] of Object.entries(taskWinners)) {
+            this.winners.set(taskId, proposalId);
+        }
+    }
+
+    /**
+     * Forget a decided proposal, keeping only its id. Proposals under an
+     * open dispute are kept.
+     */
+    evict(proposalId: string): void {
+        const proposal = this.proposals.get(proposalId);
+        const dispute = proposal?.disputeId ? this.disputes.get(proposal.disputeId) : undefined;
+        if (proposal && proposal.status !== 'pending' && dispute?.status !== 'open') {
+            this.proposals.delete(proposalId);
+            this.settled.add(proposalId);
+            if (dispute) {
+                this.disputes.delete(dispute.id);
+            }
+
+            const round = this.rounds.get(proposal.taskId);
+            if (round && round.status !== 'open' && round.proposalIds.every(id => !this.proposals.has(id))) {
+                this.rounds.delete(proposal.taskId);
+            }
+        }
+    }
+
+    private addProposal(message: SwarmMessage, consensusTimestamp: number): void {
+        const payload = message.payload;
+        if (this.proposals.has(payload.id) || this.settled.has(payload.id)) {
+            return; // Already have this proposal
+        }
+
+        const strategy = payload.strategy ?? this.rules.strategy ?? DEFAULT_STRATEGY;
+        if (!this.strategies.has(strategy)) {
+            this.emit('proposalIgnored', { proposalId: payload.id, reason: 'unknown_strategy', strategy });
+            return;
+        }
+
+        if (this.winners.has(payload.taskId)) {
+            this.emit('proposalIgnored', { proposalId: payload.id, reason: 'task_resolved', strategy });
+            return;
+        }
+
+        // The electorate comes from trusted state, never from the proposer;
+        // one named in the proposal must match it
+        const resolved = this.electorates?.(payload.taskId);
+        const electorate = resolved && toMembers(resolved);
+        if (payload.electorate && !(electorate && sameElectorate(payload.electorate, electorate))) {
+            this.emit('proposalIgnored', { proposalId: payload.id, reason: 'electorate_mismatch', strategy });
+            return;
+        }
+
+        // Join the task's open round, or open one with the voting period the
+        // proposer chose, anchored on consensus time
+        let round = this.rounds.get(payload.taskId);
+        if (!round || round.status !== 'open') {
+            const deadline = consensusTimestamp + Math.max(0, payload.deadline - message.timestamp);
+            round = {
+                id: payload.id,
+                taskId: payload.taskId,
+                proposalIds: [],
+                deadline,
+                revealDeadline: payload.revealPeriod ? deadline + payload.revealPeriod : undefined,
+                status: 'open'
+            };
+            this.rounds.set(payload.taskId, round);
+        }
+        round.proposalIds.push(payload.id);
+
+        const proposal: ConsensusProposal = {
+            id: payload.id,
+            taskId: payload.taskId,
+            solution: payload.solution,
+            proposer: message.sender, // The authenticated sender is the proposer
+            supporters: new Map(),
+            rejectors: new Map(),
+            confidence: payload.confidence,
+            timestamp: consensusTimestamp,
+            deadline: round.deadline,
+            status: 'pending',
+            reputationSnapshot: this.snapshotReputations(consensusTimestamp, payload.capabilities),
+            quorum: payload.quorum ?? this.rules.quorum,
+            strategy,
+            roundId: round.id
+        };
+
+        if (payload.capabilities) {
+            proposal.capabilities = payload.capabilities;
+        }
+
+        if (round.revealDeadline !== undefined) {
+            proposal.revealDeadline = round.revealDeadline;
+            proposal.commitments = {};
+        }
+
+        if (electorate) {
+            proposal.electorate = {};
+            for (const member of electorate) {
+                proposal.electorate[member.accountId] =
+                    member.weight ?? this.getAgentWeight(proposal, member.accountId);
+            }
+        }
+
+        // Add proposer as first supporter when eligible and not already
+        // supporting a competitor
+        const proposerWeight = this.getVoteWeight(proposal, proposal.proposer);
+        if (proposerWeight !== null && !this.supportsCompetitor(proposal, proposal.proposer)) {
+            proposal.supporters.set(proposal.proposer, {
+                voter: proposal.proposer,
+                weight: proposerWeight,
+                timestamp: consensusTimestamp
+            });
+        }
+
+        this.proposals.set(proposal.id, proposal);
+        this.emit('proposalReceived', proposal);
+
+        // A small electorate may be decided by the proposer's own vote
+        this.checkEarlyConsensus(proposal, consensusTimestamp);
+    }
+
+    private addVote(message: SwarmMessage, consensusTimestamp: number): void {
+        const { proposalId, support, reason, value, confidence, ranking } = message.payload;
+        const proposal = this.proposals.get(proposalId);
+        if (!proposal || proposal.status !== 'pending') {
+            return;
+        }
+
+        // Open votes would reveal the choice before everyone has committed
+        if (proposal.commitments) {
+            this.emit('voteIgnored', { proposalId, voter: message.sender, reason: 'commitment_required' });
+            return;
+        }
+
+        this.recordVote(proposal, message.sender, { support, value, confidence, ranking }, reason, consensusTimestamp);
+    }
+
+    private addCommitment(message: SwarmMessage, consensusTimestamp: number): void {
+        const { proposalId, commitment } = message.payload;
+        const proposal = this.proposals.get(proposalId);
+        const voter = message.sender;
+        if (!proposal || !proposal.commitments || proposal.status !== 'pending' ||
+            consensusTimestamp > proposal.deadline ||
+            proposal.commitments[voter] ||
+            proposal.supporters.has(voter)) {
+            return;
+        }
+
+        if (this.getVoteWeight(proposal, voter) === null) {
+            this.emit('voteIgnored', { proposalId, voter, reason: 'not_in_electorate' });
+            return;
+        }
+
+        proposal.commitments[voter] = { commitment, timestamp: consensusTimestamp, revealed: false };
+        this.emit('voteCommitted', { proposalId, voter, timestamp: consensusTimestamp });
+    }
+
+    /**
+     * Count a sealed vote once the commit phase is over and its salt
+     * reproduces the commitment
+     */
+    private revealVote(message: SwarmMessage, consensusTimestamp: number): void {
+        const { proposalId, salt, reason, ...choice } = message.payload;
+        const proposal = this.proposals.get(proposalId);
+        const voter = message.sender;
+        const commitment = proposal?.commitments?.[voter];
+        if (!proposal || !commitment || commitment.revealed || proposal.status !== 'pending' ||
+            consensusTimestamp <= proposal.deadline) {
+            return;
+        }
+
+        if (computeVoteCommitment(proposalId, voter, choice, salt) !== commitment.commitment) {
+            this.emit('voteIgnored', { proposalId, voter, reason: 'invalid_reveal' });
+            return;
+        }
+
+        commitment.revealed = true;
+        this.recordVote(proposal, voter, choice, reason, consensusTimestamp);
+    }
+
+    private recordVote(
+        proposal: ConsensusProposal,
+        voter: string,
+        choice: VoteChoice,
+        reason: string | undefined,
+        consensusTimestamp: number
+    ): void {
+        const proposalId = proposal.id;
+
+        // Check if already voted
+        if (proposal.supporters.has(voter) || proposal.rejectors.has(voter)) {
+            return;
+        }
+
+        const weight = this.getVoteWeight(proposal, voter);
+        if (weight === null) {
+            this.emit('voteIgnored', { proposalId, voter, reason: 'not_in_electorate' });
+            return;
+        }
+
+        // Voters choose one proposal per round
+        if (choice.support && this.supportsCompetitor(proposal, voter)) {
+            this.emit('voteIgnored', { proposalId, voter, reason: 'supports_competitor' });
+            return;
+        }
+
+        const vote: Vote = {
+            voter,
+            weight,
+            timestamp: consensusTimestamp,
+            reason,
+            value: choice.value,
+            confidence: choice.confidence,
+            ranking: choice.ranking
+        };
+
+        if (choice.support) {
+            proposal.supporters.set(voter, vote);
+        } else {
+            proposal.rejectors.set(voter, vote);
+        }
+
+        this.emit('voteReceived', {
+            proposalId,
+            vote,
+            support: choice.support
+        });
+
+        // Check if consensus reached early
+        this.checkEarlyConsensus(proposal, consensusTimestamp);
+    }
+
+    /**
+     * Decide every proposal in a round. Of the proposals their strategies
+     * accept, the one with the highest support wins, then the one with the
+     * most supporting weight, then the earliest; the others are rejected.
+     * Every proposal's outcome names the winner.
+     */
+    private decideRound(round: TaskRound, decidedAt: number, results?: StrategyResult[]): void {
+        const proposals = this.getRoundProposals(round);
+        const context: StrategyContext = { rules: this.rules, competitors: proposals };
+        const decided = proposals.map((proposal, i) => ({
+            proposal,
+            result: results?.[i] ?? this.getStrategy(proposal).decide(proposal, context)
+        }));
+
+        const winner = decided
+            .filter(({ result }) => result.accepted)
+            .sort((a, b) => b.result.supportPercentage - a.result.supportPercentage ||
+                this.getSupportWeight(b.proposal) - this.getSupportWeight(a.proposal))[0];
+
+        round.status = winner ? 'decided' : 'failed';
+        round.winner = winner?.proposal.id;
+        round.decidedAt = decidedAt;
+        if (winner) {
+            this.winners.set(round.taskId, winner.proposal.id);
+        }
+
+        for (const { proposal, result } of decided) {
+            this.settleProposal(proposal, {
+                ...result,
+                accepted: proposal === winner?.proposal
+            }, decidedAt, round.winner);
+        }
+
+        this.emit('roundDecided', {
+            roundId: round.id,
+            taskId: round.taskId,
+            proposalIds: [...round.proposalIds],
+            winner: round.winner ?? null,
+            decidedAt
+        });
+    }
+
+    private settleProposal(
+        proposal: ConsensusProposal,
+        result: StrategyResult,
+        decidedAt: number,
+        winner?: string
+    ): void {
+        proposal.status = result.accepted ? 'accepted' : 'rejected';
+        proposal.outcome = { ...result, winner, decidedAt };
+
+        this.emit('consensusReached', {
+            proposalId: proposal.id,
+            taskId: proposal.taskId,
+            roundId: proposal.roundId,
+            strategy: proposal.strategy,
+            accepted: result.accepted,
+            supportPercentage: result.supportPercentage,
+            totalVotes: result.totalVotes,
+            winner: winner ?? null,
+            solution: result.accepted ? result.value ?? proposal.solution : null
+        });
+
+        // Update agent reputations based on outcome
+        this.updateReputations(proposal, result.accepted, decidedAt);
+    }
+
+    /**
+     * Decide a lone proposal before its deadline when its strategy finds the
+     * outcome certain. Rounds with competitors, and commit-reveal votes,
+     * always run to the deadline.
+     */
+    private checkEarlyConsensus(proposal: ConsensusProposal, consensusTimestamp: number): void {
+        const round = this.rounds.get(proposal.taskId);
+        if (!round || round.id !== proposal.roundId || round.proposalIds.length !== 1 ||
+            proposal.commitments) {
+            return; // Sealed votes are only tallied once the reveal phase is over
+        }
+
+        const context: StrategyContext = { rules: this.rules, competitors: [proposal] };
+        const result = this.getStrategy(proposal).decideEarly?.(proposal, context);
+        if (result) {
+            this.decideRound(round, consensusTimestamp, [result]);
+        }
+    }
+
+    private addDispute(message: SwarmMessage, consensusTimestamp: number): void {
+        const payload = message.payload;
+        if (this.disputes.has(payload.id)) {
+            return;
+        }
+
+        const rules = { ...DISPUTE_DEFAULTS, ...this.rules };
+        const challenger = message.sender;
+        const proposal = this.proposals.get(payload.proposalId);
+        const rejection = proposal
+            ? this.checkDispute(proposal, challenger, payload.bond, consensusTimestamp)
+            : 'not_accepted';
+        if (!proposal || rejection) {
+            this.emit('disputeIgnored', { disputeId: payload.id, proposalId: payload.proposalId, challenger, reason: rejection });
+            return;
+        }
+
+        const jury = this.selectJury(proposal, challenger, rules.jurySize, consensusTimestamp);
+        if (Object.keys(jury).length === 0) {
+            this.emit('disputeIgnored', { disputeId: payload.id, proposalId: payload.proposalId, challenger, reason: 'no_jury' });
+            return;
+        }
+
+        const dispute: Dispute = {
+            id: payload.id,
+            proposalId: proposal.id,
+            taskId: proposal.taskId,
+            challenger,
+            bond: payload.bond,
+            reason: payload.reason,
+            evidence: (payload.evidence || []).map((cid: string) => ({
+                cid,
+                submittedBy: challenger,
+                timestamp: consensusTimestamp
+            })),
+            jury,
+            votes: [],
+            timestamp: consensusTimestamp,
+            deadline: consensusTimestamp + Math.max(0, payload.deadline - message.timestamp),
+            status: 'open'
+        };
+
+        proposal.disputeId = dispute.id;
+        this.disputes.set(dispute.id, dispute);
+
+        // The bond is held until the jury decides
+        this.adjustReputation(challenger, -dispute.bond, 'dispute_bond', proposal.id, consensusTimestamp);
+        this.emit('disputeRaised', dispute);
+    }
+
+    /**
+     * Why a dispute cannot be raised, or null when it can
+     */
+    private checkDispute(
+        proposal: ConsensusProposal,
+        challenger: string,
+        bond: number,
+        consensusTimestamp: number
+    ): string | null {
+        const rules = { ...DISPUTE_DEFAULTS, ...this.rules };
+        if (proposal.status !== 'accepted') {
+            return 'not_accepted';
+        } else if (proposal.disputeId) {
+            return 'already_disputed';
+        } else if (consensusTimestamp > proposal.outcome!.decidedAt + rules.disputeWindow) {
+            return 'window_closed';
+        } else if (challenger === proposal.proposer) {
+            return 'own_proposal';
+        } else if (bond < rules.minDisputeBond || bond > this.reputation.getScore(challenger, consensusTimestamp)) {
+            return 'insufficient_bond';
+        }
+        return null;
+    }
+
+    private addEvidence(message: SwarmMessage, consensusTimestamp: number): void {
+        const { disputeId, cid, description } = message.payload;
+        const dispute = this.disputes.get(disputeId);
+        if (!dispute || dispute.status !== 'open') {
+            return;
+        }
+
+        // Only the parties submit evidence; jurors weigh it
+        const proposal = this.proposals.get(dispute.proposalId);
+        if (message.sender !== dispute.challenger && message.sender !== proposal?.proposer) {
+            return;
+        }
+
+        const evidence: DisputeEvidence = { cid, submittedBy: message.sender, description, timestamp: consensusTimestamp };
+        dispute.evidence.push(evidence);
+        this.emit('disputeEvidenceAdded', { disputeId, evidence });
+    }
+
+    private addLoadedReputations(message: SwarmMessage, consensusTimestamp: number): void {
+        if (!this.rules.reputationAuthorities?.includes(message.sender)) {
+            this.emit('reputationsIgnored', { sender: message.sender, reason: 'unauthorized' });
+            return;
+        }
+
+        const reputations: AgentReputation[] = message.payload.reputations;
+        this.reputation.load(reputations);
+        this.emit('reputationsLoaded', {
+            sender: message.sender,
+            accountIds: reputations.map(reputation => reputation.accountId),
+            timestamp: consensusTimestamp
+        });
+    }
+
+    private addDisputeVote(message: SwarmMessage, consensusTimestamp: number): void {
+        const { disputeId, uphold, reason } = message.payload;
+        const dispute = this.disputes.get(disputeId);
+        const juror = message.sender;
+        if (!dispute || dispute.status !== 'open' ||
+            dispute.jury[juror] === undefined ||
+            dispute.votes.some(vote => vote.juror === juror)) {
+            return;
+        }
+
+        const vote: DisputeVote = { juror, uphold, weight: dispute.jury[juror], timestamp: consensusTimestamp, reason };
+        dispute.votes.push(vote);
+        this.emit('disputeVoteReceived', { disputeId, vote });
+
+        // Decide once the outstanding jurors can no longer change the verdict
+        const { upholdWeight, castWeight, juryWeight } = this.tallyDispute(dispute);
+        const remainingWeight = juryWeight - castWeight;
+        const threshold = this.rules.votingThreshold;
+        if ((castWeight / juryWeight >= this.rules.quorum && upholdWeight / juryWeight >= threshold) ||
+            (upholdWeight + remainingWeight) / juryWeight < threshold ||
+            remainingWeight === 0) {
+            this.resolveDispute(dispute, consensusTimestamp);
+        }
+    }
+
+    /**
+     * The jury upholds a dispute with a supermajority of the weight cast and
+     * a quorum of its weight; otherwise the accepted proposal stands.
+     * Upholding overturns the proposal, reverses the reputation its
+     * acceptance gave or cost, slashes its proposer and returns the
+     * challenger's bond; dismissal forfeits the bond. Jurors are rewarded for
+     * siding with the verdict.
+     */
+    private resolveDispute(dispute: Dispute, decidedAt: number): void {
+        const rules = { ...DISPUTE_DEFAULTS, ...this.rules };
+        const { upholdWeight, castWeight, juryWeight } = this.tallyDispute(dispute);
+        const upholdPercentage = castWeight > 0 ? upholdWeight / castWeight : 0;
+        const upheld = castWeight / juryWeight >= this.rules.quorum && upholdPercentage >= this.rules.votingThreshold;
+
+        dispute.status = upheld ? 'upheld' : 'dismissed';
+        dispute.resolution = { upheld, upholdPercentage, totalVotes: dispute.votes.length, decidedAt };
+
+        const proposal = this.proposals.get(dispute.proposalId)!;
+        if (upheld) {
+            proposal.status = 'rejected';
+            proposal.outcome = { ...proposal.outcome!, accepted: false };
+
+            // The task is open to new proposals again
+            this.winners.delete(proposal.taskId);
+            const round = this.rounds.get(proposal.taskId);
+            if (round?.id === proposal.roundId) {
+                round.status = 'failed';
+                round.winner = undefined;
+            }
+
+            for (const [accountId, points] of Object.entries(proposal.grants || {})) {
+                this.adjustReputation(accountId, -points, 'reversed', proposal.id, decidedAt);
+            }
+            this.adjustReputation(proposal.proposer, -rules.slashAmount, 'slashed', proposal.id, decidedAt);
+            this.adjustReputation(dispute.challenger, dispute.bond, 'bond_returned', proposal.id, decidedAt);
+        }
+
+        for (const vote of dispute.votes) {
+            const success = vote.uphold === upheld;
+            const reason = success ? 'correct_vote' : 'incorrect_vote';
+            this.recordReputation(vote.juror, { kind: 'vote', success }, reason, proposal, decidedAt);
+        }
+
+        this.emit('disputeResolved', {
+            disputeId: dispute.id,
+            proposalId: proposal.id,
+            taskId: proposal.taskId,
+            challenger: dispute.challenger,
+            upheld,
+            upholdPercentage,
+            totalVotes: dispute.votes.length,
+            bond: dispute.bond,
+            slashed: upheld ? { [proposal.proposer]: rules.slashAmount } : { [dispute.challenger]: dispute.bond },
+            decidedAt
+        });
+    }
+
+    /**
+     * The agents with the highest weight, excluding the parties, and
+     * at least twice as many as voted on the proposal
+     */
+    private selectJury(
+        proposal: ConsensusProposal,
+        challenger: string,
+        jurySize: number,
+        consensusTimestamp: number
+    ): Record<string, number> {
+        const size = Math.max(jurySize, (proposal.outcome?.totalVotes ?? 0) * 2);
+        const candidates = this.reputation.getAll()
+            .filter(reputation => reputation.accountId !== proposal.proposer && reputation.accountId !== challenger)
+            .map(reputation => ({
+                accountId: reputation.accountId,
+                weight: this.reputation.getWeight(reputation.accountId, consensusTimestamp, proposal.capabilities)
+            }))
+            .filter(candidate => candidate.weight > 0)
+            .sort((a, b) => b.weight - a.weight || (a.accountId < b.accountId ? -1 : 1))
+            .slice(0, size);
+
+        const jury: Record<string, number> = {};
+        for (const candidate of candidates) {
+            jury[candidate.accountId] = candidate.weight;
+        }
+        return jury;
+    }
+
+    private tallyDispute(dispute: Dispute): { upholdWeight: number; castWeight: number; juryWeight: number } {
+        let upholdWeight = 0;
+        let castWeight = 0;
+        for (const vote of dispute.votes) {
+            castWeight += vote.weight;
+            if (vote.uphold) {
+                upholdWeight += vote.weight;
+            }
+        }
+
+        const juryWeight = Object.values(dispute.jury).reduce((sum, weight) => sum + weight, 0);
+        return { upholdWeight, castWeight, juryWeight };
+    }
+
+    private getStrategy(proposal: ConsensusProposal): ConsensusStrategy {
+        // Restored proposals may name a strategy this node no longer registers
+        return this.strategies.get(proposal.strategy) || this.strategies.get(this.rules.strategy ?? DEFAULT_STRATEGY)!;
+    }
+
+    private getSupportWeight(proposal: ConsensusProposal): number {
+        return Array.from(proposal.supporters.values()).reduce((sum, vote) => sum + vote.weight, 0);
+    }
+
+    private getRoundProposals(round: TaskRound): ConsensusProposal[] {
+        return round.proposalIds
+            .map(id => this.proposals.get(id))
+            .filter((proposal): proposal is ConsensusProposal => proposal !== undefined);
+    }
+
+    /**
+     * Whether the voter already supports another proposal in the same round
+     */
+    private supportsCompetitor(proposal: ConsensusProposal, voter: string): boolean {
+        const round = this.rounds.get(proposal.taskId);
+        if (!round || round.id !== proposal.roundId) {
+            return false;
+        }
+        return this.getRoundProposals(round)
+            .some(p => p !== proposal && p.supporters.has(voter));
+    }
+
+    /**
+     * Weight of an agent's vote on a proposal, or null when not in its electorate
+     */
+    private getVoteWeight(proposal: ConsensusProposal, accountId: string): number | null {
+        if (proposal.electorate) {
+            return proposal.electorate[accountId] ?? null;
+        }
+        return this.getAgentWeight(proposal, accountId);
+    }
+
+    /**
+     * Get agent's voting weight from the proposal's reputation snapshot
+     */
+    private getAgentWeight(proposal: ConsensusProposal, accountId: string): number {
+        if (!this.rules.reputationWeighting) {
+            return 1; // Equal weight for all
+        }
+
+        const score = proposal.reputationSnapshot[accountId];
+        if (score === undefined) {
+            return 50; // Default weight for new agents
+        }
+
+        return score;
+    }
+
+    /**
+     * Weights of every known agent at consensus time, for the task's
+     * capabilities when it names them
+     */
+    private snapshotReputations(consensusTimestamp: number, capabilities?: string[]): Record<string, number> {
+        if (!this.rules.reputationWeighting) {
+            return {};
+        }
+
+        const snapshot: Record<string, number> = {};
+        for (const reputation of this.reputation.getAll()) {
+            snapshot[reputation.accountId] = this.reputation.getWeight(reputation.accountId, consensusTimestamp, capabilities);
+        }
+        return snapshot;
+    }
+
+    /**
+     * Update agent reputations based on consensus outcome
+     */
+    private updateReputations(proposal: ConsensusProposal, accepted: boolean, timestamp: number): void {
+        // Agreement statistics first, so they are saved with the updated scores
+        const votes = [
+            ...Array.from(proposal.supporters.keys()).map(voter => ({ voter, support: true })),
+            ...Array.from(proposal.rejectors.keys()).map(voter => ({ voter, support: false }))
+        ];
+        for (const members of this.reputation.recordVotes(votes, accepted)) {
+            this.emit('votingRingDetected', { members, proposalId: proposal.id, timestamp });
+        }
+
+        // Reward agents who voted with consensus
+        const correctVoters = accepted ? proposal.supporters : proposal.rejectors;
+        const incorrectVoters = accepted ? proposal.rejectors : proposal.supporters;
+        const grants: Record<string, number> = {};
+        const grant = (accountId: string, points: number) => grants[accountId] = (grants[accountId] ?? 0) + points;
+
+        for (const vote of correctVoters.values()) {
+            grant(vote.voter, this.recordReputation(vote.voter, { kind: 'vote', success: true }, 'correct_vote', proposal, timestamp));
+        }
+
+        for (const vote of incorrectVoters.values()) {
+            grant(vote.voter, this.recordReputation(vote.voter, { kind: 'vote', success: false }, 'incorrect_vote', proposal, timestamp));
+        }
+
+        // An accepted solution counts as much as two votes
+        if (accepted) {
+            grant(proposal.proposer, this.recordReputation(
+                proposal.proposer,
+                { kind: 'proposal', success: true, weight: 2 },
+                'accepted_proposal',
+                proposal,
+                timestamp
+            ));
+            // Kept so an appeal that overturns the proposal can take them back
+            proposal.grants = grants;
+        }
+
+        // Penalty for sealed votes never revealed, so withholding a losing vote does not pay
+        const penalty = this.rules.unrevealedPenalty ?? UNREVEALED_PENALTY;
+        for (const [voter, commitment] of Object.entries(proposal.commitments || {})) {
+            if (!commitment.revealed) {
+                this.adjustReputation(voter, -penalty, 'unrevealed_vote', proposal.id, timestamp);
+            }
+        }
+    }
+
+    /**
+     * Feed something an agent did into its reputation model, for the
+     * proposal's capabilities as well as overall. Returns the change in its
+     * overall score.
+     */
+    private recordReputation(
+        accountId: string,
+        observation: ReputationObservation,
+        reason: ReputationChangeReason,
+        proposal: ConsensusProposal,
+        timestamp: number
+    ): number {
+        const update = this.reputation.record(accountId, observation, timestamp, proposal.capabilities);
+        this.emitReputationUpdate(update, reason, proposal.id, timestamp);
+        return update.delta;
+    }
+
+    /**
+     * Move an agent's reputation by a number of points
+     */
+    private adjustReputation(
+        accountId: string,
+        delta: number,
+        reason: ReputationChangeReason,
+        proposalId: string,
+        timestamp: number
+    ): void {
+        const update = this.reputation.adjust(accountId, delta, timestamp);
+        this.emitReputationUpdate(update, reason, proposalId, timestamp);
+    }
+
+    private emitReputationUpdate(
+        update: ReputationUpdate,
+        reason: ReputationChangeReason,
+        proposalId: string,
+        timestamp: number
+    ): void {
+        this.emit('reputationUpdated', {
+            accountId: update.accountId,
+            newScore: update.score,
+            delta: update.delta,
+            reason,
+            proposalId,
+            timestamp
+        });
+    }
+}
@@ -0,0 +1,237 @@
+import { promises as fs } from 'fs';
+import type { AgentReputation, Dispute, VoteCommitment } from './ConsensusLedger';
+
+export type ProposalStatus = 'pending' | 'accepted' | 'rejected' | 'expired';
+
+export interface StoredVote {
+    voter: string;
+    support: boolean;
+    weight: number;
+    timestamp: number;
+    reason?: string;
+    value?: number;
+    confidence?: number;
+    ranking?: string[];
+}
+
+export interface ConsensusOutcome {
+    accepted: boolean;
+    supportPercentage: number;
+    totalVotes: number;
+    value?: number; // Aggregated answer from strategies that compute one
+    winner?: string; // Accepted proposal of the round, if any
+    decidedAt: number;
+}
+
+/**
+ * A proposal with its votes, as persisted between restarts
+ */
+export interface StoredProposal {
+    id: string;
+    taskId: string;
+    solution: any;
+    proposer: string;
+    confidence: number;
+    timestamp: number;
+    deadline: number;
+    revealDeadline?: number;
+    status: ProposalStatus;
+    votes: StoredVote[];
+    commitments?: Record<string, VoteCommitment>;
+    reputationSnapshot?: Record<string, number>;
+    electorate?: Record<string, number>;
+    quorum?: number;
+    strategy?: string;
+    roundId?: string;
+    capabilities?: string[];
+    outcome?: ConsensusOutcome;
+    grants?: Record<string, number>;
+}
+
+export type ReputationChangeReason =
+    | 'correct_vote'
+    | 'incorrect_vote'
+    | 'accepted_proposal'
+    | 'dispute_bond' // Staked by a challenger, returned if the dispute is upheld
+    | 'bond_returned'
+    | 'slashed' // Proposer of a solution overturned on appeal
+    | 'reversed' // Undoes what accepting a solution later overturned on appeal gained or cost
+    | 'unrevealed_vote';
+
+export interface ReputationChange {
+    accountId: string;
+    delta: number;
+    score: number; // Score after the change
+    reason: ReputationChangeReason;
+    proposalId?: string;
+    timestamp: number;
+}
+
+export interface ProposalQuery {
+    taskId?: string;
+    proposer?: string;
+    voter?: string;
+    status?: ProposalStatus;
+}
+
+export interface DisputeQuery {
+    proposalId?: string;
+    taskId?: string;
+    challenger?: string;
+    status?: Dispute['status'];
+}
+
+export interface ConsensusStore {
+    saveProposal(proposal: StoredProposal): Promise<void>;
+    getProposal(proposalId: string): Promise<StoredProposal | null>;
+    findProposals(query?: ProposalQuery): Promise<StoredProposal[]>;
+    saveReputation(reputation: AgentReputation, change?: ReputationChange): Promise<void>;
+    loadReputations(): Promise<AgentReputation[]>;
+    getReputationHistory(accountId: string): Promise<ReputationChange[]>;
+    saveDispute(dispute: Dispute): Promise<void>;
+    getDispute(disputeId: string): Promise<Dispute | null>;
+    findDisputes(query?: DisputeQuery): Promise<Dispute[]>;
+}
+
+interface ConsensusState {
+    proposals: Map<string, StoredProposal>;
+    disputes: Map<string, Dispute>;
+    reputations: Map<string, AgentReputation>;
+    reputationHistory: ReputationChange[];
+}
+
+function matchesQuery(proposal: StoredProposal, query: ProposalQuery): boolean {
+    return (!query.taskId || proposal.taskId === query.taskId) &&
+        (!query.proposer || proposal.proposer === query.proposer) &&
+        (!query.status || proposal.status === query.status) &&
+        (!query.voter || proposal.votes.some(vote => vote.voter === query.voter));
+}
+
+/**
+ * Consensus state kept for the lifetime of the process
+ */
+export class InMemoryConsensusStore implements ConsensusStore {
+    protected state: ConsensusState = {
+        proposals: new Map(),
+        disputes: new Map(),
+        reputations: new Map(),
+        reputationHistory: []
+    };
+
+    async saveProposal(proposal: StoredProposal): Promise<void> {
+        (await this.getState()).proposals.set(proposal.id, proposal);
+        await this.persist();
+    }
+
+    async getProposal(proposalId: string): Promise<StoredProposal | null> {
+        return (await this.getState()).proposals.get(proposalId) || null;
+    }
+
+    async findProposals(query: ProposalQuery = {}): Promise<StoredProposal[]> {
+        const proposals = Array.from((await this.getState()).proposals.values());
+        return proposals
+            .filter(proposal => matchesQuery(proposal, query))
+            .sort((a, b) => a.timestamp - b.timestamp);
+    }
+
+    async saveReputation(reputation: AgentReputation, change?: ReputationChange): Promise<void> {
+        const state = await this.getState();
+        state.reputations.set(reputation.accountId, { ...reputation });
+        if (change) {
+            state.reputationHistory.push(change);
+        }
+        await this.persist();
+    }
+
+    async loadReputations(): Promise<AgentReputation[]> {
+        return Array.from((await this.getState()).reputations.values());
+    }
+
+    async getReputationHistory(accountId: string): Promise<ReputationChange[]> {
+        return (await this.getState()).reputationHistory
+            .filter(change => change.accountId === accountId);
+    }
+
+    async saveDispute(dispute: Dispute): Promise<void> {
+        (await this.getState()).disputes.set(dispute.id, dispute);
+        await this.persist();
+    }
+
+    async getDispute(disputeId: string): Promise<Dispute | null> {
+        return (await this.getState()).disputes.get(disputeId) || null;
+    }
+
+    async findDisputes(query: DisputeQuery = {}): Promise<Dispute[]> {
+        return Array.from((await this.getState()).disputes.values())
+            .filter(dispute => (!query.proposalId || dispute.proposalId === query.proposalId) &&
+                (!query.taskId || dispute.taskId === query.taskId) &&
+                (!query.challenger || dispute.challenger === query.challenger) &&
+                (!query.status || dispute.status === query.status))
+            .sort((a, b) => a.timestamp - b.timestamp);
+    }
+
+    protected async getState(): Promise<ConsensusState> {
+        return this.state;
+    }
+
+    protected async persist(): Promise<void> {
+        // Nothing to do in memory
+    }
+}
+
+/**
+ * Consensus state persisted to a single JSON file. Writes are serialized
+ * and replace the file atomically, so a crash never leaves it half written.
+ */
+export class FileConsensusStore extends InMemoryConsensusStore {
+    private path: string;
+    private loading: Promise<ConsensusState> | null = null;
+    private writing: Promise<void> = Promise.resolve();
+
+    constructor(path: string) {
+        super();
+        this.path = path;
+    }
+
+    protected getState(): Promise<ConsensusState> {
+        if (!this.loading) {
+            this.loading = this.readFile();
+        }
+        return this.loading;
+    }
+
+    protected async persist(): Promise<void> {
+        const state = await this.getState();
+
+        this.writing = this.writing.catch(() => undefined).then(async () => {
+            const tmpPath = `${this.path}.tmp`;
+            await fs.writeFile(tmpPath, JSON.stringify({
+                proposals: Array.from(state.proposals.values()),
+                disputes: Array.from(state.disputes.values()),
+                reputations: Array.from(state.reputations.values()),
+                reputationHistory: state.reputationHistory
+            }, null, 2));
+            await fs.rename(tmpPath, this.path);
+        });
+
+        return this.writing;
+    }
+
+    private async readFile(): Promise<ConsensusState> {
+        try {
+            const data = JSON.parse(await fs.readFile(this.path, 'utf8'));
+            this.state = {
+                proposals: new Map(data.proposals.map((p: StoredProposal) => [p.id, p])),
+                disputes: new Map((data.disputes || []).map((d: Dispute) => [d.id, d])),
+                reputations: new Map(data.reputations.map((r: AgentReputation) => [r.accountId, r])),
+                reputationHistory: data.reputationHistory || []
+            };
+        } catch (error: unknown) {
+            if (!(typeof error === 'object' && error !== null && 'code' in error && error.code === 'ENOENT')) {
+                throw error;
+            }
+        }
+
+        return this.state;
+    }
+}
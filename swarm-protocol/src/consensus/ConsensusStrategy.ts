@@ -0,0 +1,351 @@
+import type { ConsensusProposal, ConsensusRules, Vote } from './ConsensusLedger';
+
+export interface StrategyResult {
+    accepted: boolean;
+    supportPercentage: number;
+    totalVotes: number;
+    value?: number; // Aggregated answer, for strategies that compute one
+}
+
+export interface StrategyContext {
+    rules: ConsensusRules;
+    competitors: ConsensusProposal[]; // Every proposal in the task's round, this one included
+}
+
+/**
+ * Rule that turns the votes on a proposal into an outcome. Strategies only
+ * see state derived from the log, so they must be deterministic.
+ */
+export interface ConsensusStrategy {
+    readonly name: string;
+    /** Outcome once the deadline has passed */
+    decide(proposal: ConsensusProposal, context: StrategyContext): StrategyResult;
+    /** Outcome before the deadline once no outstanding vote can change it, or null */
+    decideEarly?(proposal: ConsensusProposal, context: StrategyContext): StrategyResult | null;
+}
+
+interface WeightedTally {
+    supportWeight: number;
+    rejectWeight: number;
+    remainingWeight: number; // Electorate members who have not voted yet
+    castWeight: number; // Untransformed weight of the votes cast, for the quorum
+    totalVotes: number;
+}
+
+function tally(proposal: ConsensusProposal, transform: (weight: number) => number): WeightedTally {
+    let supportWeight = 0;
+    let rejectWeight = 0;
+    let castWeight = 0;
+    let remainingWeight = 0;
+
+    for (const vote of proposal.supporters.values()) {
+        supportWeight += transform(vote.weight);
+        castWeight += vote.weight;
+    }
+
+    for (const vote of proposal.rejectors.values()) {
+        rejectWeight += transform(vote.weight);
+        castWeight += vote.weight;
+    }
+
+    for (const [accountId, weight] of Object.entries(proposal.electorate || {})) {
+        if (!proposal.supporters.has(accountId) && !proposal.rejectors.has(accountId)) {
+            remainingWeight += transform(weight);
+        }
+    }
+
+    return {
+        supportWeight,
+        rejectWeight,
+        remainingWeight,
+        castWeight,
+        totalVotes: proposal.supporters.size + proposal.rejectors.size
+    };
+}
+
+function getMinParticipants(proposal: ConsensusProposal, rules: ConsensusRules): number {
+    return proposal.electorate
+        ? Math.min(rules.minParticipants, Object.keys(proposal.electorate).length)
+        : rules.minParticipants;
+}
+
+/**
+ * Enough voters took part, and enough of the electorate's weight when it is known
+ */
+function hasQuorum(proposal: ConsensusProposal, rules: ConsensusRules, totalVotes: number, castWeight: number): boolean {
+    if (totalVotes < getMinParticipants(proposal, rules)) {
+        return false;
+    }
+    if (!proposal.electorate) {
+        return true;
+    }
+
+    const electorateWeight = Object.values(proposal.electorate).reduce((sum, weight) => sum + weight, 0);
+    return electorateWeight > 0 && castWeight / electorateWeight >= proposal.quorum;
+}
+
+function rejected(totalVotes: number): StrategyResult {
+    return { accepted: false, supportPercentage: 0, totalVotes };
+}
+
+export interface ThresholdOptions {
+    threshold?: number; // The configured votingThreshold when absent
+    strict?: boolean; // Support must exceed the threshold rather than reach it
+    transform?: (weight: number) => number; // Applied to each vote weight before counting
+}
+
+/**
+ * Weighted vote that passes once support reaches a threshold. With a known
+ * electorate it is decided early when the outstanding voters can no longer
+ * change the outcome.
+ */
+export class ThresholdStrategy implements ConsensusStrategy {
+    readonly name: string;
+    private options: ThresholdOptions;
+
+    constructor(name: string, options: ThresholdOptions = {}) {
+        this.name = name;
+        this.options = options;
+    }
+
+    decide(proposal: ConsensusProposal, context: StrategyContext): StrategyResult {
+        const { supportWeight, rejectWeight, castWeight, totalVotes } = this.tally(proposal);
+        if (!hasQuorum(proposal, context.rules, totalVotes, castWeight)) {
+            return rejected(totalVotes);
+        }
+
+        const totalWeight = supportWeight + rejectWeight;
+        const supportPercentage = totalWeight > 0 ? supportWeight / totalWeight : 0;
+
+        return {
+            accepted: this.passes(supportPercentage, context.rules),
+            supportPercentage,
+            totalVotes
+        };
+    }
+
+    /**
+     * Accepted if it passes even when every remaining voter rejects,
+     * rejected if it fails even when every remaining voter supports
+     */
+    decideEarly(proposal: ConsensusProposal, context: StrategyContext): StrategyResult | null {
+        if (!proposal.electorate) {
+            return null;
+        }
+
+        const { supportWeight, rejectWeight, remainingWeight, castWeight, totalVotes } = this.tally(proposal);
+        const possibleWeight = supportWeight + rejectWeight + remainingWeight;
+        if (possibleWeight === 0) {
+            return null;
+        }
+
+        const worstCaseSupport = supportWeight / possibleWeight;
+        const bestCaseSupport = (supportWeight + remainingWeight) / possibleWeight;
+
+        if ((hasQuorum(proposal, context.rules, totalVotes, castWeight) && this.passes(worstCaseSupport, context.rules)) ||
+            !this.passes(bestCaseSupport, context.rules)) {
+            return this.decide(proposal, context);
+        }
+        return null;
+    }
+
+    private tally(proposal: ConsensusProposal): WeightedTally {
+        return tally(proposal, this.options.transform || (weight => weight));
+    }
+
+    private passes(supportPercentage: number, rules: ConsensusRules): boolean {
+        const threshold = this.options.threshold ?? rules.votingThreshold;
+        return this.options.strict ? supportPercentage > threshold : supportPercentage >= threshold;
+    }
+}
+
+/**
+ * Accepted only when nobody rejects and, with a known electorate, every
+ * member supports
+ */
+export class UnanimousStrategy implements ConsensusStrategy {
+    readonly name = 'unanimous';
+
+    decide(proposal: ConsensusProposal, context: StrategyContext): StrategyResult {
+        const { supportWeight, rejectWeight, castWeight, totalVotes } = tally(proposal, weight => weight);
+        if (!hasQuorum(proposal, context.rules, totalVotes, castWeight)) {
+            return rejected(totalVotes);
+        }
+
+        const allSupport = proposal.rejectors.size === 0 &&
+            Object.keys(proposal.electorate || {}).every(accountId => proposal.supporters.has(accountId));
+
+        return {
+            accepted: allSupport,
+            supportPercentage: supportWeight + rejectWeight > 0 ? supportWeight / (supportWeight + rejectWeight) : 0,
+            totalVotes
+        };
+    }
+
+    decideEarly(proposal: ConsensusProposal, context: StrategyContext): StrategyResult | null {
+        const everyoneVoted = proposal.electorate &&
+            Object.keys(proposal.electorate).every(accountId => proposal.supporters.has(accountId));
+
+        return proposal.rejectors.size > 0 || everyoneVoted ? this.decide(proposal, context) : null;
+    }
+}
+
+/**
+ * Instant-runoff vote across the competing proposals of a round. Each
+ * voter's ballot is the ranking attached to their vote, or just the proposal
+ * they supported; only the proposal that wins the runoff is accepted.
+ */
+export class RankedChoiceStrategy implements ConsensusStrategy {
+    readonly name = 'ranked-choice';
+
+    decide(proposal: ConsensusProposal, context: StrategyContext): StrategyResult {
+        const candidates = context.competitors.map(p => p.id);
+        const ballots = this.collectBallots(context.competitors);
+        const minParticipants = getMinParticipants(proposal, context.rules);
+
+        if (ballots.length < minParticipants) {
+            return rejected(ballots.length);
+        }
+
+        const { winner, finalTally } = this.runoff(candidates, ballots);
+        const finalWeight = Array.from(finalTally.values()).reduce((sum, weight) => sum + weight, 0);
+
+        return {
+            accepted: winner === proposal.id,
+            supportPercentage: finalWeight > 0 ? (finalTally.get(proposal.id) || 0) / finalWeight : 0,
+            totalVotes: ballots.length
+        };
+    }
+
+    /**
+     * One ballot per voter; an explicit ranking wins over an implicit one,
+     * then the earliest vote
+     */
+    private collectBallots(competitors: ConsensusProposal[]): { ranking: string[]; weight: number }[] {
+        const ballots = new Map<string, { ranking: string[]; weight: number; explicit: boolean; timestamp: number }>();
+
+        for (const proposal of competitors) {
+            const votes: [Vote, boolean][] = [
+                ...Array.from(proposal.supporters.values()).map(vote => [vote, true] as [Vote, boolean]),
+                ...Array.from(proposal.rejectors.values()).map(vote => [vote, false] as [Vote, boolean])
+            ];
+
+            for (const [vote, support] of votes) {
+                const ranking = vote.ranking || (support ? [proposal.id] : []);
+                const explicit = !!vote.ranking;
+                const current = ballots.get(vote.voter);
+                if (!current || (explicit && !current.explicit) ||
+                    (explicit === current.explicit && vote.timestamp < current.timestamp)) {
+                    ballots.set(vote.voter, { ranking, weight: vote.weight, explicit, timestamp: vote.timestamp });
+                }
+            }
+        }
+
+        return Array.from(ballots.values())
+            .filter(ballot => ballot.ranking.length > 0)
+            .map(({ ranking, weight }) => ({ ranking, weight }));
+    }
+
+    private runoff(candidates: string[], ballots: { ranking: string[]; weight: number }[]): {
+        winner: string | null;
+        finalTally: Map<string, number>;
+    } {
+        const remaining = new Set(candidates);
+
+        while (remaining.size > 0) {
+            const counts = new Map<string, number>(Array.from(remaining).map(id => [id, 0]));
+            let activeWeight = 0;
+
+            for (const ballot of ballots) {
+                const choice = ballot.ranking.find(id => remaining.has(id));
+                if (choice) {
+                    counts.set(choice, counts.get(choice)! + ballot.weight);
+                    activeWeight += ballot.weight;
+                }
+            }
+
+            // Ties are broken by proposal id so every node picks the same candidate
+            const ordered = Array.from(counts.entries())
+                .sort((a, b) => b[1] - a[1] || (a[0] < b[0] ? -1 : 1));
+            const [leader, leaderWeight] = ordered[0];
+
+            if (activeWeight === 0) {
+                return { winner: null, finalTally: counts };
+            }
+            if (leaderWeight > activeWeight / 2 || remaining.size === 1) {
+                return { winner: leader, finalTally: counts };
+            }
+
+            remaining.delete(ordered[ordered.length - 1][0]);
+        }
+
+        return { winner: null, finalTally: new Map() };
+    }
+}
+
+/**
+ * Aggregates numeric answers: the proposed solution and any value attached
+ * to a vote, each weighted by the voter's weight times their confidence.
+ * Accepted once enough agents answered and enough of the weight supports
+ * the proposal; the aggregate is the outcome value.
+ */
+export class ConfidenceWeightedStrategy implements ConsensusStrategy {
+    readonly name = 'confidence-weighted';
+    private threshold?: number;
+
+    constructor(threshold?: number) {
+        this.threshold = threshold; // The configured votingThreshold when absent
+    }
+
+    decide(proposal: ConsensusProposal, context: StrategyContext): StrategyResult {
+        const { supportWeight, rejectWeight, castWeight, totalVotes } = tally(proposal, weight => weight);
+        const proposed = typeof proposal.solution === 'number' ? proposal.solution : undefined;
+
+        let answerWeight = 0;
+        let weightedSum = 0;
+        const addAnswer = (value: number | undefined, weight: number) => {
+            if (value !== undefined && Number.isFinite(value) && weight > 0) {
+                weightedSum += value * weight;
+                answerWeight += weight;
+            }
+        };
+
+        for (const vote of proposal.supporters.values()) {
+            const confidence = vote.voter === proposal.proposer ? proposal.confidence : vote.confidence ?? 1;
+            addAnswer(vote.value ?? proposed, vote.weight * confidence);
+        }
+        for (const vote of proposal.rejectors.values()) {
+            addAnswer(vote.value, vote.weight * (vote.confidence ?? 1));
+        }
+
+        if (!hasQuorum(proposal, context.rules, totalVotes, castWeight) || answerWeight === 0) {
+            return rejected(totalVotes);
+        }
+
+        const supportPercentage = supportWeight + rejectWeight > 0 ? supportWeight / (supportWeight + rejectWeight) : 0;
+        return {
+            accepted: this.passes(supportPercentage, context.rules),
+            supportPercentage,
+            totalVotes,
+            value: weightedSum / answerWeight
+        };
+    }
+
+    private passes(supportPercentage: number, rules: ConsensusRules): boolean {
+        return supportPercentage >= (this.threshold ?? rules.votingThreshold);
+    }
+}
+
+/**
+ * Strategies available to every engine, by name
+ */
+export function createDefaultStrategies(): ConsensusStrategy[] {
+    return [
+        new ThresholdStrategy('majority', { threshold: 0.5, strict: true }),
+        new ThresholdStrategy('supermajority'),
+        new ThresholdStrategy('quadratic', { threshold: 0.5, strict: true, transform: Math.sqrt }),
+        new UnanimousStrategy(),
+        new RankedChoiceStrategy(),
+        new ConfidenceWeightedStrategy()
+    ];
+}
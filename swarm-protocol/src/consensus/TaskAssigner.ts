@@ -0,0 +1,76 @@
+import { Client } from '@hashgraph/sdk';
+import { SwarmOrchestratorClient } from '../contracts/HederaContractClient';
+
+/**
+ * The assignment side of the SwarmOrchestrator contract
+ */
+export interface TaskAssigner {
+    /** Record which agents work on a task; returns the transaction id */
+    assignTask(taskId: string, agentIds: string[]): Promise<string>;
+    /** Hand an assigned agent's place to another; returns the transaction id */
+    replaceAgent(taskId: string, abandoned: string, replacement: string): Promise<string>;
+}
+
+/**
+ * Assignments kept in memory, for tests and local development. Mirrors the
+ * contract's rules: only an assigned agent can be replaced, and only by one
+ * not yet assigned.
+ */
+export class InMemoryTaskAssigner implements TaskAssigner {
+    private assignments: Map<string, string[]> = new Map();
+    private transactions = 0;
+    private operator: string;
+
+    constructor(operator: string = '0.0.2') {
+        this.operator = operator; // Account the transaction ids are issued for
+    }
+
+    async assignTask(taskId: string, agentIds: string[]): Promise<string> {
+        this.assignments.set(taskId, [...agentIds]);
+        return this.nextTransactionId();
+    }
+
+    async replaceAgent(taskId: string, abandoned: string, replacement: string): Promise<string> {
+        const agentIds = this.assignments.get(taskId);
+        if (!agentIds?.includes(abandoned)) {
+            throw new Error('Not assigned to task');
+        }
+        if (agentIds.includes(replacement)) {
+            throw new Error('Already assigned to task');
+        }
+
+        agentIds[agentIds.indexOf(abandoned)] = replacement;
+        return this.nextTransactionId();
+    }
+
+    getAssignment(taskId: string): string[] | undefined {
+        const agentIds = this.assignments.get(taskId);
+        return agentIds ? [...agentIds] : undefined;
+    }
+
+    private nextTransactionId(): string {
+        const seconds = Math.floor(Date.now() / 1000);
+        return `${this.operator}@${seconds}.${String(++this.transactions).padStart(9, '0')}`;
+    }
+}
+
+/**
+ * The deployed SwarmOrchestrator. Assigned agents must be active and have
+ * the task's capabilities, or the transaction reverts; replacing one needs
+ * the client's operator to be the task requester or the contract owner.
+ */
+export class HederaTaskAssigner implements TaskAssigner {
+    private contract: SwarmOrchestratorClient;
+
+    constructor(client: Client, contractId: string) {
+        this.contract = new SwarmOrchestratorClient(client, contractId);
+    }
+
+    async assignTask(taskId: string, agentIds: string[]): Promise<string> {
+        return (await this.contract.assignTask(taskId, agentIds)).transactionId;
+    }
+
+    async replaceAgent(taskId: string, abandoned: string, replacement: string): Promise<string> {
+        return (await this.contract.replaceAgent(taskId, abandoned, replacement)).transactionId;
+    }
+}
@@ -0,0 +1,99 @@
+import * as crypto from 'crypto';
+import type { AgentBid, Task } from './TaskDistributor';
+
+/**
+ * How agents compete for a task. Open bids are visible to everyone and
+ * scored; the others are reverse auctions where the lowest asks win.
+ * - first-price: sealed bids, winners are paid what they asked
+ * - vickrey: sealed bids, winners are paid the lowest losing ask
+ * - dutch: the offered reward drops over time until enough agents accept it
+ */
+export type AuctionType = 'open' | 'first-price' | 'vickrey' | 'dutch';
+
+export interface AuctionTerms {
+    type: AuctionType;
+    reservePrice?: number; // Most the requester pays any one agent; bids asking more are refused
+    priceStep?: number; // Dutch: how much the reward drops each interval
+    priceInterval?: number; // Dutch: ms between drops
+    floorPrice?: number; // Dutch: the reward stops dropping here
+    startedAt?: number; // Set when the task is announced
+    commitDeadline?: number; // Sealed: set when announced; reveals are accepted from here
+    revealDeadline?: number; // Sealed: set when announced; the auction clears here
+}
+
+/**
+ * A sealed bid: the hash of the bid and a secret salt, revealed once
+ * bidding closes
+ */
+export interface BidCommitment {
+    taskId: string;
+    agentId: string;
+    commitment: string;
+}
+
+export interface AuctionResult {
+    winners: AgentBid[];
+    rewards: Record<string, number>; // By winning agent
+    ranking: string[]; // Every bidder, best first
+}
+
+export function isSealed(type: AuctionType): boolean {
+    return type === 'first-price' || type === 'vickrey';
+}
+
+/**
+ * Agents an auction assigns: as many as the task takes at most
+ */
+export function auctionSlots(task: Task): number {
+    return task.maxAgents || task.minAgents || 1;
+}
+
+/**
+ * Hash that binds an agent to its bid until it reveals it with the salt
+ */
+export function computeBidCommitment(bid: AgentBid, salt: string): string {
+    return crypto.createHash('sha256')
+        .update(JSON.stringify([
+            bid.taskId,
+            bid.agentId,
+            bid.estimatedTime,
+            bid.requestedReward,
+            bid.confidence,
+            bid.capabilities,
+            bid.reputation,
+            salt
+        ]))
+        .digest('hex');
+}
+
+/**
+ * Reward a Dutch auction offers at a given time
+ */
+export function dutchPrice(terms: AuctionTerms, now: number): number {
+    const start = terms.reservePrice ?? 0;
+    const steps = terms.priceInterval ? Math.floor((now - (terms.startedAt ?? now)) / terms.priceInterval) : 0;
+    return Math.max(terms.floorPrice ?? 0, start - Math.max(0, steps) * (terms.priceStep ?? 0));
+}
+
+/**
+ * Winners and what each is paid. Bids come ranked by score, which breaks
+ * ties between equal asks; Dutch bids were each accepted at the offered
+ * reward and all win.
+ */
+export function clearAuction(terms: AuctionTerms, rankedBids: AgentBid[], slots: number): AuctionResult {
+    const byAsk = terms.type === 'dutch'
+        ? rankedBids
+        : [...rankedBids].sort((a, b) => a.requestedReward - b.requestedReward);
+    const winners = byAsk.slice(0, slots);
+
+    // Vickrey winners all get the first losing ask, or the reserve when no one lost
+    const clearingPrice = byAsk[slots]?.requestedReward ?? terms.reservePrice;
+    const rewards: Record<string, number> = {};
+    for (const bid of winners) {
+        rewards[bid.agentId] = terms.type === 'vickrey' && clearingPrice !== undefined
+            ? clearingPrice
+            : bid.requestedReward;
+    }
+
+    return { winners, rewards, ranking: byAsk.map(bid => bid.agentId) };
+}
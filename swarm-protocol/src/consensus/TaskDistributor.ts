@@ -1,10 +1,23 @@
 import { EventEmitter } from 'events';
-import { 
-    Client, 
-    ContractExecuteTransaction,
-    ContractFunctionParameters,
-    AccountId 
-} from '@hashgraph/sdk';
+import { ReputationRegistry } from '../reputation/ReputationRegistry';
+import { TaskStatus } from '../contracts/ContractCodec';
+import { AgentProgress, TaskHistoryEntry, TaskLifecycle, TaskQuery, TaskRecord, isFinished } from './TaskLifecycle';
+import { SubTask, SubTaskOutputs, TaskGraph } from './TaskGraph';
+import {
+    AuctionTerms,
+    AuctionType,
+    BidCommitment,
+    auctionSlots,
+    clearAuction,
+    computeBidCommitment,
+    dutchPrice,
+    isSealed
+} from './TaskAuction';
+import { TeamMemberExplanation, formTeam } from './TeamFormation';
+import { QueuedTask, TaskPriority, TaskQueue, compareTasks } from './TaskScheduler';
+import { AgentDirectory } from './AgentDirectory';
+import { TaskAssigner } from './TaskAssigner';
+import { CapabilityTaxonomy, ProficiencyLevel, defaultCapabilityTaxonomy } from '../capabilities/CapabilityTaxonomy';
 
 export interface Task {
     id: string;
@@ -16,6 +29,13 @@ export interface Task {
     minAgents?: number;
     maxAgents?: number;
     priority?: 'low' | 'medium' | 'high' | 'critical';
+    subtasks?: SubTask[]; // Split into these rather than bid on directly
+    parentId?: string; // Set on sub-tasks
+    inputs?: SubTaskOutputs; // Outputs of the sub-tasks this one depends on
+    auction?: AuctionTerms; // How agents compete for it; open bidding by default
+    preselectedAgents?: string[]; // Only these may bid; bidding closes once they all have
+    excludedAgents?: string[]; // May not bid, on this task or its sub-tasks
+    minProficiency?: Record<string, ProficiencyLevel>; // Level asked for, by capability
 }
 
 export interface AgentBid {
@@ -25,14 +45,17 @@ export interface AgentBid {
     requestedReward: number;
     confidence: number;
     capabilities: string[];
-    reputation: number;
+    proficiency?: Record<string, ProficiencyLevel>; // By capability; competent when absent
+    reputation: number; // Self-reported; ignored when the distributor has a reputation registry
 }
 
 export interface TaskAssignment {
     taskId: string;
     assignedAgents: string[];
-    totalReward: number;
+    totalReward: number; // What the agents are paid; the rest of the bounty goes back to the requester
     deadline: number;
+    rewards?: Record<string, number>; // By agent: the auction price, or its own ask for teams
+    explanations?: TeamMemberExplanation[]; // Why each agent was chosen, for teams formed from open bids
 }
 
 export interface AgentProfile {
@@ -44,135 +67,627 @@ export interface AgentProfile {
     successRate: number;
     averageCompletionTime: number;
     specializations?: string[];
+    maxConcurrentTasks?: number; // Tasks it takes on at once; the distributor's default when absent
+}
+
+export interface TaskDistributorConfig {
+    bidWindowDuration: number; // How long (ms) bids are collected before agents are selected
+    bidWindowScale: Record<TaskPriority, number>; // Multiple of the bid window each priority gets
+    maxConcurrentTasks: number; // Tasks an agent with a profile takes on at once, unless it says otherwise
+    maxBidsPerTask: number;
+    reputationWeight: number;
+    confidenceWeight: number;
+    priceWeight: number;
+    capabilityMatchBonus: number;
+    teamCostWeight: number; // Expected team quality given up for spending the whole bounty
+    deadlineCheckInterval: number; // How often (ms) task deadlines and agent liveness are checked
+    historyLimit: number; // Finished tasks kept for querying
+    heartbeatTimeout: number; // Silence (ms) after which an assigned agent has abandoned its task; 0 disables
+    estimateSlack: number; // Multiple of its estimated time an agent may take before it has missed its deadline
+    progressCheckpoints: number[]; // Shares of an agent's time by which it must have reported progress since the last one
+    abandonmentPenalty: number; // Reputation points an agent loses for abandoning a task
+    auctionType: AuctionType; // For tasks that do not set their own auction terms
+    revealPeriod: number; // How long (ms) sealed bids may be revealed once bidding closes
+    unrevealedBidPenalty: number; // Reputation points lost for a sealed bid that is never revealed
+    dutchInterval: number; // How often (ms) a Dutch auction lowers its reward
+    dutchPriceStep: number; // Share of the reserve price a Dutch auction drops by each time
+    dutchFloor: number; // Share of the reserve price below which a Dutch auction does not go
+    taxonomy: CapabilityTaxonomy; // How bidders' capabilities are matched to what tasks require
+}
+
+/**
+ * Tasks an agent reports working on in a heartbeat
+ */
+export interface HeartbeatTask {
+    taskId: string;
+    progress?: number; // Share of the work done, 0-1
 }
 
+/**
+ * Collects bids for tasks, assigns a team of bidders or the auction winners,
+ * and tracks each task through the orchestrator's lifecycle: Open,
+ * InProgress once assigned, UnderReview once every assigned agent has
+ * reported, then Completed, Disputed or Cancelled.
+ * Tasks with sub-tasks are worked on through those, which are announced as
+ * their dependencies complete.
+ */
 export class TaskDistributor extends EventEmitter {
-    private client: Client;
-    private orchestratorAddress: string;
-    private taskQueue: Map<string, Task> = new Map();
-    private agentBids: Map<string, AgentBid[]> = new Map();
-    private agentProfiles: Map<string, AgentProfile> = new Map();
-    private activeAssignments: Map<string, TaskAssignment> = new Map();
-    
-    // Configuration
-    private config = {
-        bidWindowDuration: 2 * 60 * 1000, // 2 minutes
-        maxBidsPerTask: 20,
-        reputationWeight: 0.4,
-        confidenceWeight: 0.3,
-        priceWeight: 0.3,
-        capabilityMatchBonus: 0.2
-    };
-    
-    constructor(client: Client, orchestratorAddress: string) {
+    private assigner: TaskAssigner;
+    private lifecycle: TaskLifecycle;
+    private directory: AgentDirectory;
+    private reputation?: ReputationRegistry;
+    private config: TaskDistributorConfig;
+    private bidWindows: Map<string, NodeJS.Timeout> = new Map();
+    private deadlineTimer?: NodeJS.Timeout;
+    private lastHeartbeat: Map<string, number> = new Map(); // By agent
+    private queue: TaskQueue = new TaskQueue(); // Tasks waiting for agents to have capacity
+    private awaitingAssignment: Set<string> = new Set(); // Tasks whose bidding has closed
+    private blocked: Set<string> = new Set(); // Tasks whose bidders were all at their limit
+    private assigning = false;
+    
+    constructor(
+        assigner: TaskAssigner,
+        reputation?: ReputationRegistry,
+        config?: Partial<TaskDistributorConfig>,
+        directory: AgentDirectory = new AgentDirectory()
+    ) {
         super();
-        this.client = client;
-        this.orchestratorAddress = orchestratorAddress;
+        this.assigner = assigner; // Records assignments with the orchestrator contract
+        this.reputation = reputation; // Usually the consensus engine's, so bids and votes agree
+        this.directory = directory; // Where agent profiles come from; may be shared
+        this.directory.on('agentRegistered', () => this.capacityChanged());
+        this.config = {
+            bidWindowDuration: 2 * 60 * 1000, // 2 minutes
+            bidWindowScale: { critical: 0.25, high: 0.5, medium: 1, low: 1 },
+            maxConcurrentTasks: 3,
+            maxBidsPerTask: 20,
+            reputationWeight: 0.4,
+            confidenceWeight: 0.3,
+            priceWeight: 0.3,
+            capabilityMatchBonus: 0.2,
+            teamCostWeight: 0.5,
+            deadlineCheckInterval: 30000,
+            historyLimit: 1000,
+            heartbeatTimeout: 5 * 60 * 1000, // 5 minutes
+            estimateSlack: 2,
+            progressCheckpoints: [],
+            abandonmentPenalty: 10,
+            auctionType: 'open',
+            revealPeriod: 60000,
+            unrevealedBidPenalty: 5,
+            dutchInterval: 10000,
+            dutchPriceStep: 0.05,
+            dutchFloor: 0.5,
+            taxonomy: defaultCapabilityTaxonomy,
+            ...config
+        };
+        this.lifecycle = new TaskLifecycle(this.config.historyLimit);
+    }
+    
+    /**
+     * Start cancelling tasks that miss their deadline and replacing agents
+     * that abandon theirs
+     */
+    start(): void {
+        if (!this.deadlineTimer) {
+            this.deadlineTimer = setInterval(() => {
+                this.expireOverdueTasks();
+                this.checkLiveness();
+            }, this.config.deadlineCheckInterval);
+        }
     }
     
     /**
-     * Announce a new task to the swarm
+     * Stop the deadline checks and any open bid windows
+     */
+    stop(): void {
+        if (this.deadlineTimer) {
+            clearInterval(this.deadlineTimer);
+            this.deadlineTimer = undefined;
+        }
+        this.bidWindows.forEach(timer => clearTimeout(timer));
+        this.bidWindows.clear();
+    }
+    
+    /**
+     * Announce a new task to the swarm. A task with sub-tasks goes straight
+     * to InProgress and its sub-tasks without dependencies are announced.
      */
     async announceTask(task: Task): Promise<void> {
-        this.taskQueue.set(task.id, task);
-        this.agentBids.set(task.id, []);
+        if (task.deadline <= Date.now()) {
+            throw new Error('Task deadline has already passed');
+        }
+        
+        const graph = task.subtasks?.length ? new TaskGraph(task) : undefined;
+        const record = this.open(task);
         
+        if (graph) {
+            record.graph = graph;
+            this.transition(task.id, TaskStatus.InProgress, `Split into ${graph.order.length} sub-task(s)`);
+            this.announceReady(graph);
+        }
+    }
+    
+    private announceReady(graph: TaskGraph): void {
+        for (const subtask of graph.takeReady()) {
+            this.open(subtask);
+        }
+    }
+    
+    /**
+     * Record a task and announce it, or queue it while the known agents
+     * lack capacity for it. Tasks split into sub-tasks are never queued.
+     */
+    private open(task: Task): TaskRecord {
+        const now = Date.now();
+        const record = this.lifecycle.open(task, now);
+        
+        if (task.subtasks?.length) {
+            this.emit('taskAnnounced', task);
+        } else if (this.queue.size === 0 && this.hasCapacityFor(task)) {
+            this.announce(record, now);
+        } else {
+            record.queuedAt = now;
+            this.emit('taskQueued', this.queue.enqueue(task, now));
+            this.releaseQueue(); // It may outrank what is waiting
+        }
+        return record;
+    }
+    
+    /**
+     * Settle a task's auction terms and start taking bids
+     */
+    private announce(record: TaskRecord, now: number): void {
+        const task = record.task = this.withAuctionTerms(record.task, now);
         this.emit('taskAnnounced', task);
         
-        // Start bid collection window
-        setTimeout(() => {
-            this.evaluateBidsAndAssign(task.id);
-        }, this.config.bidWindowDuration);
+        const terms = task.auction;
+        if (terms?.type === 'dutch') {
+            return; // Dutch offers are taken as they are accepted
+        }
+        if (terms && isSealed(terms.type)) {
+            record.commitments = {};
+            this.bidWindows.set(task.id, setTimeout(() => {
+                this.bidWindows.delete(task.id);
+                this.closeSealedAuction(task.id).catch((error) => {
+                    this.emit('taskAssignmentFailed', { taskId: task.id, reason: error.message });
+                });
+            }, terms.revealDeadline! - now));
+        } else {
+            this.openBidWindow(task.id);
+        }
+    }
+    
+    /**
+     * Announce queued tasks, most urgent first, while there is capacity
+     */
+    private releaseQueue(): void {
+        const now = Date.now();
+        for (let next = this.queue.peek(); next && this.hasCapacityFor(next); next = this.queue.peek()) {
+            this.queue.release(now);
+            const record = this.lifecycle.get(next.id);
+            if (record) {
+                delete record.queuedAt;
+                this.announce(record, now);
+            }
+        }
+    }
+    
+    /**
+     * Whether agents with profiles have enough free slots for a task on
+     * top of those the open tasks need. Without profiles capacity is
+     * unknown and never runs out.
+     */
+    private hasCapacityFor(task: Task): boolean {
+        const profiles = this.directory.list();
+        if (profiles.length === 0) {
+            return true;
+        }
+        
+        const free = sum(profiles.map(profile => Math.max(0, this.concurrencyLimit(profile) - profile.activeTaskCount)));
+        const demand = sum(this.lifecycle.query({ status: TaskStatus.Open })
+            .filter(record => record.queuedAt === undefined && record.task.id !== task.id)
+            .map(record => record.task.minAgents || 1));
+        return free - demand >= (task.minAgents || 1);
+    }
+    
+    private concurrencyLimit(profile: AgentProfile): number {
+        return profile.maxConcurrentTasks ?? this.config.maxConcurrentTasks;
+    }
+    
+    private hasCapacity(agentId: string): boolean {
+        const profile = this.directory.get(agentId);
+        return !profile || profile.activeTaskCount < this.concurrencyLimit(profile);
+    }
+    
+    /**
+     * Announce queued tasks and retry assignments that found every bidder
+     * busy, as agents may have capacity again
+     */
+    private capacityChanged(): void {
+        this.releaseQueue();
+        if (this.blocked.size > 0) {
+            this.blocked.forEach(taskId => this.awaitingAssignment.add(taskId));
+            this.blocked.clear();
+            this.assignInOrder();
+        }
+    }
+    
+    private bidWindowFor(task: Task): number {
+        return this.config.bidWindowDuration * (this.config.bidWindowScale[task.priority || 'medium'] ?? 1);
+    }
+    
+    /**
+     * Fill in the auction terms agents need to bid: the reserve price, the
+     * sealed-bid phases or the Dutch price schedule
+     */
+    private withAuctionTerms(task: Task, now: number): Task {
+        const type = task.auction?.type ?? this.config.auctionType;
+        if (type === 'open') {
+            return task;
+        }
+        
+        const reservePrice = task.auction?.reservePrice ?? task.bounty / auctionSlots(task);
+        const auction: AuctionTerms = { ...task.auction, type, reservePrice, startedAt: now };
+        if (isSealed(type)) {
+            auction.commitDeadline = now + this.bidWindowFor(task);
+            auction.revealDeadline = auction.commitDeadline + this.config.revealPeriod;
+        } else {
+            auction.priceInterval = auction.priceInterval ?? this.config.dutchInterval;
+            auction.priceStep = auction.priceStep ?? reservePrice * this.config.dutchPriceStep;
+            auction.floorPrice = auction.floorPrice ?? reservePrice * this.config.dutchFloor;
+        }
+        return { ...task, auction };
     }
     
     /**
      * Submit a bid for a task
      */
     submitBid(bid: AgentBid): void {
-        const task = this.taskQueue.get(bid.taskId);
-        if (!task) {
+        const record = this.lifecycle.get(bid.taskId);
+        if (!record) {
             throw new Error('Task not found');
         }
+        if (record.status !== TaskStatus.Open) {
+            throw new Error('Task is not open for bids');
+        }
+        if (record.queuedAt !== undefined) {
+            throw new Error('Task is queued until agents have capacity');
+        }
         
-        const bids = this.agentBids.get(bid.taskId) || [];
+        const task = record.task;
+        const bids = record.bids;
+        const terms = task.auction;
+        if (terms && isSealed(terms.type)) {
+            throw new Error('Task takes sealed bids; commit to a bid and reveal it instead');
+        }
         
         // Check if agent already bid
         if (bids.find(b => b.agentId === bid.agentId)) {
             throw new Error('Agent already submitted a bid');
         }
         
-        // Validate agent capabilities
-        const hasRequiredCapabilities = this.validateCapabilities(
-            bid.capabilities,
-            task.requiredCapabilities
-        );
+        this.validateBid(task, bid);
         
-        if (!hasRequiredCapabilities) {
-            throw new Error('Agent lacks required capabilities');
+        if (terms?.type === 'dutch') {
+            this.acceptOffer(record, bid, terms);
+            return;
         }
         
         bids.push(bid);
-        this.agentBids.set(bid.taskId, bids);
         
+        // A task left open by a failed round takes bids in a new window
+        this.openBidWindow(bid.taskId);
+        
+        this.emit('bidSubmitted', bid);
+        
+        // No one else may bid once every pre-selected agent has
+        if (task.preselectedAgents?.length &&
+            task.preselectedAgents.every(agentId => bids.some(b => b.agentId === agentId))) {
+            this.closeBidWindow(bid.taskId);
+        }
+    }
+    
+    /**
+     * Commit to a sealed bid while bidding is open
+     */
+    commitBid(commitment: BidCommitment): void {
+        const record = this.sealedAuction(commitment.taskId);
+        if (Date.now() >= record.task.auction!.commitDeadline!) {
+            throw new Error('Bidding has closed');
+        }
+        if (record.commitments![commitment.agentId]) {
+            throw new Error('Agent already submitted a bid');
+        }
+        this.checkEligible(record.task, commitment.agentId);
+        
+        record.commitments![commitment.agentId] = commitment.commitment;
+        this.emit('bidCommitted', commitment);
+    }
+    
+    /**
+     * Reveal a sealed bid once bidding has closed. The bid only counts when
+     * it matches the agent's commitment.
+     */
+    revealBid(bid: AgentBid, salt: string): void {
+        const record = this.sealedAuction(bid.taskId);
+        const terms = record.task.auction!;
+        const now = Date.now();
+        const commitment = record.commitments![bid.agentId];
+        if (!commitment) {
+            throw new Error('Agent did not commit to a bid');
+        }
+        if (now < terms.commitDeadline!) {
+            throw new Error('Bids cannot be revealed before bidding closes');
+        }
+        if (now >= terms.revealDeadline!) {
+            throw new Error('Reveal phase has closed');
+        }
+        if (record.bids.find(b => b.agentId === bid.agentId)) {
+            throw new Error('Bid already revealed');
+        }
+        if (computeBidCommitment(bid, salt) !== commitment) {
+            throw new Error('Bid does not match its commitment');
+        }
+        
+        this.validateBid(record.task, bid);
+        record.bids.push(bid);
         this.emit('bidSubmitted', bid);
     }
     
+    private sealedAuction(taskId: string): TaskRecord {
+        const record = this.lifecycle.get(taskId);
+        if (!record) {
+            throw new Error('Task not found');
+        }
+        if (record.status !== TaskStatus.Open) {
+            throw new Error('Task is not open for bids');
+        }
+        if (record.queuedAt !== undefined) {
+            throw new Error('Task is queued until agents have capacity');
+        }
+        if (!record.commitments) {
+            throw new Error('Task does not take sealed bids');
+        }
+        return record;
+    }
+    
     /**
-     * Evaluate bids and assign agents to task
+     * Open bids may bring only some of the required capabilities, as a
+     * team covers them together; auction winners must bring them all
      */
-    private async evaluateBidsAndAssign(taskId: string): Promise<void> {
-        const task = this.taskQueue.get(taskId);
-        const bids = this.agentBids.get(taskId);
+    private validateBid(task: Task, bid: AgentBid): void {
+        this.checkEligible(task, bid.agentId);
+        
+        const open = (task.auction?.type ?? 'open') === 'open';
+        const hasRequiredCapabilities = open
+            ? this.config.taxonomy.coversAny(bid, task.requiredCapabilities, task.minProficiency)
+            : this.config.taxonomy.coversAll(bid, task.requiredCapabilities, task.minProficiency);
+        
+        if (!hasRequiredCapabilities) {
+            throw new Error('Agent lacks required capabilities');
+        }
         
-        if (!task || !bids || bids.length === 0) {
+        const reservePrice = task.auction?.reservePrice;
+        if (reservePrice !== undefined && bid.requestedReward > reservePrice) {
+            throw new Error(`Bid exceeds the reserve price of ${reservePrice}`);
+        }
+    }
+    
+    /**
+     * Whether the requester let an agent bid
+     */
+    private checkEligible(task: Task, agentId: string): void {
+        if (task.excludedAgents?.includes(agentId)) {
+            throw new Error('Agent is excluded from this task');
+        }
+        if (task.preselectedAgents?.length && !task.preselectedAgents.includes(agentId)) {
+            throw new Error('Task is reserved for pre-selected agents');
+        }
+    }
+    
+    /**
+     * Take a Dutch auction's current reward. Agents are assigned as soon as
+     * enough have accepted.
+     */
+    private acceptOffer(record: TaskRecord, bid: AgentBid, terms: AuctionTerms): void {
+        const taskId = record.task.id;
+        const needed = record.task.minAgents || 1;
+        if (record.bids.length >= needed) {
+            throw new Error('Offer already taken');
+        }
+        if (!this.hasCapacity(bid.agentId)) {
+            throw new Error('Agent is at its concurrency limit');
+        }
+        
+        const price = dutchPrice(terms, Date.now());
+        if (bid.requestedReward > price) {
+            throw new Error(`Bid asks more than the offered reward of ${price}`);
+        }
+        
+        const accepted = { ...bid, requestedReward: price };
+        record.bids.push(accepted);
+        this.emit('bidSubmitted', accepted);
+        
+        if (record.bids.length >= needed) {
+            this.evaluateBidsAndAssign(taskId).catch((error) => {
+                this.emit('taskAssignmentFailed', { taskId, reason: error.message });
+            }).then(() => {
+                if (record.status === TaskStatus.Open) {
+                    // Withdraw the accepted offers so the task is not stuck as taken
+                    this.blocked.delete(taskId);
+                    record.bids = [];
+                }
+            });
+        }
+    }
+    
+    /**
+     * Clear a sealed auction at the end of its reveal phase, penalising
+     * agents that never revealed. The task is cancelled when no agents
+     * could be assigned, unless they were only at their concurrency limit;
+     * then it waits for one to have capacity.
+     */
+    private async closeSealedAuction(taskId: string): Promise<void> {
+        const record = this.lifecycle.get(taskId);
+        if (!record || record.status !== TaskStatus.Open) {
+            return;
+        }
+        
+        const now = Date.now();
+        for (const agentId of Object.keys(record.commitments || {})) {
+            if (!record.bids.find(bid => bid.agentId === agentId)) {
+                this.reputation?.adjust(agentId, -this.config.unrevealedBidPenalty, now);
+                this.emit('bidUnrevealed', { taskId, agentId, penalty: this.config.unrevealedBidPenalty });
+            }
+        }
+        
+        const waiting = await this.evaluateBidsAndAssign(taskId);
+        if (record.status === TaskStatus.Open && !waiting) {
+            this.cancel(record, 'Sealed auction found no agents');
+        }
+    }
+    
+    private openBidWindow(taskId: string): void {
+        if (this.bidWindows.has(taskId)) {
+            return;
+        }
+        
+        const task = this.lifecycle.get(taskId)!.task;
+        this.bidWindows.set(taskId, setTimeout(() => this.closeBidWindow(taskId), this.bidWindowFor(task)));
+    }
+    
+    private closeBidWindow(taskId: string): void {
+        clearTimeout(this.bidWindows.get(taskId));
+        this.bidWindows.delete(taskId);
+        this.awaitingAssignment.add(taskId);
+        this.assignInOrder();
+    }
+    
+    /**
+     * Assign tasks whose bidding has closed one at a time, most urgent
+     * first, so they get the pick of the agents with capacity
+     */
+    private async assignInOrder(): Promise<void> {
+        if (this.assigning) {
+            return; // The running pass picks up tasks added meanwhile
+        }
+        
+        this.assigning = true;
+        try {
+            while (this.awaitingAssignment.size > 0) {
+                const next = Array.from(this.awaitingAssignment)
+                    .flatMap(taskId => this.lifecycle.get(taskId) || [])
+                    .sort((a, b) => compareTasks(a.task, b.task))[0];
+                if (!next) {
+                    this.awaitingAssignment.clear();
+                    break;
+                }
+                
+                const taskId = next.task.id;
+                this.awaitingAssignment.delete(taskId);
+                await this.evaluateBidsAndAssign(taskId).catch((error) => {
+                    this.emit('taskAssignmentFailed', { taskId, reason: error.message });
+                });
+            }
+        } finally {
+            this.assigning = false;
+        }
+    }
+    
+    /**
+     * Evaluate bids and assign agents to task. The task stays open when no
+     * agents could be assigned; resolves true when it waits for a bidder to
+     * have capacity.
+     */
+    private async evaluateBidsAndAssign(taskId: string): Promise<boolean> {
+        const record = this.lifecycle.get(taskId);
+        if (!record || record.status !== TaskStatus.Open) {
+            return false; // Cancelled or expired meanwhile
+        }
+        
+        const task = record.task;
+        if (record.bids.length === 0) {
             this.emit('taskAssignmentFailed', {
                 taskId,
                 reason: 'No valid bids received'
             });
-            return;
+            return false;
+        }
+        
+        // Agents at their concurrency limit cannot take more work; the
+        // task is retried once one of them has capacity
+        const bids = record.bids.filter(bid => this.hasCapacity(bid.agentId));
+        if (bids.length === 0) {
+            this.blocked.add(taskId);
+            this.emit('taskAssignmentFailed', {
+                taskId,
+                reason: 'Every bidder is at its concurrency limit'
+            });
+            return true;
         }
         
         // Score and rank bids
         const scoredBids = this.scoreBids(bids, task);
         
-        // Select optimal agents
-        const selectedAgents = this.selectOptimalAgents(
-            scoredBids,
-            task.minAgents || 1,
-            task.maxAgents || 5
+        // Form the best team, or take the auction winners
+        const terms = task.auction;
+        const auction = terms && terms.type !== 'open'
+            ? clearAuction(terms, scoredBids, auctionSlots(task))
+            : undefined;
+        const team = auction ? undefined : formTeam(
+            bids.map(bid => ({ bid, quality: this.bidQuality(bid, task), covers: this.coveredBy(bid, task) })),
+            {
+                requiredCapabilities: task.requiredCapabilities,
+                minAgents: task.minAgents || 1,
+                maxAgents: task.maxAgents || 5,
+                budget: task.bounty,
+                costWeight: this.config.teamCostWeight
+            }
         );
+        const selectedAgents = auction
+            ? (auction.winners.length >= (task.minAgents || 1) ? auction.winners : [])
+            : team?.members || [];
         
         if (selectedAgents.length === 0) {
             this.emit('taskAssignmentFailed', {
                 taskId,
-                reason: 'No suitable agents found'
+                reason: auction
+                    ? 'No suitable agents found'
+                    : 'No team covers the required capabilities within the bounty'
             });
-            return;
+            return false;
         }
         
+        record.ranking = auction ? auction.ranking : scoredBids.map(bid => bid.agentId);
+        
         // Create assignment
         const assignment: TaskAssignment = {
             taskId,
             assignedAgents: selectedAgents.map(bid => bid.agentId),
-            totalReward: task.bounty,
-            deadline: task.deadline
+            totalReward: auction ? sum(Object.values(auction.rewards)) : team!.totalReward,
+            deadline: task.deadline,
+            rewards: auction?.rewards ?? Object.fromEntries(selectedAgents.map(bid => [bid.agentId, bid.requestedReward])),
+            explanations: team?.explanations
         };
         
-        this.activeAssignments.set(taskId, assignment);
-        
         // Execute on-chain assignment
-        await this.assignTaskOnChain(taskId, assignment.assignedAgents);
+        await this.assigner.assignTask(taskId, assignment.assignedAgents);
+        if (record.status !== TaskStatus.Open) {
+            return false; // Cancelled while the assignment was submitted
+        }
+        
+        record.assignment = assignment;
+        this.transition(taskId, TaskStatus.InProgress, `Assigned to ${assignment.assignedAgents.length} agent(s)`);
         
         // Update agent profiles
         for (const agentId of assignment.assignedAgents) {
+            record.agents[agentId] = this.startProgress(record, agentId);
             this.updateAgentTaskCount(agentId, 1);
         }
         
         this.emit('taskAssigned', assignment);
-        
-        // Clean up
-        this.taskQueue.delete(taskId);
-        this.agentBids.delete(taskId);
+        return false;
     }
     
     /**
@@ -183,8 +698,7 @@ export class TaskDistributor extends EventEmitter {
             let score = 0;
             
             // Reputation score (0-1)
-            const reputationScore = Math.min(bid.reputation / 100, 1);
-            score += reputationScore * this.config.reputationWeight;
+            score += this.reputationScore(bid, task) * this.config.reputationWeight;
             
             // Confidence score (0-1)
             score += bid.confidence * this.config.confidenceWeight;
@@ -194,175 +708,335 @@ export class TaskDistributor extends EventEmitter {
             score += Math.max(0, priceRatio) * this.config.priceWeight;
             
             // Capability match bonus
-            const capabilityScore = this.calculateCapabilityScore(
-                bid.capabilities,
-                task.requiredCapabilities
-            );
+            const capabilityScore = this.calculateCapabilityScore(bid, task);
             score += capabilityScore * this.config.capabilityMatchBonus;
             
             // Time efficiency bonus (faster completion = higher score)
             const timeScore = Math.max(0, 1 - (bid.estimatedTime / (task.deadline - Date.now())));
             score += timeScore * 0.1;
             
-            // Agent workload penalty
-            const agentProfile = this.agentProfiles.get(bid.agentId);
-            if (agentProfile && agentProfile.activeTaskCount > 3) {
-                score *= 0.8; // 20% penalty for overloaded agents
-            }
-            
             return { ...bid, score };
         }).sort((a, b) => b.score - a.score);
     }
     
     /**
-     * Select optimal combination of agents
+     * Reputation (0-1), for the task's capabilities when the registry is
+     * known rather than as the agent claims
      */
-    private selectOptimalAgents(
-        scoredBids: (AgentBid & { score: number })[],
-        minAgents: number,
-        maxAgents: number
-    ): AgentBid[] {
-        const selected: AgentBid[] = [];
-        const usedCapabilities = new Set<string>();
-        
-        // Greedy selection with diversity consideration
-        for (const bid of scoredBids) {
-            if (selected.length >= maxAgents) {
-                break;
-            }
-            
-            // Check if agent adds new capabilities
-            const newCapabilities = bid.capabilities.filter(
-                cap => !usedCapabilities.has(cap)
-            );
-            
-            // Always select if under minimum or adds significant value
-            if (selected.length < minAgents || 
-                newCapabilities.length > 0 || 
-                bid.score > 0.8) {
-                
-                selected.push(bid);
-                bid.capabilities.forEach(cap => usedCapabilities.add(cap));
-            }
-        }
-        
-        // Ensure minimum agents
-        if (selected.length < minAgents && scoredBids.length >= minAgents) {
-            return scoredBids.slice(0, minAgents);
-        }
-        
-        return selected;
+    private reputationScore(bid: AgentBid, task: Task): number {
+        const reputation = this.reputation
+            ? this.reputation.getWeight(bid.agentId, Date.now(), task.requiredCapabilities)
+            : bid.reputation;
+        return Math.min(reputation / 100, 1);
     }
     
     /**
-     * Calculate capability match score
+     * Chance (0-1) that an agent delivers: its reputation and its own
+     * confidence
      */
-    private calculateCapabilityScore(
-        agentCapabilities: string[],
-        requiredCapabilities: string[]
-    ): number {
-        const requiredSet = new Set(requiredCapabilities);
-        const matchCount = agentCapabilities.filter(cap => requiredSet.has(cap)).length;
-        const extraCount = agentCapabilities.length - matchCount;
+    private bidQuality(bid: AgentBid, task: Task): number {
+        return this.reputationScore(bid, task) * bid.confidence;
+    }
+    
+    /**
+     * Calculate capability match score: how well the bidder fits each
+     * required capability, with a bonus for the ones it brings besides
+     */
+    private calculateCapabilityScore(bid: AgentBid, task: Task): number {
+        const taxonomy = this.config.taxonomy;
+        const { score, matches } = taxonomy.match(bid, task.requiredCapabilities, task.minProficiency);
+        const used = new Set(matches.map(match => match.matchedBy));
+        const extraCount = bid.capabilities.filter(cap => !used.has(taxonomy.resolve(cap))).length;
         
         // Perfect match = 1.0, extra capabilities add bonus
-        const matchScore = matchCount / requiredCapabilities.length;
         const extraBonus = Math.min(extraCount * 0.05, 0.2); // Max 20% bonus
         
-        return Math.min(matchScore + extraBonus, 1);
+        return Math.min(score + extraBonus, 1);
     }
     
     /**
-     * Validate agent has required capabilities
+     * The task's required capabilities, as it names them, that a bidder
+     * covers itself or through a specialization
      */
-    private validateCapabilities(
-        agentCapabilities: string[],
-        requiredCapabilities: string[]
-    ): boolean {
-        const agentCaps = new Set(agentCapabilities);
-        return requiredCapabilities.every(cap => agentCaps.has(cap));
+    private coveredBy(bid: AgentBid, task: Task): string[] {
+        const taxonomy = this.config.taxonomy;
+        const covered = new Set(taxonomy.match(bid, task.requiredCapabilities, task.minProficiency).covered);
+        return task.requiredCapabilities.filter(capability => covered.has(taxonomy.resolve(capability)));
     }
     
     /**
-     * Execute task assignment on-chain
-     */
-    private async assignTaskOnChain(
-        taskId: string,
-        agentIds: string[]
-    ): Promise<void> {
-        const contract = new ContractExecuteTransaction()
-            .setContractId(this.orchestratorAddress)
-            .setGas(300000)
-            .setFunction(
-                "assignTask",
-                new ContractFunctionParameters()
-                    .addString(taskId)
-                    .addAddressArray(agentIds.map(id => AccountId.fromString(id)))
-            );
-            
-        const txResponse = await contract.execute(this.client);
-        const receipt = await txResponse.getReceipt(this.client);
-        
-        if (receipt.status.toString() !== 'SUCCESS') {
-            throw new Error('Failed to assign task on-chain');
-        }
-    }
-    
-    /**
-     * Update agent profile
+     * Set an agent's profile by hand, rather than as the directory builds it
      */
     updateAgentProfile(profile: AgentProfile): void {
-        this.agentProfiles.set(profile.accountId, profile);
+        this.directory.upsert(profile);
+        this.capacityChanged();
     }
     
     /**
      * Update agent's active task count
      */
     private updateAgentTaskCount(agentId: string, delta: number): void {
-        const profile = this.agentProfiles.get(agentId);
-        if (profile) {
-            profile.activeTaskCount += delta;
+        this.directory.adjustActiveTasks(agentId, delta);
+        if (delta < 0) {
+            this.capacityChanged();
         }
     }
     
     /**
-     * Handle task completion
+     * Record an assigned agent's result. Once every assigned agent has
+     * reported, the task goes under review, or is cancelled when they all
+     * failed.
      */
     async handleTaskCompletion(
         taskId: string,
         agentId: string,
-        success: boolean
+        success: boolean,
+        solutionHash?: string
     ): Promise<void> {
-        const assignment = this.activeAssignments.get(taskId);
-        if (!assignment) {
-            return;
+        const record = this.lifecycle.get(taskId);
+        if (!record) {
+            throw new Error('Task not found');
+        }
+        if (record.status !== TaskStatus.InProgress) {
+            throw new Error(`Task is ${TaskStatus[record.status]}, not in progress`);
         }
         
-        // Update agent profile
-        const profile = this.agentProfiles.get(agentId);
-        if (profile) {
-            profile.activeTaskCount = Math.max(0, profile.activeTaskCount - 1);
-            profile.completedTaskCount++;
-            
-            if (success) {
-                const successRate = (profile.successRate * (profile.completedTaskCount - 1) + 1) 
-                    / profile.completedTaskCount;
-                profile.successRate = successRate;
-            } else {
-                const successRate = (profile.successRate * (profile.completedTaskCount - 1)) 
-                    / profile.completedTaskCount;
-                profile.successRate = successRate;
-            }
+        const assignment = record.assignment;
+        if (!assignment || !assignment.assignedAgents.includes(agentId)) {
+            throw new Error('Agent not assigned to task');
+        }
+        if (record.completions[agentId]) {
+            throw new Error('Agent already reported completion');
         }
         
-        // Check if all agents completed
-        // In production, track individual agent completions
+        const timestamp = Date.now();
+        record.completions[agentId] = { agentId, success, timestamp, solutionHash };
+        this.recordOutcome(agentId, success, record, timestamp - record.agents[agentId].assignedAt);
         
         this.emit('taskCompleted', {
             taskId,
             agentId,
             success
         });
+        
+        this.settle(record);
+    }
+    
+    /**
+     * Note that an agent is alive, with the tasks it reports working on, as
+     * carried by its HEARTBEAT messages
+     */
+    recordHeartbeat(agentId: string, tasks: HeartbeatTask[] = [], timestamp: number = Date.now()): void {
+        this.lastHeartbeat.set(agentId, Math.max(this.lastHeartbeat.get(agentId) ?? timestamp, timestamp));
+        this.directory.recordHeartbeat(agentId, tasks, undefined, timestamp);
+        
+        for (const report of tasks) {
+            const progress = this.lifecycle.get(report.taskId)?.agents[agentId];
+            if (progress && report.progress !== undefined) {
+                progress.progress = report.progress;
+                progress.lastProgressAt = timestamp;
+            }
+        }
+    }
+    
+    /**
+     * Replace assigned agents that went silent, missed a progress checkpoint
+     * or overran their estimate, with the best remaining bidders. Returns the
+     * agents dropped.
+     */
+    checkLiveness(now: number = Date.now()): { taskId: string; agentId: string; reason: string }[] {
+        const dropped = [];
+        for (const record of this.lifecycle.query({ status: TaskStatus.InProgress })) {
+            for (const agentId of [...(record.assignment?.assignedAgents || [])]) {
+                if (record.completions[agentId] || record.status !== TaskStatus.InProgress) {
+                    continue;
+                }
+                
+                const reason = this.checkAgent(record.agents[agentId], now);
+                if (reason) {
+                    this.abandon(record, agentId, reason, now);
+                    dropped.push({ taskId: record.task.id, agentId, reason });
+                }
+            }
+        }
+        return dropped;
+    }
+    
+    private checkAgent(progress: AgentProgress, now: number): string | null {
+        const { heartbeatTimeout, progressCheckpoints } = this.config;
+        const lastSeen = Math.max(this.lastHeartbeat.get(progress.agentId) ?? 0, progress.assignedAt);
+        if (heartbeatTimeout > 0 && now - lastSeen > heartbeatTimeout) {
+            return 'No heartbeat';
+        }
+        if (now > progress.dueAt) {
+            return 'Missed deadline';
+        }
+        
+        // Each checkpoint needs a progress report made since the one before
+        const duration = progress.dueAt - progress.assignedAt;
+        const times = [...progressCheckpoints].sort((a, b) => a - b)
+            .map(share => progress.assignedAt + share * duration)
+            .filter(time => time <= now);
+        if (times.length > 0) {
+            const since = times.length > 1 ? times[times.length - 2] : progress.assignedAt;
+            if ((progress.lastProgressAt ?? -Infinity) < since) {
+                return 'Missed progress checkpoint';
+            }
+        }
+        return null;
+    }
+    
+    /**
+     * Drop an agent from a task with a reputation penalty, and hand its
+     * place to the best-scored bidder that can take it on
+     */
+    private abandon(record: TaskRecord, agentId: string, reason: string, now: number): void {
+        const taskId = record.task.id;
+        const assignment = record.assignment!;
+        assignment.assignedAgents = assignment.assignedAgents.filter(id => id !== agentId);
+        this.recordOutcome(agentId, false, record);
+        this.reputation?.adjust(agentId, -this.config.abandonmentPenalty, now);
+        
+        const replacement = this.findReplacement(record, agentId);
+        if (assignment.rewards) {
+            // The replacement is paid the same, or its own ask if that was higher
+            const reward = assignment.rewards[agentId] ?? 0;
+            delete assignment.rewards[agentId];
+            if (replacement) {
+                const ask = record.bids.find(bid => bid.agentId === replacement)?.requestedReward ?? 0;
+                assignment.rewards[replacement] = Math.max(reward, ask);
+            }
+            assignment.totalReward = sum(Object.values(assignment.rewards));
+        }
+        record.abandonments.push({ agentId, reason, timestamp: now, replacedBy: replacement });
+        this.emit('agentAbandoned', { taskId, agentId, reason, penalty: this.config.abandonmentPenalty });
+        
+        if (replacement) {
+            assignment.assignedAgents.push(replacement);
+            record.agents[replacement] = this.startProgress(record, replacement, now);
+            this.updateAgentTaskCount(replacement, 1);
+            this.emit('taskReassigned', { taskId, from: agentId, to: replacement, reason });
+            this.assigner.replaceAgent(taskId, agentId, replacement).catch((error) => {
+                this.revertReplacement(record, replacement);
+                this.emit('taskAssignmentFailed', { taskId, reason: error.message });
+            });
+        }
+        
+        this.settle(record);
+    }
+    
+    /**
+     * Take a replacement the contract refused back off the task, unless it
+     * already reported; the abandoned agent's place is left empty
+     */
+    private revertReplacement(record: TaskRecord, replacement: string): void {
+        const assignment = record.assignment!;
+        if (record.status !== TaskStatus.InProgress || record.completions[replacement]) {
+            return;
+        }
+        
+        assignment.assignedAgents = assignment.assignedAgents.filter(id => id !== replacement);
+        delete record.agents[replacement];
+        if (assignment.rewards) {
+            delete assignment.rewards[replacement];
+            assignment.totalReward = sum(Object.values(assignment.rewards));
+        }
+        const abandonment = record.abandonments.find(entry => entry.replacedBy === replacement);
+        if (abandonment) {
+            delete abandonment.replacedBy;
+        }
+        this.updateAgentTaskCount(replacement, -1);
+        
+        this.settle(record);
+    }
+    
+    /**
+     * The best-scored bidder not yet involved that has capacity and, with
+     * the agents still assigned, covers what the team covered before
+     */
+    private findReplacement(record: TaskRecord, abandoned: string): string | undefined {
+        const task = record.task;
+        const bids = new Map(record.bids.map(bid => [bid.agentId, bid]));
+        const covered = (agentIds: string[]) => new Set(agentIds.flatMap(id => {
+            const bid = bids.get(id);
+            return bid ? this.coveredBy(bid, task) : [];
+        }));
+        
+        const remaining = record.assignment!.assignedAgents;
+        const needed = covered([...remaining, abandoned]);
+        return record.ranking.find(id => {
+            if (record.agents[id] || !this.hasCapacity(id)) {
+                return false;
+            }
+            const team = covered([...remaining, id]);
+            return Array.from(needed).every(capability => team.has(capability));
+        });
+    }
+    
+    private startProgress(record: TaskRecord, agentId: string, now: number = Date.now()): AgentProgress {
+        const bid = record.bids.find(b => b.agentId === agentId);
+        const estimate = bid ? bid.estimatedTime * this.config.estimateSlack : Infinity;
+        return { agentId, assignedAt: now, dueAt: Math.min(record.task.deadline, now + estimate) };
+    }
+    
+    /**
+     * Move a task on once no assigned agent is still working on it
+     */
+    private settle(record: TaskRecord): void {
+        const taskId = record.task.id;
+        const assigned = record.assignment!.assignedAgents;
+        if (assigned.some(agentId => !record.completions[agentId])) {
+            return;
+        }
+        
+        const completions = assigned.map(agentId => record.completions[agentId]);
+        if (completions.some(completion => completion.success)) {
+            this.transition(taskId, TaskStatus.UnderReview, 'All assigned agents reported');
+            return;
+        }
+        
+        const reason = completions.length > 0 ? 'All assigned agents failed' : 'Abandoned by every assigned agent';
+        this.transition(taskId, TaskStatus.Cancelled, reason);
+        this.emit('taskCancelled', { taskId, reason });
+    }
+    
+    private recordOutcome(agentId: string, success: boolean, record: TaskRecord, duration?: number): void {
+        if (this.directory.get(agentId)) {
+            this.directory.recordOutcome(agentId, success, duration, record.task.requiredCapabilities);
+            this.capacityChanged();
+        }
+    }
+    
+    /**
+     * Accept the reviewed, or disputed, result of a task
+     */
+    completeTask(taskId: string, reason?: string): TaskRecord {
+        return this.transition(taskId, TaskStatus.Completed, reason);
+    }
+    
+    /**
+     * Challenge the result of a task under review
+     */
+    disputeTask(taskId: string, reason: string): TaskRecord {
+        return this.transition(taskId, TaskStatus.Disputed, reason);
+    }
+    
+    /**
+     * Cancel every open or in-progress task whose deadline has passed.
+     * Returns the expired tasks.
+     */
+    expireOverdueTasks(now: number = Date.now()): TaskRecord[] {
+        const expired = [];
+        for (const record of this.lifecycle.overdue(now)) {
+            if (isFinished(record.status)) {
+                continue; // Cancelled along with its parent task
+            }
+            expired.push(record);
+            record.expired = true;
+            this.cancel(record, 'Deadline passed');
+            this.emit('taskExpired', { taskId: record.task.id, deadline: record.task.deadline });
+        }
+        return expired;
     }
     
     /**
@@ -372,46 +1046,176 @@ export class TaskDistributor extends EventEmitter {
         pendingTasks: number;
         activeTasks: number;
         totalBids: number;
+        queuedTasks: number;
+        queue: QueuedTask[]; // Most urgent first
+        estimatedWait?: number; // ms a task queued now would wait, once known
     } {
-        let totalBids = 0;
-        for (const bids of this.agentBids.values()) {
-            totalBids += bids.length;
-        }
+        const pending = this.lifecycle.query({ status: TaskStatus.Open })
+            .filter(record => record.queuedAt === undefined);
         
         return {
-            pendingTasks: this.taskQueue.size,
-            activeTasks: this.activeAssignments.size,
-            totalBids
+            pendingTasks: pending.length,
+            activeTasks: this.lifecycle.query({
+                status: [TaskStatus.InProgress, TaskStatus.UnderReview, TaskStatus.Disputed]
+            }).length,
+            totalBids: pending.reduce((total, record) => total + record.bids.length, 0),
+            queuedTasks: this.queue.size,
+            queue: this.queue.list(),
+            estimatedWait: this.queue.estimateWait()
         };
     }
     
+    /**
+     * Get the agents assigned to a task, e.g. to serve as its consensus electorate
+     */
+    getAssignment(taskId: string): TaskAssignment | undefined {
+        return this.lifecycle.get(taskId)?.assignment;
+    }
+    
+    /**
+     * Get a task with its status, bids, assignment, completions and history
+     */
+    getTask(taskId: string): TaskRecord | undefined {
+        return this.lifecycle.get(taskId);
+    }
+    
+    getTaskStatus(taskId: string): TaskStatus | undefined {
+        return this.lifecycle.get(taskId)?.status;
+    }
+    
+    /**
+     * Sub-tasks of a split task announced so far, dependencies first
+     */
+    getSubtasks(taskId: string): TaskRecord[] {
+        const graph = this.lifecycle.get(taskId)?.graph;
+        return (graph?.childIds() || [])
+            .map(childId => this.lifecycle.get(childId))
+            .filter((record): record is TaskRecord => !!record);
+    }
+    
+    /**
+     * Statuses a task went through, oldest first
+     */
+    getTaskHistory(taskId: string): TaskHistoryEntry[] {
+        return this.lifecycle.get(taskId)?.history || [];
+    }
+    
+    /**
+     * Find tasks by status, requester or assigned agent
+     */
+    queryTasks(query: TaskQuery = {}): TaskRecord[] {
+        return this.lifecycle.query(query);
+    }
+    
     /**
      * Get agent workload
      */
     getAgentWorkload(agentId: string): number {
-        const profile = this.agentProfiles.get(agentId);
+        const profile = this.directory.get(agentId);
         return profile?.activeTaskCount || 0;
     }
     
+    getDirectory(): AgentDirectory {
+        return this.directory;
+    }
+    
     /**
      * Emergency task cancellation
      */
     async cancelTask(taskId: string, reason: string): Promise<void> {
-        // Remove from queue
-        this.taskQueue.delete(taskId);
-        this.agentBids.delete(taskId);
-        
-        // Handle active assignment
-        const assignment = this.activeAssignments.get(taskId);
-        if (assignment) {
-            // Update agent counts
-            for (const agentId of assignment.assignedAgents) {
-                this.updateAgentTaskCount(agentId, -1);
+        const record = this.lifecycle.get(taskId);
+        if (!record) {
+            throw new Error('Task not found');
+        }
+        
+        this.cancel(record, reason);
+    }
+    
+    private cancel(record: TaskRecord, reason: string): void {
+        const taskId = record.task.id;
+        const wasInProgress = record.status === TaskStatus.InProgress;
+        if (record.queuedAt !== undefined) {
+            this.queue.remove(taskId);
+            delete record.queuedAt;
+        }
+        this.awaitingAssignment.delete(taskId);
+        this.blocked.delete(taskId);
+        this.transition(taskId, TaskStatus.Cancelled, reason);
+        
+        const window = this.bidWindows.get(taskId);
+        if (window) {
+            clearTimeout(window);
+            this.bidWindows.delete(taskId);
+        }
+        
+        // Release agents still working on it
+        if (wasInProgress && record.assignment) {
+            for (const agentId of record.assignment!.assignedAgents) {
+                if (!record.completions[agentId]) {
+                    this.updateAgentTaskCount(agentId, -1);
+                }
             }
-            
-            this.activeAssignments.delete(taskId);
         }
         
         this.emit('taskCancelled', { taskId, reason });
+        
+        // Sub-tasks are only worth doing for their parent
+        for (const childId of record.graph?.childIds() || []) {
+            const child = this.lifecycle.get(childId);
+            if (child && !isFinished(child.status)) {
+                this.cancel(child, `Parent task cancelled: ${reason}`);
+            }
+        }
     }
-}
\ No newline at end of file
+    
+    /**
+     * Carry a finished sub-task's outcome to its parent: announce what it
+     * unblocks once completed, gather every output once all have
+     * completed, and cancel the parent if it was cancelled
+     */
+    private advanceGraph(child: TaskRecord): void {
+        const parent = this.lifecycle.get(child.task.parentId!);
+        const graph = parent?.graph;
+        const subtaskId = graph?.subtaskOf(child.task.id);
+        if (!parent || !graph || !subtaskId || parent.status !== TaskStatus.InProgress) {
+            return;
+        }
+        
+        if (child.status === TaskStatus.Cancelled) {
+            this.cancel(parent, `Sub-task ${subtaskId} cancelled`);
+            return;
+        }
+        
+        const solutionHashes = (child.assignment?.assignedAgents || [])
+            .map(agentId => child.completions[agentId])
+            .filter(completion => completion?.success && completion.solutionHash)
+            .map(completion => completion.solutionHash!);
+        graph.complete(subtaskId, solutionHashes);
+        this.emit('subtaskCompleted', { taskId: parent.task.id, subtaskId, solutionHashes });
+        
+        if (graph.isComplete()) {
+            parent.outputs = graph.getOutputs();
+            this.transition(parent.task.id, TaskStatus.UnderReview, 'All sub-tasks completed');
+            this.emit('taskGraphCompleted', { taskId: parent.task.id, outputs: parent.outputs });
+        } else {
+            this.announceReady(graph);
+        }
+    }
+    
+    private transition(taskId: string, to: TaskStatus, reason?: string): TaskRecord {
+        const from = this.lifecycle.get(taskId)?.status;
+        const timestamp = Date.now();
+        const record = this.lifecycle.transition(taskId, to, timestamp, reason);
+        
+        this.emit('taskStatusChanged', { taskId, from, to, reason, timestamp });
+        if (record.task.parentId && isFinished(to)) {
+            this.advanceGraph(record);
+        }
+        this.capacityChanged();
+        return record;
+    }
+}
+
+function sum(values: number[]): number {
+    return values.reduce((total, value) => total + value, 0);
+}
@@ -0,0 +1,176 @@
+import type { Task } from './TaskDistributor';
+
+/**
+ * One step of a task that is split into dependent steps
+ */
+export interface SubTask {
+    id: string; // Unique within the parent task
+    description: string;
+    requiredCapabilities: string[];
+    dependsOn?: string[]; // Sub-tasks whose outputs this one needs
+    bountyShare?: number; // Relative share of the parent bounty; 1 by default
+    minAgents?: number;
+    maxAgents?: number;
+}
+
+/**
+ * Solution hashes of a completed sub-task's successful agents
+ */
+export type SubTaskOutputs = Record<string, string[]>; // By sub-task id
+
+/**
+ * Sub-tasks of a parent task as a dependency graph. Sub-tasks become ready
+ * once everything they depend on has completed, and carry those outputs
+ * as their inputs.
+ */
+export class TaskGraph {
+    readonly parent: Task;
+    readonly order: string[]; // Sub-task ids, dependencies first
+    private subtasks: Map<string, SubTask> = new Map();
+    private bounties: Map<string, number> = new Map();
+    private announced: Set<string> = new Set();
+    private outputs: Map<string, string[]> = new Map();
+
+    constructor(parent: Task) {
+        const subtasks = parent.subtasks || [];
+        if (subtasks.length === 0) {
+            throw new Error(`Task ${parent.id} has no sub-tasks`);
+        }
+        for (const subtask of subtasks) {
+            if (this.subtasks.has(subtask.id)) {
+                throw new Error(`Duplicate sub-task: ${subtask.id}`);
+            }
+            if ((subtask.bountyShare ?? 1) < 0) {
+                throw new Error(`Sub-task ${subtask.id} has a negative bounty share`);
+            }
+            this.subtasks.set(subtask.id, subtask);
+        }
+        for (const subtask of subtasks) {
+            const unknown = (subtask.dependsOn || []).find(id => !this.subtasks.has(id));
+            if (unknown) {
+                throw new Error(`Sub-task ${subtask.id} depends on unknown sub-task ${unknown}`);
+            }
+        }
+
+        this.parent = parent;
+        this.order = this.sort();
+        this.splitBounty();
+    }
+
+    static childId(parentId: string, subtaskId: string): string {
+        return `${parentId}/${subtaskId}`;
+    }
+
+    /**
+     * The sub-task id of a child task of this graph, if it is one
+     */
+    subtaskOf(taskId: string): string | undefined {
+        const prefix = `${this.parent.id}/`;
+        const id = taskId.startsWith(prefix) ? taskId.slice(prefix.length) : undefined;
+        return id !== undefined && this.subtasks.has(id) ? id : undefined;
+    }
+
+    childIds(): string[] {
+        return this.order.map(id => TaskGraph.childId(this.parent.id, id));
+    }
+
+    bountyOf(subtaskId: string): number {
+        return this.bounties.get(subtaskId) ?? 0;
+    }
+
+    /**
+     * Child tasks whose dependencies have all completed and which have not
+     * been handed out yet. Each is only returned once.
+     */
+    takeReady(): Task[] {
+        const ready = this.order.filter(id =>
+            !this.announced.has(id) &&
+            (this.subtasks.get(id)!.dependsOn || []).every(dependency => this.outputs.has(dependency))
+        );
+        ready.forEach(id => this.announced.add(id));
+        return ready.map(id => this.toTask(this.subtasks.get(id)!));
+    }
+
+    complete(subtaskId: string, solutionHashes: string[]): void {
+        this.outputs.set(subtaskId, solutionHashes);
+    }
+
+    isComplete(): boolean {
+        return this.outputs.size === this.subtasks.size;
+    }
+
+    /**
+     * Outputs of every completed sub-task, dependencies first
+     */
+    getOutputs(): SubTaskOutputs {
+        const outputs: SubTaskOutputs = {};
+        for (const id of this.order.filter(id => this.outputs.has(id))) {
+            outputs[id] = this.outputs.get(id)!;
+        }
+        return outputs;
+    }
+
+    private toTask(subtask: SubTask): Task {
+        const inputs: SubTaskOutputs = {};
+        for (const dependency of subtask.dependsOn || []) {
+            inputs[dependency] = this.outputs.get(dependency)!;
+        }
+
+        return {
+            id: TaskGraph.childId(this.parent.id, subtask.id),
+            description: subtask.description,
+            requiredCapabilities: subtask.requiredCapabilities,
+            bounty: this.bountyOf(subtask.id),
+            deadline: this.parent.deadline,
+            requester: this.parent.requester,
+            minAgents: subtask.minAgents,
+            maxAgents: subtask.maxAgents,
+            priority: this.parent.priority,
+            auction: this.parent.auction && { type: this.parent.auction.type }, // Priced from its own share of the bounty
+            excludedAgents: this.parent.excludedAgents,
+            minProficiency: this.parent.minProficiency,
+            parentId: this.parent.id,
+            inputs
+        };
+    }
+
+    /**
+     * Kahn's algorithm, keeping the declared order among independent
+     * sub-tasks; throws on cycles
+     */
+    private sort(): string[] {
+        const remaining = new Map(
+            Array.from(this.subtasks.values()).map(subtask => [subtask.id, new Set(subtask.dependsOn || [])])
+        );
+        const order: string[] = [];
+
+        while (remaining.size > 0) {
+            const next = Array.from(remaining.keys()).find(id => remaining.get(id)!.size === 0);
+            if (next === undefined) {
+                throw new Error(`Sub-tasks of ${this.parent.id} have a dependency cycle: ${Array.from(remaining.keys()).join(', ')}`);
+            }
+            order.push(next);
+            remaining.delete(next);
+            remaining.forEach(dependencies => dependencies.delete(next));
+        }
+        return order;
+    }
+
+    /**
+     * Whole units of the parent bounty by share, with the rounding
+     * remainder going to the last sub-task so none of the bounty is lost
+     */
+    private splitBounty(): void {
+        const shares = this.order.map(id => this.subtasks.get(id)!.bountyShare ?? 1);
+        const total = shares.reduce((sum, share) => sum + share, 0);
+        let allocated = 0;
+
+        this.order.forEach((id, index) => {
+            const bounty = index === this.order.length - 1
+                ? this.parent.bounty - allocated
+                : total > 0 ? Math.floor(this.parent.bounty * shares[index] / total) : 0;
+            this.bounties.set(id, bounty);
+            allocated += bounty;
+        });
+    }
+}
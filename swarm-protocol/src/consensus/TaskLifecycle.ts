@@ -0,0 +1,181 @@
+import { TaskStatus } from '../contracts/ContractCodec';
+import type { AgentBid, Task, TaskAssignment } from './TaskDistributor';
+import type { SubTaskOutputs, TaskGraph } from './TaskGraph';
+
+/**
+ * Allowed moves between statuses, as in the SwarmOrchestrator: tasks are
+ * assigned, worked on, reviewed and then completed, with disputes reopening
+ * the review and cancellation possible until a task is finished.
+ */
+export const TASK_TRANSITIONS: Record<TaskStatus, TaskStatus[]> = {
+    [TaskStatus.Open]: [TaskStatus.InProgress, TaskStatus.Cancelled],
+    [TaskStatus.InProgress]: [TaskStatus.UnderReview, TaskStatus.Cancelled],
+    [TaskStatus.UnderReview]: [TaskStatus.Completed, TaskStatus.Disputed, TaskStatus.Cancelled],
+    [TaskStatus.Disputed]: [TaskStatus.Completed, TaskStatus.Cancelled],
+    [TaskStatus.Completed]: [],
+    [TaskStatus.Cancelled]: []
+};
+
+export class InvalidTaskTransitionError extends Error {
+    readonly taskId: string;
+    readonly from: TaskStatus;
+    readonly to: TaskStatus;
+
+    constructor(taskId: string, from: TaskStatus, to: TaskStatus) {
+        super(`Task ${taskId} cannot move from ${TaskStatus[from]} to ${TaskStatus[to]}`);
+        this.name = 'InvalidTaskTransitionError';
+        this.taskId = taskId;
+        this.from = from;
+        this.to = to;
+    }
+}
+
+export interface TaskHistoryEntry {
+    status: TaskStatus;
+    timestamp: number;
+    reason?: string;
+}
+
+export interface AgentCompletion {
+    agentId: string;
+    success: boolean;
+    timestamp: number;
+    solutionHash?: string;
+}
+
+/**
+ * How an assigned agent is getting on, for liveness monitoring
+ */
+export interface AgentProgress {
+    agentId: string;
+    assignedAt: number;
+    dueAt: number; // When its own estimate, with slack, runs out; never after the task deadline
+    progress?: number; // Last reported share of the work done, 0-1
+    lastProgressAt?: number;
+}
+
+export interface AgentAbandonment {
+    agentId: string;
+    reason: string;
+    timestamp: number;
+    replacedBy?: string;
+}
+
+export interface TaskRecord {
+    task: Task;
+    status: TaskStatus;
+    bids: AgentBid[];
+    ranking: string[]; // Bidders by score when the task was assigned, best first
+    assignment?: TaskAssignment;
+    agents: Record<string, AgentProgress>; // By agent currently or formerly assigned
+    completions: Record<string, AgentCompletion>; // By assigned agent
+    abandonments: AgentAbandonment[];
+    history: TaskHistoryEntry[]; // Oldest first, starting with Open
+    commitments?: Record<string, string>; // Sealed bids by agent, for tasks auctioned with them
+    graph?: TaskGraph; // For a task split into sub-tasks
+    outputs?: SubTaskOutputs; // The sub-tasks' solutions once every one has completed
+    expired?: boolean; // Cancelled because its deadline passed
+    queuedAt?: number; // While waiting for agents to have capacity
+}
+
+export interface TaskQuery {
+    status?: TaskStatus | TaskStatus[];
+    agentId?: string; // Assigned to this agent
+    requester?: string;
+}
+
+export function isFinished(status: TaskStatus): boolean {
+    return TASK_TRANSITIONS[status].length === 0;
+}
+
+/**
+ * Every task the distributor has seen and how it got to its current
+ * status. Finished tasks are kept for querying, up to a limit.
+ */
+export class TaskLifecycle {
+    private records: Map<string, TaskRecord> = new Map();
+    private historyLimit: number;
+
+    constructor(historyLimit: number = 1000) {
+        this.historyLimit = historyLimit; // Finished tasks kept; the oldest are dropped first
+    }
+
+    open(task: Task, timestamp: number): TaskRecord {
+        if (this.records.has(task.id)) {
+            throw new Error(`Task ${task.id} already exists`);
+        }
+
+        const record: TaskRecord = {
+            task,
+            status: TaskStatus.Open,
+            bids: [],
+            ranking: [],
+            agents: {},
+            completions: {},
+            abandonments: [],
+            history: [{ status: TaskStatus.Open, timestamp }]
+        };
+        this.records.set(task.id, record);
+        return record;
+    }
+
+    get(taskId: string): TaskRecord | undefined {
+        return this.records.get(taskId);
+    }
+
+    canTransition(taskId: string, to: TaskStatus): boolean {
+        const record = this.records.get(taskId);
+        return !!record && TASK_TRANSITIONS[record.status].includes(to);
+    }
+
+    /**
+     * Move a task to a new status, throwing when the move is not allowed
+     */
+    transition(taskId: string, to: TaskStatus, timestamp: number, reason?: string): TaskRecord {
+        const record = this.records.get(taskId);
+        if (!record) {
+            throw new Error(`Task not found: ${taskId}`);
+        }
+        if (!TASK_TRANSITIONS[record.status].includes(to)) {
+            throw new InvalidTaskTransitionError(taskId, record.status, to);
+        }
+
+        record.status = to;
+        record.history.push({ status: to, timestamp, reason });
+        if (isFinished(to)) {
+            this.prune();
+        }
+        return record;
+    }
+
+    /**
+     * Tasks matching every given criterion, oldest first
+     */
+    query(query: TaskQuery = {}): TaskRecord[] {
+        const statuses = query.status === undefined
+            ? undefined
+            : Array.isArray(query.status) ? query.status : [query.status];
+
+        return Array.from(this.records.values()).filter(record =>
+            (!statuses || statuses.includes(record.status)) &&
+            (!query.requester || record.task.requester === query.requester) &&
+            (!query.agentId || !!record.assignment?.assignedAgents.includes(query.agentId))
+        );
+    }
+
+    /**
+     * Unfinished tasks whose deadline has passed and which are still open
+     * or being worked on; submitted work may still be reviewed
+     */
+    overdue(now: number): TaskRecord[] {
+        return this.query({ status: [TaskStatus.Open, TaskStatus.InProgress] })
+            .filter(record => record.task.deadline <= now);
+    }
+
+    private prune(): void {
+        const finished = Array.from(this.records.values()).filter(record => isFinished(record.status));
+        for (const record of finished.slice(0, Math.max(0, finished.length - this.historyLimit))) {
+            this.records.delete(record.task.id);
+        }
+    }
+}
@@ -0,0 +1,112 @@
+import type { Task } from './TaskDistributor';
+
+export type TaskPriority = NonNullable<Task['priority']>;
+
+/**
+ * Most urgent first
+ */
+export const TASK_PRIORITIES: TaskPriority[] = ['critical', 'high', 'medium', 'low'];
+
+export function priorityRank(priority: TaskPriority = 'medium'): number {
+    return TASK_PRIORITIES.indexOf(priority);
+}
+
+/**
+ * Order tasks by priority, then by the earliest deadline
+ */
+export function compareTasks(a: Task, b: Task): number {
+    return priorityRank(a.priority) - priorityRank(b.priority) || a.deadline - b.deadline;
+}
+
+export interface QueuedTask {
+    taskId: string;
+    priority: TaskPriority;
+    deadline: number;
+    enqueuedAt: number;
+    position: number; // 0 is announced next
+    estimatedWait?: number; // ms until announced, once the queue's pace is known
+}
+
+/**
+ * Tasks waiting for the swarm to have capacity, announced most urgent
+ * first and in arrival order otherwise. Wait times are estimated from how
+ * fast the queue has been draining.
+ */
+export class TaskQueue {
+    private tasks: { task: Task; enqueuedAt: number; sequence: number }[] = [];
+    private sequence = 0;
+    private lastRelease?: number;
+    private releaseInterval?: number; // Moving average (ms) between releases while tasks waited
+    private smoothing: number;
+
+    constructor(smoothing: number = 0.3) {
+        this.smoothing = smoothing; // Weight of the latest interval in the moving average
+    }
+
+    get size(): number {
+        return this.tasks.length;
+    }
+
+    enqueue(task: Task, now: number): QueuedTask {
+        this.tasks.push({ task, enqueuedAt: now, sequence: this.sequence++ });
+        this.tasks.sort((a, b) => compareTasks(a.task, b.task) || a.sequence - b.sequence);
+        return this.get(task.id)!;
+    }
+
+    peek(): Task | undefined {
+        return this.tasks[0]?.task;
+    }
+
+    /**
+     * Take the next task to announce
+     */
+    release(now: number): Task | undefined {
+        const next = this.tasks.shift();
+        if (!next) {
+            return undefined;
+        }
+
+        const interval = now - Math.max(this.lastRelease ?? next.enqueuedAt, next.enqueuedAt);
+        this.releaseInterval = this.releaseInterval === undefined
+            ? interval
+            : this.smoothing * interval + (1 - this.smoothing) * this.releaseInterval;
+        this.lastRelease = now;
+        return next.task;
+    }
+
+    remove(taskId: string): boolean {
+        const index = this.tasks.findIndex(entry => entry.task.id === taskId);
+        if (index >= 0) {
+            this.tasks.splice(index, 1);
+        }
+        return index >= 0;
+    }
+
+    get(taskId: string): QueuedTask | undefined {
+        const position = this.tasks.findIndex(entry => entry.task.id === taskId);
+        return position >= 0 ? this.describe(position) : undefined;
+    }
+
+    list(): QueuedTask[] {
+        return this.tasks.map((_, position) => this.describe(position));
+    }
+
+    /**
+     * How long a task queued now would wait
+     */
+    estimateWait(position: number = this.tasks.length): number | undefined {
+        return this.releaseInterval === undefined ? undefined : (position + 1) * this.releaseInterval;
+    }
+
+    private describe(position: number): QueuedTask {
+        const { task, enqueuedAt } = this.tasks[position];
+        return {
+            taskId: task.id,
+            priority: task.priority || 'medium',
+            deadline: task.deadline,
+            enqueuedAt,
+            position,
+            estimatedWait: this.estimateWait(position)
+        };
+    }
+}
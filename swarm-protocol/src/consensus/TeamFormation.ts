@@ -0,0 +1,152 @@
+import type { AgentBid } from './TaskDistributor';
+
+/**
+ * Bidders considered at most; every team of them is tried, so this
+ * bounds the search
+ */
+export const MAX_TEAM_CANDIDATES = 16;
+
+const EPSILON = 1e-9;
+
+export interface TeamCandidate {
+    bid: AgentBid;
+    quality: number; // Chance, 0-1, that the agent delivers what it bid for
+    covers?: string[]; // Required capabilities it can take on; those its bid names when absent
+}
+
+export interface TeamConstraints {
+    requiredCapabilities: string[];
+    minAgents: number;
+    maxAgents: number;
+    budget: number; // Most the team may ask for in total
+    costWeight?: number; // Expected quality given up for spending the whole budget; 0 ignores cost
+}
+
+/**
+ * Why an agent is on the team
+ */
+export interface TeamMemberExplanation {
+    agentId: string;
+    quality: number;
+    requestedReward: number;
+    capabilities: string[]; // Required capabilities it brings
+    soleProvider: string[]; // Required capabilities no other member has
+    marginalQuality: number; // Expected quality the team would lose without it
+    reason: string;
+}
+
+export interface TeamSelection {
+    members: AgentBid[];
+    totalReward: number;
+    expectedQuality: number;
+    explanations: TeamMemberExplanation[];
+}
+
+function provides(member: TeamCandidate, capability: string): boolean {
+    return (member.covers ?? member.bid.capabilities).includes(capability);
+}
+
+/**
+ * Chance that each required capability is delivered by at least one
+ * member having it, averaged over the capabilities. Uncovered capabilities
+ * count as failed.
+ */
+export function expectedTeamQuality(members: TeamCandidate[], requiredCapabilities: string[]): number {
+    const failure = (providers: TeamCandidate[]) =>
+        providers.reduce((product, member) => product * (1 - member.quality), 1);
+
+    if (requiredCapabilities.length === 0) {
+        return members.length > 0 ? 1 - failure(members) : 0;
+    }
+    const delivered = requiredCapabilities.map(capability =>
+        1 - failure(members.filter(member => provides(member, capability)))
+    );
+    return delivered.reduce((sum, chance) => sum + chance, 0) / requiredCapabilities.length;
+}
+
+/**
+ * The team that covers every required capability within the budget and
+ * size limits with the best expected quality, net of cost. Ties go to the
+ * cheaper team. Returns null when no team qualifies.
+ */
+export function formTeam(candidates: TeamCandidate[], constraints: TeamConstraints): TeamSelection | null {
+    const { requiredCapabilities: required, minAgents, maxAgents, budget } = constraints;
+    const costWeight = constraints.costWeight ?? 0;
+    const pool = candidates
+        .filter(candidate => required.length === 0 ||
+            required.some(capability => provides(candidate, capability)))
+        .sort((a, b) => b.quality - a.quality)
+        .slice(0, MAX_TEAM_CANDIDATES);
+
+    let best: { members: TeamCandidate[]; value: number; reward: number } | undefined;
+    const chosen: TeamCandidate[] = [];
+
+    const search = (start: number, reward: number) => {
+        const covered = required.every(capability =>
+            chosen.some(member => provides(member, capability)));
+        if (chosen.length >= Math.max(minAgents, 1) && covered) {
+            const cost = budget > 0 ? reward / budget : 0;
+            const value = expectedTeamQuality(chosen, required) - costWeight * cost;
+            if (!best || value > best.value + EPSILON ||
+                (value > best.value - EPSILON && reward < best.reward)) {
+                best = { members: [...chosen], value, reward };
+            }
+        }
+        if (chosen.length >= maxAgents) {
+            return;
+        }
+
+        for (let i = start; i < pool.length; i++) {
+            const next = reward + pool[i].bid.requestedReward;
+            if (next <= budget) {
+                chosen.push(pool[i]);
+                search(i + 1, next);
+                chosen.pop();
+            }
+        }
+    };
+    search(0, 0);
+
+    if (!best) {
+        return null;
+    }
+    const members = best.members;
+    return {
+        members: members.map(member => member.bid),
+        totalReward: best.reward,
+        expectedQuality: expectedTeamQuality(members, required),
+        explanations: members.map(member => explain(member, members, required, minAgents))
+    };
+}
+
+function explain(
+    member: TeamCandidate,
+    members: TeamCandidate[],
+    required: string[],
+    minAgents: number
+): TeamMemberExplanation {
+    const others = members.filter(other => other !== member);
+    const capabilities = required.filter(capability => provides(member, capability));
+    const soleProvider = capabilities.filter(capability =>
+        !others.some(other => provides(other, capability)));
+    const marginalQuality = expectedTeamQuality(members, required) - expectedTeamQuality(others, required);
+
+    let reason: string;
+    if (soleProvider.length > 0) {
+        reason = `Only member with ${soleProvider.join(', ')}`;
+    } else if (members.length <= minAgents && marginalQuality < EPSILON) {
+        reason = `Needed to reach the minimum of ${minAgents} agents`;
+    } else {
+        reason = `Backs up ${capabilities.join(', ') || 'the team'}, adding ${marginalQuality.toFixed(2)} expected quality`;
+    }
+
+    return {
+        agentId: member.bid.agentId,
+        quality: member.quality,
+        requestedReward: member.bid.requestedReward,
+        capabilities,
+        soleProvider,
+        marginalQuality,
+        reason: `${reason} (quality ${member.quality.toFixed(2)}, asks ${member.bid.requestedReward})`
+    };
+}
@@ -0,0 +1,335 @@
+import { getBytes, Interface, LogDescription, Result } from 'ethers';
+import SwarmOrchestratorAbi from './abi/SwarmOrchestrator.json';
+import EvolutionEngineAbi from './abi/EvolutionEngine.json';
+import { ContractRevertError, decodeRevert } from './ContractErrors';
+
+/**
+ * Mirrors ISwarmOrchestrator.TaskStatus
+ */
+export enum TaskStatus {
+    Open,
+    InProgress,
+    UnderReview,
+    Completed,
+    Disputed,
+    Cancelled
+}
+
+/**
+ * ISwarmOrchestrator.Agent
+ */
+export interface ContractAgent {
+    walletAddress: string;
+    reputationScore: number;
+    stakedAmount: bigint; // tinybars
+    isActive: boolean;
+    capabilities: string[];
+    lastActiveTimestamp: number; // seconds
+    tasksCompleted: number;
+    successRate: number;
+}
+
+/**
+ * ISwarmOrchestrator.Task
+ */
+export interface ContractTask {
+    id: string;
+    requester: string;
+    description: string;
+    bounty: bigint; // tinybars
+    deadline: number; // seconds
+    status: TaskStatus;
+    requiredCapabilities: string[];
+    solutionHash: string;
+    consensusThreshold: number;
+}
+
+/**
+ * What EvolutionEngine.getDNA returns for a token
+ */
+export interface AgentDNA {
+    generation: number;
+    parentIds: number[];
+    traitKeys: string[];
+    fitness: number;
+    creator: string;
+}
+
+/**
+ * EvolutionEngine.Trait
+ */
+export interface DNATrait {
+    name: string;
+    traitType: string; // capability, parameter or behavior
+    value: string; // hex-encoded bytes
+    mutability: number; // 0-100
+    dominance: number;
+}
+
+export interface EncodedCall {
+    method: string;
+    data: Uint8Array; // ABI-encoded function parameters, selector included
+}
+
+const ZERO_ADDRESS = /^0x0{40}$/i;
+
+/**
+ * Encodes calls to and decodes results, reverts and logs of one contract
+ * from its compiled ABI. The ABIs under ./abi are exported from the contract
+ * build by contracts/scripts/export-abis.js.
+ */
+export class ContractCodec {
+    readonly name: string;
+    readonly abi: Interface;
+
+    constructor(name: string, abi: ConstructorParameters<typeof Interface>[0]) {
+        this.name = name;
+        this.abi = new Interface(abi);
+    }
+
+    encode(method: string, args: unknown[] = []): EncodedCall {
+        const data = this.abi.encodeFunctionData(method, args);
+        return { method, data: getBytes(data) };
+    }
+
+    decode(method: string, data: Uint8Array): Result {
+        return this.abi.decodeFunctionResult(method, data);
+    }
+
+    /**
+     * Typed error for a call that reverted with the given error message
+     */
+    decodeRevert(method: string, errorMessage?: string | null): ContractRevertError {
+        return decodeRevert(this.abi, this.name, method, errorMessage);
+    }
+
+    /**
+     * Decode a log the contract emitted; null for logs of other contracts
+     */
+    parseLog(log: { topics: string[]; data: string }): LogDescription | null {
+        try {
+            return this.abi.parseLog(log);
+        } catch {
+            return null;
+        }
+    }
+}
+
+export class SwarmOrchestratorCodec extends ContractCodec {
+    constructor() {
+        super('SwarmOrchestrator', SwarmOrchestratorAbi);
+    }
+
+    registerAgent(capabilities: string[]): EncodedCall {
+        return this.encode('registerAgent', [capabilities]);
+    }
+
+    /**
+     * The bounty is the call's payable amount
+     */
+    createTask(description: string, requiredCapabilities: string[], deadline: number): EncodedCall {
+        return this.encode('createTask', [description, requiredCapabilities, BigInt(Math.floor(deadline))]);
+    }
+
+    /**
+     * The requester signs; the bounty is taken from its token balance
+     */
+    createTokenTask(
+        description: string,
+        requiredCapabilities: string[],
+        deadline: number,
+        token: string,
+        amount: bigint
+    ): EncodedCall {
+        return this.encode('createTokenTask', [description, requiredCapabilities, BigInt(Math.floor(deadline)), token, amount]);
+    }
+
+    assignTask(taskId: string, agents: string[]): EncodedCall {
+        return this.encode('assignTask', [taskId, agents]);
+    }
+
+    replaceAgent(taskId: string, abandoned: string, replacement: string): EncodedCall {
+        return this.encode('replaceAgent', [taskId, abandoned, replacement]);
+    }
+
+    submitSolution(taskId: string, solutionHash: string): EncodedCall {
+        return this.encode('submitSolution', [taskId, solutionHash]);
+    }
+
+    setRewardSplit(taskId: string, recipients: string[], amounts: bigint[]): EncodedCall {
+        return this.encode('setRewardSplit', [taskId, recipients, amounts]);
+    }
+
+    finalizeTask(taskId: string, finalSolution: string): EncodedCall {
+        return this.encode('finalizeTask', [taskId, finalSolution]);
+    }
+
+    updateReputation(agent: string, score: number): EncodedCall {
+        return this.encode('updateReputation', [agent, BigInt(Math.round(score))]);
+    }
+
+    batchUpdateReputation(agents: string[], scores: number[]): EncodedCall {
+        return this.encode('batchUpdateReputation', [agents, scores.map(score => BigInt(Math.round(score)))]);
+    }
+
+    slashAgent(agent: string, amount: bigint, reason: string): EncodedCall {
+        return this.encode('slashAgent', [agent, amount, reason]);
+    }
+
+    setCapabilityParent(capability: string, parent: string): EncodedCall {
+        return this.encode('setCapabilityParent', [capability, parent]);
+    }
+
+    setCapabilityAlias(name: string, capability: string): EncodedCall {
+        return this.encode('setCapabilityAlias', [name, capability]);
+    }
+
+    getAgent(agent: string): EncodedCall {
+        return this.encode('getAgent', [agent]);
+    }
+
+    getTask(taskId: string): EncodedCall {
+        return this.encode('getTask', [taskId]);
+    }
+
+    getTaskAssignments(taskId: string): EncodedCall {
+        return this.encode('getTaskAssignments', [taskId]);
+    }
+
+    taskTokens(taskId: string): EncodedCall {
+        return this.encode('taskTokens', [taskId]);
+    }
+
+    /**
+     * The agent returned by getAgent, or null when the address never registered
+     */
+    decodeAgent(data: Uint8Array): ContractAgent | null {
+        const [agent] = this.decode('getAgent', data);
+        if (ZERO_ADDRESS.test(agent.walletAddress)) {
+            return null;
+        }
+
+        return {
+            walletAddress: agent.walletAddress,
+            reputationScore: Number(agent.reputationScore),
+            stakedAmount: agent.stakedAmount,
+            isActive: agent.isActive,
+            capabilities: Array.from(agent.capabilities),
+            lastActiveTimestamp: Number(agent.lastActiveTimestamp),
+            tasksCompleted: Number(agent.tasksCompleted),
+            successRate: Number(agent.successRate)
+        };
+    }
+
+    /**
+     * The task returned by getTask, or null when there is no such task
+     */
+    decodeTask(data: Uint8Array): ContractTask | null {
+        const [task] = this.decode('getTask', data);
+        if (ZERO_ADDRESS.test(task.requester)) {
+            return null;
+        }
+
+        return {
+            id: task.id,
+            requester: task.requester,
+            description: task.description,
+            bounty: task.bounty,
+            deadline: Number(task.deadline),
+            status: Number(task.status) as TaskStatus,
+            requiredCapabilities: Array.from(task.requiredCapabilities),
+            solutionHash: task.solutionHash,
+            consensusThreshold: Number(task.consensusThreshold)
+        };
+    }
+
+    decodeTaskAssignments(data: Uint8Array): string[] {
+        const [agents] = this.decode('getTaskAssignments', data);
+        return Array.from(agents);
+    }
+
+    /**
+     * Address of the HTS token a task's bounty is escrowed in, or null for HBAR
+     */
+    decodeTaskToken(data: Uint8Array): string | null {
+        const [token] = this.decode('taskTokens', data);
+        return ZERO_ADDRESS.test(token) ? null : token;
+    }
+
+    /**
+     * Id of the task createTask or createTokenTask created
+     */
+    decodeCreatedTaskId(data: Uint8Array, method: 'createTask' | 'createTokenTask' = 'createTask'): string {
+        const [taskId] = this.decode(method, data);
+        return taskId;
+    }
+}
+
+export class EvolutionEngineCodec extends ContractCodec {
+    constructor() {
+        super('EvolutionEngine', EvolutionEngineAbi);
+    }
+
+    /**
+     * Trait values are hex-encoded bytes
+     */
+    mintAgentDNA(traits: string[], traitValues: string[], uri: string): EncodedCall {
+        return this.encode('mintAgentDNA', [traits, traitValues, uri]);
+    }
+
+    /**
+     * Payable: the breeding fee
+     */
+    mutate(tokenId: number): EncodedCall {
+        return this.encode('mutate', [BigInt(tokenId)]);
+    }
+
+    /**
+     * Payable: twice the breeding fee
+     */
+    crossbreed(parentA: number, parentB: number): EncodedCall {
+        return this.encode('crossbreed', [BigInt(parentA), BigInt(parentB)]);
+    }
+
+    updateFitness(tokenId: number, fitness: number): EncodedCall {
+        return this.encode('updateFitness', [BigInt(tokenId), BigInt(fitness)]);
+    }
+
+    getDNA(tokenId: number): EncodedCall {
+        return this.encode('getDNA', [BigInt(tokenId)]);
+    }
+
+    getTrait(tokenId: number, traitName: string): EncodedCall {
+        return this.encode('getTrait', [BigInt(tokenId), traitName]);
+    }
+
+    /**
+     * Id of the token minted, mutated or bred
+     */
+    decodeTokenId(method: 'mintAgentDNA' | 'mutate' | 'crossbreed', data: Uint8Array): number {
+        const [tokenId] = this.decode(method, data);
+        return Number(tokenId);
+    }
+
+    decodeDNA(data: Uint8Array): AgentDNA {
+        const dna = this.decode('getDNA', data);
+        return {
+            generation: Number(dna.generation),
+            parentIds: Array.from(dna.parentIds as bigint[], Number),
+            traitKeys: Array.from(dna.traitKeys),
+            fitness: Number(dna.fitness),
+            creator: dna.creator
+        };
+    }
+
+    decodeTrait(data: Uint8Array): DNATrait {
+        const [trait] = this.decode('getTrait', data);
+        return {
+            name: trait.name,
+            traitType: trait.traitType,
+            value: trait.value,
+            mutability: Number(trait.mutability),
+            dominance: Number(trait.dominance)
+        };
+    }
+}
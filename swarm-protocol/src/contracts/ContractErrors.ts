@@ -0,0 +1,136 @@
+import { Interface } from 'ethers';
+
+/**
+ * Reasons the SwarmOrchestrator's require statements revert with
+ */
+export const OrchestratorRevertReason = {
+    NotRegisteredAgent: 'Not a registered agent',
+    NotTaskRequester: 'Not task requester',
+    InsufficientStake: 'Insufficient stake',
+    AgentAlreadyRegistered: 'Agent already registered',
+    NoCapabilities: 'Must have at least one capability',
+    NoBounty: 'Must provide bounty',
+    InvalidDeadline: 'Invalid deadline',
+    EmptyDescription: 'Empty description',
+    TaskNotOpen: 'Task not open',
+    InvalidAgentCount: 'Invalid agent count',
+    AgentNotActive: 'Agent not active',
+    AgentLacksCapabilities: 'Agent lacks capabilities',
+    TaskNotInProgress: 'Task not in progress',
+    NotAssignedToTask: 'Not assigned to task',
+    AlreadyAssignedToTask: 'Already assigned to task',
+    EmptySolution: 'Empty solution',
+    TaskNotUnderReview: 'Task not under review',
+    SplitExceedsBounty: 'Split exceeds bounty',
+    DuplicateRecipient: 'Duplicate recipient',
+    TokenAssociationFailed: 'Token association failed',
+    TokenTransferFailed: 'Token transfer failed',
+    OnlyOracle: 'Only oracle can update',
+    OnlySettlementOracle: 'Only settlement oracle',
+    LengthMismatch: 'Length mismatch',
+    SlashExceedsStake: 'Slash exceeds stake',
+    InvalidAddress: 'Invalid address'
+} as const;
+
+/**
+ * Reasons the EvolutionEngine's require statements revert with
+ */
+export const EvolutionRevertReason = {
+    TraitMismatch: 'Trait mismatch',
+    NoTraits: 'No traits provided',
+    UnregisteredTrait: 'Unregistered trait',
+    NotDNAOwner: 'Not DNA owner',
+    InsufficientFee: 'Insufficient fee',
+    MaxGenerationsReached: 'Max generations reached',
+    MustOwnParent: 'Must own at least one parent',
+    CannotSelfBreed: 'Cannot self-breed',
+    OnlyOrchestrator: 'Only orchestrator',
+    InvalidFitness: 'Invalid fitness'
+} as const;
+
+export type RevertReason =
+    | typeof OrchestratorRevertReason[keyof typeof OrchestratorRevertReason]
+    | typeof EvolutionRevertReason[keyof typeof EvolutionRevertReason];
+
+/**
+ * A contract call that reverted. `reason` is the require message when
+ * there is one; calls that revert without data only carry the status.
+ */
+export class ContractRevertError extends Error {
+    readonly contract: string;
+    readonly method: string;
+    readonly reason?: RevertReason | string;
+    readonly data?: string; // Raw revert data
+
+    constructor(contract: string, method: string, reason?: string, data?: string) {
+        super(`${contract}.${method} reverted${reason ? `: ${reason}` : ''}`);
+        this.name = 'ContractRevertError';
+        this.contract = contract;
+        this.method = method;
+        this.reason = reason;
+        this.data = data;
+    }
+
+    is(reason: RevertReason): boolean {
+        return this.reason === reason;
+    }
+}
+
+/**
+ * A revert with one of the custom errors declared in the ABI, such as
+ * OwnableUnauthorizedAccount
+ */
+export class ContractCustomError extends ContractRevertError {
+    readonly errorName: string;
+    readonly args: unknown[];
+
+    constructor(contract: string, method: string, errorName: string, args: unknown[], data: string) {
+        super(contract, method, errorName, data);
+        this.name = 'ContractCustomError';
+        this.errorName = errorName;
+        this.args = args;
+    }
+}
+
+/**
+ * A failed assert, overflow or similar, with Solidity's panic code
+ */
+export class ContractPanicError extends ContractRevertError {
+    readonly code: number;
+
+    constructor(contract: string, method: string, code: number, data: string) {
+        super(contract, method, `panic 0x${code.toString(16).padStart(2, '0')}`, data);
+        this.name = 'ContractPanicError';
+        this.code = code;
+    }
+}
+
+/**
+ * Turn revert data into the matching error. Hedera reports reverts as the
+ * hex-encoded revert data, or as a status name when there is none.
+ */
+export function decodeRevert(abi: Interface, contract: string, method: string, errorMessage?: string | null): ContractRevertError {
+    if (!errorMessage || !/^0x[0-9a-f]*$/i.test(errorMessage)) {
+        return new ContractRevertError(contract, method, errorMessage || undefined);
+    }
+
+    let parsed;
+    try {
+        parsed = abi.parseError(errorMessage);
+    } catch {
+        parsed = null; // Truncated or malformed data
+    }
+
+    if (!parsed) {
+        return new ContractRevertError(contract, method, undefined, errorMessage);
+    }
+
+    switch (parsed.name) {
+        case 'Error':
+            return new ContractRevertError(contract, method, parsed.args[0], errorMessage);
+        case 'Panic':
+            return new ContractPanicError(contract, method, Number(parsed.args[0]), errorMessage);
+        default:
+            return new ContractCustomError(contract, method, parsed.name, Array.from(parsed.args), errorMessage);
+    }
+}
@@ -0,0 +1,326 @@
+import {
+    AccountId,
+    Client,
+    ContractCallQuery,
+    ContractExecuteTransaction,
+    Hbar,
+    PrecheckStatusError,
+    Status,
+    TokenId
+} from '@hashgraph/sdk';
+import {
+    AgentDNA,
+    ContractAgent,
+    ContractCodec,
+    ContractTask,
+    DNATrait,
+    EncodedCall,
+    EvolutionEngineCodec,
+    SwarmOrchestratorCodec
+} from './ContractCodec';
+import type { CapabilityTaxonomy } from '../capabilities/CapabilityTaxonomy';
+
+/**
+ * Long-zero EVM address of a Hedera account
+ */
+export function toSolidityAddress(accountId: string): string {
+    return `0x${AccountId.fromString(accountId).toSolidityAddress()}`;
+}
+
+export function toAccountId(address: string): string {
+    return AccountId.fromSolidityAddress(address).toString();
+}
+
+export function toTokenAddress(tokenId: string): string {
+    return `0x${TokenId.fromString(tokenId).toSolidityAddress()}`;
+}
+
+export interface ContractExecuteOptions {
+    gas: number;
+    payableAmount?: bigint; // tinybars
+}
+
+export interface ContractExecution {
+    transactionId: string;
+    result?: Uint8Array; // Return data, when requested
+}
+
+/**
+ * Runs a codec's calls against a deployed contract through the Hedera SDK.
+ * Reverts are thrown as ContractRevertError and its subclasses, decoded
+ * from the revert data in the query result or transaction record.
+ */
+export class HederaContractClient<C extends ContractCodec = ContractCodec> {
+    readonly codec: C;
+    protected client: Client;
+    protected contractId: string;
+
+    constructor(client: Client, contractId: string, codec: C) {
+        this.client = client;
+        this.contractId = contractId;
+        this.codec = codec;
+    }
+
+    /**
+     * Run a view function on a node and return its result bytes
+     */
+    async query(call: EncodedCall, gas: number = 100000): Promise<Uint8Array> {
+        try {
+            const result = await new ContractCallQuery()
+                .setContractId(this.contractId)
+                .setGas(gas)
+                .setFunctionParameters(call.data)
+                .execute(this.client);
+            return result.bytes;
+        } catch (error: unknown) {
+            if (error instanceof PrecheckStatusError && error.status === Status.ContractRevertExecuted) {
+                throw this.codec.decodeRevert(call.method, error.contractFunctionResult?.errorMessage);
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Submit a transaction calling the contract. Fetches the transaction
+     * record for the return data when `withResult` is set, and always when
+     * the call reverted.
+     */
+    async execute(call: EncodedCall, options: ContractExecuteOptions, withResult = false): Promise<ContractExecution> {
+        const transaction = new ContractExecuteTransaction()
+            .setContractId(this.contractId)
+            .setGas(options.gas)
+            .setFunctionParameters(call.data);
+        if (options.payableAmount !== undefined) {
+            transaction.setPayableAmount(Hbar.fromTinybars(options.payableAmount.toString()));
+        }
+
+        const response = await transaction.execute(this.client);
+        const receipt = await response.getReceiptQuery().setValidateStatus(false).execute(this.client);
+        const transactionId = response.transactionId.toString();
+
+        if (receipt.status === Status.ContractRevertExecuted) {
+            const record = await response.getRecordQuery().setValidateReceiptStatus(false).execute(this.client);
+            throw this.codec.decodeRevert(call.method, record.contractFunctionResult?.errorMessage);
+        }
+        if (receipt.status !== Status.Success) {
+            throw new Error(`${this.codec.name}.${call.method} failed: ${receipt.status.toString()}`);
+        }
+
+        if (!withResult) {
+            return { transactionId };
+        }
+        const record = await response.getRecord(this.client);
+        return { transactionId, result: record.contractFunctionResult?.bytes };
+    }
+}
+
+/**
+ * Typed calls to the SwarmOrchestrator, taking and returning Hedera account ids
+ */
+export class SwarmOrchestratorClient extends HederaContractClient<SwarmOrchestratorCodec> {
+    constructor(client: Client, contractId: string) {
+        super(client, contractId, new SwarmOrchestratorCodec());
+    }
+
+    async registerAgent(capabilities: string[], stake: bigint): Promise<ContractExecution> {
+        return this.execute(this.codec.registerAgent(capabilities), { gas: 200000, payableAmount: stake });
+    }
+
+    /**
+     * Create a task funded with the bounty; returns its id
+     */
+    async createTask(description: string, requiredCapabilities: string[], deadline: number, bounty: bigint): Promise<string> {
+        const execution = await this.execute(
+            this.codec.createTask(description, requiredCapabilities, deadline),
+            { gas: 300000, payableAmount: bounty },
+            true
+        );
+        return this.codec.decodeCreatedTaskId(execution.result!);
+    }
+
+    /**
+     * Create a task with its bounty escrowed in an HTS token, in the token's
+     * smallest unit; returns its id
+     */
+    async createTokenTask(
+        description: string,
+        requiredCapabilities: string[],
+        deadline: number,
+        tokenId: string,
+        amount: bigint
+    ): Promise<string> {
+        const execution = await this.execute(
+            this.codec.createTokenTask(description, requiredCapabilities, deadline, toTokenAddress(tokenId), amount),
+            { gas: 1000000 },
+            true
+        );
+        return this.codec.decodeCreatedTaskId(execution.result!, 'createTokenTask');
+    }
+
+    async assignTask(taskId: string, accountIds: string[]): Promise<ContractExecution> {
+        return this.execute(
+            this.codec.assignTask(taskId, accountIds.map(toSolidityAddress)),
+            { gas: 150000 + 50000 * accountIds.length }
+        );
+    }
+
+    /**
+     * Hand an agent's place on a task in progress to another; only the
+     * requester or owner may
+     */
+    async replaceAgent(taskId: string, abandoned: string, replacement: string): Promise<ContractExecution> {
+        return this.execute(
+            this.codec.replaceAgent(taskId, toSolidityAddress(abandoned), toSolidityAddress(replacement)),
+            { gas: 200000 }
+        );
+    }
+
+    async submitSolution(taskId: string, solutionHash: string): Promise<ContractExecution> {
+        return this.execute(this.codec.submitSolution(taskId, solutionHash), { gas: 200000 });
+    }
+
+    /**
+     * Amounts to pay each assigned agent on finalizing, in place of the
+     * contract's reputation-weighted split; only the settlement oracle or
+     * owner may
+     */
+    async setRewardSplit(taskId: string, payouts: { accountId: string; amount: bigint }[]): Promise<ContractExecution> {
+        return this.execute(
+            this.codec.setRewardSplit(
+                taskId,
+                payouts.map(payout => toSolidityAddress(payout.accountId)),
+                payouts.map(payout => payout.amount)
+            ),
+            { gas: 100000 + 50000 * payouts.length }
+        );
+    }
+
+    /**
+     * Only the settlement oracle or owner may
+     */
+    async finalizeTask(taskId: string, finalSolution: string): Promise<ContractExecution> {
+        return this.execute(this.codec.finalizeTask(taskId, finalSolution), { gas: 400000 });
+    }
+
+    /**
+     * Publish scores in one transaction; only the reputation oracle may
+     */
+    async batchUpdateReputation(updates: { accountId: string; score: number }[]): Promise<ContractExecution> {
+        return this.execute(
+            this.codec.batchUpdateReputation(
+                updates.map(update => toSolidityAddress(update.accountId)),
+                updates.map(update => update.score)
+            ),
+            { gas: 50000 + 30000 * updates.length }
+        );
+    }
+
+    async slashAgent(accountId: string, amount: bigint, reason: string): Promise<ContractExecution> {
+        return this.execute(this.codec.slashAgent(toSolidityAddress(accountId), amount, reason), { gas: 150000 });
+    }
+
+    async setCapabilityParent(capability: string, parent: string): Promise<ContractExecution> {
+        return this.execute(this.codec.setCapabilityParent(capability, parent), { gas: 150000 });
+    }
+
+    async setCapabilityAlias(name: string, capability: string): Promise<ContractExecution> {
+        return this.execute(this.codec.setCapabilityAlias(name, capability), { gas: 100000 });
+    }
+
+    /**
+     * Mirror a taxonomy's hierarchy and aliases on-chain, parents before
+     * their children, so agents are assigned tasks needing a broader
+     * capability than theirs; only the owner may
+     */
+    async publishCapabilityTaxonomy(taxonomy: CapabilityTaxonomy): Promise<ContractExecution[]> {
+        const executions: ContractExecution[] = [];
+        const definitions = taxonomy.definitions()
+            .sort((a, b) => taxonomy.ancestors(a.name).length - taxonomy.ancestors(b.name).length);
+        for (const definition of definitions) {
+            if (definition.parent) {
+                executions.push(await this.setCapabilityParent(definition.name, definition.parent));
+            }
+            for (const name of definition.aliases || []) {
+                executions.push(await this.setCapabilityAlias(name, definition.name));
+            }
+        }
+        return executions;
+    }
+
+    async getAgent(accountId: string): Promise<ContractAgent | null> {
+        return this.codec.decodeAgent(await this.query(this.codec.getAgent(toSolidityAddress(accountId))));
+    }
+
+    async getTask(taskId: string): Promise<ContractTask | null> {
+        return this.codec.decodeTask(await this.query(this.codec.getTask(taskId)));
+    }
+
+    /**
+     * Account ids of the agents assigned to a task
+     */
+    async getTaskAssignments(taskId: string): Promise<string[]> {
+        const agents = this.codec.decodeTaskAssignments(await this.query(this.codec.getTaskAssignments(taskId)));
+        return agents.map(toAccountId);
+    }
+
+    /**
+     * Id of the HTS token a task's bounty is escrowed in, or null for HBAR
+     */
+    async getTaskToken(taskId: string): Promise<string | null> {
+        const token = this.codec.decodeTaskToken(await this.query(this.codec.taskTokens(taskId)));
+        return token ? TokenId.fromSolidityAddress(token).toString() : null;
+    }
+}
+
+const BREEDING_FEE = BigInt(10 ** 8); // 1 HBAR, as in the contract
+
+/**
+ * Typed calls to the EvolutionEngine
+ */
+export class EvolutionEngineClient extends HederaContractClient<EvolutionEngineCodec> {
+    constructor(client: Client, contractId: string) {
+        super(client, contractId, new EvolutionEngineCodec());
+    }
+
+    /**
+     * Mint DNA with the given traits; returns the token id
+     */
+    async mintAgentDNA(traits: string[], traitValues: string[], uri: string): Promise<number> {
+        const execution = await this.execute(
+            this.codec.mintAgentDNA(traits, traitValues, uri),
+            { gas: 300000 + 100000 * traits.length },
+            true
+        );
+        return this.codec.decodeTokenId('mintAgentDNA', execution.result!);
+    }
+
+    async mutate(tokenId: number): Promise<number> {
+        const execution = await this.execute(
+            this.codec.mutate(tokenId),
+            { gas: 1000000, payableAmount: BREEDING_FEE },
+            true
+        );
+        return this.codec.decodeTokenId('mutate', execution.result!);
+    }
+
+    async crossbreed(parentA: number, parentB: number): Promise<number> {
+        const execution = await this.execute(
+            this.codec.crossbreed(parentA, parentB),
+            { gas: 1500000, payableAmount: BREEDING_FEE * BigInt(2) },
+            true
+        );
+        return this.codec.decodeTokenId('crossbreed', execution.result!);
+    }
+
+    async updateFitness(tokenId: number, fitness: number): Promise<ContractExecution> {
+        return this.execute(this.codec.updateFitness(tokenId, fitness), { gas: 100000 });
+    }
+
+    async getDNA(tokenId: number): Promise<AgentDNA> {
+        return this.codec.decodeDNA(await this.query(this.codec.getDNA(tokenId)));
+    }
+
+    async getTrait(tokenId: number, traitName: string): Promise<DNATrait> {
+        return this.codec.decodeTrait(await this.query(this.codec.getTrait(tokenId, traitName)));
+    }
+}
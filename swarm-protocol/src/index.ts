@@ -0,0 +1,62 @@
+/**
+ * HederaSwarm Protocol
+ * 
+ * Consensus, task distribution and communication layers shared by
+ * every swarm participant.
+ */
+
+// Wire protocol
+export * from './protocol/messages';
+export * from './protocol/codec';
+
+// Transport
+export * from './transport/SwarmTransport';
+export * from './transport/HederaTransport';
+export * from './transport/InMemoryTransport';
+export * from './transport/FramedTransport';
+
+// Storage
+export * from './storage/BlobStore';
+
+// Communication
+export * from './communication/HCSMessageHandler';
+export * from './communication/AgentKeyRegistry';
+export * from './communication/MessageProcessor';
+export * from './communication/CheckpointStore';
+
+// Utilities
+export * from './utils/signatures';
+export * from './utils/encryption';
+
+// Contracts
+export * from './contracts/ContractErrors';
+export * from './contracts/ContractCodec';
+export * from './contracts/HederaContractClient';
+
+// Reputation
+export * from './reputation/ReputationModel';
+export * from './reputation/ReputationRegistry';
+export * from './reputation/ReputationContract';
+export * from './reputation/ReputationSync';
+
+// Consensus
+export * from './consensus/ConsensusEngine';
+export * from './consensus/ConsensusLedger';
+export * from './consensus/ConsensusStore';
+export * from './consensus/ConsensusStrategy';
+export * from './consensus/TaskDistributor';
+export * from './consensus/TaskAssigner';
+export * from './consensus/TaskLifecycle';
+export * from './consensus/TaskGraph';
+export * from './consensus/TaskAuction';
+export * from './consensus/TeamFormation';
+export * from './consensus/TaskScheduler';
+export * from './consensus/AgentDirectory';
+
+// Capabilities
+export * from './capabilities/CapabilityTaxonomy';
+
+// Settlement
+export * from './settlement/RewardSplit';
+export * from './settlement/SettlementLedger';
+export * from './settlement/TaskSettlement';
@@ -0,0 +1,310 @@
+import { PrivateKey, PublicKey } from '@hashgraph/sdk';
+import crypto from 'crypto';
+import {
+    MessagePayloads,
+    MessageType,
+    PAYLOAD_SCHEMAS,
+    PROTOCOL_NAME,
+    PROTOCOL_VERSION,
+    SwarmMessage,
+    SwarmMessageSchema
+} from './messages';
+import { signContent, verifyContent } from '../utils/signatures';
+
+export type ProtocolRejectionReason =
+    'malformed' |
+    'unsupported_version' |
+    'unknown_type' |
+    'invalid_payload';
+
+export class ProtocolError extends Error {
+    readonly reason: ProtocolRejectionReason;
+
+    constructor(reason: ProtocolRejectionReason, message: string) {
+        super(message);
+        this.name = 'ProtocolError';
+        this.reason = reason;
+    }
+}
+
+export type DecodeResult =
+    | {
+        ok: true;
+        message: SwarmMessage;
+        version: number; // Version the message was published with, before any upgrade
+        raw: any;
+    }
+    | {
+        ok: false;
+        reason: ProtocolRejectionReason;
+        error: string;
+        raw?: any;
+    };
+
+export interface CreateMessageOptions {
+    id?: string;
+    recipient?: string;
+    recipients?: string[];
+    timestamp?: number;
+    encrypted?: boolean;
+}
+
+/**
+ * Build a message in the current envelope format
+ */
+export function createMessage<T extends MessageType>(
+    type: T,
+    sender: string,
+    payload: MessagePayloads[T],
+    options: CreateMessageOptions = {}
+): SwarmMessage {
+    const timestamp = options.timestamp ?? Date.now();
+    const message: SwarmMessage = {
+        protocol: PROTOCOL_NAME,
+        version: PROTOCOL_VERSION,
+        id: options.id || `${sender}-${timestamp}-${Math.random().toString(36).slice(2, 11)}`,
+        type,
+        sender,
+        timestamp,
+        payload
+    };
+
+    if (options.recipient) {
+        message.recipient = options.recipient;
+    }
+    if (options.recipients) {
+        message.recipients = options.recipients;
+    }
+    if (options.encrypted) {
+        message.encrypted = true;
+    }
+
+    return message;
+}
+
+/**
+ * Validate a current-version message, throwing a ProtocolError that names
+ * the first problem found. The payload is returned as received: schema
+ * output reorders keys, which would break signature checks.
+ */
+export function validateMessage(data: any): SwarmMessage {
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+        throw new ProtocolError('malformed', 'Message is not a JSON object');
+    }
+
+    if (!Object.values(MessageType).includes(data.type)) {
+        throw new ProtocolError('unknown_type', `Unknown message type: ${data.type}`);
+    }
+
+    const envelope = SwarmMessageSchema.safeParse(data);
+    if (!envelope.success) {
+        throw new ProtocolError('malformed', formatIssues(envelope.error.issues));
+    }
+
+    const payload = PAYLOAD_SCHEMAS[envelope.data.type].safeParse(data.payload);
+    if (!payload.success) {
+        throw new ProtocolError(
+            'invalid_payload',
+            `Invalid ${envelope.data.type} payload: ${formatIssues(payload.error.issues)}`
+        );
+    }
+
+    return { ...envelope.data, payload: data.payload } as SwarmMessage;
+}
+
+/**
+ * Validate and serialize a message for publishing
+ */
+export function encodeMessage(message: SwarmMessage): string {
+    return JSON.stringify(validateMessage(message));
+}
+
+/**
+ * Parse, upgrade and validate a message read from a topic. Never throws;
+ * undecodable messages come back with the reason they were rejected.
+ */
+export function decodeMessage(content: string | object): DecodeResult {
+    let raw: any;
+    try {
+        raw = typeof content === 'string' ? JSON.parse(content) : content;
+    } catch (error) {
+        return { ok: false, reason: 'malformed', error: 'Message is not valid JSON' };
+    }
+
+    const version = getMessageVersion(raw);
+    if (version === null) {
+        return { ok: false, reason: 'malformed', error: 'Message is not a swarm protocol envelope', raw };
+    }
+    if (!isSupportedVersion(version)) {
+        return {
+            ok: false,
+            reason: 'unsupported_version',
+            error: `Protocol version ${version} is newer than supported version ${PROTOCOL_VERSION}`,
+            raw
+        };
+    }
+
+    try {
+        let data = raw;
+        for (let from = version; from < PROTOCOL_VERSION; from++) {
+            data = UPGRADES[from](data);
+        }
+
+        return { ok: true, message: validateMessage(data), version, raw };
+    } catch (error) {
+        if (error instanceof ProtocolError) {
+            return { ok: false, reason: error.reason, error: error.message, raw };
+        }
+        // Content an upgrade cannot handle, e.g. values JSON cannot represent
+        return { ok: false, reason: 'malformed', error: error instanceof Error ? error.message : String(error), raw };
+    }
+}
+
+/**
+ * Get the envelope version of a parsed message, 0 for legacy unversioned
+ * messages and null for anything that is not a swarm message
+ */
+export function getMessageVersion(data: any): number | null {
+    if (!data || typeof data !== 'object' || Array.isArray(data) || typeof data.type !== 'string') {
+        return null;
+    }
+
+    if (data.protocol === undefined && data.version === undefined) {
+        return 0;
+    }
+
+    if (data.protocol !== PROTOCOL_NAME || !Number.isInteger(data.version) || data.version < 1) {
+        return null;
+    }
+
+    return data.version;
+}
+
+/**
+ * Whether messages of the given version can be decoded (after upgrading)
+ */
+export function isSupportedVersion(version: number): boolean {
+    return version >= 0 && version <= PROTOCOL_VERSION;
+}
+
+/**
+ * Canonical content covered by a message signature
+ */
+export function getSigningContent(message: SwarmMessage): string {
+    return JSON.stringify({
+        id: message.id,
+        type: message.type,
+        sender: message.sender,
+        recipient: message.recipient,
+        timestamp: message.timestamp,
+        payload: message.payload
+    });
+}
+
+/**
+ * Sign a message with the sender's key, returning a hex signature
+ */
+export function signMessage(privateKey: PrivateKey, message: SwarmMessage): string {
+    return signContent(privateKey, getSigningContent(message));
+}
+
+/**
+ * Verify a message signature against the sender's key
+ */
+export function verifyMessageSignature(publicKey: PublicKey, message: SwarmMessage): boolean {
+    return !!message.signature &&
+        verifyContent(publicKey, getSigningContent(message), message.signature);
+}
+
+/**
+ * Upgrade steps, keyed by the version they upgrade from
+ */
+const UPGRADES: Record<number, (data: any) => any> = {
+    0: upgradeFromV0
+};
+
+/**
+ * Map the ad-hoc messages published before versioning onto the v1 envelope:
+ * the consensus engine's `{type, proposal}` / `{type, proposalId, vote}`,
+ * the knowledge graph's `{type: 'ADD_NODE' | 'ADD_EDGE'}`, flat task
+ * announcements from the scripts, and id-less agent SDK messages.
+ */
+function upgradeFromV0(data: any): any {
+    const timestamp = toMillis(data.timestamp);
+    let upgraded: any;
+
+    if (data.type === MessageType.CONSENSUS_PROPOSAL && data.proposal && data.payload === undefined) {
+        upgraded = {
+            id: `${data.type}:${data.proposal.id}`,
+            type: data.type,
+            sender: data.proposal.proposer,
+            payload: data.proposal
+        };
+    } else if (data.type === MessageType.CONSENSUS_VOTE && data.vote && data.payload === undefined) {
+        upgraded = {
+            id: `${data.type}:${data.proposalId}:${data.vote.voter}`,
+            type: data.type,
+            sender: data.vote.voter,
+            payload: {
+                proposalId: data.proposalId,
+                support: data.vote.support,
+                reason: data.vote.reason
+            }
+        };
+    } else if (data.type === 'ADD_NODE' || data.type === 'ADD_EDGE') {
+        upgraded = {
+            id: data.id || legacyId(data),
+            type: data.type === 'ADD_NODE'
+                ? MessageType.KNOWLEDGE_NODE_ADDED
+                : MessageType.KNOWLEDGE_EDGE_ADDED,
+            sender: data.agentId,
+            payload: data.type === 'ADD_NODE' ? { node: data.node } : { edge: data.edge }
+        };
+    } else if (data.type === MessageType.TASK_ANNOUNCEMENT && data.payload === undefined && data.taskId) {
+        const { type, taskId, requester, reward, capabilities, deadline, timestamp: _, ...rest } = data;
+        upgraded = {
+            id: legacyId(data),
+            type,
+            sender: requester,
+            payload: {
+                ...rest,
+                id: taskId,
+                requester,
+                description: rest.description || '',
+                requiredCapabilities: capabilities || [],
+                bounty: reward,
+                deadline: toMillis(deadline)
+            }
+        };
+    } else {
+        upgraded = { ...data, id: data.id || legacyId(data) };
+    }
+
+    return {
+        ...upgraded,
+        protocol: PROTOCOL_NAME,
+        version: 1,
+        timestamp,
+        signature: data.signature
+    };
+}
+
+/**
+ * Deterministic id for legacy messages without one, so re-deliveries of the
+ * same message are still recognised as replays
+ */
+function legacyId(data: any): string {
+    const hash = crypto.createHash('sha256').update(JSON.stringify(data)).digest('hex');
+    return `legacy-${hash.substring(0, 16)}`;
+}
+
+function toMillis(value: unknown): number | undefined {
+    const millis = typeof value === 'string' ? Date.parse(value) : value;
+    return typeof millis === 'number' && Number.isFinite(millis) ? millis : undefined;
+}
+
+function formatIssues(issues: { path: (string | number)[]; message: string }[]): string {
+    return issues
+        .map(issue => issue.path.length ? `${issue.path.join('.')}: ${issue.message}` : issue.message)
+        .join('; ');
+}
@@ -0,0 +1,275 @@
+import { z } from 'zod';
+
+/**
+ * Protocol identifier carried by every envelope
+ */
+export const PROTOCOL_NAME = 'hedera-swarm';
+
+/**
+ * Current envelope version. Version 0 denotes the unversioned messages
+ * published before the protocol was introduced.
+ */
+export const PROTOCOL_VERSION = 1;
+
+export enum MessageType {
+    TASK_ANNOUNCEMENT = 'TASK_ANNOUNCEMENT',
+    AGENT_BID = 'AGENT_BID',
+    AGENT_BID_COMMIT = 'AGENT_BID_COMMIT',
+    AGENT_BID_REVEAL = 'AGENT_BID_REVEAL',
+    CONSENSUS_PROPOSAL = 'CONSENSUS_PROPOSAL',
+    CONSENSUS_VOTE = 'CONSENSUS_VOTE',
+    CONSENSUS_VOTE_COMMIT = 'CONSENSUS_VOTE_COMMIT',
+    CONSENSUS_VOTE_REVEAL = 'CONSENSUS_VOTE_REVEAL',
+    KNOWLEDGE_SHARE = 'KNOWLEDGE_SHARE',
+    KNOWLEDGE_NODE_ADDED = 'KNOWLEDGE_NODE_ADDED',
+    KNOWLEDGE_EDGE_ADDED = 'KNOWLEDGE_EDGE_ADDED',
+    REPUTATION_UPDATE = 'REPUTATION_UPDATE',
+    REPUTATION_LOADED = 'REPUTATION_LOADED',
+    COLLABORATION_REQUEST = 'COLLABORATION_REQUEST',
+    COLLABORATION_RESPONSE = 'COLLABORATION_RESPONSE',
+    HEARTBEAT = 'HEARTBEAT',
+    KEY_ANNOUNCEMENT = 'KEY_ANNOUNCEMENT',
+    DISPUTE_RAISED = 'DISPUTE_RAISED',
+    DISPUTE_EVIDENCE = 'DISPUTE_EVIDENCE',
+    DISPUTE_VOTE = 'DISPUTE_VOTE'
+}
+
+// Schemas only validate: decoded payloads keep unknown fields, so minor
+// additions stay readable by older agents
+
+export const AuctionTermsSchema = z.object({
+    type: z.enum(['open', 'first-price', 'vickrey', 'dutch']),
+    reservePrice: z.number().nonnegative().optional(),
+    priceStep: z.number().nonnegative().optional(),
+    priceInterval: z.number().positive().optional(),
+    floorPrice: z.number().nonnegative().optional(),
+    startedAt: z.number().optional(),
+    commitDeadline: z.number().optional(),
+    revealDeadline: z.number().optional()
+});
+
+export const ProficiencyLevelSchema = z.enum(['novice', 'competent', 'expert']);
+
+export const TaskAnnouncementPayloadSchema = z.object({
+    id: z.string().min(1),
+    description: z.string(),
+    requiredCapabilities: z.array(z.string()),
+    bounty: z.number().nonnegative(),
+    deadline: z.number(),
+    requester: z.string().optional(),
+    minAgents: z.number().int().positive().optional(),
+    maxAgents: z.number().int().positive().optional(),
+    priority: z.enum(['low', 'medium', 'high', 'critical']).optional(),
+    assignedAgents: z.array(z.string()).optional(),
+    parentId: z.string().optional(), // Set on sub-tasks of a split task
+    inputs: z.record(z.array(z.string())).optional(), // Solution hashes of the sub-tasks it depends on
+    auction: AuctionTermsSchema.optional(),
+    preselectedAgents: z.array(z.string()).optional(), // Only these may bid
+    excludedAgents: z.array(z.string()).optional(),
+    minProficiency: z.record(ProficiencyLevelSchema).optional() // Level asked for, by capability
+});
+
+export const AgentBidPayloadSchema = z.object({
+    taskId: z.string().min(1),
+    agentId: z.string().min(1),
+    estimatedTime: z.number().nonnegative(),
+    confidence: z.number().min(0).max(1),
+    requestedReward: z.number().nonnegative(),
+    capabilities: z.array(z.string()).optional(),
+    proficiency: z.record(ProficiencyLevelSchema).optional(),
+    reputation: z.number().optional()
+});
+
+export const AgentBidCommitPayloadSchema = z.object({
+    taskId: z.string().min(1),
+    agentId: z.string().min(1),
+    commitment: z.string().min(1) // sha256 of the bid and a secret salt
+});
+
+export const AgentBidRevealPayloadSchema = AgentBidPayloadSchema.extend({
+    salt: z.string().min(1)
+});
+
+export const ElectorateMemberSchema = z.object({
+    accountId: z.string().min(1),
+    weight: z.number().nonnegative().optional() // Stake; the proposal's reputation snapshot when absent
+});
+
+export const ConsensusProposalPayloadSchema = z.object({
+    id: z.string().min(1),
+    taskId: z.string(),
+    solution: z.unknown(),
+    proposer: z.string().min(1),
+    confidence: z.number().min(0).max(1),
+    deadline: z.number(),
+    electorate: z.array(ElectorateMemberSchema).optional(), // Must match the electorate nodes resolve for the task
+    quorum: z.number().min(0).max(1).optional(), // Share of electorate weight that must vote
+    strategy: z.string().min(1).optional(), // Consensus strategy; the network default when absent
+    revealPeriod: z.number().positive().optional(), // Enables commit-reveal voting: reveal phase after the deadline
+    capabilities: z.array(z.string()).optional() // Skills the task exercises, for per-capability reputation
+});
+
+export const ConsensusVotePayloadSchema = z.object({
+    proposalId: z.string().min(1),
+    support: z.boolean(),
+    reason: z.string().optional(),
+    value: z.number().optional(), // The voter's own numeric answer
+    confidence: z.number().min(0).max(1).optional(),
+    ranking: z.array(z.string()).optional() // Competing proposal ids, most preferred first
+});
+
+export const ConsensusVoteCommitPayloadSchema = z.object({
+    proposalId: z.string().min(1),
+    commitment: z.string().min(1) // sha256 of the vote and a secret salt
+});
+
+export const ConsensusVoteRevealPayloadSchema = ConsensusVotePayloadSchema.extend({
+    salt: z.string().min(1)
+});
+
+export const DisputeRaisedPayloadSchema = z.object({
+    id: z.string().min(1),
+    proposalId: z.string().min(1), // The accepted proposal being challenged
+    bond: z.number().positive(), // Reputation the challenger stakes on the appeal
+    reason: z.string(),
+    evidence: z.array(z.string().min(1)).optional(), // IPFS CIDs
+    deadline: z.number() // End of the jury vote
+});
+
+export const DisputeEvidencePayloadSchema = z.object({
+    disputeId: z.string().min(1),
+    cid: z.string().min(1),
+    description: z.string().optional()
+});
+
+export const DisputeVotePayloadSchema = z.object({
+    disputeId: z.string().min(1),
+    uphold: z.boolean(), // True overturns the accepted proposal
+    reason: z.string().optional()
+});
+
+export const KnowledgeSharePayloadSchema = z.object({
+    ipfsHash: z.string().min(1),
+    category: z.string().optional(),
+    confidence: z.number().min(0).max(1),
+    tags: z.array(z.string()).optional()
+});
+
+export const KnowledgeNodeAddedPayloadSchema = z.object({
+    node: z.object({
+        id: z.string().min(1),
+        type: z.string(),
+        content: z.unknown()
+    })
+});
+
+export const KnowledgeEdgeAddedPayloadSchema = z.object({
+    edge: z.object({
+        id: z.string().min(1),
+        from: z.string(),
+        to: z.string(),
+        type: z.string()
+    })
+});
+
+export const ReputationUpdatePayloadSchema = z.object({
+    accountId: z.string().min(1),
+    score: z.number(),
+    delta: z.number().optional(),
+    reason: z.string().optional()
+});
+
+export const ReputationLoadedPayloadSchema = z.object({
+    reputations: z.array(z.object({
+        accountId: z.string().min(1),
+        score: z.number(),
+        tasksCompleted: z.number(),
+        consensusParticipation: z.number()
+    })) // Scores from outside the log, e.g. the contract
+});
+
+export const CollaborationRequestPayloadSchema = z.object({
+    taskId: z.string().min(1),
+    topicId: z.string().optional(),
+    collaborators: z.array(z.string()).optional()
+});
+
+export const CollaborationResponsePayloadSchema = z.object({
+    taskId: z.string().min(1),
+    accepted: z.boolean(),
+    reason: z.string().optional()
+});
+
+export const HeartbeatPayloadSchema = z.object({
+    status: z.string().optional(),
+    tasks: z.array(z.object({
+        taskId: z.string().min(1),
+        progress: z.number().min(0).max(1).optional()
+    })).optional() // Assigned tasks the sender is still working on
+});
+
+export const KeyAnnouncementPayloadSchema = z.object({
+    publicKey: z.string().min(1),
+    encryptionKey: z.string().optional()
+});
+
+/**
+ * Payload schema for every message type
+ */
+export const PAYLOAD_SCHEMAS = {
+    [MessageType.TASK_ANNOUNCEMENT]: TaskAnnouncementPayloadSchema,
+    [MessageType.AGENT_BID]: AgentBidPayloadSchema,
+    [MessageType.AGENT_BID_COMMIT]: AgentBidCommitPayloadSchema,
+    [MessageType.AGENT_BID_REVEAL]: AgentBidRevealPayloadSchema,
+    [MessageType.CONSENSUS_PROPOSAL]: ConsensusProposalPayloadSchema,
+    [MessageType.CONSENSUS_VOTE]: ConsensusVotePayloadSchema,
+    [MessageType.CONSENSUS_VOTE_COMMIT]: ConsensusVoteCommitPayloadSchema,
+    [MessageType.CONSENSUS_VOTE_REVEAL]: ConsensusVoteRevealPayloadSchema,
+    [MessageType.KNOWLEDGE_SHARE]: KnowledgeSharePayloadSchema,
+    [MessageType.KNOWLEDGE_NODE_ADDED]: KnowledgeNodeAddedPayloadSchema,
+    [MessageType.KNOWLEDGE_EDGE_ADDED]: KnowledgeEdgeAddedPayloadSchema,
+    [MessageType.REPUTATION_UPDATE]: ReputationUpdatePayloadSchema,
+    [MessageType.REPUTATION_LOADED]: ReputationLoadedPayloadSchema,
+    [MessageType.COLLABORATION_REQUEST]: CollaborationRequestPayloadSchema,
+    [MessageType.COLLABORATION_RESPONSE]: CollaborationResponsePayloadSchema,
+    [MessageType.HEARTBEAT]: HeartbeatPayloadSchema,
+    [MessageType.KEY_ANNOUNCEMENT]: KeyAnnouncementPayloadSchema,
+    [MessageType.DISPUTE_RAISED]: DisputeRaisedPayloadSchema,
+    [MessageType.DISPUTE_EVIDENCE]: DisputeEvidencePayloadSchema,
+    [MessageType.DISPUTE_VOTE]: DisputeVotePayloadSchema
+} satisfies Record<MessageType, z.ZodTypeAny>;
+
+export type MessagePayloads = {
+    [T in MessageType]: z.infer<(typeof PAYLOAD_SCHEMAS)[T]>;
+};
+
+export const SwarmMessageSchema = z.object({
+    protocol: z.literal(PROTOCOL_NAME),
+    version: z.number().int().positive(),
+    id: z.string().min(1),
+    type: z.nativeEnum(MessageType),
+    sender: z.string().min(1),
+    recipient: z.string().optional(), // For direct messages
+    recipients: z.array(z.string()).optional(), // For encrypted messages to several agents
+    timestamp: z.number(),
+    payload: z.unknown(),
+    signature: z.string().optional(),
+    encrypted: z.boolean().optional()
+});
+
+/**
+ * Canonical envelope for every message published on a swarm topic
+ */
+export interface SwarmMessage {
+    protocol: typeof PROTOCOL_NAME;
+    version: number;
+    id: string;
+    type: MessageType;
+    sender: string;
+    recipient?: string;
+    recipients?: string[];
+    timestamp: number;
+    payload: any;
+    signature?: string;
+    encrypted?: boolean;
+}
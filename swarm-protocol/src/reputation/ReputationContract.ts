@@ -0,0 +1,234 @@
+import { Client } from '@hashgraph/sdk';
+import { SwarmOrchestratorClient, toAccountId } from '../contracts/HederaContractClient';
+
+/**
+ * An agent as registered with the SwarmOrchestrator contract
+ */
+export interface OnChainAgent {
+    accountId: string;
+    reputationScore: number;
+    stakedAmount: bigint; // tinybars
+    isActive: boolean;
+    capabilities: string[];
+    lastActiveTimestamp: number; // seconds
+    tasksCompleted: number;
+    successRate: number;
+}
+
+export type ReputationContractEvent =
+    | { type: 'agentRegistered'; accountId: string; capabilities: string[]; stake: bigint; timestamp: number }
+    | { type: 'reputationUpdated'; accountId: string; oldScore: number; newScore: number; timestamp: number }
+    | { type: 'agentSlashed'; accountId: string; amount: bigint; reason: string; timestamp: number };
+
+export interface ReputationScoreUpdate {
+    accountId: string;
+    score: number;
+}
+
+export interface ContractSubscription {
+    unsubscribe(): void;
+}
+
+/**
+ * The reputation side of the SwarmOrchestrator contract
+ */
+export interface ReputationContract {
+    /** The registered agent, or null when the account never registered */
+    getAgent(accountId: string): Promise<OnChainAgent | null>;
+    /** Publish scores in one transaction; only the reputation oracle may */
+    updateReputations(updates: ReputationScoreUpdate[]): Promise<void>;
+    subscribe(handler: (event: ReputationContractEvent) => void): ContractSubscription;
+}
+
+const MIN_STAKE = BigInt(10 * 10 ** 8); // 10 HBAR, as in the contract
+
+/**
+ * Contract state kept in memory, for tests and local development. Mirrors
+ * the contract's rules: new agents start at 100, only active agents can be
+ * updated, and slashing below the minimum stake deactivates an agent.
+ */
+export class InMemoryReputationContract implements ReputationContract {
+    private agents: Map<string, OnChainAgent> = new Map();
+    private handlers: Set<(event: ReputationContractEvent) => void> = new Set();
+
+    registerAgent(accountId: string, capabilities: string[], stake: bigint = MIN_STAKE): void {
+        this.agents.set(accountId, {
+            accountId,
+            reputationScore: 100,
+            stakedAmount: stake,
+            isActive: true,
+            capabilities,
+            lastActiveTimestamp: Math.floor(Date.now() / 1000),
+            tasksCompleted: 0,
+            successRate: 0
+        });
+        this.notify({ type: 'agentRegistered', accountId, capabilities: [...capabilities], stake, timestamp: Date.now() });
+    }
+
+    async getAgent(accountId: string): Promise<OnChainAgent | null> {
+        const agent = this.agents.get(accountId);
+        return agent ? { ...agent, capabilities: [...agent.capabilities] } : null;
+    }
+
+    async updateReputations(updates: ReputationScoreUpdate[]): Promise<void> {
+        // The transaction reverts as a whole
+        const inactive = updates.find(update => !this.agents.get(update.accountId)?.isActive);
+        if (inactive) {
+            throw new Error(`Agent not active: ${inactive.accountId}`);
+        }
+
+        for (const update of updates) {
+            const agent = this.agents.get(update.accountId)!;
+            const oldScore = agent.reputationScore;
+            agent.reputationScore = update.score;
+            agent.lastActiveTimestamp = Math.floor(Date.now() / 1000);
+            this.notify({
+                type: 'reputationUpdated',
+                accountId: update.accountId,
+                oldScore,
+                newScore: update.score,
+                timestamp: Date.now()
+            });
+        }
+    }
+
+    slashAgent(accountId: string, amount: bigint, reason: string): void {
+        const agent = this.agents.get(accountId);
+        if (!agent?.isActive) {
+            throw new Error(`Agent not active: ${accountId}`);
+        }
+
+        agent.stakedAmount -= amount;
+        if (agent.stakedAmount < MIN_STAKE) {
+            agent.isActive = false;
+        }
+        this.notify({ type: 'agentSlashed', accountId, amount, reason, timestamp: Date.now() });
+    }
+
+    subscribe(handler: (event: ReputationContractEvent) => void): ContractSubscription {
+        this.handlers.add(handler);
+        return { unsubscribe: () => this.handlers.delete(handler) };
+    }
+
+    private notify(event: ReputationContractEvent): void {
+        for (const handler of this.handlers) {
+            handler(event);
+        }
+    }
+}
+
+export interface HederaReputationContractOptions {
+    mirrorNodeUrl: string;
+    pollInterval: number; // How often (ms) to poll the mirror node for contract events
+}
+
+/**
+ * The deployed SwarmOrchestrator: calls through the Hedera SDK, events from
+ * the mirror node. Accounts map to their long-zero EVM addresses; the client's
+ * operator must hold the reputation oracle role to publish scores.
+ */
+export class HederaReputationContract implements ReputationContract {
+    private contract: SwarmOrchestratorClient;
+    private contractId: string;
+    private options: HederaReputationContractOptions;
+
+    constructor(client: Client, contractId: string, options: Partial<HederaReputationContractOptions> = {}) {
+        this.contract = new SwarmOrchestratorClient(client, contractId);
+        this.contractId = contractId;
+        this.options = {
+            mirrorNodeUrl: 'https://testnet.mirrornode.hedera.com',
+            pollInterval: 10000,
+            ...options
+        };
+    }
+
+    async getAgent(accountId: string): Promise<OnChainAgent | null> {
+        const agent = await this.contract.getAgent(accountId);
+        if (!agent) {
+            return null;
+        }
+
+        const { walletAddress, ...fields } = agent;
+        return { accountId, ...fields };
+    }
+
+    async updateReputations(updates: ReputationScoreUpdate[]): Promise<void> {
+        await this.contract.batchUpdateReputation(updates);
+    }
+
+    /**
+     * Poll the mirror node for contract logs emitted after the subscription started
+     */
+    subscribe(handler: (event: ReputationContractEvent) => void): ContractSubscription {
+        let after = `${Math.floor(Date.now() / 1000)}.000000000`;
+        let polling = false;
+
+        const poll = async () => {
+            if (polling) {
+                return;
+            }
+            polling = true;
+            try {
+                let url: string | null = `${this.options.mirrorNodeUrl}/api/v1/contracts/${this.contractId}/results/logs` +
+                    `?order=asc&limit=100&timestamp=gt:${after}`;
+                while (url) {
+                    const response = await fetch(url);
+                    if (!response.ok) {
+                        throw new Error(`Mirror node request failed: ${response.status} ${response.statusText}`);
+                    }
+
+                    const page: any = await response.json();
+                    for (const log of page.logs || []) {
+                        after = log.timestamp;
+                        const event = this.decodeLog(log);
+                        if (event) {
+                            handler(event);
+                        }
+                    }
+                    url = page.links?.next ? `${this.options.mirrorNodeUrl}${page.links.next}` : null;
+                }
+            } catch (error) {
+                console.error(`Error polling events of ${this.contractId}:`, error);
+            } finally {
+                polling = false;
+            }
+        };
+
+        const timer = setInterval(poll, this.options.pollInterval);
+        return { unsubscribe: () => clearInterval(timer) };
+    }
+
+    private decodeLog(log: { topics: string[]; data: string; timestamp: string }): ReputationContractEvent | null {
+        const parsed = this.contract.codec.parseLog(log);
+
+        const timestamp = Math.floor(parseFloat(log.timestamp) * 1000);
+        switch (parsed?.name) {
+            case 'AgentRegistered':
+                return {
+                    type: 'agentRegistered',
+                    accountId: toAccountId(parsed.args.agent),
+                    capabilities: Array.from(parsed.args.capabilities),
+                    stake: parsed.args.stake,
+                    timestamp
+                };
+            case 'ReputationUpdated':
+                return {
+                    type: 'reputationUpdated',
+                    accountId: toAccountId(parsed.args.agent),
+                    oldScore: Number(parsed.args.oldScore),
+                    newScore: Number(parsed.args.newScore),
+                    timestamp
+                };
+            case 'AgentSlashed':
+                return {
+                    type: 'agentSlashed',
+                    accountId: toAccountId(parsed.args.agent),
+                    amount: parsed.args.amount,
+                    reason: parsed.args.reason,
+                    timestamp
+                };
+            default:
+                return null;
+        }
+    }
+}
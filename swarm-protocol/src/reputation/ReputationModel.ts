@@ -0,0 +1,263 @@
+export const MIN_SCORE = 0;
+export const MAX_SCORE = 200;
+export const BASELINE_SCORE = 100; // Where new agents start and inactive ones drift back to
+
+/**
+ * Something an agent did that the swarm judged right or wrong
+ */
+export interface ReputationObservation {
+    kind: 'vote' | 'proposal';
+    success: boolean; // Sided with the outcome, or had the solution accepted
+    weight?: number; // Evidence relative to a single vote; 1 when absent
+}
+
+/**
+ * Turns observations into a score on the 0-200 scale. State is plain JSON so
+ * it can be persisted with the agent's reputation, and every update must be
+ * deterministic: nodes replaying the same log must derive the same scores.
+ */
+export interface ReputationModel<S = any> {
+    readonly name: string;
+    /** State of an agent with no history */
+    initialState(): S;
+    /** State of an agent known only by a score, e.g. loaded from the contract */
+    fromScore(score: number): S;
+    update(state: S, observation: ReputationObservation): S;
+    /** Move the score by a number of points, for bonds, slashing and penalties */
+    adjust(state: S, points: number): S;
+    /** Forget part of the evidence; retained is the share kept, between 0 and 1 */
+    decay(state: S, retained: number): S;
+    score(state: S): number;
+}
+
+function clampScore(score: number): number {
+    return Math.max(MIN_SCORE, Math.min(MAX_SCORE, score));
+}
+
+function toBaseline(value: number, baseline: number, retained: number): number {
+    return baseline + (value - baseline) * retained;
+}
+
+export interface FixedDeltaOptions {
+    correctVote: number;
+    incorrectVote: number;
+    acceptedProposal: number;
+    rejectedProposal: number;
+}
+
+/**
+ * Fixed points per kind of observation, whatever its weight. The original
+ * swarm rules: +5 for voting with the outcome, -2 against it and +10 for an
+ * accepted proposal.
+ */
+export class FixedDeltaModel implements ReputationModel<{ score: number }> {
+    readonly name = 'fixed';
+    private options: FixedDeltaOptions;
+
+    constructor(options: Partial<FixedDeltaOptions> = {}) {
+        this.options = {
+            correctVote: 5,
+            incorrectVote: -2,
+            acceptedProposal: 10,
+            rejectedProposal: 0,
+            ...options
+        };
+    }
+
+    initialState(): { score: number } {
+        return { score: BASELINE_SCORE };
+    }
+
+    fromScore(score: number): { score: number } {
+        return { score: clampScore(score) };
+    }
+
+    update(state: { score: number }, observation: ReputationObservation): { score: number } {
+        const { correctVote, incorrectVote, acceptedProposal, rejectedProposal } = this.options;
+        const delta = observation.kind === 'vote'
+            ? (observation.success ? correctVote : incorrectVote)
+            : (observation.success ? acceptedProposal : rejectedProposal);
+        return this.adjust(state, delta);
+    }
+
+    adjust(state: { score: number }, points: number): { score: number } {
+        return { score: clampScore(state.score + points) };
+    }
+
+    decay(state: { score: number }, retained: number): { score: number } {
+        return { score: toBaseline(state.score, BASELINE_SCORE, retained) };
+    }
+
+    score(state: { score: number }): number {
+        return state.score;
+    }
+}
+
+export interface EloOptions {
+    kFactor: number; // Most points a single observation can move the rating
+    scale: number; // Rating difference at which the favourite is expected to succeed ten times as often
+    opponent: number; // Rating of the standard every observation is measured against
+}
+
+/**
+ * Elo rating against a fixed standard: success is worth less the higher the
+ * agent already rates, and failure costs more
+ */
+export class EloModel implements ReputationModel<{ rating: number }> {
+    readonly name = 'elo';
+    private options: EloOptions;
+
+    constructor(options: Partial<EloOptions> = {}) {
+        this.options = {
+            kFactor: 16,
+            scale: 100,
+            opponent: BASELINE_SCORE,
+            ...options
+        };
+    }
+
+    initialState(): { rating: number } {
+        return { rating: BASELINE_SCORE };
+    }
+
+    fromScore(score: number): { rating: number } {
+        return { rating: clampScore(score) };
+    }
+
+    update(state: { rating: number }, observation: ReputationObservation): { rating: number } {
+        const { kFactor, scale, opponent } = this.options;
+        const expected = 1 / (1 + Math.pow(10, (opponent - state.rating) / scale));
+        const actual = observation.success ? 1 : 0;
+        return this.adjust(state, kFactor * (observation.weight ?? 1) * (actual - expected));
+    }
+
+    adjust(state: { rating: number }, points: number): { rating: number } {
+        return { rating: clampScore(state.rating + points) };
+    }
+
+    decay(state: { rating: number }, retained: number): { rating: number } {
+        return { rating: toBaseline(state.rating, BASELINE_SCORE, retained) };
+    }
+
+    score(state: { rating: number }): number {
+        return state.rating;
+    }
+}
+
+export interface BetaOptions {
+    priorSuccesses: number;
+    priorFailures: number;
+}
+
+/**
+ * Beta reputation: the expected success rate given the successes and
+ * failures seen so far, scaled to the score range. Decay forgets evidence,
+ * pulling the score back towards the prior.
+ */
+export class BetaModel implements ReputationModel<{ alpha: number; beta: number }> {
+    readonly name = 'beta';
+    private options: BetaOptions;
+
+    constructor(options: Partial<BetaOptions> = {}) {
+        this.options = {
+            priorSuccesses: 1,
+            priorFailures: 1,
+            ...options
+        };
+    }
+
+    initialState(): { alpha: number; beta: number } {
+        return { alpha: this.options.priorSuccesses, beta: this.options.priorFailures };
+    }
+
+    fromScore(score: number): { alpha: number; beta: number } {
+        return this.adjust(this.initialState(), score - this.score(this.initialState()));
+    }
+
+    update(state: { alpha: number; beta: number }, observation: ReputationObservation): { alpha: number; beta: number } {
+        const weight = observation.weight ?? 1;
+        return observation.success
+            ? { alpha: state.alpha + weight, beta: state.beta }
+            : { alpha: state.alpha, beta: state.beta + weight };
+    }
+
+    /**
+     * Shift the expected rate while keeping the amount of evidence
+     */
+    adjust(state: { alpha: number; beta: number }, points: number): { alpha: number; beta: number } {
+        const evidence = state.alpha + state.beta;
+        const rate = clampScore(this.score(state) + points) / MAX_SCORE;
+        return { alpha: rate * evidence, beta: (1 - rate) * evidence };
+    }
+
+    decay(state: { alpha: number; beta: number }, retained: number): { alpha: number; beta: number } {
+        return {
+            alpha: toBaseline(state.alpha, this.options.priorSuccesses, retained),
+            beta: toBaseline(state.beta, this.options.priorFailures, retained)
+        };
+    }
+
+    score(state: { alpha: number; beta: number }): number {
+        return MAX_SCORE * state.alpha / (state.alpha + state.beta);
+    }
+}
+
+export interface BayesianOptions {
+    priorDeviation: number; // Uncertainty about an agent with no history, in score points
+    noise: number; // Deviation of a single observation from the agent's true standing
+    caution: number; // Deviations subtracted from the estimate, so unproven agents rank lower
+}
+
+/**
+ * Gaussian belief about an agent's standing, refined with every observation.
+ * The score is a cautious estimate: the mean less some deviations, so it
+ * rises as the swarm becomes sure of an agent as well as when the agent does
+ * well.
+ */
+export class BayesianModel implements ReputationModel<{ mean: number; variance: number }> {
+    readonly name = 'bayesian';
+    private options: BayesianOptions;
+
+    constructor(options: Partial<BayesianOptions> = {}) {
+        this.options = {
+            priorDeviation: 50,
+            noise: 100,
+            caution: 1,
+            ...options
+        };
+    }
+
+    initialState(): { mean: number; variance: number } {
+        return { mean: BASELINE_SCORE, variance: this.options.priorDeviation ** 2 };
+    }
+
+    fromScore(score: number): { mean: number; variance: number } {
+        const state = this.initialState();
+        return { ...state, mean: clampScore(score) + this.options.caution * Math.sqrt(state.variance) };
+    }
+
+    update(state: { mean: number; variance: number }, observation: ReputationObservation): { mean: number; variance: number } {
+        const target = observation.success ? MAX_SCORE : MIN_SCORE;
+        const noiseVariance = this.options.noise ** 2 / (observation.weight ?? 1);
+        const gain = state.variance / (state.variance + noiseVariance);
+        return {
+            mean: state.mean + gain * (target - state.mean),
+            variance: (1 - gain) * state.variance
+        };
+    }
+
+    adjust(state: { mean: number; variance: number }, points: number): { mean: number; variance: number } {
+        return { ...state, mean: state.mean + points };
+    }
+
+    decay(state: { mean: number; variance: number }, retained: number): { mean: number; variance: number } {
+        return {
+            mean: toBaseline(state.mean, BASELINE_SCORE, retained),
+            variance: toBaseline(state.variance, this.options.priorDeviation ** 2, retained)
+        };
+    }
+
+    score(state: { mean: number; variance: number }): number {
+        return clampScore(state.mean - this.options.caution * Math.sqrt(state.variance));
+    }
+}
@@ -0,0 +1,362 @@
+import { FixedDeltaModel, ReputationModel, ReputationObservation } from './ReputationModel';
+
+export interface AgentReputation {
+    accountId: string;
+    score: number;
+    tasksCompleted: number;
+    consensusParticipation: number;
+    lastActive?: number; // Consensus time of the latest change, from which decay runs
+    model?: string; // Model that produced the state
+    state?: unknown; // Model state behind the score; rebuilt from the score when absent
+    capabilities?: Record<string, CapabilityReputation>;
+    voting?: VotingRecord;
+}
+
+export interface CapabilityReputation {
+    score: number;
+    state: unknown;
+}
+
+/**
+ * How often an agent voted with the outcome, and with each other agent,
+ * for detecting voting rings
+ */
+export interface VotingRecord {
+    cast: number;
+    withOutcome: number;
+    peers: Record<string, { shared: number; agreed: number }>;
+}
+
+export interface RingDetectionConfig {
+    minSharedVotes: number; // Votes two agents must have cast on the same proposals before they are compared
+    minAgreement: number; // Share of those votes on which they must agree
+    minExcessAgreement: number; // How far their agreement must exceed that of independent voters as accurate as they are
+}
+
+export interface ReputationConfig {
+    model: ReputationModel;
+    halfLife?: number; // Inactivity (ms) after which half of an agent's standing fades; no decay when absent
+    ringDetection: RingDetectionConfig | false;
+}
+
+export interface ReputationUpdate {
+    accountId: string;
+    previousScore: number;
+    score: number;
+    delta: number;
+}
+
+/**
+ * Single source of truth for agent reputation, shared by consensus voting
+ * weights and task bid scoring.
+ *
+ * Scores come from a pluggable model, overall and per capability. They decay
+ * towards the baseline while an agent is inactive, measured in consensus time
+ * so every node agrees. Agents that agree with each other far more than their
+ * accuracy explains are treated as a voting ring, and each member carries the
+ * weight of 1/n of an agent.
+ */
+export class ReputationRegistry {
+    private config: ReputationConfig;
+    private records: Map<string, AgentReputation> = new Map();
+    private rings: Map<string, string[]> = new Map(); // Ring members by member
+
+    constructor(config: Partial<ReputationConfig> = {}) {
+        this.config = {
+            model: new FixedDeltaModel(),
+            ringDetection: {
+                minSharedVotes: 10,
+                minAgreement: 0.9,
+                minExcessAgreement: 0.25
+            },
+            ...config
+        };
+    }
+
+    /**
+     * Empty registry with the same model and settings, e.g. for a replay
+     */
+    fork(): ReputationRegistry {
+        return new ReputationRegistry(this.config);
+    }
+
+    getModel(): ReputationModel {
+        return this.config.model;
+    }
+
+    get(accountId: string): AgentReputation | undefined {
+        return this.records.get(accountId);
+    }
+
+    getAll(): AgentReputation[] {
+        return Array.from(this.records.values());
+    }
+
+    /**
+     * Set reputations from outside the log, e.g. the store or the contract.
+     * Known agents keep their capability and voting records unless the
+     * loaded reputation has its own.
+     */
+    load(reputations: AgentReputation[]): void {
+        for (const reputation of reputations) {
+            const known = this.records.get(reputation.accountId);
+            this.records.set(reputation.accountId, known ? {
+                ...known,
+                ...reputation,
+                model: reputation.model, // A score loaded without its state is rebuilt from the score
+                state: reputation.state,
+                capabilities: reputation.capabilities ?? known.capabilities,
+                voting: reputation.voting ?? known.voting
+            } : reputation);
+        }
+        this.detectRings();
+    }
+
+    /**
+     * Score of an agent, decayed to the given consensus time when there is
+     * one. With capabilities, the mean of the agent's scores for them, using
+     * the overall score for capabilities it has no record of.
+     */
+    getScore(accountId: string, at?: number, capabilities: string[] = []): number {
+        const reputation = this.records.get(accountId);
+        if (!reputation) {
+            return this.config.model.score(this.config.model.initialState());
+        }
+
+        const retained = this.retained(reputation, at);
+        const overall = this.decayedScore(reputation.score, this.getState(reputation), retained);
+        if (capabilities.length === 0) {
+            return overall;
+        }
+
+        const scores = capabilities.map(capability => {
+            const entry = reputation.capabilities?.[capability];
+            return entry ? this.decayedScore(entry.score, entry.state, retained) : overall;
+        });
+        return scores.reduce((sum, score) => sum + score, 0) / scores.length;
+    }
+
+    /**
+     * Voting or bidding weight: the score shared among the members of a ring
+     */
+    getWeight(accountId: string, at?: number, capabilities: string[] = []): number {
+        return this.getScore(accountId, at, capabilities) / (this.rings.get(accountId)?.length ?? 1);
+    }
+
+    /**
+     * Record something the agent did, updating its overall score and its
+     * score for every capability involved. Capability scores start from
+     * scratch rather than from the overall score.
+     */
+    record(
+        accountId: string,
+        observation: ReputationObservation,
+        timestamp: number,
+        capabilities: string[] = []
+    ): ReputationUpdate {
+        const { model } = this.config;
+        return this.change(accountId, timestamp, (reputation) => {
+            reputation.state = model.update(this.getState(reputation), observation);
+            for (const capability of capabilities) {
+                const scores = reputation.capabilities || (reputation.capabilities = {});
+                const state = model.update(scores[capability]?.state ?? model.initialState(), observation);
+                scores[capability] = { score: model.score(state), state };
+            }
+        });
+    }
+
+    /**
+     * Move an agent's overall score by a number of points, for stakes and penalties
+     */
+    adjust(accountId: string, points: number, timestamp: number): ReputationUpdate {
+        return this.change(accountId, timestamp, (reputation) => {
+            reputation.state = this.config.model.adjust(this.getState(reputation), points);
+        });
+    }
+
+    /**
+     * Record how everyone voted on a decided proposal. Returns voting rings
+     * that formed or changed as a result.
+     */
+    recordVotes(votes: { voter: string; support: boolean }[], accepted: boolean): string[][] {
+        for (const vote of votes) {
+            const voting = this.getVoting(vote.voter);
+            voting.cast++;
+            if (vote.support === accepted) {
+                voting.withOutcome++;
+            }
+
+            for (const other of votes) {
+                if (other.voter !== vote.voter) {
+                    const peer = voting.peers[other.voter] || (voting.peers[other.voter] = { shared: 0, agreed: 0 });
+                    peer.shared++;
+                    if (other.support === vote.support) {
+                        peer.agreed++;
+                    }
+                }
+            }
+        }
+
+        const before = new Set(this.getVotingRings().map(ring => ring.join(',')));
+        this.detectRings();
+        return this.getVotingRings().filter(ring => !before.has(ring.join(',')));
+    }
+
+    /**
+     * Current voting rings, each sorted by account id
+     */
+    getVotingRings(): string[][] {
+        const rings = new Map<string, string[]>();
+        for (const ring of this.rings.values()) {
+            rings.set(ring.join(','), ring);
+        }
+        return Array.from(rings.values());
+    }
+
+    getRing(accountId: string): string[] | undefined {
+        return this.rings.get(accountId);
+    }
+
+    private change(
+        accountId: string,
+        timestamp: number,
+        update: (reputation: AgentReputation) => void
+    ): ReputationUpdate {
+        const { model } = this.config;
+        const reputation = this.getOrCreate(accountId);
+        this.applyDecay(reputation, timestamp);
+        const previousScore = reputation.score;
+
+        update(reputation);
+        reputation.model = model.name;
+        reputation.score = model.score(reputation.state);
+        reputation.lastActive = Math.max(reputation.lastActive ?? timestamp, timestamp);
+        reputation.consensusParticipation++;
+
+        return { accountId, previousScore, score: reputation.score, delta: reputation.score - previousScore };
+    }
+
+    /**
+     * Model state of a reputation, rebuilt from its score when it was
+     * loaded without one or produced by another model
+     */
+    private getState(reputation: AgentReputation): any {
+        if (reputation.state === undefined || reputation.model !== this.config.model.name) {
+            return this.config.model.fromScore(reputation.score);
+        }
+        return reputation.state;
+    }
+
+    private retained(reputation: AgentReputation, at?: number): number {
+        const { halfLife } = this.config;
+        if (!halfLife || at === undefined || reputation.lastActive === undefined || at <= reputation.lastActive) {
+            return 1;
+        }
+        return Math.pow(0.5, (at - reputation.lastActive) / halfLife);
+    }
+
+    private decayedScore(score: number, state: unknown, retained: number): number {
+        const { model } = this.config;
+        return retained === 1 ? score : model.score(model.decay(state, retained));
+    }
+
+    /**
+     * Make the decay since the agent was last active permanent
+     */
+    private applyDecay(reputation: AgentReputation, timestamp: number): void {
+        const retained = this.retained(reputation, timestamp);
+        if (retained === 1) {
+            return;
+        }
+
+        const { model } = this.config;
+        reputation.state = model.decay(this.getState(reputation), retained);
+        reputation.model = model.name;
+        reputation.score = model.score(reputation.state);
+        for (const entry of Object.values(reputation.capabilities || {})) {
+            entry.state = model.decay(entry.state, retained);
+            entry.score = model.score(entry.state);
+        }
+        reputation.lastActive = timestamp;
+    }
+
+    private getOrCreate(accountId: string): AgentReputation {
+        let reputation = this.records.get(accountId);
+        if (!reputation) {
+            reputation = {
+                accountId,
+                score: this.config.model.score(this.config.model.initialState()),
+                tasksCompleted: 0,
+                consensusParticipation: 0
+            };
+            this.records.set(accountId, reputation);
+        }
+        return reputation;
+    }
+
+    private getVoting(accountId: string): VotingRecord {
+        const reputation = this.getOrCreate(accountId);
+        return reputation.voting || (reputation.voting = { cast: 0, withOutcome: 0, peers: {} });
+    }
+
+    /**
+     * Group agents into rings: connected groups of pairs whose agreement is
+     * suspiciously high. Independent voters who side with the outcome at
+     * rates a and b agree at a*b + (1-a)*(1-b); accurate honest agents agree
+     * because they are right, a ring agrees even when it is wrong.
+     */
+    private detectRings(): void {
+        this.rings.clear();
+        const detection = this.config.ringDetection;
+        if (!detection) {
+            return;
+        }
+
+        const parent = new Map<string, string>();
+        const find = (id: string): string => {
+            while (parent.get(id) !== id) {
+                id = parent.get(id)!;
+            }
+            return id;
+        };
+
+        for (const reputation of this.records.values()) {
+            const voting = reputation.voting;
+            if (!voting) {
+                continue;
+            }
+
+            for (const [peerId, pair] of Object.entries(voting.peers)) {
+                const peer = this.records.get(peerId)?.voting;
+                if (!peer || peerId < reputation.accountId || pair.shared < detection.minSharedVotes) {
+                    continue;
+                }
+
+                const a = voting.withOutcome / voting.cast;
+                const b = peer.withOutcome / peer.cast;
+                const expected = a * b + (1 - a) * (1 - b);
+                const agreement = pair.agreed / pair.shared;
+                if (agreement >= detection.minAgreement && agreement - expected >= detection.minExcessAgreement) {
+                    for (const id of [reputation.accountId, peerId]) {
+                        if (!parent.has(id)) {
+                            parent.set(id, id);
+                        }
+                    }
+                    parent.set(find(peerId), find(reputation.accountId));
+                }
+            }
+        }
+
+        const groups = new Map<string, string[]>();
+        for (const id of parent.keys()) {
+            const root = find(id);
+            groups.set(root, [...(groups.get(root) || []), id]);
+        }
+        for (const members of groups.values()) {
+            members.sort();
+            for (const id of members) {
+                this.rings.set(id, members);
+            }
+        }
+    }
+}
@@ -0,0 +1,289 @@
+import { EventEmitter } from 'events';
+import { AgentReputation, ReputationRegistry } from './ReputationRegistry';
+import {
+    OnChainAgent,
+    ReputationContract,
+    ReputationContractEvent,
+    ContractSubscription
+} from './ReputationContract';
+
+export interface ReputationSyncConfig {
+    oracle: boolean; // This node holds the contract's reputation oracle role and publishes scores
+    batchSize: number; // Most scores published per transaction; a full batch is published at once
+    flushInterval: number; // How often (ms) queued scores are published
+    driftTolerance: number; // Points local and on-chain scores may differ by before it counts as drift
+    reconcileInterval: number; // How often (ms) every known agent is compared with the chain; 0 disables
+    loader?: ReputationLoader; // Where seeded scores go; straight into the registry when absent
+}
+
+/**
+ * Takes scores from the chain into the swarm's reputation, e.g. a
+ * ConsensusEngine, which publishes them to the consensus log so replays
+ * see them too
+ */
+export interface ReputationLoader {
+    loadReputations(reputations: AgentReputation[]): Promise<void>;
+}
+
+export interface ReputationDrift {
+    accountId: string;
+    localScore: number;
+    onChainScore: number;
+}
+
+/**
+ * Keeps the SwarmOrchestrator contract in step with the local reputation
+ * registry. The consensus log stays authoritative: local changes are queued
+ * and published in batches by the node holding the oracle role, on-chain
+ * scores only seed agents the registry has never seen, and any other
+ * difference is reported as drift and, on the oracle, corrected.
+ */
+export class ReputationSync extends EventEmitter {
+    private registry: ReputationRegistry;
+    private contract: ReputationContract;
+    private config: ReputationSyncConfig;
+    private onChain: Map<string, OnChainAgent> = new Map(); // Last known contract state
+    private pending: Set<string> = new Set();
+    private subscription?: ContractSubscription;
+    private timers: NodeJS.Timeout[] = [];
+    private flushing: Promise<number> = Promise.resolve(0);
+
+    constructor(registry: ReputationRegistry, contract: ReputationContract, config?: Partial<ReputationSyncConfig>) {
+        super();
+        this.registry = registry;
+        this.contract = contract;
+        this.config = {
+            oracle: false,
+            batchSize: 20,
+            flushInterval: 30000,
+            driftTolerance: 1,
+            reconcileInterval: 10 * 60 * 1000, // 10 minutes
+            ...config
+        };
+    }
+
+    /**
+     * Listen for contract events and start the flush and reconcile timers
+     */
+    start(): void {
+        this.subscription = this.contract.subscribe((event) => {
+            this.handleContractEvent(event).catch((error) => this.emit('syncError', error));
+        });
+
+        const report = (error: unknown) => this.emit('syncError', error);
+        if (this.config.oracle) {
+            this.timers.push(setInterval(() => this.flush().catch(report), this.config.flushInterval));
+        }
+        if (this.config.reconcileInterval > 0) {
+            this.timers.push(setInterval(() => this.reconcile().catch(report), this.config.reconcileInterval));
+        }
+    }
+
+    stop(): void {
+        this.subscription?.unsubscribe();
+        this.subscription = undefined;
+        this.timers.forEach(timer => clearInterval(timer));
+        this.timers = [];
+    }
+
+    /**
+     * Queue every reputation change emitted by a consensus engine or ledger
+     */
+    attach(source: EventEmitter): void {
+        source.on('reputationUpdated', (event: { accountId: string }) => this.queue(event.accountId));
+    }
+
+    /**
+     * Queue an agent's current score for publishing; a full batch is published at once
+     */
+    queue(accountId: string): void {
+        if (!this.config.oracle) {
+            return;
+        }
+
+        this.pending.add(accountId);
+        if (this.pending.size >= this.config.batchSize) {
+            this.flush().catch((error) => this.emit('syncError', error));
+        }
+    }
+
+    /**
+     * Fetch agents from the contract, loading those the registry does not
+     * know yet. Returns the loaded reputations.
+     */
+    async loadAgents(accountIds: string[]): Promise<AgentReputation[]> {
+        const loaded: AgentReputation[] = [];
+        for (const accountId of accountIds) {
+            const agent = await this.fetchAgent(accountId);
+            if (agent && !this.registry.get(accountId)) {
+                loaded.push(this.toReputation(agent));
+            }
+        }
+
+        await this.seed(loaded);
+        return loaded;
+    }
+
+    /**
+     * Publish queued scores that differ from the chain, in batches. Agents
+     * the contract no longer considers active are dropped, since updating
+     * them would revert the whole batch. Returns how many were published.
+     */
+    flush(): Promise<number> {
+        this.flushing = this.flushing.catch(() => 0).then(() => this.publishPending());
+        return this.flushing;
+    }
+
+    /**
+     * Compare every agent known locally or on-chain with the contract. Unknown
+     * agents are seeded from the chain; differences beyond the tolerance are
+     * reported and, on the oracle, republished.
+     */
+    async reconcile(accountIds?: string[]): Promise<ReputationDrift[]> {
+        const ids = accountIds ?? Array.from(new Set([
+            ...this.registry.getAll().map(reputation => reputation.accountId),
+            ...this.onChain.keys()
+        ]));
+
+        const drifts: ReputationDrift[] = [];
+        const seeded: AgentReputation[] = [];
+        for (const accountId of ids) {
+            const agent = await this.fetchAgent(accountId);
+            if (!agent) {
+                continue;
+            }
+
+            if (!this.registry.get(accountId)) {
+                seeded.push(this.toReputation(agent));
+                continue;
+            }
+
+            const drift = this.checkDrift(accountId, agent.reputationScore);
+            if (drift) {
+                drifts.push(drift);
+            }
+        }
+        await this.seed(seeded);
+
+        if (this.config.oracle) {
+            await this.flush();
+        }
+        return drifts;
+    }
+
+    /**
+     * Last known contract state of an agent
+     */
+    getOnChainAgent(accountId: string): OnChainAgent | undefined {
+        return this.onChain.get(accountId);
+    }
+
+    private async publishPending(): Promise<number> {
+        const updates = [];
+        for (const accountId of this.pending) {
+            const agent = this.onChain.get(accountId) ?? await this.fetchAgent(accountId);
+            const score = this.localScore(accountId);
+            if (agent?.isActive && agent.reputationScore !== score) {
+                updates.push({ accountId, score });
+            }
+        }
+        this.pending.clear();
+
+        let published = 0;
+        for (let i = 0; i < updates.length; i += this.config.batchSize) {
+            const batch = updates.slice(i, i + this.config.batchSize);
+            try {
+                await this.contract.updateReputations(batch);
+            } catch (error) {
+                // Retry with the next flush; the chain may have moved on
+                for (const update of updates.slice(i)) {
+                    this.pending.add(update.accountId);
+                    this.onChain.delete(update.accountId);
+                }
+                this.emit('syncError', error);
+                break;
+            }
+
+            for (const update of batch) {
+                const agent = this.onChain.get(update.accountId);
+                if (agent) {
+                    agent.reputationScore = update.score;
+                }
+            }
+            published += batch.length;
+            this.emit('reputationPublished', { updates: batch });
+        }
+        return published;
+    }
+
+    private async handleContractEvent(event: ReputationContractEvent): Promise<void> {
+        switch (event.type) {
+            case 'reputationUpdated': {
+                const agent = this.onChain.get(event.accountId);
+                if (agent) {
+                    agent.reputationScore = event.newScore;
+                }
+                if (this.registry.get(event.accountId)) {
+                    this.checkDrift(event.accountId, event.newScore);
+                }
+                break;
+            }
+            case 'agentSlashed': {
+                // Slashing may have deactivated the agent, which stops its updates
+                this.onChain.delete(event.accountId);
+                const agent = await this.fetchAgent(event.accountId);
+                if (!agent?.isActive) {
+                    this.pending.delete(event.accountId);
+                }
+                this.emit('agentSlashed', { ...event, isActive: agent?.isActive ?? false });
+                break;
+            }
+        }
+    }
+
+    private checkDrift(accountId: string, onChainScore: number): ReputationDrift | null {
+        const localScore = this.localScore(accountId);
+        if (Math.abs(localScore - onChainScore) <= this.config.driftTolerance) {
+            return null;
+        }
+
+        const drift = { accountId, localScore, onChainScore };
+        this.emit('driftDetected', drift);
+        this.queue(accountId);
+        return drift;
+    }
+
+    private async seed(reputations: AgentReputation[]): Promise<void> {
+        if (this.config.loader) {
+            await this.config.loader.loadReputations(reputations);
+        } else {
+            this.registry.load(reputations);
+        }
+    }
+
+    private toReputation(agent: OnChainAgent): AgentReputation {
+        return {
+            accountId: agent.accountId,
+            score: agent.reputationScore,
+            tasksCompleted: agent.tasksCompleted,
+            consensusParticipation: 0
+        };
+    }
+
+    /**
+     * The contract stores whole points
+     */
+    private localScore(accountId: string): number {
+        return Math.round(this.registry.getScore(accountId));
+    }
+
+    private async fetchAgent(accountId: string): Promise<OnChainAgent | null> {
+        const agent = await this.contract.getAgent(accountId);
+        if (agent) {
+            this.onChain.set(accountId, agent);
+        } else {
+            this.onChain.delete(accountId);
+        }
+        return agent;
+    }
+}
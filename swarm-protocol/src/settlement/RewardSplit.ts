@@ -0,0 +1,73 @@
+/**
+ * An agent to be paid out of a task's bounty
+ */
+export interface SettlementParticipant {
+    agentId: string;
+    reward: number; // Agreed at assignment, in the units of the task bounty
+    contribution: number; // Share, 0-1, of the agreed work it delivered
+    succeeded: boolean; // Reported completing its part
+    agreed: boolean; // Did not oppose the solution consensus accepted
+}
+
+export interface RewardShare {
+    agentId: string;
+    amount: bigint; // In the escrow's smallest unit
+    reason: string;
+}
+
+export interface RewardSplit {
+    shares: RewardShare[];
+    refund: bigint; // Back to the requester
+}
+
+const PRECISION = BigInt(1e9);
+
+/**
+ * Split an escrowed bounty among the agents of a task. Agents that
+ * completed their part and did not oppose the consensus are paid their
+ * agreed reward, scaled by their contribution; rewards are scaled down
+ * together when they add up to more than the bounty. Rounding dust and
+ * whatever the rewards leave are refunded.
+ *
+ * @param escrow The bounty held, in tinybars or token units
+ * @param bounty The same bounty in the units rewards are agreed in
+ */
+export function splitReward(escrow: bigint, bounty: number, participants: SettlementParticipant[]): RewardSplit {
+    const earned = participants.map(participant => eligible(participant)
+        ? participant.reward * Math.min(Math.max(participant.contribution, 0), 1)
+        : 0
+    );
+    const total = earned.reduce((sum, reward) => sum + reward, 0);
+    const pool = Math.max(bounty, total); // Over the bounty, every reward shrinks in proportion
+
+    const shares = participants.map((participant, index) => {
+        const fraction = pool > 0 ? earned[index] / pool : 0;
+        const amount = escrow * BigInt(Math.floor(fraction * Number(PRECISION))) / PRECISION;
+        return { agentId: participant.agentId, amount, reason: explain(participant, pool > bounty) };
+    });
+
+    return {
+        shares,
+        refund: escrow - shares.reduce((sum, share) => sum + share.amount, BigInt(0))
+    };
+}
+
+function eligible(participant: SettlementParticipant): boolean {
+    return participant.succeeded && participant.agreed && participant.contribution > 0;
+}
+
+function explain(participant: SettlementParticipant, scaled: boolean): string {
+    if (!participant.succeeded) {
+        return 'Did not complete its part';
+    }
+    if (!participant.agreed) {
+        return 'Opposed the accepted solution';
+    }
+    if (participant.contribution <= 0) {
+        return 'Contributed nothing';
+    }
+
+    const share = Math.round(Math.min(participant.contribution, 1) * 100);
+    return `Delivered ${share}% of the work for its reward of ${participant.reward}` +
+        (scaled ? ', scaled down to fit the bounty' : '');
+}
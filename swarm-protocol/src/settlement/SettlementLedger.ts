@@ -0,0 +1,185 @@
+import { Client } from '@hashgraph/sdk';
+import { SwarmOrchestratorClient, toAccountId } from '../contracts/HederaContractClient';
+
+export type BountyCurrency =
+    | { type: 'hbar' }
+    | { type: 'token'; tokenId: string }; // HTS token
+
+/**
+ * A task's bounty as held by the orchestrator until the task is finalized
+ */
+export interface Escrow {
+    taskId: string;
+    requester: string;
+    amount: bigint; // tinybars, or the token's smallest unit
+    currency: BountyCurrency;
+}
+
+export interface Payout {
+    accountId: string;
+    amount: bigint;
+}
+
+/**
+ * The escrow side of the SwarmOrchestrator contract
+ */
+export interface SettlementLedger {
+    /** The bounty held for a task, or null when there is none */
+    getEscrow(taskId: string): Promise<Escrow | null>;
+    /** Fix what each agent is paid on finalizing; returns the transaction id */
+    setRewardSplit(taskId: string, payouts: Payout[]): Promise<string>;
+    /** Record the final solution and pay out the escrow; returns the transaction id */
+    finalizeTask(taskId: string, finalSolution: string): Promise<string>;
+}
+
+/**
+ * Escrows kept in memory, for tests and local development. Mirrors the
+ * contract's rules: only the settlement oracle or owner settles, a split
+ * pays assigned agents at most once each and may not exceed the bounty,
+ * what it leaves is refunded to the requester, and a task is only
+ * finalized once.
+ */
+export class InMemorySettlementLedger implements SettlementLedger {
+    private escrows: Map<string, Escrow> = new Map();
+    private assignments: Map<string, string[]> = new Map();
+    private splits: Map<string, Payout[]> = new Map();
+    private finalized: Map<string, string> = new Map(); // Final solution by task
+    private balances: Map<string, bigint> = new Map(); // By account and currency
+    private transactions = 0;
+    private operator: string;
+    private settlers: string[];
+
+    constructor(operator: string = '0.0.2', settlers: string[] = [operator]) {
+        this.operator = operator; // Account the transactions are sent from
+        this.settlers = settlers; // The contract's settlement oracle and owner
+    }
+
+    escrow(taskId: string, requester: string, amount: bigint, currency: BountyCurrency = { type: 'hbar' }): void {
+        this.escrows.set(taskId, { taskId, requester, amount, currency });
+    }
+
+    /**
+     * Agents assigned to a task; only they can be paid
+     */
+    assign(taskId: string, agentIds: string[]): void {
+        this.assignments.set(taskId, [...agentIds]);
+    }
+
+    async getEscrow(taskId: string): Promise<Escrow | null> {
+        const escrow = this.escrows.get(taskId);
+        return escrow ? { ...escrow } : null;
+    }
+
+    async setRewardSplit(taskId: string, payouts: Payout[]): Promise<string> {
+        this.checkSettler();
+        const escrow = this.escrows.get(taskId);
+        if (!escrow || this.finalized.has(taskId)) {
+            throw new Error('Task not under review');
+        }
+        const assigned = this.assignments.get(taskId) || [];
+        if (payouts.some(payout => !assigned.includes(payout.accountId))) {
+            throw new Error('Not assigned to task');
+        }
+        if (new Set(payouts.map(payout => payout.accountId)).size < payouts.length) {
+            throw new Error('Duplicate recipient');
+        }
+        if (payouts.reduce((total, payout) => total + payout.amount, BigInt(0)) > escrow.amount) {
+            throw new Error('Split exceeds bounty');
+        }
+
+        this.splits.set(taskId, payouts.map(payout => ({ ...payout })));
+        return this.nextTransactionId();
+    }
+
+    /**
+     * Without a split the whole bounty is refunded, as the contract's
+     * reputation-weighted default is not modelled
+     */
+    async finalizeTask(taskId: string, finalSolution: string): Promise<string> {
+        this.checkSettler();
+        const escrow = this.escrows.get(taskId);
+        if (!escrow || this.finalized.has(taskId)) {
+            throw new Error('Task not under review');
+        }
+
+        let paid = BigInt(0);
+        for (const payout of this.splits.get(taskId) || []) {
+            this.credit(payout.accountId, escrow.currency, payout.amount);
+            paid += payout.amount;
+        }
+        this.credit(escrow.requester, escrow.currency, escrow.amount - paid);
+        this.finalized.set(taskId, finalSolution);
+        return this.nextTransactionId();
+    }
+
+    getBalance(accountId: string, currency: BountyCurrency = { type: 'hbar' }): bigint {
+        return this.balances.get(balanceKey(accountId, currency)) ?? BigInt(0);
+    }
+
+    /**
+     * The split set for a task; empty when it refunds the whole bounty
+     */
+    getRewardSplit(taskId: string): Payout[] | undefined {
+        return this.splits.get(taskId)?.map(payout => ({ ...payout }));
+    }
+
+    getFinalSolution(taskId: string): string | undefined {
+        return this.finalized.get(taskId);
+    }
+
+    private checkSettler(): void {
+        if (!this.settlers.includes(this.operator)) {
+            throw new Error('Only settlement oracle');
+        }
+    }
+
+    private credit(accountId: string, currency: BountyCurrency, amount: bigint): void {
+        const key = balanceKey(accountId, currency);
+        this.balances.set(key, (this.balances.get(key) ?? BigInt(0)) + amount);
+    }
+
+    private nextTransactionId(): string {
+        const seconds = Math.floor(Date.now() / 1000);
+        return `${this.operator}@${seconds}.${String(++this.transactions).padStart(9, '0')}`;
+    }
+}
+
+function balanceKey(accountId: string, currency: BountyCurrency): string {
+    return currency.type === 'token' ? `${accountId}:${currency.tokenId}` : accountId;
+}
+
+/**
+ * The deployed SwarmOrchestrator. The client's operator must be the
+ * contract's settlement oracle or owner, and agents paid in a token must
+ * be associated with it.
+ */
+export class HederaSettlementLedger implements SettlementLedger {
+    private contract: SwarmOrchestratorClient;
+
+    constructor(client: Client, contractId: string) {
+        this.contract = new SwarmOrchestratorClient(client, contractId);
+    }
+
+    async getEscrow(taskId: string): Promise<Escrow | null> {
+        const task = await this.contract.getTask(taskId);
+        if (!task) {
+            return null;
+        }
+
+        const tokenId = await this.contract.getTaskToken(taskId);
+        return {
+            taskId,
+            requester: toAccountId(task.requester),
+            amount: task.bounty,
+            currency: tokenId ? { type: 'token', tokenId } : { type: 'hbar' }
+        };
+    }
+
+    async setRewardSplit(taskId: string, payouts: Payout[]): Promise<string> {
+        return (await this.contract.setRewardSplit(taskId, payouts)).transactionId;
+    }
+
+    async finalizeTask(taskId: string, finalSolution: string): Promise<string> {
+        return (await this.contract.finalizeTask(taskId, finalSolution)).transactionId;
+    }
+}
@@ -0,0 +1,134 @@
+import { EventEmitter } from 'events';
+import { TaskStatus } from '../contracts/ContractCodec';
+import type { ConsensusProposal } from '../consensus/ConsensusLedger';
+import type { TaskRecord } from '../consensus/TaskLifecycle';
+import { BountyCurrency, SettlementLedger } from './SettlementLedger';
+import { RewardShare, SettlementParticipant, splitReward } from './RewardSplit';
+
+/**
+ * What consensus decided about a task's result
+ */
+export interface ConsensusVerdict {
+    finalSolution: string; // Hash of the accepted solution, recorded on-chain
+    dissenters?: string[]; // Agents that voted against it; they are not paid
+}
+
+/**
+ * The verdict of an accepted proposal: its rejectors dissented
+ */
+export function verdictFromProposal(proposal: ConsensusProposal, finalSolution: string): ConsensusVerdict {
+    if (proposal.status !== 'accepted') {
+        throw new Error(`Proposal ${proposal.id} was not accepted`);
+    }
+    return { finalSolution, dissenters: Array.from(proposal.rejectors.keys()) };
+}
+
+export interface SettlementOptions {
+    contributions?: Record<string, number>; // Share, 0-1, of its agreed work each agent delivered; 1 when absent
+}
+
+/**
+ * How a task's bounty was paid out, with the transactions that did it
+ */
+export interface SettlementReceipt {
+    taskId: string;
+    requester: string;
+    currency: BountyCurrency;
+    escrow: bigint; // The whole bounty, in tinybars or token units
+    finalSolution: string;
+    shares: RewardShare[]; // Every assigned agent, paid or not
+    refund: bigint;
+    transactions: {
+        rewardSplit: string;
+        finalize: string;
+    };
+    settledAt: number;
+}
+
+/**
+ * Pays out the escrowed bounties of completed tasks. Each agent's share
+ * comes from the reward agreed when it was assigned, how much of its work
+ * it delivered and whether it backed the consensus; the split is set on
+ * the orchestrator before the task is finalized, releasing the escrow.
+ */
+export class TaskSettlement extends EventEmitter {
+    private ledger: SettlementLedger;
+    private receipts: Map<string, SettlementReceipt> = new Map();
+    private settling: Set<string> = new Set();
+
+    constructor(ledger: SettlementLedger) {
+        super();
+        this.ledger = ledger;
+    }
+
+    async settle(record: TaskRecord, verdict: ConsensusVerdict, options: SettlementOptions = {}): Promise<SettlementReceipt> {
+        const taskId = record.task.id;
+        if (record.status !== TaskStatus.Completed || !record.assignment) {
+            throw new Error(`Task ${taskId} has not been completed`);
+        }
+        if (this.receipts.has(taskId) || this.settling.has(taskId)) {
+            throw new Error(`Task ${taskId} is already ${this.settling.has(taskId) ? 'being ' : ''}settled`);
+        }
+
+        this.settling.add(taskId);
+        try {
+            const escrow = await this.ledger.getEscrow(taskId);
+            if (!escrow) {
+                throw new Error(`No bounty is escrowed for task ${taskId}`);
+            }
+
+            const { shares, refund } = splitReward(escrow.amount, record.task.bounty, this.participants(record, verdict, options));
+            // Always set, even when empty: without a split the contract pays by reputation
+            const rewardSplit = await this.ledger.setRewardSplit(
+                taskId,
+                shares.filter(share => share.amount > 0).map(share => ({ accountId: share.agentId, amount: share.amount }))
+            );
+            const finalize = await this.ledger.finalizeTask(taskId, verdict.finalSolution);
+
+            const receipt: SettlementReceipt = {
+                taskId,
+                requester: escrow.requester,
+                currency: escrow.currency,
+                escrow: escrow.amount,
+                finalSolution: verdict.finalSolution,
+                shares,
+                refund,
+                transactions: { rewardSplit, finalize },
+                settledAt: Date.now()
+            };
+            this.receipts.set(taskId, receipt);
+            this.emit('taskSettled', receipt);
+            return receipt;
+        } catch (error: unknown) {
+            this.emit('settlementFailed', { taskId, reason: error instanceof Error ? error.message : String(error) });
+            throw error;
+        } finally {
+            this.settling.delete(taskId);
+        }
+    }
+
+    getReceipt(taskId: string): SettlementReceipt | undefined {
+        return this.receipts.get(taskId);
+    }
+
+    getReceipts(): SettlementReceipt[] {
+        return Array.from(this.receipts.values());
+    }
+
+    /**
+     * The agents assigned when the task completed; agents replaced along
+     * the way are not paid
+     */
+    private participants(record: TaskRecord, verdict: ConsensusVerdict, options: SettlementOptions): SettlementParticipant[] {
+        const assignment = record.assignment!;
+        const dissenters = new Set(verdict.dissenters || []);
+
+        return assignment.assignedAgents.map(agentId => ({
+            agentId,
+            reward: assignment.rewards?.[agentId] ?? assignment.totalReward / assignment.assignedAgents.length,
+            contribution: options.contributions?.[agentId] ?? 1,
+            succeeded: record.completions[agentId]?.success === true,
+            agreed: !dissenters.has(agentId)
+        }));
+    }
+}
@@ -0,0 +1,68 @@
+import crypto from 'crypto';
+
+/**
+ * Content-addressed storage for message bodies too large to put on a topic
+ */
+export interface BlobStore {
+    put(data: Uint8Array): Promise<string>; // Returns the content id
+    get(cid: string): Promise<Uint8Array>;
+}
+
+/**
+ * Blobs kept for the lifetime of the process, addressed by their sha256
+ */
+export class InMemoryBlobStore implements BlobStore {
+    private blobs: Map<string, Uint8Array> = new Map();
+
+    async put(data: Uint8Array): Promise<string> {
+        const cid = crypto.createHash('sha256').update(data).digest('hex');
+        this.blobs.set(cid, data);
+        return cid;
+    }
+
+    async get(cid: string): Promise<Uint8Array> {
+        const data = this.blobs.get(cid);
+        if (!data) {
+            throw new Error(`Blob ${cid} not found`);
+        }
+        return data;
+    }
+}
+
+/**
+ * Blobs stored through the IPFS HTTP API
+ */
+export class IpfsBlobStore implements BlobStore {
+    private endpoint: string;
+
+    constructor(endpoint: string = 'https://ipfs.infura.io:5001') {
+        this.endpoint = endpoint.replace(/\/$/, '');
+    }
+
+    async put(data: Uint8Array): Promise<string> {
+        const form = new FormData();
+        form.append('file', new Blob([new Uint8Array(data)])); // A copy, so it is backed by a plain ArrayBuffer
+
+        const response = await fetch(`${this.endpoint}/api/v0/add?pin=true`, {
+            method: 'POST',
+            body: form
+        });
+        if (!response.ok) {
+            throw new Error(`IPFS add failed: ${response.status} ${response.statusText}`);
+        }
+
+        const result: any = await response.json();
+        return result.Hash;
+    }
+
+    async get(cid: string): Promise<Uint8Array> {
+        const response = await fetch(`${this.endpoint}/api/v0/cat?arg=${encodeURIComponent(cid)}`, {
+            method: 'POST'
+        });
+        if (!response.ok) {
+            throw new Error(`IPFS cat failed for ${cid}: ${response.status} ${response.statusText}`);
+        }
+
+        return new Uint8Array(await response.arrayBuffer());
+    }
+}
@@ -0,0 +1,409 @@
+import { EventEmitter } from 'events';
+import crypto from 'crypto';
+import {
+    SwarmTransport,
+    TransportMessage,
+    TransportMessageHandler,
+    TransportSubscription,
+    PublishReceipt,
+    SubscribeOptions,
+    TopicOptions
+} from './SwarmTransport';
+import { BlobStore } from '../storage/BlobStore';
+
+export interface FramingConfig {
+    maxFrameSize: number; // Largest message (bytes) the underlying topic accepts; 1024 on HCS
+    maxChunks: number; // Most frames a single message may be split into
+    chunkTimeout: number; // Max consensus time (ms) between the first and last chunk of a message
+    blobStore?: BlobStore; // Where bodies above blobThreshold are stored
+    blobThreshold: number; // Bodies larger than this (bytes) go to the blob store when one is set
+}
+
+export type FrameErrorReason = 'integrity' | 'timeout' | 'too_many_chunks' | 'blob_unavailable' | 'malformed';
+
+interface ChunkFrame {
+    frame: 'swarm-chunk';
+    v: 1;
+    id: string;
+    i: number;
+    n: number;
+    sha256: string;
+    data: string; // base64
+}
+
+interface BlobFrame {
+    frame: 'swarm-blob';
+    v: 1;
+    cid: string;
+    size: number;
+    sha256: string;
+}
+
+type Frame = ChunkFrame | BlobFrame;
+
+interface PendingMessage {
+    id: string;
+    chunks: (Uint8Array | undefined)[];
+    received: number;
+    sha256: string;
+    firstSequenceNumber: number;
+    firstTimestamp: number;
+    timer?: NodeJS.Timeout;
+}
+
+interface FramedSubscriptionState {
+    topicId: string;
+    pending: Map<string, PendingMessage>;
+    delivery: Promise<void>;
+    active: boolean;
+}
+
+const FRAME_PREFIX = '{"frame":"swarm-';
+
+function sha256(data: Uint8Array): string {
+    return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+function toBytes(contents: string | Uint8Array): Uint8Array {
+    return typeof contents === 'string' ? new Uint8Array(Buffer.from(contents)) : contents;
+}
+
+/**
+ * Framing layer that lets any swarm message exceed the topic's message size.
+ *
+ * Messages that fit are published untouched. Larger ones are split into
+ * base64 chunk frames carrying a shared id and the sha256 of the whole body,
+ * and reassembled on receipt; incomplete messages are dropped once
+ * `chunkTimeout` of consensus time has passed. Above `blobThreshold` the body
+ * is put in the blob store (IPFS) and only a reference frame with its CID
+ * and hash goes on the topic. Reassembled messages carry the sequence number
+ * and consensus timestamp of their last frame, and are delivered in order.
+ */
+export class FramedTransport extends EventEmitter implements SwarmTransport {
+    private inner: SwarmTransport;
+    private config: FramingConfig;
+    private subscriptions: Set<FramedSubscriptionState> = new Set();
+
+    constructor(inner: SwarmTransport, config: Partial<FramingConfig> = {}) {
+        super();
+        this.inner = inner;
+        this.config = {
+            maxFrameSize: 1024,
+            maxChunks: 20,
+            chunkTimeout: 60 * 1000, // 1 minute
+            blobThreshold: 8 * 1024,
+            ...config
+        };
+    }
+
+    createTopic(options: TopicOptions): Promise<string> {
+        return this.inner.createTopic(options);
+    }
+
+    getLatestSequenceNumber(topicId: string): Promise<number> {
+        return this.inner.getLatestSequenceNumber(topicId);
+    }
+
+    /**
+     * Publish a message, chunking it or storing it as a blob when too large.
+     * Returns the receipt of the last frame published.
+     */
+    async publish(topicId: string, contents: string | Uint8Array): Promise<PublishReceipt> {
+        const body = toBytes(contents);
+
+        if (body.length <= this.config.maxFrameSize) {
+            return this.inner.publish(topicId, body);
+        }
+
+        if (this.config.blobStore && body.length > this.config.blobThreshold) {
+            const cid = await this.config.blobStore.put(body);
+            const frame: BlobFrame = {
+                frame: 'swarm-blob',
+                v: 1,
+                cid,
+                size: body.length,
+                sha256: sha256(body)
+            };
+            return this.inner.publish(topicId, JSON.stringify(frame));
+        }
+
+        const frames = this.split(body);
+        if (frames.length > this.config.maxChunks) {
+            throw new Error(
+                `Message of ${body.length} bytes needs ${frames.length} chunks, ` +
+                `more than the limit of ${this.config.maxChunks}; configure a blob store`
+            );
+        }
+
+        let receipt: PublishReceipt | undefined;
+        for (const frame of frames) {
+            receipt = await this.inner.publish(topicId, JSON.stringify(frame));
+        }
+        return receipt!;
+    }
+
+    /**
+     * Subscribe to reassembled messages. When resuming from a start time the
+     * underlying subscription starts `chunkTimeout` earlier, so chunks of a
+     * message that straddles the start time are not lost.
+     */
+    subscribe(
+        topicId: string,
+        handler: TransportMessageHandler,
+        options: SubscribeOptions = {}
+    ): TransportSubscription {
+        const state: FramedSubscriptionState = {
+            topicId,
+            pending: new Map(),
+            delivery: Promise.resolve(),
+            active: true
+        };
+        this.subscriptions.add(state);
+
+        const startTime = options.startTime || 0;
+        const deliver = (message: TransportMessage) => {
+            if (state.active && message.consensusTimestamp >= startTime) {
+                handler(message);
+            }
+        };
+
+        const inner = this.inner.subscribe(topicId, (message) => {
+            // Chained so blob fetches never let later messages overtake
+            state.delivery = state.delivery
+                .then(() => this.receive(state, message))
+                .then((assembled) => {
+                    if (assembled) {
+                        deliver(assembled);
+                    }
+                })
+                .catch((error) => {
+                    console.error(`Error reassembling message ${message.sequenceNumber} on ${topicId}:`, error);
+                });
+        }, { ...options, startTime: startTime ? Math.max(0, startTime - this.config.chunkTimeout) : 0 });
+
+        return {
+            topicId,
+            unsubscribe: () => {
+                state.active = false;
+                inner.unsubscribe();
+                for (const pending of state.pending.values()) {
+                    clearTimeout(pending.timer);
+                }
+                state.pending.clear();
+                this.subscriptions.delete(state);
+            }
+        };
+    }
+
+    /**
+     * Wait until every frame received so far has been reassembled and delivered
+     */
+    async drain(): Promise<void> {
+        await Promise.all(Array.from(this.subscriptions).map(state => state.delivery));
+    }
+
+    /**
+     * Turn a topic message into the message to deliver, or null while a
+     * chunked message is incomplete or when a frame is rejected
+     */
+    private async receive(
+        state: FramedSubscriptionState,
+        message: TransportMessage
+    ): Promise<TransportMessage | null> {
+        this.expireStale(state, message.consensusTimestamp);
+
+        const frame = this.parseFrame(message);
+        if (frame === undefined) {
+            return message;
+        }
+        if (frame === null) {
+            this.frameError(message, 'malformed');
+            return null;
+        }
+
+        if (frame.frame === 'swarm-blob') {
+            return this.resolveBlob(message, frame);
+        }
+
+        return this.addChunk(state, message, frame);
+    }
+
+    private addChunk(
+        state: FramedSubscriptionState,
+        message: TransportMessage,
+        frame: ChunkFrame
+    ): TransportMessage | null {
+        if (frame.n > this.config.maxChunks) {
+            this.frameError(message, 'too_many_chunks', frame.id);
+            return null;
+        }
+
+        let pending = state.pending.get(frame.id);
+        if (!pending) {
+            const created: PendingMessage = {
+                id: frame.id,
+                chunks: new Array(frame.n),
+                received: 0,
+                sha256: frame.sha256,
+                firstSequenceNumber: message.sequenceNumber,
+                firstTimestamp: message.consensusTimestamp
+            };
+            // Also expire on wall-clock time in case no later message arrives
+            created.timer = setTimeout(() => this.expire(state, created), this.config.chunkTimeout);
+            created.timer.unref?.();
+            state.pending.set(frame.id, created);
+            pending = created;
+        }
+
+        if (frame.n !== pending.chunks.length || frame.sha256 !== pending.sha256) {
+            this.discard(state, pending);
+            this.frameError(message, 'integrity', frame.id);
+            return null;
+        }
+
+        if (!pending.chunks[frame.i]) {
+            pending.chunks[frame.i] = new Uint8Array(Buffer.from(frame.data, 'base64'));
+            pending.received++;
+        }
+
+        if (pending.received < pending.chunks.length) {
+            return null;
+        }
+
+        this.discard(state, pending);
+        const body = new Uint8Array(Buffer.concat(pending.chunks as Uint8Array[]));
+        if (sha256(body) !== pending.sha256) {
+            this.frameError(message, 'integrity', frame.id);
+            return null;
+        }
+
+        return { ...message, contents: body };
+    }
+
+    private async resolveBlob(
+        message: TransportMessage,
+        frame: BlobFrame
+    ): Promise<TransportMessage | null> {
+        if (!this.config.blobStore) {
+            this.frameError(message, 'blob_unavailable', frame.cid);
+            return null;
+        }
+
+        let body: Uint8Array;
+        try {
+            body = await this.config.blobStore.get(frame.cid);
+        } catch (error) {
+            console.error(`Failed to fetch blob ${frame.cid}:`, error);
+            this.frameError(message, 'blob_unavailable', frame.cid);
+            return null;
+        }
+
+        if (body.length !== frame.size || sha256(body) !== frame.sha256) {
+            this.frameError(message, 'integrity', frame.cid);
+            return null;
+        }
+
+        return { ...message, contents: body };
+    }
+
+    /**
+     * Parse a frame; undefined for ordinary messages, null for broken frames
+     */
+    private parseFrame(message: TransportMessage): Frame | null | undefined {
+        const prefix = Buffer.from(message.contents.subarray(0, FRAME_PREFIX.length)).toString();
+        if (prefix !== FRAME_PREFIX) {
+            return undefined;
+        }
+
+        try {
+            const frame = JSON.parse(Buffer.from(message.contents).toString());
+            if (frame.v !== 1 || typeof frame.sha256 !== 'string') {
+                return null;
+            }
+            if (frame.frame === 'swarm-chunk' &&
+                typeof frame.id === 'string' && typeof frame.data === 'string' &&
+                Number.isInteger(frame.n) && Number.isInteger(frame.i) &&
+                frame.n > 0 && frame.i >= 0 && frame.i < frame.n) {
+                return frame;
+            }
+            if (frame.frame === 'swarm-blob' &&
+                typeof frame.cid === 'string' && Number.isInteger(frame.size)) {
+                return frame;
+            }
+            return null;
+        } catch (error) {
+            return null;
+        }
+    }
+
+    /**
+     * Split a body into chunk frames that each fit in maxFrameSize
+     */
+    private split(body: Uint8Array): ChunkFrame[] {
+        const id = crypto.randomBytes(16).toString('hex');
+        const hash = sha256(body);
+
+        // Size the header with the largest index and count it can carry
+        const header = JSON.stringify({
+            frame: 'swarm-chunk', v: 1, id, i: body.length, n: body.length, sha256: hash, data: ''
+        }).length;
+        const chunkSize = Math.floor((this.config.maxFrameSize - header) / 4) * 3;
+        if (chunkSize <= 0) {
+            throw new Error(`maxFrameSize ${this.config.maxFrameSize} is too small to carry chunk frames`);
+        }
+
+        const n = Math.ceil(body.length / chunkSize);
+        const frames: ChunkFrame[] = [];
+        for (let i = 0; i < n; i++) {
+            frames.push({
+                frame: 'swarm-chunk',
+                v: 1,
+                id,
+                i,
+                n,
+                sha256: hash,
+                data: Buffer.from(body.subarray(i * chunkSize, (i + 1) * chunkSize)).toString('base64')
+            });
+        }
+        return frames;
+    }
+
+    /**
+     * Drop incomplete messages whose first chunk is older than chunkTimeout in
+     * consensus time, so replays time out exactly like the live stream did
+     */
+    private expireStale(state: FramedSubscriptionState, now: number): void {
+        for (const pending of Array.from(state.pending.values())) {
+            if (now - pending.firstTimestamp > this.config.chunkTimeout) {
+                this.expire(state, pending);
+            }
+        }
+    }
+
+    private expire(state: FramedSubscriptionState, pending: PendingMessage): void {
+        if (state.pending.get(pending.id) !== pending) {
+            return;
+        }
+        this.discard(state, pending);
+        this.emit('frameError', {
+            topicId: state.topicId,
+            sequenceNumber: pending.firstSequenceNumber,
+            reason: 'timeout',
+            id: pending.id
+        });
+    }
+
+    private discard(state: FramedSubscriptionState, pending: PendingMessage): void {
+        clearTimeout(pending.timer);
+        state.pending.delete(pending.id);
+    }
+
+    private frameError(message: TransportMessage, reason: FrameErrorReason, id?: string): void {
+        this.emit('frameError', {
+            topicId: message.topicId,
+            sequenceNumber: message.sequenceNumber,
+            reason,
+            id
+        });
+    }
+}
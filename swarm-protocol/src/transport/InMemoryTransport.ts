@@ -0,0 +1,196 @@
+import {
+    SwarmTransport,
+    TransportMessage,
+    TransportMessageHandler,
+    TransportSubscription,
+    PublishReceipt,
+    SubscribeOptions,
+    TopicOptions
+} from './SwarmTransport';
+
+interface InMemoryTopic {
+    memo: string;
+    messages: TransportMessage[];
+    subscribers: Set<InMemorySubscriber>;
+}
+
+interface InMemorySubscriber {
+    handler: TransportMessageHandler;
+    startTime: number;
+    active: boolean;
+}
+
+export interface InMemoryTransportOptions {
+    clock?: () => number; // Source of consensus time, defaults to Date.now
+    firstTopicNum?: number;
+}
+
+/**
+ * Deterministic in-process stand-in for HCS.
+ *
+ * A single instance plays the role of the network: every agent sharing it
+ * sees the same per-topic sequence numbers and a strictly increasing
+ * consensus timestamp, and messages are delivered asynchronously in
+ * consensus order like a mirror node stream. Topics that were never created
+ * explicitly are created on first use.
+ */
+export class InMemoryTransport implements SwarmTransport {
+    private topics: Map<string, InMemoryTopic> = new Map();
+    private deliveryQueue: { subscriber: InMemorySubscriber; message: TransportMessage }[] = [];
+    private draining: Promise<void> | null = null;
+    private clock: () => number;
+    private nextTopicNum: number;
+    private lastConsensusTimestamp = 0;
+
+    constructor(options: InMemoryTransportOptions = {}) {
+        this.clock = options.clock || Date.now;
+        this.nextTopicNum = options.firstTopicNum || 1000;
+    }
+
+    /**
+     * Create a topic with the next free `0.0.N` id
+     */
+    async createTopic(options: TopicOptions): Promise<string> {
+        let topicId = `0.0.${this.nextTopicNum++}`;
+        while (this.topics.has(topicId)) {
+            topicId = `0.0.${this.nextTopicNum++}`;
+        }
+
+        this.getTopic(topicId).memo = options.memo;
+        return topicId;
+    }
+
+    /**
+     * Order a message and queue it for every active subscriber
+     */
+    async publish(topicId: string, contents: string | Uint8Array): Promise<PublishReceipt> {
+        const topic = this.getTopic(topicId);
+
+        const message: TransportMessage = {
+            topicId,
+            sequenceNumber: topic.messages.length + 1,
+            consensusTimestamp: this.nextConsensusTimestamp(),
+            contents: typeof contents === 'string'
+                ? new Uint8Array(Buffer.from(contents))
+                : contents
+        };
+
+        topic.messages.push(message);
+
+        for (const subscriber of topic.subscribers) {
+            if (message.consensusTimestamp >= subscriber.startTime) {
+                this.deliveryQueue.push({ subscriber, message });
+            }
+        }
+        this.scheduleDrain();
+
+        return {
+            topicId,
+            sequenceNumber: message.sequenceNumber,
+            consensusTimestamp: message.consensusTimestamp
+        };
+    }
+
+    /**
+     * Subscribe to a topic, replaying history from the requested start time
+     */
+    subscribe(
+        topicId: string,
+        handler: TransportMessageHandler,
+        options: SubscribeOptions = {}
+    ): TransportSubscription {
+        const topic = this.getTopic(topicId);
+        const subscriber: InMemorySubscriber = {
+            handler,
+            startTime: options.startTime || 0,
+            active: true
+        };
+
+        for (const message of topic.messages) {
+            if (message.consensusTimestamp >= subscriber.startTime) {
+                this.deliveryQueue.push({ subscriber, message });
+            }
+        }
+
+        topic.subscribers.add(subscriber);
+        this.scheduleDrain();
+
+        return {
+            topicId,
+            unsubscribe: () => {
+                subscriber.active = false;
+                topic.subscribers.delete(subscriber);
+            }
+        };
+    }
+
+    async getLatestSequenceNumber(topicId: string): Promise<number> {
+        return this.getTopic(topicId).messages.length;
+    }
+
+    /**
+     * Resolve once every queued delivery (including messages published by
+     * handlers while draining) has been processed
+     */
+    async flush(): Promise<void> {
+        while (this.draining) {
+            await this.draining;
+            // Let async handlers settle so their follow-up publishes are queued
+            await new Promise(resolve => setImmediate(resolve));
+        }
+    }
+
+    /**
+     * Get the full ordered log of a topic
+     */
+    getMessages(topicId: string): TransportMessage[] {
+        return [...(this.topics.get(topicId)?.messages || [])];
+    }
+
+    getTopicIds(): string[] {
+        return Array.from(this.topics.keys());
+    }
+
+    private getTopic(topicId: string): InMemoryTopic {
+        let topic = this.topics.get(topicId);
+        if (!topic) {
+            topic = { memo: '', messages: [], subscribers: new Set() };
+            this.topics.set(topicId, topic);
+        }
+        return topic;
+    }
+
+    private nextConsensusTimestamp(): number {
+        this.lastConsensusTimestamp = Math.max(this.clock(), this.lastConsensusTimestamp + 1);
+        return this.lastConsensusTimestamp;
+    }
+
+    private scheduleDrain(): void {
+        if (this.draining) {
+            return;
+        }
+
+        this.draining = new Promise<void>((resolve) => {
+            setImmediate(() => {
+                this.drain();
+                this.draining = null;
+                resolve();
+            });
+        });
+    }
+
+    private drain(): void {
+        while (this.deliveryQueue.length > 0) {
+            const { subscriber, message } = this.deliveryQueue.shift()!;
+            if (!subscriber.active) {
+                continue;
+            }
+
+            try {
+                subscriber.handler(message);
+            } catch (error) {
+                console.error(`Error delivering message on ${message.topicId}:`, error);
+            }
+        }
+    }
+}
@@ -0,0 +1,75 @@
+import { Client, Key } from '@hashgraph/sdk';
+
+/**
+ * A message as delivered by the ordering service (HCS mirror node or an
+ * in-process stand-in). Sequence numbers start at 1 per topic and consensus
+ * timestamps are strictly increasing across the whole network.
+ */
+export interface TransportMessage {
+    topicId: string;
+    sequenceNumber: number;
+    consensusTimestamp: number; // milliseconds since epoch
+    contents: Uint8Array;
+}
+
+export interface PublishReceipt {
+    topicId: string;
+    sequenceNumber: number;
+    consensusTimestamp: number;
+    transactionId?: string;
+}
+
+export interface TopicOptions {
+    memo: string;
+    submitKey?: Key;
+    adminKey?: Key;
+}
+
+export interface SubscribeOptions {
+    startTime?: number; // Only deliver messages at or after this consensus time
+}
+
+export interface TransportSubscription {
+    topicId: string;
+    unsubscribe(): void;
+}
+
+export type TransportMessageHandler = (message: TransportMessage) => void;
+
+/**
+ * Pluggable ordering/delivery layer used by every swarm component that
+ * talks to a topic.
+ */
+export interface SwarmTransport {
+    createTopic(options: TopicOptions): Promise<string>;
+    publish(topicId: string, contents: string | Uint8Array): Promise<PublishReceipt>;
+    subscribe(
+        topicId: string,
+        handler: TransportMessageHandler,
+        options?: SubscribeOptions
+    ): TransportSubscription;
+    getLatestSequenceNumber(topicId: string): Promise<number>;
+}
+
+/**
+ * Check whether a value implements SwarmTransport
+ */
+export function isSwarmTransport(value: unknown): value is SwarmTransport {
+    if (typeof value !== 'object' || value === null) {
+        return false;
+    }
+
+    const candidate = value as Partial<SwarmTransport>;
+    return typeof candidate.publish === 'function' &&
+        typeof candidate.subscribe === 'function' &&
+        typeof candidate.createTopic === 'function';
+}
+
+/**
+ * Decode transport message contents as UTF-8 text
+ */
+export function decodeContents(message: TransportMessage): string {
+    return Buffer.from(message.contents).toString();
+}
+
+export type TransportSource = Client | SwarmTransport;
@@ -0,0 +1,200 @@
+import crypto from 'crypto';
+
+export const ENVELOPE_VERSION = 1;
+export const ENVELOPE_ALGORITHM = 'X25519-HKDF-SHA256/A256GCM';
+
+export interface EncryptionKeyPair {
+    publicKey: string; // base64 SPKI DER
+    privateKey: string; // base64 PKCS8 DER
+}
+
+export interface EnvelopeRecipient {
+    keyId: string;
+    nonce: string;
+    wrappedKey: string; // content key sealed with AES-256-GCM, tag appended
+}
+
+/**
+ * Encrypted message as it appears on a topic. The body is sealed once with
+ * a random content key, which is then wrapped for every recipient using
+ * ECDH between an ephemeral sender key and the recipient's X25519 key.
+ * Everything outside the ciphertext is bound in as associated data.
+ */
+export interface EncryptedEnvelope {
+    envelope: 'swarm-encrypted';
+    version: number;
+    algorithm: string;
+    ephemeralKey: string;
+    recipients: EnvelopeRecipient[];
+    nonce: string;
+    ciphertext: string;
+    tag: string;
+}
+
+/**
+ * Generate an X25519 key pair for message encryption
+ */
+export function generateEncryptionKeyPair(): EncryptionKeyPair {
+    const { publicKey, privateKey } = crypto.generateKeyPairSync('x25519');
+    return {
+        publicKey: publicKey.export({ format: 'der', type: 'spki' }).toString('base64'),
+        privateKey: privateKey.export({ format: 'der', type: 'pkcs8' }).toString('base64')
+    };
+}
+
+/**
+ * Derive the public key from an encoded private key
+ */
+export function getEncryptionPublicKey(privateKey: string): string {
+    return crypto.createPublicKey(importPrivateKey(privateKey))
+        .export({ format: 'der', type: 'spki' })
+        .toString('base64');
+}
+
+/**
+ * Short stable identifier of an encryption public key
+ */
+export function getKeyId(publicKey: string): string {
+    return crypto.createHash('sha256')
+        .update(Buffer.from(publicKey, 'base64'))
+        .digest('hex')
+        .slice(0, 16);
+}
+
+/**
+ * Check whether a parsed topic message is an encrypted envelope
+ */
+export function isEncryptedEnvelope(value: unknown): value is EncryptedEnvelope {
+    return typeof value === 'object' && value !== null &&
+        (value as Partial<EncryptedEnvelope>).envelope === 'swarm-encrypted';
+}
+
+/**
+ * Encrypt plaintext for one or more recipients' public keys
+ */
+export function sealEnvelope(plaintext: string, recipientKeys: string[]): EncryptedEnvelope {
+    if (recipientKeys.length === 0) {
+        throw new Error('At least one recipient key is required');
+    }
+
+    const ephemeral = crypto.generateKeyPairSync('x25519');
+    const ephemeralKey = ephemeral.publicKey
+        .export({ format: 'der', type: 'spki' })
+        .toString('base64');
+    const contentKey = crypto.randomBytes(32);
+
+    const recipients = Array.from(new Set(recipientKeys)).map((publicKey) => {
+        const keyId = getKeyId(publicKey);
+        const kek = deriveKeyEncryptionKey(ephemeral.privateKey, importPublicKey(publicKey), ephemeralKey, keyId);
+        const nonce = crypto.randomBytes(12);
+        const cipher = crypto.createCipheriv('aes-256-gcm', kek, nonce);
+        cipher.setAAD(Buffer.from(keyId));
+        const wrapped = Buffer.concat([cipher.update(contentKey), cipher.final(), cipher.getAuthTag()]);
+
+        return {
+            keyId,
+            nonce: nonce.toString('base64'),
+            wrappedKey: wrapped.toString('base64')
+        };
+    });
+
+    const header = {
+        envelope: 'swarm-encrypted' as const,
+        version: ENVELOPE_VERSION,
+        algorithm: ENVELOPE_ALGORITHM,
+        ephemeralKey,
+        recipients
+    };
+
+    const nonce = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', contentKey, nonce);
+    cipher.setAAD(getAssociatedData(header));
+    const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+
+    return {
+        ...header,
+        nonce: nonce.toString('base64'),
+        ciphertext: ciphertext.toString('base64'),
+        tag: cipher.getAuthTag().toString('base64')
+    };
+}
+
+/**
+ * Decrypt an envelope with our private key.
+ * Returns null when the envelope is not addressed to us and throws when it
+ * is addressed to us but fails authentication.
+ */
+export function openEnvelope(envelope: EncryptedEnvelope, privateKey: string): string | null {
+    if (envelope.version !== ENVELOPE_VERSION || envelope.algorithm !== ENVELOPE_ALGORITHM) {
+        throw new Error(`Unsupported envelope ${envelope.algorithm} v${envelope.version}`);
+    }
+
+    const keyId = getKeyId(getEncryptionPublicKey(privateKey));
+    const recipient = envelope.recipients.find(r => r.keyId === keyId);
+    if (!recipient) {
+        return null;
+    }
+
+    const kek = deriveKeyEncryptionKey(
+        importPrivateKey(privateKey),
+        importPublicKey(envelope.ephemeralKey),
+        envelope.ephemeralKey,
+        keyId
+    );
+
+    const wrapped = Buffer.from(recipient.wrappedKey, 'base64');
+    const unwrap = crypto.createDecipheriv('aes-256-gcm', kek, Buffer.from(recipient.nonce, 'base64'));
+    unwrap.setAAD(Buffer.from(keyId));
+    unwrap.setAuthTag(wrapped.subarray(wrapped.length - 16));
+    const contentKey = Buffer.concat([unwrap.update(wrapped.subarray(0, wrapped.length - 16)), unwrap.final()]);
+
+    const decipher = crypto.createDecipheriv('aes-256-gcm', contentKey, Buffer.from(envelope.nonce, 'base64'));
+    decipher.setAAD(getAssociatedData(envelope));
+    decipher.setAuthTag(Buffer.from(envelope.tag, 'base64'));
+
+    return Buffer.concat([
+        decipher.update(Buffer.from(envelope.ciphertext, 'base64')),
+        decipher.final()
+    ]).toString('utf8');
+}
+
+function deriveKeyEncryptionKey(
+    privateKey: crypto.KeyObject,
+    publicKey: crypto.KeyObject,
+    ephemeralKey: string,
+    keyId: string
+): Buffer {
+    const sharedSecret = crypto.diffieHellman({ privateKey, publicKey });
+    return Buffer.from(crypto.hkdfSync(
+        'sha256',
+        sharedSecret,
+        Buffer.from(ephemeralKey, 'base64'),
+        `hedera-swarm/envelope/${keyId}`,
+        32
+    ));
+}
+
+function getAssociatedData(header: Pick<EncryptedEnvelope, 'version' | 'algorithm' | 'ephemeralKey' | 'recipients'>): Buffer {
+    return Buffer.from(JSON.stringify([
+        header.version,
+        header.algorithm,
+        header.ephemeralKey,
+        header.recipients.map(r => [r.keyId, r.nonce, r.wrappedKey])
+    ]));
+}
+
+function importPublicKey(publicKey: string): crypto.KeyObject {
+    return crypto.createPublicKey({
+        key: Buffer.from(publicKey, 'base64'),
+        format: 'der',
+        type: 'spki'
+    });
+}
+
+function importPrivateKey(privateKey: string): crypto.KeyObject {
+    return crypto.createPrivateKey({
+        key: Buffer.from(privateKey, 'base64'),
+        format: 'der',
+        type: 'pkcs8'
+    });
+}
@@ -0,0 +1,84 @@
+import { PrivateKey, PublicKey } from '@hashgraph/sdk';
+import crypto from 'crypto';
+
+export type KeyType = 'ED25519' | 'ECDSA';
+
+/**
+ * Hash the canonical signing content of a message
+ */
+export function hashContent(content: string): Uint8Array {
+    return crypto.createHash('sha256').update(content).digest();
+}
+
+/**
+ * Sign content with an agent key, returning a hex signature
+ */
+export function signContent(privateKey: PrivateKey, content: string): string {
+    const signature = privateKey.sign(hashContent(content));
+    return Buffer.from(signature).toString('hex');
+}
+
+/**
+ * Verify a hex signature produced by signContent
+ */
+export function verifyContent(
+    publicKey: PublicKey,
+    content: string,
+    signature: string
+): boolean {
+    try {
+        return publicKey.verify(hashContent(content), Buffer.from(signature, 'hex'));
+    } catch (error) {
+        return false;
+    }
+}
+
+/**
+ * Parse a public key from DER or raw hex, using the key type when the
+ * encoding alone is ambiguous
+ */
+export function parsePublicKey(publicKey: string | PublicKey, keyType?: KeyType): PublicKey {
+    if (typeof publicKey !== 'string') {
+        return publicKey;
+    }
+
+    if (keyType === 'ECDSA') {
+        return PublicKey.fromStringECDSA(publicKey);
+    }
+    if (keyType === 'ED25519') {
+        return PublicKey.fromStringED25519(publicKey);
+    }
+    return PublicKey.fromString(publicKey);
+}
+
+/**
+ * Parse a private key from DER or raw hex
+ */
+export function parsePrivateKey(privateKey: string | PrivateKey): PrivateKey {
+    return typeof privateKey === 'string' ? PrivateKey.fromString(privateKey) : privateKey;
+}
+
+/**
+ * Sign a JSON message; the signature is appended as the last field so the
+ * verifier can strip it and re-serialize the rest byte-for-byte
+ */
+export function signJson<T extends object>(
+    privateKey: PrivateKey,
+    message: T
+): T & { signature: string } {
+    return {
+        ...message,
+        signature: signContent(privateKey, JSON.stringify(message))
+    };
+}
+
+/**
+ * Verify a message signed with signJson
+ */
+export function verifyJson(publicKey: PublicKey, message: { signature?: string }): boolean {
+    const { signature, ...content } = message;
+    if (!signature) {
+        return false;
+    }
+    return verifyContent(publicKey, JSON.stringify(content), signature);
+}
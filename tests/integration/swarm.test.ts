@@ -1,134 +1,143 @@
-import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import { describe, it, expect, jest, beforeAll, afterAll } from '@jest/globals';
 import { SwarmAgent } from '../../agent-sdk/src';
-import { ConsensusEngine } from '../../swarm-protocol/src';
+import {
+  ConsensusEngine,
+  InMemoryBlobStore,
+  InMemoryTransport,
+  MessageType,
+  createMessage,
+  decodeContents
+} from '../../swarm-protocol/src';
 import { KnowledgeGraph } from '../../knowledge-graph/src';
-import { 
-  Client, 
-  PrivateKey, 
-  AccountId,
-  TopicId,
-  TopicCreateTransaction,
-  Hbar
-} from '@hashgraph/sdk';
-import * as dotenv from 'dotenv';
-
-dotenv.config();
+import { PrivateKey } from '@hashgraph/sdk';
+
+// Runs entirely against the in-process HCS stand-in, no testnet required
+jest.mock('../../knowledge-graph/src/storage/IPFSStorage');
+jest.mock('../../knowledge-graph/src/utils/embedding', () => ({
+  generateEmbedding: jest.fn(async () => new Array(512).fill(0.5)),
+  cosineSimilarity: jest.fn(() => 0.9)
+}));
+jest.mock('../../knowledge-graph/node_modules/@tensorflow/tfjs-node', () => ({
+  tensor1d: jest.fn((values: number[]) => ({ values, dispose: jest.fn() }))
+}));
 
 describe('HederaSwarm Integration Tests', () => {
-  let client: Client;
+  let transport: InMemoryTransport;
   let testTopics: Record<string, string> = {};
   let agents: SwarmAgent[] = [];
-  
+
   beforeAll(async () => {
-    // Initialize Hedera client
-    const accountId = AccountId.fromString(process.env.TEST_HEDERA_ACCOUNT_ID!);
-    const privateKey = PrivateKey.fromString(process.env.TEST_HEDERA_PRIVATE_KEY!);
-    
-    client = Client.forTestnet();
-    client.setOperator(accountId, privateKey);
-    
+    transport = new InMemoryTransport();
+
     // Create test topics
     const topicNames = ['test-tasks', 'test-consensus', 'test-knowledge'];
     for (const name of topicNames) {
-      const topicCreateTx = new TopicCreateTransaction()
-        .setTopicMemo(`HederaSwarm Test: ${name}`)
-        .setMaxTransactionFee(new Hbar(5));
-      
-      const txResponse = await topicCreateTx.execute(client);
-      const receipt = await txResponse.getReceipt(client);
-      testTopics[name] = receipt.topicId!.toString();
+      testTopics[name] = await transport.createTopic({
+        memo: `HederaSwarm Test: ${name}`
+      });
     }
-    
+
     // Create test agents
     for (let i = 0; i < 3; i++) {
       const agent = new SwarmAgent({
-        accountId: accountId.toString(),
-        privateKey: privateKey.toString(),
+        accountId: `0.0.${2001 + i}`,
+        privateKey: PrivateKey.generateED25519().toString(),
         network: 'testnet',
-        capabilities: ['DATA_ANALYSIS', 'REASONING'],
+        capabilities: ['data_analysis', 'reasoning'],
         aiModel: 'gpt-3.5-turbo',
-        aiApiKey: process.env.TEST_OPENAI_API_KEY,
+        aiApiKey: 'test-api-key',
         swarmTopics: {
           tasks: testTopics['test-tasks'],
           consensus: testTopics['test-consensus'],
           knowledge: testTopics['test-knowledge']
-        }
+        },
+        orchestratorAddress: '0.0.3001',
+        transport,
+        blobStore: new InMemoryBlobStore()
       });
-      
+
       await agent.initialize();
       agents.push(agent);
     }
   }, 60000);
-  
+
   afterAll(async () => {
     for (const agent of agents) {
       await agent.shutdown();
     }
   });
-  
+
+  const announceTask = async (id: string, requiredCapabilities: string[]) => {
+    await transport.publish(testTopics['test-tasks'], JSON.stringify(
+      createMessage(MessageType.TASK_ANNOUNCEMENT, '0.0.9999', {
+        id,
+        description: 'Analyze test data',
+        requiredCapabilities,
+        bounty: 10,
+        deadline: Date.now() + 3600000
+      })
+    ));
+  };
+
   describe('Agent Communication', () => {
     it('should allow agents to communicate via HCS', async () => {
       const messageReceived = new Promise((resolve) => {
-        agents[1].on('taskAnnouncement', (task) => {
+        agents[1].once('taskAnnounced', (task) => {
           resolve(task);
         });
       });
-      
-      // Agent 0 announces a task
-      await agents[0].announceTask({
-        id: 'test-task-1',
-        title: 'Test Task',
-        description: 'Analyze test data',
-        reward: 10,
-        capabilities: ['DATA_ANALYSIS'],
-        timeLimit: 3600,
-        metadata: {}
-      });
-      
+
+      await announceTask('test-task-1', ['data_analysis']);
+
       const receivedTask = await messageReceived;
       expect(receivedTask).toBeDefined();
       expect(receivedTask).toHaveProperty('id', 'test-task-1');
     }, 30000);
   });
-  
+
   describe('Consensus Protocol', () => {
     it('should reach consensus on task solutions', async () => {
-      const consensus = new ConsensusEngine({
-        client,
-        topicId: testTopics['test-consensus'],
-        agentId: 'test-agent-1',
-        reputation: 100
+      const engines = ['0.0.2001', '0.0.2002', '0.0.2003'].map(() =>
+        new ConsensusEngine(transport, testTopics['test-consensus'], {
+          votingPeriod: 1000,
+          minParticipants: 3
+        })
+      );
+
+      const consensusReached = new Promise<any>((resolve) => {
+        engines[2].once('consensusReached', resolve);
       });
-      
+
       // Create a proposal
-      const proposalId = await consensus.createProposal({
-        type: 'TASK_SOLUTION',
-        data: {
-          taskId: 'test-task-1',
-          solution: { result: 'test solution' }
-        }
-      });
-      
-      // Agents vote
-      await consensus.vote(proposalId, true, 100);
-      
-      // Simulate other agents voting
-      await new Promise(resolve => setTimeout(resolve, 2000));
-      
-      const result = await consensus.getConsensusResult(proposalId);
-      expect(result).toBeDefined();
-      expect(result.reached).toBe(true);
+      const proposalId = await engines[0].proposeSolution(
+        'test-task-1',
+        { result: 'test solution' },
+        '0.0.2001',
+        0.9
+      );
+      await transport.flush();
+
+      // Other agents vote through their own engines
+      await engines[1].voteOnProposal(proposalId, '0.0.2002', true);
+      await engines[2].voteOnProposal(proposalId, '0.0.2003', true);
+
+      const result = await consensusReached;
+      expect(result.proposalId).toBe(proposalId);
+      expect(result.accepted).toBe(true);
+      expect(result.totalVotes).toBe(3);
+
+      engines.forEach(engine => engine.shutdown());
     }, 30000);
   });
-  
+
   describe('Knowledge Graph', () => {
     it('should store and retrieve knowledge', async () => {
       const kg = new KnowledgeGraph({
-        client,
+        transport,
         topicId: testTopics['test-knowledge'],
         agentId: 'test-agent-1'
       });
-      
+
       // Add knowledge node
       const node = await kg.addNode({
         type: 'fact',
@@ -145,53 +154,50 @@ describe('HederaSwarm Integration Tests', () => {
           tags: ['hedera', 'performance']
         }
       });
-      
+
+      // The node is published to the knowledge topic
+      const published = transport.getMessages(testTopics['test-knowledge'])
+        .map(message => JSON.parse(decodeContents(message)));
+      expect(published).toContainEqual(expect.objectContaining({
+        type: MessageType.KNOWLEDGE_NODE_ADDED,
+        sender: 'test-agent-1',
+        payload: { node: expect.objectContaining({ id: node.id }) }
+      }));
+
       // Search for knowledge
       const results = await kg.semanticSearch('Hedera transaction speed', {
         limit: 5,
         minConfidence: 0.8
       });
-      
+
       expect(results.length).toBeGreaterThan(0);
       expect(results[0].nodes).toContainEqual(expect.objectContaining({
         id: node.id
       }));
     }, 30000);
   });
-  
+
   describe('Task Execution', () => {
-    it('should execute a complete task workflow', async () => {
-      // Create a task
-      const task = {
-        id: 'integration-test-task',
-        title: 'Calculate Fibonacci',
-        description: 'Calculate the 10th Fibonacci number',
-        reward: 5,
-        capabilities: ['DATA_ANALYSIS', 'REASONING'],
-        timeLimit: 300,
-        metadata: { n: 10 }
-      };
-      
-      // Agent 0 creates the task
-      await agents[0].announceTask(task);
-      
-      // Wait for agents to bid
-      await new Promise(resolve => setTimeout(resolve, 5000));
-      
-      // Check if any agent won the task
-      const executingAgent = agents.find(agent => 
-        agent.getActiveTasks().some(t => t.id === task.id)
+    it('should collect bids from every capable agent in consensus order', async () => {
+      await announceTask('integration-test-task', ['data_analysis', 'reasoning']);
+      await transport.flush();
+
+      const bids = transport.getMessages(testTopics['test-consensus'])
+        .map(message => ({
+          sequenceNumber: message.sequenceNumber,
+          body: JSON.parse(decodeContents(message))
+        }))
+        .filter(({ body }) =>
+          body.type === MessageType.AGENT_BID && body.payload.taskId === 'integration-test-task'
+        );
+
+      expect(bids.map(({ body }) => body.sender).sort()).toEqual(
+        ['0.0.2001', '0.0.2002', '0.0.2003']
       );
-      
-      expect(executingAgent).toBeDefined();
-      
-      // Wait for solution
-      await new Promise(resolve => setTimeout(resolve, 10000));
-      
-      // Verify solution was submitted
-      const solutions = await executingAgent!.getTaskSolutions(task.id);
-      expect(solutions.length).toBeGreaterThan(0);
-      expect(solutions[0]).toHaveProperty('result');
+
+      // Sequence numbers are strictly increasing in delivery order
+      const sequenceNumbers = bids.map(bid => bid.sequenceNumber);
+      expect([...sequenceNumbers].sort((a, b) => a - b)).toEqual(sequenceNumbers);
     }, 30000);
   });
-});
\ No newline at end of file
+});
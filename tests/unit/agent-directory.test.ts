@@ -0,0 +1,101 @@
+import { describe, it, expect } from '@jest/globals';
+import { TaskAssignment, Task } from '../../swarm-protocol/src/consensus/TaskDistributor';
+import { AgentDirectory } from '../../swarm-protocol/src/consensus/AgentDirectory';
+import { InMemoryReputationContract } from '../../swarm-protocol/src/reputation/ReputationContract';
+import * as fixtures from './fixtures/distributor';
+
+describe('Agent Directory Unit Tests', () => {
+  const create = fixtures.distributors();
+
+  const setup = (directory: AgentDirectory = new AgentDirectory(), bidWindowDuration: number = 5000) =>
+    create({ config: { bidWindowDuration }, directory }).distributor;
+
+  const task = (id: string, overrides: Partial<Task> = {}): Task => fixtures.task(id, { maxAgents: 2, ...overrides });
+
+  it('should build profiles from registrations and reputation updates', async () => {
+    const contract = new InMemoryReputationContract();
+    const directory = new AgentDirectory();
+    const subscription = directory.watch(contract);
+
+    contract.registerAgent('0.0.1001', ['analysis', 'rust']);
+    await contract.updateReputations([{ accountId: '0.0.1001', score: 140 }]);
+    subscription.unsubscribe();
+    contract.registerAgent('0.0.1002', ['analysis']);
+
+    expect(directory.get('0.0.1001')).toEqual(expect.objectContaining({
+      capabilities: ['analysis', 'rust'],
+      reputation: 140,
+      activeTaskCount: 0,
+      completedTaskCount: 0
+    }));
+    expect(directory.getPresence('0.0.1001')!.registeredAt).toBeDefined();
+    expect(directory.get('0.0.1002')).toBeUndefined();
+  });
+
+  it('should track success rate, completion time and specializations from outcomes', () => {
+    const directory = new AgentDirectory({ specializationThreshold: 2 });
+    directory.register('0.0.1001', ['analysis', 'nlp']);
+
+    directory.adjustActiveTasks('0.0.1001', 3);
+    directory.recordOutcome('0.0.1001', true, 1000, ['nlp']);
+    directory.recordOutcome('0.0.1001', false, 9000, ['analysis']);
+    directory.recordOutcome('0.0.1001', true, 3000, ['nlp', 'analysis']);
+
+    expect(directory.get('0.0.1001')).toEqual(expect.objectContaining({
+      activeTaskCount: 0,
+      completedTaskCount: 3,
+      successRate: 2 / 3,
+      averageCompletionTime: 2000,
+      specializations: ['nlp']
+    }));
+  });
+
+  it('should rank online agents by capability, reputation and track record', () => {
+    const directory = new AgentDirectory({ onlineTimeout: 1000 });
+    directory.register('0.0.1001', ['analysis'], 0);
+    directory.register('0.0.1002', ['analysis', 'rust'], 0);
+    directory.register('0.0.1003', ['analysis', 'rust'], 0);
+    directory.register('0.0.1004', ['rust'], 0);
+    directory.recordOutcome('0.0.1003', false);
+    ['0.0.1001', '0.0.1002', '0.0.1003'].forEach(agentId => directory.recordHeartbeat(agentId, [], 'idle', 1500));
+
+    const ranked = directory.find({ capabilities: ['analysis', 'rust'] }, 2000);
+    expect(ranked.map(agent => agent.profile.accountId)).toEqual(['0.0.1002', '0.0.1003', '0.0.1001']);
+    expect(ranked[2].matched).toEqual(['analysis']);
+
+    expect(directory.find({ capabilities: ['analysis', 'rust'], requireAll: true, exclude: ['0.0.1002'] }, 2000)
+      .map(agent => agent.profile.accountId)).toEqual(['0.0.1003']);
+    expect(directory.find({ capabilities: ['rust'], includeOffline: true }, 2000)
+      .find(agent => agent.profile.accountId === '0.0.1004')!.online).toBe(false);
+  });
+
+  it('should keep excluded and unselected agents from bidding', async () => {
+    const distributor = setup();
+    await distributor.announceTask(task('t-1', { excludedAgents: ['0.0.1003'] }));
+    await distributor.announceTask(task('t-2', { preselectedAgents: ['0.0.1001'] }));
+
+    expect(() => distributor.submitBid(fixtures.bid('0.0.1003', 't-1'))).toThrow('Agent is excluded from this task');
+    expect(() => distributor.submitBid(fixtures.bid('0.0.1002', 't-2'))).toThrow('Task is reserved for pre-selected agents');
+    expect(() => distributor.submitBid(fixtures.bid('0.0.1002', 't-1'))).not.toThrow();
+  });
+
+  it('should assign once every pre-selected agent has bid and update their profiles', async () => {
+    const directory = new AgentDirectory();
+    directory.register('0.0.1001', ['analysis']);
+    directory.register('0.0.1002', ['analysis']);
+    const distributor = setup(directory);
+
+    const assigned = new Promise<TaskAssignment>(resolve => distributor.once('taskAssigned', resolve));
+    await distributor.announceTask(task('t-1', { preselectedAgents: ['0.0.1001', '0.0.1002'], minAgents: 2 }));
+    distributor.submitBid(fixtures.bid('0.0.1001', 't-1'));
+    distributor.submitBid(fixtures.bid('0.0.1002', 't-1'));
+
+    // Long before the bid window would close
+    expect((await assigned).assignedAgents.sort()).toEqual(['0.0.1001', '0.0.1002']);
+    expect(directory.get('0.0.1001')!.activeTaskCount).toBe(1);
+
+    await distributor.handleTaskCompletion('t-1', '0.0.1001', true, 'hash-a');
+    expect(directory.get('0.0.1001')).toEqual(expect.objectContaining({ activeTaskCount: 0, completedTaskCount: 1, successRate: 1 }));
+    expect(distributor.getAgentWorkload('0.0.1002')).toBe(1);
+  });
+});
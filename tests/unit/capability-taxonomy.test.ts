@@ -0,0 +1,92 @@
+import { describe, it, expect } from '@jest/globals';
+import { TaskAssignment, AgentBid } from '../../swarm-protocol/src/consensus/TaskDistributor';
+import { AgentDirectory } from '../../swarm-protocol/src/consensus/AgentDirectory';
+import { CAPABILITIES, CapabilityTaxonomy } from '../../swarm-protocol/src/capabilities/CapabilityTaxonomy';
+import { SwarmOrchestratorCodec } from '../../swarm-protocol/src/contracts/ContractCodec';
+import * as fixtures from './fixtures/distributor';
+
+describe('Capability Taxonomy Unit Tests', () => {
+  const create = fixtures.distributors({ bidWindowDuration: 20 });
+  const taxonomy = new CapabilityTaxonomy();
+
+  const bid = (agentId: string, capabilities: string[], overrides: Partial<AgentBid> = {}) =>
+    fixtures.bid(agentId, 't-1', { capabilities, ...overrides });
+
+  it('should resolve aliases and walk the hierarchy', () => {
+    expect(taxonomy.resolve('NLP')).toBe(CAPABILITIES.NATURAL_LANGUAGE_PROCESSING);
+    expect(taxonomy.resolve('Smart-Contract Audit')).toBe(CAPABILITIES.SMART_CONTRACT_ANALYSIS);
+    expect(taxonomy.ancestors('nlp')).toEqual(['machine_learning', 'learning']);
+    expect(taxonomy.childrenOf('security_analysis')).toEqual(['smart_contract_analysis', 'vulnerability_detection']);
+    expect(taxonomy.satisfies('smart_contract_analysis', 'security_audit')).toBe(true);
+    expect(taxonomy.satisfies('security_analysis', 'smart_contract_analysis')).toBe(false);
+    expect(() => taxonomy.define({ name: 'security_analysis', parent: 'smart_contract_analysis' })).toThrow('cannot be a specialization');
+  });
+
+  it('should score specialists above generalists and only count close fits as covered', () => {
+    const specialist = taxonomy.matchOne(['smart_contract_analysis'], 'security_analysis');
+    const generalist = taxonomy.matchOne(['security_analysis'], 'smart_contract_analysis');
+    const distant = taxonomy.matchOne(['data_analysis'], 'cross_chain_analysis');
+
+    expect(specialist).toEqual({ required: 'security_analysis', matchedBy: 'smart_contract_analysis', relation: 'specialization', score: 0.9 });
+    expect(generalist).toEqual(expect.objectContaining({ relation: 'generalization', score: 0.5 }));
+    expect(distant.score).toBeCloseTo(0.4);
+    expect(taxonomy.matchOne(['rust'], 'rust').relation).toBe('exact');
+    expect(taxonomy.matchOne(['rust'], 'go')).toEqual({ required: 'go', relation: 'none', score: 0 });
+
+    const result = taxonomy.match(['nlp', 'security_analysis'], ['natural_language_processing', 'smart_contract_analysis']);
+    expect(result.score).toBeCloseTo(0.75);
+    expect(result.covered).toEqual(['natural_language_processing']);
+  });
+
+  it('should discount agents less proficient than a task asks', () => {
+    const novice = { capabilities: ['smart_contract_analysis'], proficiency: { smart_contract_analysis: 'novice' as const } };
+    const expert = { capabilities: ['smart_contract_analysis'], proficiency: { 'smart-contract-audit': 'expert' as const } };
+
+    expect(taxonomy.match(novice, ['smart_contract_analysis']).score).toBe(1);
+    expect(taxonomy.match(novice, ['smart_contract_analysis'], { smart_contract_analysis: 'expert' }).score).toBeCloseTo(1 / 3);
+    expect(taxonomy.coversAll(novice, ['smart_contract_analysis'], { smart_contract_analysis: 'expert' })).toBe(false);
+    expect(taxonomy.coversAll(expert, ['smart_contract_analysis'], { smart_contract_analysis: 'expert' })).toBe(true);
+    expect(taxonomy.coversAll(['smart_contract_analysis'], ['smart_contract_analysis'], { smart_contract_analysis: 'competent' })).toBe(true);
+  });
+
+  it('should let specialists and aliases bid and cover team capabilities', async () => {
+    const { distributor } = create();
+    const assigned = new Promise<TaskAssignment>(resolve => distributor.once('taskAssigned', resolve));
+    await distributor.announceTask(fixtures.task('t-1', {
+      description: 'audit and summarise',
+      requiredCapabilities: ['security_analysis', 'nlp'],
+      maxAgents: 2
+    }));
+
+    expect(() => distributor.submitBid(bid('0.0.1003', ['creativity']))).toThrow('Agent lacks required capabilities');
+    distributor.submitBid(bid('0.0.1001', ['smart_contract_analysis']));
+    distributor.submitBid(bid('0.0.1002', ['natural_language_processing']));
+
+    const assignment = await assigned;
+    expect(assignment.assignedAgents.sort()).toEqual(['0.0.1001', '0.0.1002']);
+    expect(assignment.explanations!.map(explanation => explanation.soleProvider).sort()).toEqual([['nlp'], ['security_analysis']]);
+  });
+
+  it('should find agents through the hierarchy and encode it for the contract', () => {
+    const directory = new AgentDirectory();
+    directory.register('0.0.1001', ['vulnerability_detection']);
+    directory.register('0.0.1002', ['security_analysis']);
+    directory.register('0.0.1003', ['data_analysis']);
+
+    const ranked = directory.find({ capabilities: ['security_audit'] });
+    expect(ranked.map(agent => [agent.profile.accountId, agent.matched])).toEqual([
+      ['0.0.1002', ['security_audit']],
+      ['0.0.1001', ['security_audit']]
+    ]);
+
+    const orchestrator = new SwarmOrchestratorCodec();
+    const call = orchestrator.setCapabilityParent('vulnerability_detection', 'security_analysis');
+    expect(Array.from(orchestrator.abi.decodeFunctionData('setCapabilityParent', call.data)))
+      .toEqual(['vulnerability_detection', 'security_analysis']);
+    expect(taxonomy.definitions()).toContainEqual({
+      name: 'natural_language_processing',
+      parent: 'machine_learning',
+      aliases: ['nlp']
+    });
+  });
+});
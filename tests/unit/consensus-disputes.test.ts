@@ -0,0 +1,157 @@
+import { describe, it, expect, afterEach } from '@jest/globals';
+import { InMemoryTransport } from '../../swarm-protocol/src/transport/InMemoryTransport';
+import { ConsensusEngine } from '../../swarm-protocol/src/consensus/ConsensusEngine';
+import { ConsensusLedger, LedgerEntry } from '../../swarm-protocol/src/consensus/ConsensusLedger';
+import { InMemoryConsensusStore } from '../../swarm-protocol/src/consensus/ConsensusStore';
+import { InMemoryBlobStore } from '../../swarm-protocol/src/storage/BlobStore';
+import { MessageType } from '../../swarm-protocol/src/protocol/messages';
+import { createMessage } from '../../swarm-protocol/src/protocol/codec';
+
+describe('Consensus Dispute Unit Tests', () => {
+  const rules = { votingThreshold: 0.66, minParticipants: 2, quorum: 0.5, reputationWeighting: false, jurySize: 3 };
+
+  const log = () => {
+    let sequenceNumber = 0;
+    const entry = (type: MessageType, sender: string, payload: any, at: number): LedgerEntry => ({
+      message: createMessage(type, sender, payload, { timestamp: at }),
+      sequenceNumber: ++sequenceNumber,
+      consensusTimestamp: at
+    });
+    return {
+      proposal: (id: string, proposer: string, at: number) => entry(MessageType.CONSENSUS_PROPOSAL, proposer, {
+        id, taskId: 'task-1', solution: id, proposer, confidence: 0.5, deadline: at + 1000
+      }, at),
+      vote: (proposalId: string, voter: string, at: number) =>
+        entry(MessageType.CONSENSUS_VOTE, voter, { proposalId, support: true }, at),
+      dispute: (id: string, proposalId: string, challenger: string, bond: number, at: number) =>
+        entry(MessageType.DISPUTE_RAISED, challenger, {
+          id, proposalId, bond, reason: 'wrong answer', evidence: ['QmChallenge'], deadline: at + 1000
+        }, at),
+      evidence: (disputeId: string, sender: string, cid: string, at: number) =>
+        entry(MessageType.DISPUTE_EVIDENCE, sender, { disputeId, cid }, at),
+      juror: (disputeId: string, juror: string, uphold: boolean, at: number) =>
+        entry(MessageType.DISPUTE_VOTE, juror, { disputeId, uphold }, at),
+      tick: (at: number) => entry(MessageType.HEARTBEAT, 'clock', {}, at)
+    };
+  };
+
+  // alice's p-1 is accepted with bob's vote at consensus time 2000
+  const acceptedProposal = () => {
+    const entries = log();
+    const ledger = new ConsensusLedger(rules);
+    ledger.loadReputations(['j1', 'j2', 'j3', 'j4'].map((accountId, i) => ({
+      accountId, score: 150 - i * 10, tasksCompleted: 0, consensusParticipation: 0
+    })));
+    ledger.apply(entries.proposal('p-1', 'alice', 1000));
+    ledger.apply(entries.vote('p-1', 'bob', 1100));
+    ledger.apply(entries.tick(2001));
+    return { entries, ledger };
+  };
+
+  it('should overturn a proposal when the jury upholds the dispute', () => {
+    const { entries, ledger } = acceptedProposal();
+    const resolved: any[] = [];
+    const reversed: any[] = [];
+    ledger.on('disputeResolved', (event) => resolved.push(event));
+    ledger.on('reputationUpdated', (event) => event.reason === 'reversed' && reversed.push([event.accountId, event.delta]));
+    expect(ledger.getProposal('p-1')!.grants).toEqual({ alice: 15, bob: 5 });
+
+    ledger.apply(entries.dispute('d-1', 'p-1', 'carol', 20, 2100));
+    ledger.apply(entries.evidence('d-1', 'alice', 'QmRebuttal', 2150));
+    ledger.apply(entries.evidence('d-1', 'j1', 'QmJuror', 2150));
+
+    // Twice the two original voters, ranked by reputation, parties excluded
+    const dispute = ledger.getDispute('d-1')!;
+    expect(dispute.jury).toEqual({ j1: 150, j2: 140, j3: 130, j4: 120 });
+    expect(dispute.evidence.map(e => [e.submittedBy, e.cid])).toEqual([['carol', 'QmChallenge'], ['alice', 'QmRebuttal']]);
+    expect(ledger.getReputation('carol')!.score).toBe(80);
+
+    ledger.apply(entries.juror('d-1', 'j1', true, 2200));
+    ledger.apply(entries.juror('d-1', 'j2', true, 2200));
+    expect(dispute.status).toBe('open');
+    ledger.apply(entries.juror('d-1', 'j3', true, 2300));
+
+    expect(resolved).toEqual([expect.objectContaining({ upheld: true, slashed: { alice: 20 }, decidedAt: 2300 })]);
+    expect(ledger.getProposal('p-1')!.status).toBe('rejected');
+    expect(ledger.getTaskWinner('task-1')).toBeUndefined();
+    expect(reversed).toEqual([['alice', -15], ['bob', -5]]);
+    expect(ledger.getReputation('alice')!.score).toBe(80); // +15 on acceptance taken back, -20 slashed
+    expect(ledger.getReputation('bob')!.score).toBe(100);
+    expect(ledger.getReputation('carol')!.score).toBe(100); // Bond returned
+    expect(ledger.getReputation('j1')!.score).toBe(155);
+
+    // The task can be solved again
+    ledger.apply(entries.proposal('p-2', 'dave', 3000));
+    expect(ledger.getProposal('p-2')!.status).toBe('pending');
+  });
+
+  it('should forfeit the bond when the dispute is dismissed', () => {
+    const { entries, ledger } = acceptedProposal();
+    ledger.apply(entries.dispute('d-1', 'p-1', 'carol', 20, 2100));
+    ledger.apply(entries.juror('d-1', 'j1', false, 2200));
+    ledger.apply(entries.juror('d-1', 'j2', false, 2200));
+
+    expect(ledger.getDispute('d-1')).toEqual(expect.objectContaining({
+      status: 'dismissed',
+      resolution: expect.objectContaining({ upheld: false, totalVotes: 2 })
+    }));
+    expect(ledger.getProposal('p-1')!.status).toBe('accepted');
+    expect(ledger.getReputation('carol')!.score).toBe(80);
+  });
+
+  it('should ignore disputes that do not qualify', () => {
+    const { entries, ledger } = acceptedProposal();
+    const ignored: string[] = [];
+    ledger.on('disputeIgnored', (event) => ignored.push(event.reason));
+
+    ledger.apply(entries.dispute('d-1', 'p-1', 'carol', 5, 2100));
+    ledger.apply(entries.dispute('d-2', 'p-1', 'alice', 20, 2100));
+    ledger.apply(entries.dispute('d-3', 'p-1', 'carol', 20, 2000 + 60 * 60 * 1000 + 1));
+
+    expect(ignored).toEqual(['insufficient_bond', 'own_proposal', 'window_closed']);
+    expect(ledger.getProposal('p-1')!.disputeId).toBeUndefined();
+  });
+
+  describe('ConsensusEngine', () => {
+    let engines: ConsensusEngine[] = [];
+
+    afterEach(() => {
+      engines.forEach(engine => engine.shutdown());
+      engines = [];
+    });
+
+    it('should run a dispute with uploaded evidence and persist it', async () => {
+      const store = new InMemoryConsensusStore();
+      const engine = new ConsensusEngine(new InMemoryTransport(), '0.0.900', {
+        store,
+        blobStore: new InMemoryBlobStore(),
+        votingPeriod: 50,
+        disputePeriod: 500, // Long enough for the evidence steps under load
+        minParticipants: 2,
+        tickDelay: 0
+      });
+      engines.push(engine);
+
+      const accepted = new Promise<any>(resolve => engine.once('consensusReached', resolve));
+      const proposalId = await engine.proposeSolution('task-1', 'answer', '0.0.1001');
+      await engine.voteOnProposal(proposalId, '0.0.1002', true);
+      await accepted;
+
+      const disputeId = await engine.raiseDispute(proposalId, '0.0.1003', 10, 'answer is wrong');
+      const cid = await engine.uploadEvidence(disputeId, '0.0.1003', new TextEncoder().encode('counterexample'));
+      await expect(engine.submitEvidence(disputeId, '0.0.1002', 'QmJuror'))
+        .rejects.toThrow('Only the parties');
+      await expect(engine.raiseDispute(proposalId, '0.0.1004', 10, 'again'))
+        .rejects.toThrow('already disputed');
+
+      const resolved = new Promise<any>(resolve => engine.once('disputeResolved', resolve));
+      await engine.voteOnDispute(disputeId, '0.0.1002', true);
+      expect(await resolved).toEqual(expect.objectContaining({ disputeId, upheld: true }));
+      await engine.drain();
+
+      const [stored] = await engine.getDisputeHistory({ proposalId });
+      expect(stored).toEqual(expect.objectContaining({ status: 'upheld', evidence: [expect.objectContaining({ cid })] }));
+      expect((await store.getProposal(proposalId))!.status).toBe('rejected');
+    });
+  });
+});
@@ -0,0 +1,483 @@
+import { describe, it, expect, afterEach } from '@jest/globals';
+import { InMemoryTransport } from '../../swarm-protocol/src/transport/InMemoryTransport';
+import { ConsensusEngine } from '../../swarm-protocol/src/consensus/ConsensusEngine';
+import {
+  ConsensusLedger,
+  LedgerEntry,
+  VoteChoice,
+  computeVoteCommitment
+} from '../../swarm-protocol/src/consensus/ConsensusLedger';
+import { InMemoryConsensusStore } from '../../swarm-protocol/src/consensus/ConsensusStore';
+import { MessageType } from '../../swarm-protocol/src/protocol/messages';
+import { createMessage, decodeMessage } from '../../swarm-protocol/src/protocol/codec';
+import { InMemoryReputationContract } from '../../swarm-protocol/src/reputation/ReputationContract';
+import { ReputationSync } from '../../swarm-protocol/src/reputation/ReputationSync';
+import * as fixtures from './fixtures/distributor';
+
+describe('Consensus Ledger Unit Tests', () => {
+  const rules = { votingThreshold: 0.66, minParticipants: 2, quorum: 0.5, reputationWeighting: true };
+
+  const log = () => {
+    let sequenceNumber = 0;
+    return {
+      proposal: (id: string, proposer: string, at: number, votingPeriod = 1000, extra: object = {}): LedgerEntry => ({
+        message: createMessage(MessageType.CONSENSUS_PROPOSAL, proposer, {
+          id, taskId: `task-${id}`, solution: id, proposer, confidence: 0.5, deadline: at + votingPeriod, ...extra
+        }, { timestamp: at }),
+        sequenceNumber: ++sequenceNumber,
+        consensusTimestamp: at
+      }),
+      vote: (proposalId: string, voter: string, support: boolean, at: number): LedgerEntry => ({
+        message: createMessage(MessageType.CONSENSUS_VOTE, voter, { proposalId, support }, { timestamp: at }),
+        sequenceNumber: ++sequenceNumber,
+        consensusTimestamp: at
+      }),
+      commit: (proposalId: string, voter: string, choice: VoteChoice, salt: string, at: number): LedgerEntry => ({
+        message: createMessage(MessageType.CONSENSUS_VOTE_COMMIT, voter, {
+          proposalId, commitment: computeVoteCommitment(proposalId, voter, choice, salt)
+        }, { timestamp: at }),
+        sequenceNumber: ++sequenceNumber,
+        consensusTimestamp: at
+      }),
+      reveal: (proposalId: string, voter: string, choice: VoteChoice, salt: string, at: number): LedgerEntry => ({
+        message: createMessage(MessageType.CONSENSUS_VOTE_REVEAL, voter, { proposalId, ...choice, salt }, { timestamp: at }),
+        sequenceNumber: ++sequenceNumber,
+        consensusTimestamp: at
+      }),
+      tick: (at: number): LedgerEntry => ({
+        message: createMessage(MessageType.HEARTBEAT, 'clock', {}, { timestamp: at }),
+        sequenceNumber: ++sequenceNumber,
+        consensusTimestamp: at
+      })
+    };
+  };
+
+  describe('ConsensusLedger', () => {
+    it('should anchor deadlines on consensus time and ignore votes ordered after them', () => {
+      const entries = log();
+      const ledger = new ConsensusLedger(rules);
+      const proposal = entries.proposal('p-1', 'alice', 1000);
+      proposal.consensusTimestamp = 1500; // Proposer's clock ran 500ms behind
+
+      ledger.apply(proposal);
+      ledger.apply(entries.vote('p-1', 'bob', true, 2500));
+      ledger.apply(entries.vote('p-1', 'carol', true, 2501));
+
+      expect(ledger.getProposal('p-1')).toEqual(expect.objectContaining({
+        deadline: 2500,
+        status: 'accepted',
+        outcome: expect.objectContaining({ totalVotes: 2, decidedAt: 2500 })
+      }));
+    });
+
+    it('should weigh votes with the reputations at proposal creation', () => {
+      const entries = log();
+      const ledger = new ConsensusLedger(rules);
+      ledger.loadReputations([{ accountId: 'bob', score: 150, tasksCompleted: 0, consensusParticipation: 0 }]);
+
+      ledger.apply(entries.proposal('p-1', 'alice', 1000));
+      ledger.apply(entries.proposal('p-2', 'alice', 1100, 5000));
+      ledger.apply(entries.vote('p-1', 'bob', false, 1200));
+      ledger.apply(entries.tick(2001)); // p-1 rejected; bob gains reputation
+      ledger.apply(entries.vote('p-2', 'bob', true, 2100));
+
+      expect(ledger.getReputation('bob')!.score).toBe(155);
+      expect(ledger.getProposal('p-2')!.supporters.get('bob')!.weight).toBe(150);
+    });
+
+    it('should decide due proposals in deadline order', () => {
+      const entries = log();
+      const ledger = new ConsensusLedger(rules);
+      const decided: string[] = [];
+      ledger.on('consensusReached', (event) => decided.push(event.proposalId));
+
+      ledger.apply(entries.proposal('p-late', 'alice', 1000, 2000));
+      ledger.apply(entries.proposal('p-early', 'bob', 1100, 500));
+      ledger.apply(entries.tick(5000));
+
+      expect(decided).toEqual(['p-early', 'p-late']);
+    });
+  });
+
+  describe('Electorate', () => {
+    // Resolved from trusted state, such as the task's assignments
+    const withElectorate = (weights: Record<string, number>) => new ConsensusLedger(rules, [], undefined, () =>
+      Object.entries(weights).map(([accountId, weight]) => ({ accountId, weight })));
+
+    it('should accept early once remaining voters cannot block the proposal', () => {
+      const entries = log();
+      const ledger = withElectorate({ alice: 1, bob: 1, carol: 1 });
+      ledger.apply(entries.proposal('p-1', 'alice', 1000));
+      ledger.apply(entries.vote('p-1', 'bob', true, 1100));
+
+      expect(ledger.getProposal('p-1')).toEqual(expect.objectContaining({
+        status: 'accepted',
+        outcome: expect.objectContaining({ decidedAt: 1100, totalVotes: 2 })
+      }));
+    });
+
+    it('should reject early once remaining voters cannot carry the proposal', () => {
+      const entries = log();
+      const ledger = withElectorate({ alice: 10, bob: 195, carol: 50 });
+      ledger.apply(entries.proposal('p-1', 'alice', 1000));
+      ledger.apply(entries.vote('p-1', 'bob', false, 1100));
+
+      expect(ledger.getProposal('p-1')).toEqual(expect.objectContaining({
+        status: 'rejected',
+        outcome: expect.objectContaining({ decidedAt: 1100 })
+      }));
+    });
+
+    it('should only count votes from the electorate', () => {
+      const entries = log();
+      const ledger = withElectorate({ bob: 1, carol: 1, dave: 1 });
+      const ignored: any[] = [];
+      ledger.on('voteIgnored', (event) => ignored.push(event));
+
+      ledger.apply(entries.proposal('p-1', 'alice', 1000));
+      ledger.apply(entries.vote('p-1', 'mallory', true, 1100));
+
+      const proposal = ledger.getProposal('p-1')!;
+      expect(proposal.supporters.size).toBe(0); // The proposer is not a member either
+      expect(ignored).toEqual([expect.objectContaining({ voter: 'mallory', reason: 'not_in_electorate' })]);
+    });
+
+    it('should reject proposals that miss the quorum', () => {
+      const entries = log();
+      const ledger = withElectorate({ alice: 1, bob: 1, carol: 1, dave: 1, erin: 1 });
+      ledger.apply(entries.proposal('p-1', 'alice', 1000));
+      ledger.apply(entries.vote('p-1', 'bob', true, 1100));
+      expect(ledger.getProposal('p-1')!.status).toBe('pending');
+
+      ledger.apply(entries.tick(2001));
+      expect(ledger.getProposal('p-1')).toEqual(expect.objectContaining({
+        status: 'rejected',
+        outcome: expect.objectContaining({ totalVotes: 2, supportPercentage: 0 })
+      }));
+    });
+
+    it('should weigh members without a stake by their reputation', () => {
+      const entries = log();
+      const ledger = new ConsensusLedger(rules, [], undefined, () => ['bob', 'carol']);
+      ledger.loadReputations([{ accountId: 'bob', score: 180, tasksCompleted: 0, consensusParticipation: 0 }]);
+      ledger.apply(entries.proposal('p-1', 'alice', 1000));
+
+      expect(ledger.getProposal('p-1')!.electorate).toEqual({ bob: 180, carol: 50 });
+    });
+
+    it('should ignore proposals that name their own electorate', () => {
+      const entries = log();
+      const open = new ConsensusLedger(rules);
+      const assigned = withElectorate({ alice: 1, bob: 1 });
+      const ignored: any[] = [];
+      for (const ledger of [open, assigned]) {
+        ledger.on('proposalIgnored', (event) => ignored.push(event.reason));
+      }
+
+      // Alice elects herself and her sock puppet
+      const selfElected = entries.proposal('p-1', 'alice', 1000, 1000, {
+        electorate: [{ accountId: 'alice', weight: 100 }, { accountId: 'alice-2', weight: 100 }]
+      });
+      open.apply(selfElected);
+      assigned.apply(selfElected);
+      expect(open.getProposal('p-1')).toBeUndefined();
+      expect(assigned.getProposal('p-1')).toBeUndefined();
+      expect(ignored).toEqual(['electorate_mismatch', 'electorate_mismatch']);
+
+      // Naming the resolved electorate is fine
+      assigned.apply(entries.proposal('p-2', 'alice', 1000, 1000, {
+        electorate: [{ accountId: 'bob', weight: 1 }, { accountId: 'alice', weight: 1 }]
+      }));
+      expect(assigned.getProposal('p-2')!.electorate).toEqual({ alice: 1, bob: 1 });
+    });
+  });
+
+  describe('Task rounds', () => {
+    const task = { taskId: 'task-1' };
+
+    it('should decide competing proposals together with a single winner', () => {
+      const entries = log();
+      const ledger = new ConsensusLedger(rules);
+      const rounds: any[] = [];
+      ledger.on('roundDecided', (event) => rounds.push(event));
+
+      ledger.apply(entries.proposal('p-1', 'alice', 1000, 1000, task));
+      ledger.apply(entries.proposal('p-2', 'bob', 1500, 5000, task));
+      ledger.apply(entries.vote('p-1', 'carol', true, 1600));
+      ledger.apply(entries.vote('p-2', 'dave', true, 1600));
+      ledger.apply(entries.vote('p-2', 'erin', true, 1700));
+      ledger.apply(entries.tick(2001));
+
+      // Both are unanimous; p-2 joined p-1's round and wins on backing
+      expect(ledger.getProposal('p-2')!.deadline).toBe(2000);
+      expect(rounds).toEqual([expect.objectContaining({ roundId: 'p-1', winner: 'p-2', proposalIds: ['p-1', 'p-2'] })]);
+      expect(ledger.getProposal('p-1')).toEqual(expect.objectContaining({
+        status: 'rejected',
+        outcome: expect.objectContaining({ winner: 'p-2', supportPercentage: 1 })
+      }));
+      expect(ledger.getProposal('p-2')!.status).toBe('accepted');
+      expect(ledger.getTaskWinner('task-1')).toBe('p-2');
+    });
+
+    it('should let each voter support only one proposal per round', () => {
+      const entries = log();
+      const ledger = new ConsensusLedger(rules);
+      const ignored: any[] = [];
+      ledger.on('voteIgnored', (event) => ignored.push(event));
+
+      ledger.apply(entries.proposal('p-1', 'alice', 1000, 1000, task));
+      ledger.apply(entries.proposal('p-2', 'bob', 1100, 1000, task));
+      ledger.apply(entries.vote('p-2', 'alice', true, 1200));
+      ledger.apply(entries.vote('p-2', 'alice', false, 1300));
+
+      expect(ignored).toEqual([expect.objectContaining({ proposalId: 'p-2', voter: 'alice', reason: 'supports_competitor' })]);
+      expect(ledger.getProposal('p-2')!.rejectors.has('alice')).toBe(true);
+    });
+
+    it('should open a new round after a failed one but not after a winner', () => {
+      const entries = log();
+      const ledger = new ConsensusLedger(rules);
+      const ignored: any[] = [];
+      ledger.on('proposalIgnored', (event) => ignored.push(event));
+
+      ledger.apply(entries.proposal('p-1', 'alice', 1000, 1000, task));
+      ledger.apply(entries.tick(2001));
+      expect(ledger.getRound('task-1')).toEqual(expect.objectContaining({ id: 'p-1', status: 'failed' }));
+
+      ledger.apply(entries.proposal('p-2', 'bob', 3000, 1000, task));
+      ledger.apply(entries.vote('p-2', 'carol', true, 3100));
+      ledger.apply(entries.tick(4001));
+      expect(ledger.getRound('task-1')).toEqual(expect.objectContaining({ id: 'p-2', status: 'decided', winner: 'p-2' }));
+
+      ledger.apply(entries.proposal('p-3', 'dave', 5000, 1000, task));
+      expect(ledger.getProposal('p-3')).toBeUndefined();
+      expect(ignored).toEqual([expect.objectContaining({ proposalId: 'p-3', reason: 'task_resolved' })]);
+    });
+  });
+
+  describe('Commit-reveal', () => {
+    const sealed = { revealPeriod: 500 };
+
+    it('should only count sealed votes once revealed after the commit phase', () => {
+      const entries = log();
+      const ledger = new ConsensusLedger(rules);
+      ledger.apply(entries.proposal('p-1', 'alice', 1000, 1000, sealed));
+      ledger.apply(entries.vote('p-1', 'mallory', true, 1050)); // Open votes are refused
+      ledger.apply(entries.commit('p-1', 'bob', { support: true }, 'salt-b', 1100));
+      ledger.apply(entries.commit('p-1', 'carol', { support: false }, 'salt-c', 1200));
+      ledger.apply(entries.reveal('p-1', 'bob', { support: true }, 'salt-b', 1900)); // Too early
+
+      const proposal = ledger.getProposal('p-1')!;
+      expect(proposal.supporters.size).toBe(1);
+      expect(proposal.revealDeadline).toBe(2500);
+
+      ledger.apply(entries.reveal('p-1', 'bob', { support: true }, 'salt-b', 2100));
+      ledger.apply(entries.reveal('p-1', 'carol', { support: true }, 'salt-c', 2200)); // Not what carol committed
+      ledger.apply(entries.tick(2400));
+      expect(proposal.status).toBe('pending');
+
+      ledger.apply(entries.tick(2501));
+      expect(proposal).toEqual(expect.objectContaining({
+        status: 'accepted',
+        outcome: expect.objectContaining({ totalVotes: 2, decidedAt: 2500 })
+      }));
+      expect(Array.from(proposal.supporters.keys())).toEqual(['alice', 'bob']);
+    });
+
+    it('should penalize commitments that are never revealed', () => {
+      const entries = log();
+      const ledger = new ConsensusLedger(rules);
+      const changes: any[] = [];
+      ledger.on('reputationUpdated', (event) => changes.push(event));
+
+      ledger.apply(entries.proposal('p-1', 'alice', 1000, 1000, sealed));
+      ledger.apply(entries.commit('p-1', 'bob', { support: false }, 'salt-b', 1100));
+      ledger.apply(entries.tick(2501));
+
+      expect(changes.filter(change => change.accountId === 'bob')).toEqual([
+        expect.objectContaining({ delta: -5, reason: 'unrevealed_vote' })
+      ]);
+    });
+  });
+
+  describe('ConsensusEngine', () => {
+    const topicId = '0.0.600';
+    let engines: ConsensusEngine[] = [];
+    const distributors = fixtures.distributors();
+
+    const createEngine = (transport: InMemoryTransport, store = new InMemoryConsensusStore()) => {
+      const engine = new ConsensusEngine(transport, topicId, {
+        store,
+        votingPeriod: 100,
+        minParticipants: 2,
+        tickDelay: 0
+      });
+      engines.push(engine);
+      return engine;
+    };
+
+    afterEach(() => {
+      engines.forEach(engine => engine.shutdown());
+      engines = [];
+    });
+
+    it('should reach the same outcome on every node and in a replay', async () => {
+      const transport = new InMemoryTransport();
+      const alice = createEngine(transport);
+      const bob = createEngine(transport);
+      const reached = new Promise<any>(resolve => bob.once('consensusReached', resolve));
+
+      const proposalId = await alice.proposeSolution('task-1', 'answer', '0.0.1001');
+      await bob.voteOnProposal(proposalId, '0.0.1002', true);
+      await reached;
+      await transport.flush();
+
+      // A node joining later derives the same state from the log alone
+      const late = createEngine(transport);
+      await late.ready();
+      await transport.flush();
+
+      const outcomes = [alice, bob, late].map(engine => engine.getProposal(proposalId)!.outcome);
+      expect(outcomes[0]).toEqual(expect.objectContaining({ accepted: true, totalVotes: 2 }));
+      expect(outcomes[1]).toEqual(outcomes[0]);
+      expect(outcomes[2]).toEqual(outcomes[0]);
+
+      const replay = await alice.replay();
+      expect(replay.lastSequenceNumber).toBe(transport.getMessages(topicId).length);
+      expect(replay.proposals).toEqual([expect.objectContaining({ id: proposalId, outcome: outcomes[0] })]);
+      expect(replay.reputations).toEqual(expect.arrayContaining([
+        expect.objectContaining({ accountId: '0.0.1001', score: alice.getReputation('0.0.1001')!.score })
+      ]));
+      expect(replay.mismatches).toEqual([]);
+    });
+
+    it('should replay reputations loaded from the contract like the live engine', async () => {
+      const transport = new InMemoryTransport();
+      const engine = createEngine(transport);
+      const contract = new InMemoryReputationContract();
+      contract.registerAgent('0.0.1001', ['analysis']);
+      await contract.updateReputations([{ accountId: '0.0.1001', score: 300 }]);
+
+      const sync = new ReputationSync(engine.getReputationRegistry(), contract, { reconcileInterval: 0, loader: engine });
+      await sync.loadAgents(['0.0.1001']);
+      expect(engine.getReputation('0.0.1001')!.score).toBe(300);
+
+      // Accepted only with the loaded weight: 300 of 400 supports it
+      const reached = new Promise<any>(resolve => engine.once('consensusReached', resolve));
+      const proposalId = await engine.proposeSolution('task-1', 'answer', '0.0.1001');
+      await engine.voteOnProposal(proposalId, '0.0.1002', false);
+      expect(await reached).toEqual(expect.objectContaining({ accepted: true }));
+      await engine.drain();
+
+      const replay = await engine.replay();
+      expect(replay.mismatches).toEqual([]);
+      expect(replay.proposals).toEqual([expect.objectContaining({ id: proposalId, status: 'accepted' })]);
+      expect(replay.reputations).toEqual(expect.arrayContaining(engine.getReputationRegistry().getAll()));
+    });
+
+    it('should ignore reputation loads from senders without authority', () => {
+      const ledger = new ConsensusLedger({ ...rules, reputationAuthorities: ['0.0.7000'] });
+      const load = (sender: string, sequenceNumber: number): LedgerEntry => ({
+        message: createMessage(MessageType.REPUTATION_LOADED, sender, {
+          reputations: [{ accountId: 'bob', score: 500, tasksCompleted: 0, consensusParticipation: 0 }]
+        }),
+        sequenceNumber,
+        consensusTimestamp: sequenceNumber * 1000
+      });
+
+      ledger.apply(load('bob', 1));
+      expect(ledger.getReputation('bob')).toBeUndefined();
+      ledger.apply(load('0.0.7000', 2));
+      expect(ledger.getReputation('bob')!.score).toBe(500);
+
+      // Without authorities no one may load reputations
+      const open = new ConsensusLedger(rules);
+      const ignored: any[] = [];
+      open.on('reputationsIgnored', (event) => ignored.push(event));
+      open.apply(load('bob', 1));
+      expect(open.getReputation('bob')).toBeUndefined();
+      expect(ignored).toEqual([{ sender: 'bob', reason: 'unauthorized' }]);
+    });
+
+    it('should refuse votes from outside the electorate', async () => {
+      const transport = new InMemoryTransport();
+      const engine = new ConsensusEngine(transport, topicId, {
+        votingPeriod: 100,
+        minParticipants: 2,
+        tickDelay: 0,
+        electorateResolver: (taskId) => taskId === 'task-1' ? ['0.0.1001', '0.0.1002', '0.0.1003', '0.0.1004'] : undefined
+      });
+      engines.push(engine);
+
+      const proposalId = await engine.proposeSolution('task-1', 'answer', '0.0.1001');
+
+      await expect(engine.voteOnProposal(proposalId, '0.0.1999', true))
+        .rejects.toThrow('not in the electorate');
+      expect(engine.getProposal(proposalId)!.electorate).toEqual({
+        '0.0.1001': 50, '0.0.1002': 50, '0.0.1003': 50, '0.0.1004': 50
+      });
+    });
+
+    it('should let only the agents assigned by the distributor vote', async () => {
+      const { distributor } = distributors();
+      const task = fixtures.task('task-1', { minAgents: 2, maxAgents: 2 });
+      await fixtures.assign(distributor, task, [fixtures.bid('0.0.1001', 'task-1'), fixtures.bid('0.0.1002', 'task-1')]);
+
+      const engine = new ConsensusEngine(new InMemoryTransport(), topicId, {
+        votingPeriod: 100,
+        minParticipants: 2,
+        tickDelay: 0,
+        assignments: distributor
+      });
+      engines.push(engine);
+
+      const proposalId = await engine.proposeSolution('task-1', 'answer', '0.0.1001');
+      await expect(engine.voteOnProposal(proposalId, '0.0.1999', true))
+        .rejects.toThrow('not in the electorate');
+      expect(engine.getProposal(proposalId)!.electorate).toEqual({ '0.0.1001': 50, '0.0.1002': 50 });
+
+      // Anyone may vote on tasks the distributor has not assigned
+      const unassigned = await engine.proposeSolution('task-2', 'answer', '0.0.1001');
+      expect(engine.getProposal(unassigned)!.electorate).toBeUndefined();
+    });
+
+    it('should commit votes and reveal them after the commit phase', async () => {
+      const transport = new InMemoryTransport();
+      const engine = new ConsensusEngine(transport, topicId, { votingPeriod: 50, revealPeriod: 50, minParticipants: 2, tickDelay: 0 });
+      engines.push(engine);
+      const reached = new Promise<any>(resolve => engine.once('consensusReached', resolve));
+
+      const proposalId = await engine.proposeSolution('task-1', 'answer', '0.0.1001');
+      await engine.voteOnProposal(proposalId, '0.0.1002', true);
+
+      const messages = transport.getMessages(topicId);
+      const commit = decodeMessage(Buffer.from(messages[messages.length - 1].contents).toString('utf8'));
+      expect(commit.ok && commit.message.type).toBe(MessageType.CONSENSUS_VOTE_COMMIT);
+      expect(commit.ok && Object.keys(commit.message.payload)).toEqual(['proposalId', 'commitment']);
+      expect(engine.getProposal(proposalId)!.supporters.has('0.0.1002')).toBe(false);
+
+      expect(await reached).toEqual(expect.objectContaining({ accepted: true, totalVotes: 2 }));
+    });
+
+    it('should report recorded outcomes that the log does not support', async () => {
+      const transport = new InMemoryTransport();
+      const store = new InMemoryConsensusStore();
+      const engine = createEngine(transport, store);
+      const reached = new Promise<any>(resolve => engine.once('consensusReached', resolve));
+
+      const proposalId = await engine.proposeSolution('task-1', 'answer', '0.0.1001');
+      await reached;
+      await engine.drain();
+
+      const recorded = (await store.getProposal(proposalId))!;
+      await store.saveProposal({ ...recorded, status: 'accepted' });
+
+      const replay = await engine.replay();
+      expect(replay.mismatches).toEqual([expect.objectContaining({
+        proposalId,
+        recorded: expect.objectContaining({ status: 'accepted' }),
+        replayed: expect.objectContaining({ status: 'rejected' })
+      })]);
+    });
+  });
+});
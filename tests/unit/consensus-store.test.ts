@@ -0,0 +1,146 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { InMemoryTransport } from '../../swarm-protocol/src/transport/InMemoryTransport';
+import { ConsensusEngine } from '../../swarm-protocol/src/consensus/ConsensusEngine';
+import { FileConsensusStore } from '../../swarm-protocol/src/consensus/ConsensusStore';
+
+describe('Consensus Store Unit Tests', () => {
+  const topicId = '0.0.700';
+  let transport: InMemoryTransport;
+  let tmpDir: string;
+  let storePath: string;
+  let engines: ConsensusEngine[];
+
+  const createEngine = async (config: object = {}) => {
+    const engine = new ConsensusEngine(transport, topicId, {
+      store: new FileConsensusStore(storePath),
+      minParticipants: 2,
+      tickDelay: 0,
+      ...config
+    });
+    engines.push(engine);
+    await engine.ready();
+    return engine;
+  };
+
+  const waitFor = (engine: ConsensusEngine, event: string) =>
+    new Promise<any>(resolve => engine.once(event, resolve));
+
+  beforeEach(async () => {
+    transport = new InMemoryTransport();
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'swarm-consensus-'));
+    storePath = path.join(tmpDir, 'consensus.json');
+    engines = [];
+  });
+
+  afterEach(async () => {
+    for (const engine of engines) {
+      engine.shutdown();
+      await engine.drain();
+    }
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should persist proposals and votes to disk', async () => {
+    const engine = await createEngine();
+    const proposalId = await engine.proposeSolution('task-1', { answer: 42 }, '0.0.1001', 0.9);
+    await engine.voteOnProposal(proposalId, '0.0.1002', false, 'wrong answer');
+    await engine.drain();
+
+    const stored = await new FileConsensusStore(storePath).getProposal(proposalId);
+    expect(stored).toEqual(expect.objectContaining({ taskId: 'task-1', status: 'pending' }));
+    expect(stored!.votes.map(vote => [vote.voter, vote.support, vote.reason])).toEqual([
+      ['0.0.1001', true, undefined],
+      ['0.0.1002', false, 'wrong answer']
+    ]);
+  });
+
+  it('should resume pending proposals after a restart', async () => {
+    const first = await createEngine({ votingPeriod: 200 });
+    const proposalId = await first.proposeSolution('task-1', 'answer', '0.0.1001');
+    await first.voteOnProposal(proposalId, '0.0.1002', true);
+    await first.drain();
+    first.shutdown();
+
+    const second = await createEngine({ votingPeriod: 200 });
+    expect(second.getProposal(proposalId)!.supporters.size).toBe(2);
+
+    const result = await waitFor(second, 'consensusReached');
+    expect(result).toEqual(expect.objectContaining({ proposalId, accepted: true, totalVotes: 2 }));
+  });
+
+  it('should not replay the topic onto state it failed to restore', async () => {
+    const first = await createEngine();
+    const proposalId = await first.proposeSolution('task-1', { answer: 42 }, '0.0.1001', 0.9);
+    await first.drain();
+
+    const store = new FileConsensusStore(storePath);
+    jest.spyOn(store, 'findProposals').mockRejectedValueOnce(new Error('disk unreadable'));
+    const restarted = new ConsensusEngine(transport, topicId, { store, minParticipants: 2, tickDelay: 0 });
+    engines.push(restarted);
+    const storeError = waitFor(restarted, 'storeError');
+
+    await expect(restarted.ready()).rejects.toThrow('disk unreadable');
+    expect((await storeError).message).toBe('disk unreadable');
+    expect(restarted.getProposal(proposalId)).toBeUndefined();
+  });
+
+  it('should keep reputation scores and their history across restarts', async () => {
+    const first = await createEngine({ votingPeriod: 50 });
+    const proposalId = await first.proposeSolution('task-1', 'answer', '0.0.1001');
+    await first.voteOnProposal(proposalId, '0.0.1002', false);
+    await first.voteOnProposal(proposalId, '0.0.1003', true);
+    await waitFor(first, 'consensusReached');
+    await first.drain();
+    first.shutdown();
+
+    const second = await createEngine();
+    expect(second.getReputation('0.0.1001')!.score).toBe(115);
+
+    const history = await second.getAgentHistory('0.0.1002');
+    expect(history.reputation).toEqual([expect.objectContaining({ delta: -2, reason: 'incorrect_vote', proposalId })]);
+    expect(history.votes).toEqual([expect.objectContaining({
+      proposalId,
+      support: false,
+      outcome: expect.objectContaining({ accepted: true })
+    })]);
+  });
+
+  it('should answer historical queries per task and per agent', async () => {
+    const engine = await createEngine({ votingPeriod: 50 });
+    const rejected = await engine.proposeSolution('task-1', 'first try', '0.0.1001');
+    await waitFor(engine, 'consensusReached');
+    const accepted = await engine.proposeSolution('task-1', 'second try', '0.0.1002');
+    await engine.voteOnProposal(accepted, '0.0.1001', true);
+    await waitFor(engine, 'consensusReached');
+    await engine.proposeSolution('task-2', 'other', '0.0.1001');
+
+    const outcomes = await engine.getTaskOutcomes('task-1');
+    expect(outcomes.map(p => [p.id, p.status])).toEqual([[rejected, 'rejected'], [accepted, 'accepted']]);
+
+    const history = await engine.getAgentHistory('0.0.1001');
+    expect(history.proposals.map(p => p.taskId)).toEqual(['task-1', 'task-2']);
+    expect(history.votes.map(v => v.proposalId)).toEqual([rejected, accepted, expect.any(String)]);
+  });
+
+  it('should not revive decided proposals when the topic is replayed', async () => {
+    const first = await createEngine({ votingPeriod: 50 });
+    const proposalId = await first.proposeSolution('task-1', 'answer', '0.0.1001');
+    await waitFor(first, 'consensusReached');
+    await transport.flush();
+    await first.drain();
+    first.shutdown();
+
+    // No checkpoint store, so the whole topic is replayed
+    const second = await createEngine();
+    const received: any[] = [];
+    second.on('proposalReceived', (proposal) => received.push(proposal));
+    await transport.flush();
+
+    expect(received).toHaveLength(0);
+    expect((await second.getProposalHistory({ taskId: 'task-1' }))[0].status).toBe('rejected');
+    expect(second.getProposal(proposalId)).toBeUndefined();
+  });
+});
@@ -0,0 +1,183 @@
+import { describe, it, expect, afterEach } from '@jest/globals';
+import { InMemoryTransport } from '../../swarm-protocol/src/transport/InMemoryTransport';
+import { ConsensusEngine } from '../../swarm-protocol/src/consensus/ConsensusEngine';
+import { ConsensusLedger, ConsensusProposal, LedgerEntry } from '../../swarm-protocol/src/consensus/ConsensusLedger';
+import { ConsensusStrategy } from '../../swarm-protocol/src/consensus/ConsensusStrategy';
+import { MessageType } from '../../swarm-protocol/src/protocol/messages';
+import { createMessage } from '../../swarm-protocol/src/protocol/codec';
+
+describe('Consensus Strategy Unit Tests', () => {
+  const rules = { votingThreshold: 0.66, minParticipants: 2, quorum: 0.5, reputationWeighting: false };
+
+  const log = () => {
+    let sequenceNumber = 0;
+    const entry = (message: any, at: number): LedgerEntry => ({
+      message,
+      sequenceNumber: ++sequenceNumber,
+      consensusTimestamp: at
+    });
+    return {
+      proposal: (id: string, proposer: string, at: number, extra: object = {}) => entry(
+        createMessage(MessageType.CONSENSUS_PROPOSAL, proposer, {
+          id, taskId: `task-${id}`, solution: id, proposer, confidence: 0.5, deadline: at + 1000, ...extra
+        }, { timestamp: at }),
+        at
+      ),
+      vote: (proposalId: string, voter: string, support: boolean, at: number, extra: object = {}) => entry(
+        createMessage(MessageType.CONSENSUS_VOTE, voter, { proposalId, support, ...extra }, { timestamp: at }),
+        at
+      ),
+      tick: (at: number) => entry(createMessage(MessageType.HEARTBEAT, 'clock', {}, { timestamp: at }), at)
+    };
+  };
+
+  const members = (...accountIds: string[]) => accountIds.map(accountId => ({ accountId }));
+
+  it('should distinguish a simple majority from a supermajority', () => {
+    const entries = log();
+    const ledger = new ConsensusLedger(rules);
+    ledger.apply(entries.proposal('simple', 'alice', 1000, { strategy: 'majority' }));
+    ledger.apply(entries.proposal('super', 'alice', 1000, { strategy: 'supermajority' }));
+    for (const id of ['simple', 'super']) {
+      // 3 of 5 in favour, proposer included
+      ledger.apply(entries.vote(id, 'bob', true, 1100));
+      ledger.apply(entries.vote(id, 'carol', true, 1100));
+      ledger.apply(entries.vote(id, 'dave', false, 1100));
+      ledger.apply(entries.vote(id, 'erin', false, 1100));
+    }
+    ledger.apply(entries.tick(2001));
+
+    expect(ledger.getProposal('simple')!.status).toBe('accepted');
+    expect(ledger.getProposal('super')!.status).toBe('rejected');
+  });
+
+  it('should require every assigned agent to support a unanimous proposal', () => {
+    const entries = log();
+    const ledger = new ConsensusLedger(rules, [], undefined, () => members('alice', 'bob', 'carol'));
+    ledger.apply(entries.proposal('p-1', 'alice', 1000, { strategy: 'unanimous' }));
+    ledger.apply(entries.proposal('p-2', 'alice', 1000, { strategy: 'unanimous' }));
+
+    ledger.apply(entries.vote('p-1', 'bob', true, 1100));
+    expect(ledger.getProposal('p-1')!.status).toBe('pending');
+    ledger.apply(entries.vote('p-1', 'carol', true, 1200));
+    ledger.apply(entries.vote('p-2', 'bob', false, 1200));
+
+    expect(ledger.getProposal('p-1')).toEqual(expect.objectContaining({
+      status: 'accepted', outcome: expect.objectContaining({ decidedAt: 1200 })
+    }));
+    expect(ledger.getProposal('p-2')!.status).toBe('rejected');
+  });
+
+  it('should count stake quadratically', () => {
+    const entries = log();
+    const electorate = [{ accountId: 'whale', weight: 900 }, ...['a', 'b', 'c', 'd'].map(accountId => ({ accountId, weight: 100 }))];
+    const ledger = new ConsensusLedger(rules, [], undefined, () => electorate);
+    ledger.apply(entries.proposal('p-1', 'a', 1000, { strategy: 'quadratic' }));
+    ledger.apply(entries.vote('p-1', 'b', true, 1100));
+    ledger.apply(entries.vote('p-1', 'c', true, 1100));
+    ledger.apply(entries.vote('p-1', 'whale', false, 1200));
+
+    // sqrt(900) = 30 against 3 * sqrt(100) = 30 so far; d settles it
+    expect(ledger.getProposal('p-1')!.status).toBe('pending');
+    ledger.apply(entries.vote('p-1', 'd', true, 1300));
+    expect(ledger.getProposal('p-1')).toEqual(expect.objectContaining({
+      status: 'accepted', outcome: expect.objectContaining({ supportPercentage: 40 / 70 })
+    }));
+  });
+
+  it('should pick one winner among competing proposals by ranked choice', () => {
+    const entries = log();
+    const ledger = new ConsensusLedger(rules);
+    const decided: string[] = [];
+    ledger.on('consensusReached', (event) => decided.push(`${event.proposalId}:${event.accepted}`));
+
+    const ranked = { taskId: 'task-1', strategy: 'ranked-choice' };
+    ledger.apply(entries.proposal('a', 'ann', 1000, ranked));
+    ledger.apply(entries.proposal('b', 'ben', 1050, ranked));
+    ledger.apply(entries.proposal('c', 'cat', 1100, ranked));
+    // First preferences a: 3, b: 3, c: 2; c is eliminated and fay's second choice carries b
+    ledger.apply(entries.vote('a', 'dan', true, 1200, { ranking: ['a', 'c'] }));
+    ledger.apply(entries.vote('a', 'gus', true, 1200));
+    ledger.apply(entries.vote('b', 'eve', true, 1200));
+    ledger.apply(entries.vote('b', 'ivy', true, 1200));
+    ledger.apply(entries.vote('c', 'fay', true, 1200, { ranking: ['c', 'b', 'a'] }));
+    ledger.apply(entries.tick(2001));
+
+    expect(decided).toEqual(['a:false', 'b:true', 'c:false']);
+    expect(ledger.getProposal('c')!.outcome!.decidedAt).toBe(2000);
+  });
+
+  it('should aggregate numeric answers by confidence', () => {
+    const entries = log();
+    const ledger = new ConsensusLedger(rules);
+    const reached: any[] = [];
+    ledger.on('consensusReached', (event) => reached.push(event));
+
+    ledger.apply(entries.proposal('p-1', 'alice', 1000, { strategy: 'confidence-weighted', solution: 10, confidence: 1 }));
+    ledger.apply(entries.vote('p-1', 'bob', false, 1100, { value: 20, confidence: 0.5 }));
+    ledger.apply(entries.vote('p-1', 'carol', true, 1100, { confidence: 0.5 }));
+    ledger.apply(entries.tick(2001));
+
+    // (10 * 1 + 20 * 0.5 + 10 * 0.5) / 2
+    expect(reached).toEqual([expect.objectContaining({ accepted: true, solution: 12.5 })]);
+    expect(ledger.getProposal('p-1')!.outcome!.value).toBe(12.5);
+  });
+
+  it('should reject numeric answers most of the weight opposes', () => {
+    const entries = log();
+    const ledger = new ConsensusLedger(rules);
+    ledger.apply(entries.proposal('p-1', 'alice', 1000, { strategy: 'confidence-weighted', solution: 10, confidence: 1 }));
+    ledger.apply(entries.vote('p-1', 'bob', false, 1100, { value: 20 }));
+    ledger.apply(entries.vote('p-1', 'carol', false, 1100, { value: 30 }));
+    ledger.apply(entries.tick(2001));
+
+    expect(ledger.getProposal('p-1')!.status).toBe('rejected');
+    expect(ledger.getProposal('p-1')!.outcome!.supportPercentage).toBeCloseTo(1 / 3);
+  });
+
+  it('should ignore proposals naming an unknown strategy', () => {
+    const entries = log();
+    const ledger = new ConsensusLedger(rules);
+    const ignored: any[] = [];
+    ledger.on('proposalIgnored', (event) => ignored.push(event));
+
+    ledger.apply(entries.proposal('p-1', 'alice', 1000, { strategy: 'coin-flip' }));
+
+    expect(ledger.getProposal('p-1')).toBeUndefined();
+    expect(ignored).toEqual([expect.objectContaining({ proposalId: 'p-1', reason: 'unknown_strategy' })]);
+  });
+
+  describe('ConsensusEngine', () => {
+    let engines: ConsensusEngine[] = [];
+
+    afterEach(() => {
+      engines.forEach(engine => engine.shutdown());
+      engines = [];
+    });
+
+    it('should use custom strategies selected in the config or per proposal', async () => {
+      const proposerDecides: ConsensusStrategy = {
+        name: 'proposer-decides',
+        decide: (proposal: ConsensusProposal) => ({ accepted: proposal.confidence > 0.8, supportPercentage: 1, totalVotes: 1 }),
+        decideEarly(proposal, context) {
+          return this.decide(proposal, context);
+        }
+      };
+      const engine = new ConsensusEngine(new InMemoryTransport(), '0.0.800', {
+        strategy: 'proposer-decides',
+        strategies: [proposerDecides],
+        tickDelay: 0
+      });
+      engines.push(engine);
+
+      const confident = await engine.proposeSolution('task-1', 'answer', '0.0.1001', 0.9);
+      expect(engine.getProposal(confident)!.status).toBe('accepted');
+
+      const voted = await engine.proposeSolution('task-2', 'answer', '0.0.1001', 0.9, { strategy: 'majority' });
+      expect(engine.getProposal(voted)).toEqual(expect.objectContaining({ strategy: 'majority', status: 'pending' }));
+
+      await expect(engine.proposeSolution('task-3', 'answer', '0.0.1001', 0.9, { strategy: 'coin-flip' }))
+        .rejects.toThrow('Unknown consensus strategy');
+    });
+  });
+});
@@ -0,0 +1,152 @@
+import { describe, it, expect } from '@jest/globals';
+import { AbiCoder, Interface, getBytes } from 'ethers';
+import {
+  ContractCustomError,
+  ContractPanicError,
+  ContractRevertError,
+  OrchestratorRevertReason
+} from '../../swarm-protocol/src/contracts/ContractErrors';
+import {
+  EvolutionEngineCodec,
+  SwarmOrchestratorCodec,
+  TaskStatus
+} from '../../swarm-protocol/src/contracts/ContractCodec';
+import { toAccountId, toSolidityAddress, toTokenAddress } from '../../swarm-protocol/src/contracts/HederaContractClient';
+
+describe('Contract Client Unit Tests', () => {
+  const orchestrator = new SwarmOrchestratorCodec();
+  const evolution = new EvolutionEngineCodec();
+  const agentAddress = toSolidityAddress('0.0.1001');
+
+  // Return data as the contract would produce it
+  const result = (codec: SwarmOrchestratorCodec | EvolutionEngineCodec, method: string, values: unknown[]) =>
+    getBytes(codec.abi.encodeFunctionResult(method, values));
+
+  describe('Encoding', () => {
+    it('should encode calls from the compiled ABI', () => {
+      const call = orchestrator.registerAgent(['analysis', 'rust']);
+      const [capabilities] = orchestrator.abi.decodeFunctionData('registerAgent', call.data);
+
+      expect(call.method).toBe('registerAgent');
+      expect(Array.from(call.data.slice(0, 4))).toEqual(Array.from(getBytes(orchestrator.abi.getFunction('registerAgent')!.selector)));
+      expect(Array.from(capabilities)).toEqual(['analysis', 'rust']);
+
+      const batch = orchestrator.batchUpdateReputation([agentAddress], [104.6]);
+      const [agents, scores] = orchestrator.abi.decodeFunctionData('batchUpdateReputation', batch.data);
+      expect(Array.from(agents)).toEqual([expect.stringMatching(/^0x0+3e9$/i)]);
+      expect(Array.from(scores)).toEqual([BigInt(105)]);
+    });
+
+    it('should encode reward splits and token bounties', () => {
+      const split = orchestrator.setRewardSplit('task-7', [agentAddress], [BigInt(1500)]);
+      const [taskId, recipients, amounts] = orchestrator.abi.decodeFunctionData('setRewardSplit', split.data);
+      expect([taskId, Array.from(recipients), Array.from(amounts)]).toEqual(['task-7', [expect.stringMatching(/3e9$/i)], [BigInt(1500)]]);
+
+      const tokenAddress = toTokenAddress('0.0.7777');
+      const create = orchestrator.createTokenTask('Summarise', ['nlp'], 1800000000.5, tokenAddress, BigInt(5000));
+      const args = orchestrator.abi.decodeFunctionData('createTokenTask', create.data);
+      expect([args[2], args[3], args[4]]).toEqual([BigInt(1800000000), expect.stringMatching(/1e61$/i), BigInt(5000)]);
+
+      expect(orchestrator.decodeTaskToken(result(orchestrator, 'taskTokens', [tokenAddress]))).toMatch(/1e61$/i);
+      expect(orchestrator.decodeTaskToken(result(orchestrator, 'taskTokens', ['0x' + '0'.repeat(40)]))).toBeNull();
+    });
+
+    it('should only encode functions the contracts have', () => {
+      expect(() => orchestrator.encode('voteOnSolution', ['task-1', true])).toThrow();
+      expect(() => evolution.encode('proposeEvolution', [])).toThrow();
+    });
+
+    it('should map accounts to long-zero addresses and back', () => {
+      expect(agentAddress).toBe('0x00000000000000000000000000000000000003e9');
+      expect(toAccountId(agentAddress)).toBe('0.0.1001');
+    });
+  });
+
+  describe('Decoding', () => {
+    it('should decode the Agent struct', () => {
+      const agent = orchestrator.decodeAgent(result(orchestrator, 'getAgent', [
+        [agentAddress, 120, BigInt(10 * 10 ** 8), true, ['analysis'], 1700000000, 3, 90]
+      ]));
+
+      expect(agent).toEqual({
+        walletAddress: expect.stringMatching(/3e9$/i),
+        reputationScore: 120,
+        stakedAmount: BigInt(10 * 10 ** 8),
+        isActive: true,
+        capabilities: ['analysis'],
+        lastActiveTimestamp: 1700000000,
+        tasksCompleted: 3,
+        successRate: 90
+      });
+    });
+
+    it('should decode unregistered agents and unknown tasks as null', () => {
+      const zero = '0x' + '0'.repeat(40);
+      expect(orchestrator.decodeAgent(result(orchestrator, 'getAgent', [[zero, 0, 0, false, [], 0, 0, 0]]))).toBeNull();
+      expect(orchestrator.decodeTask(result(orchestrator, 'getTask', [['', zero, '', 0, 0, 0, [], '', 0]]))).toBeNull();
+    });
+
+    it('should decode the Task struct with its status', () => {
+      const task = orchestrator.decodeTask(result(orchestrator, 'getTask', [
+        ['task-7', agentAddress, 'Summarise', BigInt(500), 1800000000, TaskStatus.UnderReview, ['nlp'], 'Qm123', 66]
+      ]));
+
+      expect(task).toEqual(expect.objectContaining({
+        id: 'task-7',
+        bounty: BigInt(500),
+        deadline: 1800000000,
+        status: TaskStatus.UnderReview,
+        requiredCapabilities: ['nlp'],
+        solutionHash: 'Qm123',
+        consensusThreshold: 66
+      }));
+    });
+
+    it('should decode EvolutionEngine DNA', () => {
+      const dna = evolution.decodeDNA(result(evolution, 'getDNA', [2, [4, 5], ['reasoning'], 80, agentAddress]));
+      expect(dna).toEqual({
+        generation: 2,
+        parentIds: [4, 5],
+        traitKeys: ['reasoning'],
+        fitness: 80,
+        creator: expect.stringMatching(/3e9$/i)
+      });
+    });
+  });
+
+  describe('Reverts', () => {
+    const encodeError = (signature: string, types: string[], values: unknown[]) =>
+      new Interface([`error ${signature}`]).getError(signature.split('(')[0])!.selector +
+        AbiCoder.defaultAbiCoder().encode(types, values).slice(2);
+
+    it('should surface require messages as typed reasons', () => {
+      const error = orchestrator.decodeRevert('registerAgent', encodeError('Error(string)', ['string'], ['Insufficient stake']));
+
+      expect(error).toBeInstanceOf(ContractRevertError);
+      expect(error.reason).toBe(OrchestratorRevertReason.InsufficientStake);
+      expect(error.is(OrchestratorRevertReason.InsufficientStake)).toBe(true);
+      expect(error.message).toBe('SwarmOrchestrator.registerAgent reverted: Insufficient stake');
+    });
+
+    it('should decode custom errors and panics', () => {
+      const custom = orchestrator.decodeRevert(
+        'setReputationOracle',
+        encodeError('OwnableUnauthorizedAccount(address)', ['address'], [agentAddress])
+      );
+      expect(custom).toBeInstanceOf(ContractCustomError);
+      expect((custom as ContractCustomError).errorName).toBe('OwnableUnauthorizedAccount');
+      expect((custom as ContractCustomError).args).toEqual([expect.stringMatching(/3e9$/i)]);
+
+      const panic = evolution.decodeRevert('crossbreed', encodeError('Panic(uint256)', ['uint256'], [0x11]));
+      expect(panic).toBeInstanceOf(ContractPanicError);
+      expect((panic as ContractPanicError).code).toBe(0x11);
+    });
+
+    it('should keep reverts without data', () => {
+      const error = orchestrator.decodeRevert('submitSolution', 'CONTRACT_REVERT_EXECUTED');
+      expect(error).toBeInstanceOf(ContractRevertError);
+      expect(error.reason).toBe('CONTRACT_REVERT_EXECUTED');
+      expect(orchestrator.decodeRevert('submitSolution', '0x').reason).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { PrivateKey } from '@hashgraph/sdk';
+import {
+  generateEncryptionKeyPair,
+  sealEnvelope,
+  openEnvelope,
+  getKeyId
+} from '../../swarm-protocol/src/utils/encryption';
+import { InMemoryTransport } from '../../swarm-protocol/src/transport/InMemoryTransport';
+import { HCSMessageHandler, MessageType, SwarmMessage } from '../../swarm-protocol/src/communication/HCSMessageHandler';
+import { decodeContents } from '../../swarm-protocol/src/transport/SwarmTransport';
+
+describe('Message Encryption Unit Tests', () => {
+  describe('Envelopes', () => {
+    const alice = generateEncryptionKeyPair();
+    const bob = generateEncryptionKeyPair();
+    const eve = generateEncryptionKeyPair();
+
+    it('should round-trip for every recipient', () => {
+      const envelope = sealEnvelope('secret bid: 42 HBAR', [alice.publicKey, bob.publicKey]);
+
+      expect(envelope.recipients.map(r => r.keyId)).toEqual([
+        getKeyId(alice.publicKey),
+        getKeyId(bob.publicKey)
+      ]);
+      expect(openEnvelope(envelope, alice.privateKey)).toBe('secret bid: 42 HBAR');
+      expect(openEnvelope(envelope, bob.privateKey)).toBe('secret bid: 42 HBAR');
+      expect(JSON.stringify(envelope)).not.toContain('42 HBAR');
+    });
+
+    it('should return null for agents that are not recipients', () => {
+      const envelope = sealEnvelope('for bob only', [bob.publicKey]);
+      expect(openEnvelope(envelope, eve.privateKey)).toBeNull();
+    });
+
+    it('should use a fresh nonce and ephemeral key per message', () => {
+      const first = sealEnvelope('same', [bob.publicKey]);
+      const second = sealEnvelope('same', [bob.publicKey]);
+
+      expect(first.nonce).not.toBe(second.nonce);
+      expect(first.ephemeralKey).not.toBe(second.ephemeralKey);
+      expect(first.ciphertext).not.toBe(second.ciphertext);
+    });
+
+    it('should detect tampering with the ciphertext or header', () => {
+      const envelope = sealEnvelope('pay 10', [bob.publicKey, alice.publicKey]);
+
+      const ciphertext = Buffer.from(envelope.ciphertext, 'base64');
+      ciphertext[0] ^= 0xff;
+      expect(() => openEnvelope({ ...envelope, ciphertext: ciphertext.toString('base64') }, bob.privateKey))
+        .toThrow();
+
+      // Dropping another recipient changes the associated data
+      expect(() => openEnvelope({ ...envelope, recipients: envelope.recipients.slice(0, 1) }, bob.privateKey))
+        .toThrow();
+    });
+  });
+
+  describe('HCSMessageHandler', () => {
+    const topicId = '0.0.700';
+    let transport: InMemoryTransport;
+    let handlers: Record<string, HCSMessageHandler>;
+    let received: Record<string, SwarmMessage[]>;
+    const bid = { taskId: 'task-1', agentId: '0.0.1001', estimatedTime: 60000, confidence: 0.9, requestedReward: 1 };
+
+    beforeEach(async () => {
+      transport = new InMemoryTransport();
+      handlers = {};
+      received = {};
+
+      for (const accountId of ['0.0.1001', '0.0.1002', '0.0.1003']) {
+        handlers[accountId] = new HCSMessageHandler(
+          transport,
+          accountId,
+          PrivateKey.generateED25519().toStringDer(),
+          { enabled: true }
+        );
+        received[accountId] = [];
+        await handlers[accountId].subscribeToTopic(topicId, (message) => {
+          if (message.type !== MessageType.KEY_ANNOUNCEMENT) {
+            received[accountId].push(message);
+          }
+        });
+      }
+
+      for (const handler of Object.values(handlers)) {
+        await handler.announcePublicKey(topicId);
+      }
+      await transport.flush();
+    });
+
+    it('should deliver direct messages only to the recipient', async () => {
+      await handlers['0.0.1001'].sendDirectMessage(
+        '0.0.1002',
+        MessageType.AGENT_BID,
+        { ...bid, requestedReward: 42 },
+        topicId
+      );
+      await transport.flush();
+
+      expect(received['0.0.1002'].map(m => m.payload.requestedReward)).toEqual([42]);
+      expect(received['0.0.1003']).toHaveLength(0);
+
+      const onTopic = transport.getMessages(topicId).map(decodeContents);
+      expect(onTopic[onTopic.length - 1]).not.toContain('requestedReward');
+    });
+
+    it('should deliver multi-recipient messages to every listed agent', async () => {
+      await handlers['0.0.1001'].sendEncryptedMessage(
+        ['0.0.1002', '0.0.1003'],
+        MessageType.COLLABORATION_REQUEST,
+        { taskId: 'audit-1', collaborators: ['0.0.1002', '0.0.1003'] },
+        topicId
+      );
+      await transport.flush();
+
+      expect(received['0.0.1002']).toHaveLength(1);
+      expect(received['0.0.1003']).toHaveLength(1);
+      expect(received['0.0.1003'][0].sender).toBe('0.0.1001');
+    });
+
+    it('should refuse to encrypt for agents without a known key', async () => {
+      await expect(handlers['0.0.1001'].sendDirectMessage(
+        '0.0.9999',
+        MessageType.AGENT_BID,
+        bid,
+        topicId
+      )).rejects.toThrow('No encryption key registered for 0.0.9999');
+    });
+  });
+});
@@ -0,0 +1,87 @@
+import { afterEach } from '@jest/globals';
+import {
+  TaskDistributor,
+  TaskDistributorConfig,
+  TaskAssignment,
+  Task,
+  AgentBid,
+  AgentProfile
+} from '../../../swarm-protocol/src/consensus/TaskDistributor';
+import { InMemoryTaskAssigner } from '../../../swarm-protocol/src/consensus/TaskAssigner';
+import { AgentDirectory } from '../../../swarm-protocol/src/consensus/AgentDirectory';
+import { ReputationRegistry } from '../../../swarm-protocol/src/reputation/ReputationRegistry';
+
+export const task = (id: string, overrides: Partial<Task> = {}): Task => ({
+  id,
+  description: `task ${id}`,
+  requiredCapabilities: ['analysis'],
+  bounty: 100,
+  deadline: Date.now() + 60000,
+  requester: '0.0.9000',
+  maxAgents: 1,
+  ...overrides
+});
+
+export const bid = (agentId: string, taskId: string, overrides: Partial<AgentBid> = {}): AgentBid => ({
+  agentId,
+  taskId,
+  estimatedTime: 1000,
+  requestedReward: 40,
+  confidence: 0.9,
+  capabilities: ['analysis'],
+  reputation: 100,
+  ...overrides
+});
+
+export const profile = (accountId: string, overrides: Partial<AgentProfile> = {}): AgentProfile => ({
+  accountId,
+  capabilities: ['analysis'],
+  reputation: 100,
+  activeTaskCount: 0,
+  completedTaskCount: 0,
+  successRate: 1,
+  averageCompletionTime: 1000,
+  ...overrides
+});
+
+export interface DistributorOptions {
+  config?: Partial<TaskDistributorConfig>;
+  reputation?: ReputationRegistry;
+  directory?: AgentDirectory;
+}
+
+/**
+ * Distributors recording assignments in memory, stopped after each test.
+ * Call inside a describe block; bids are collected for 10ms unless the
+ * defaults or options say otherwise.
+ */
+export function distributors(defaults: Partial<TaskDistributorConfig> = {}) {
+  let started: TaskDistributor[] = [];
+
+  afterEach(() => {
+    started.forEach(distributor => distributor.stop());
+    started = [];
+  });
+
+  return (options: DistributorOptions = {}) => {
+    const assigner = new InMemoryTaskAssigner();
+    const distributor = new TaskDistributor(
+      assigner,
+      options.reputation,
+      { bidWindowDuration: 10, ...defaults, ...options.config },
+      options.directory
+    );
+    started.push(distributor);
+    return { distributor, assigner };
+  };
+}
+
+/**
+ * Announce a task, bid on it and wait for the bidding to close
+ */
+export const assign = async (distributor: TaskDistributor, announced: Task, bids: AgentBid[]): Promise<TaskAssignment> => {
+  const assigned = new Promise<TaskAssignment>(resolve => distributor.once('taskAssigned', resolve));
+  await distributor.announceTask(announced);
+  bids.forEach(placed => distributor.submitBid(placed));
+  return assigned;
+};
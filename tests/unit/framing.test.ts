@@ -0,0 +1,187 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { PrivateKey } from '@hashgraph/sdk';
+import { InMemoryTransport } from '../../swarm-protocol/src/transport/InMemoryTransport';
+import { FramedTransport } from '../../swarm-protocol/src/transport/FramedTransport';
+import { TransportMessage, decodeContents } from '../../swarm-protocol/src/transport/SwarmTransport';
+import { InMemoryBlobStore } from '../../swarm-protocol/src/storage/BlobStore';
+import { HCSMessageHandler, MessageType, SwarmMessage } from '../../swarm-protocol/src/communication/HCSMessageHandler';
+
+describe('Message Framing Unit Tests', () => {
+  const topicId = '0.0.800';
+  let now: number;
+  let inner: InMemoryTransport;
+  let framed: FramedTransport;
+  let delivered: TransportMessage[];
+  let errors: any[];
+
+  const large = (size: number, fill = 'x') => JSON.stringify({ body: fill.repeat(size) });
+
+  const framesOf = async (body: string) => {
+    const scratch = new InMemoryTransport();
+    await new FramedTransport(scratch, { maxFrameSize: 512, maxChunks: 50 }).publish(topicId, body);
+    return scratch.getMessages(topicId).map(decodeContents);
+  };
+
+  const settle = async () => {
+    await inner.flush();
+    await framed.drain();
+  };
+
+  const subscribe = (transport: FramedTransport, startTime?: number) => {
+    transport.subscribe(topicId, (message) => delivered.push(message), { startTime });
+  };
+
+  beforeEach(() => {
+    now = 1_700_000_000_000;
+    inner = new InMemoryTransport({ clock: () => now });
+    framed = new FramedTransport(inner, { maxFrameSize: 512, maxChunks: 50, chunkTimeout: 10000 });
+    delivered = [];
+    errors = [];
+    framed.on('frameError', (event) => errors.push(event));
+  });
+
+  it('should publish small messages untouched', async () => {
+    subscribe(framed);
+    await framed.publish(topicId, '{"hello":"world"}');
+    await settle();
+
+    expect(inner.getMessages(topicId).map(decodeContents)).toEqual(['{"hello":"world"}']);
+    expect(delivered.map(decodeContents)).toEqual(['{"hello":"world"}']);
+  });
+
+  it('should split large messages into frames and reassemble them', async () => {
+    subscribe(framed);
+    const body = large(1500);
+    const receipt = await framed.publish(topicId, body);
+    await settle();
+
+    const frames = inner.getMessages(topicId);
+    expect(frames.length).toBeGreaterThan(1);
+    expect(frames.every(frame => frame.contents.length <= 512)).toBe(true);
+
+    expect(delivered).toHaveLength(1);
+    expect(decodeContents(delivered[0])).toBe(body);
+    expect(delivered[0].sequenceNumber).toBe(receipt.sequenceNumber);
+  });
+
+  it('should reassemble interleaved messages in completion order', async () => {
+    subscribe(framed);
+    const a = await framesOf(large(1000, 'a'));
+    const b = await framesOf(large(1000, 'b'));
+
+    for (const frame of [a[0], ...b, ...a.slice(1)]) {
+      await inner.publish(topicId, frame);
+    }
+    await settle();
+
+    expect(delivered.map(message => JSON.parse(decodeContents(message)).body[0])).toEqual(['b', 'a']);
+  });
+
+  it('should drop messages whose chunks fail the integrity check', async () => {
+    subscribe(framed);
+    const frames = await framesOf(large(800));
+
+    const corrupted = JSON.parse(frames[1]);
+    corrupted.data = Buffer.from('tampered').toString('base64');
+    for (const frame of [frames[0], JSON.stringify(corrupted), ...frames.slice(2)]) {
+      await inner.publish(topicId, frame);
+    }
+    await settle();
+
+    expect(delivered).toHaveLength(0);
+    expect(errors.map(error => error.reason)).toEqual(['integrity']);
+  });
+
+  it('should time out incomplete messages by consensus time', async () => {
+    subscribe(framed);
+    const frames = await framesOf(large(1000));
+
+    // The sender stalls after the first chunk
+    await inner.publish(topicId, frames[0]);
+    now += 10001;
+    await inner.publish(topicId, '{"later":true}');
+    await inner.publish(topicId, frames[1]);
+    await settle();
+
+    expect(delivered.map(decodeContents)).toEqual(['{"later":true}']);
+    expect(errors[0]).toEqual(expect.objectContaining({ reason: 'timeout', sequenceNumber: 1 }));
+  });
+
+  it('should refuse messages needing more chunks than allowed', async () => {
+    const strict = new FramedTransport(inner, { maxFrameSize: 512, maxChunks: 2 });
+
+    await expect(strict.publish(topicId, large(2000))).rejects.toThrow('configure a blob store');
+    expect(inner.getMessages(topicId)).toHaveLength(0);
+  });
+
+  it('should store bodies above the blob threshold and publish a reference', async () => {
+    const blobStore = new InMemoryBlobStore();
+    const withBlobs = new FramedTransport(inner, { maxFrameSize: 512, blobStore, blobThreshold: 1000 });
+    withBlobs.subscribe(topicId, (message) => delivered.push(message));
+
+    const body = large(5000);
+    await withBlobs.publish(topicId, body);
+    await inner.flush();
+    await withBlobs.drain();
+
+    const onTopic = inner.getMessages(topicId).map(decodeContents);
+    expect(onTopic).toHaveLength(1);
+    expect(JSON.parse(onTopic[0])).toEqual(expect.objectContaining({ frame: 'swarm-blob', size: body.length }));
+    expect(delivered.map(decodeContents)).toEqual([body]);
+  });
+
+  it('should reject blobs that do not match their reference', async () => {
+    const blobStore = new InMemoryBlobStore();
+    const withBlobs = new FramedTransport(inner, { maxFrameSize: 512, blobStore, blobThreshold: 1000 });
+    withBlobs.on('frameError', (event) => errors.push(event));
+    withBlobs.subscribe(topicId, (message) => delivered.push(message));
+
+    const cid = await blobStore.put(new Uint8Array(Buffer.from('something else')));
+    await inner.publish(topicId, JSON.stringify({ frame: 'swarm-blob', v: 1, cid, size: 14, sha256: '00'.repeat(32) }));
+    await inner.publish(topicId, JSON.stringify({ frame: 'swarm-blob', v: 1, cid: 'missing', size: 1, sha256: '00' }));
+    await inner.flush();
+    await withBlobs.drain();
+
+    expect(delivered).toHaveLength(0);
+    expect(errors.map(error => error.reason)).toEqual(['integrity', 'blob_unavailable']);
+  });
+
+  it('should reassemble messages that straddle a resume point', async () => {
+    await framed.publish(topicId, large(1000));
+    const frames = inner.getMessages(topicId);
+
+    // Resuming after the first frame still collects it
+    subscribe(framed, frames[1].consensusTimestamp);
+    await settle();
+
+    expect(delivered).toHaveLength(1);
+    expect(delivered[0].sequenceNumber).toBe(frames[frames.length - 1].sequenceNumber);
+  });
+
+  it('should carry large signed swarm messages end to end', async () => {
+    now = Date.now(); // Message timestamps must fall inside the replay window
+    const alice = new HCSMessageHandler(framed, '0.0.1001', PrivateKey.generateED25519().toStringDer());
+    const bob = new HCSMessageHandler(framed, '0.0.1002', PrivateKey.generateED25519().toStringDer());
+    const received: SwarmMessage[] = [];
+    await bob.subscribeToTopic(topicId, (message) => {
+      if (message.type === MessageType.CONSENSUS_PROPOSAL) {
+        received.push(message);
+      }
+    });
+
+    await alice.announcePublicKey(topicId);
+    const solution = { report: 'finding '.repeat(400) };
+    await alice.broadcastMessage(MessageType.CONSENSUS_PROPOSAL, {
+      id: 'p-1',
+      taskId: 'task-1',
+      solution,
+      proposer: '0.0.1001',
+      confidence: 0.9,
+      deadline: now + 60000
+    }, topicId);
+    await settle();
+
+    expect(received).toHaveLength(1);
+    expect(received[0].payload.solution).toEqual(solution);
+  });
+});
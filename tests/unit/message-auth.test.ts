@@ -0,0 +1,147 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { PrivateKey } from '@hashgraph/sdk';
+import { InMemoryTransport } from '../../swarm-protocol/src/transport/InMemoryTransport';
+import { HCSMessageHandler, MessageType, SwarmMessage } from '../../swarm-protocol/src/communication/HCSMessageHandler';
+import { createMessage } from '../../swarm-protocol/src/protocol/codec';
+import { AgentKeyRegistry } from '../../swarm-protocol/src/communication/AgentKeyRegistry';
+import { ConsensusEngine } from '../../swarm-protocol/src/consensus/ConsensusEngine';
+
+describe('Message Authentication Unit Tests', () => {
+  const topicId = '0.0.500';
+  let transport: InMemoryTransport;
+  let aliceKey: PrivateKey;
+  let malloryKey: PrivateKey;
+  let registry: AgentKeyRegistry;
+  let alice: HCSMessageHandler;
+  let mallory: HCSMessageHandler;
+  let bob: HCSMessageHandler;
+
+  const bid = { taskId: 'task-1', agentId: '0.0.1666', estimatedTime: 60000, confidence: 0.9, requestedReward: 1 };
+
+  const collect = async (handler: HCSMessageHandler) => {
+    const received: SwarmMessage[] = [];
+    const rejected: { reason: string; message: SwarmMessage }[] = [];
+    await handler.subscribeToTopic(topicId, (message) => received.push(message));
+    handler.on('messageRejected', (event) => rejected.push(event));
+    return { received, rejected };
+  };
+
+  beforeEach(() => {
+    transport = new InMemoryTransport();
+    aliceKey = PrivateKey.generateED25519();
+    malloryKey = PrivateKey.generateECDSA();
+
+    registry = new AgentKeyRegistry();
+    registry.register('0.0.1001', aliceKey.publicKey, 'contract');
+
+    alice = new HCSMessageHandler(transport, '0.0.1001', aliceKey.toStringDer());
+    mallory = new HCSMessageHandler(transport, '0.0.1666', malloryKey.toStringDer());
+    bob = new HCSMessageHandler(transport, '0.0.1002', PrivateKey.generateED25519().toStringDer(), undefined, registry);
+  });
+
+  describe('HCSMessageHandler', () => {
+    it('should accept messages signed by the registered sender key', async () => {
+      const { received, rejected } = await collect(bob);
+
+      await alice.broadcastMessage(MessageType.CONSENSUS_VOTE, { proposalId: 'p-1', support: true }, topicId);
+      await transport.flush();
+
+      expect(received).toHaveLength(1);
+      expect(received[0].sender).toBe('0.0.1001');
+      expect(rejected).toHaveLength(0);
+    });
+
+    it('should reject messages spoofing another sender', async () => {
+      const { received, rejected } = await collect(bob);
+
+      const forged = createMessage(
+        MessageType.CONSENSUS_VOTE,
+        '0.0.1001',
+        { proposalId: 'p-1', support: false },
+        { id: 'forged-1' }
+      );
+      await mallory.publishMessage(topicId, forged);
+      await transport.flush();
+
+      expect(received).toHaveLength(0);
+      expect(rejected).toEqual([expect.objectContaining({ reason: 'invalid_signature' })]);
+    });
+
+    it('should reject tampered payloads', async () => {
+      const { received, rejected } = await collect(bob);
+
+      const message = createMessage(
+        MessageType.CONSENSUS_VOTE,
+        '0.0.1001',
+        { proposalId: 'p-1', support: true },
+        { id: 'vote-1' }
+      );
+      await alice.publishMessage(topicId, message);
+      const tampered = { ...message, id: 'vote-2', payload: { proposalId: 'p-1', support: false } };
+      await transport.publish(topicId, JSON.stringify(tampered));
+      await transport.flush();
+
+      expect(received.map(m => m.payload.support)).toEqual([true]);
+      expect(rejected.map(r => r.reason)).toEqual(['invalid_signature']);
+    });
+
+    it('should reject unknown and unsigned senders', async () => {
+      const { received, rejected } = await collect(bob);
+
+      await mallory.broadcastMessage(MessageType.AGENT_BID, bid, topicId);
+      await transport.publish(topicId, JSON.stringify(
+        createMessage(MessageType.AGENT_BID, '0.0.1001', bid, { id: 'unsigned' })
+      ));
+      await transport.flush();
+
+      expect(received).toHaveLength(0);
+      expect(rejected.map(r => r.reason)).toEqual(['unknown_sender', 'missing_signature']);
+    });
+
+    it('should learn keys from self-signed announcements for unknown agents', async () => {
+      const { received } = await collect(bob);
+
+      await mallory.announcePublicKey(topicId);
+      await mallory.broadcastMessage(MessageType.HEARTBEAT, {}, topicId);
+      await transport.flush();
+
+      expect(registry.getRecord('0.0.1666')?.source).toBe('announcement');
+      expect(received.map(m => m.type)).toEqual([
+        MessageType.KEY_ANNOUNCEMENT,
+        MessageType.HEARTBEAT
+      ]);
+    });
+
+    it('should not let announcements replace a known key', async () => {
+      const { rejected } = await collect(bob);
+      const impostor = new HCSMessageHandler(transport, '0.0.1001', malloryKey.toStringDer());
+
+      await impostor.announcePublicKey(topicId);
+      await transport.flush();
+
+      expect(registry.getPublicKey('0.0.1001')?.toStringDer()).toBe(aliceKey.publicKey.toStringDer());
+      expect(rejected.map(r => r.reason)).toEqual(['invalid_signature']);
+    });
+  });
+
+  describe('ConsensusEngine', () => {
+    it('should drop proposals not signed by the proposer', async () => {
+      const verifier = new ConsensusEngine(transport, topicId, { keyRegistry: registry });
+      const honest = new ConsensusEngine(transport, topicId, { signingKey: aliceKey.toStringDer() });
+      const spoofing = new ConsensusEngine(transport, topicId, { signingKey: malloryKey.toStringDer() });
+
+      const rejected: any[] = [];
+      verifier.on('messageRejected', (event) => rejected.push(event));
+
+      const honestId = await honest.proposeSolution('task-1', { answer: 42 }, '0.0.1001');
+      const spoofedId = await spoofing.proposeSolution('task-1', { answer: 0 }, '0.0.1001');
+      await transport.flush();
+
+      expect(verifier.getProposal(honestId)).toBeDefined();
+      expect(verifier.getProposal(spoofedId)).toBeUndefined();
+      expect(rejected.map(r => r.reason)).toEqual(['invalid_signature']);
+
+      [verifier, honest, spoofing].forEach(engine => engine.shutdown());
+    });
+  });
+});
@@ -0,0 +1,166 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import { Client, TopicMessageQuery } from '@hashgraph/sdk';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { InMemoryTransport } from '../../swarm-protocol/src/transport/InMemoryTransport';
+import { HederaTransport } from '../../swarm-protocol/src/transport/HederaTransport';
+import { MessageProcessor } from '../../swarm-protocol/src/communication/MessageProcessor';
+import { FileCheckpointStore, InMemoryCheckpointStore } from '../../swarm-protocol/src/communication/CheckpointStore';
+
+describe('MessageProcessor Unit Tests', () => {
+  const topicId = '0.0.800';
+  let now: number;
+  let transport: InMemoryTransport;
+  let tmpDir: string;
+
+  const settle = async (processor: MessageProcessor) => {
+    await transport.flush();
+    await processor.drain();
+  };
+
+  const publish = (body: object) => transport.publish(topicId, JSON.stringify(body));
+
+  beforeEach(async () => {
+    now = 1_700_000_000_000;
+    transport = new InMemoryTransport({ clock: () => now });
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'swarm-checkpoints-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should reject repeated message ids inside the replay window', async () => {
+    const processor = new MessageProcessor(transport, { consumerId: 'agent-1' });
+    const handled: string[] = [];
+    const rejected: any[] = [];
+    processor.on('messageRejected', (event) => rejected.push(event));
+    await processor.subscribe(topicId, (content) => { handled.push(JSON.parse(content).id); });
+
+    await publish({ id: 'bid-1', timestamp: now });
+    await publish({ id: 'bid-1', timestamp: now });
+    await publish({ id: 'bid-2', timestamp: now });
+    await settle(processor);
+
+    expect(handled).toEqual(['bid-1', 'bid-2']);
+    expect(rejected).toEqual([expect.objectContaining({ reason: 'replayed', sequenceNumber: 2 })]);
+  });
+
+  it('should reject messages outside the timestamp window', async () => {
+    const processor = new MessageProcessor(transport, {
+      consumerId: 'agent-1',
+      replayWindow: 60000,
+      maxClockSkew: 5000
+    });
+    const rejected: string[] = [];
+    processor.on('messageRejected', (event) => rejected.push(event.reason));
+    await processor.subscribe(topicId, () => undefined);
+
+    await publish({ id: 'old', timestamp: now - 120000 });
+    await publish({ id: 'ahead', timestamp: now + 60000 });
+    await publish({ id: 'fresh', timestamp: now - 1000 });
+    await settle(processor);
+
+    expect(rejected).toEqual(['stale', 'future']);
+    expect(processor.getCheckpoint(topicId)?.sequenceNumber).toBe(3);
+  });
+
+  it('should tell identical messages without ids apart by sequence number', async () => {
+    const processor = new MessageProcessor(transport, { consumerId: 'agent-1' });
+    const handled: number[] = [];
+    await processor.subscribe(topicId, (content, message) => { handled.push(message.sequenceNumber); });
+
+    await publish({ type: 'HEARTBEAT', status: 'idle', timestamp: now });
+    await publish({ type: 'HEARTBEAT', status: 'idle', timestamp: now });
+    await settle(processor);
+
+    expect(handled).toEqual([1, 2]);
+    expect(processor.getCheckpoint(topicId)!.recentIds).toEqual([]);
+  });
+
+  it('should keep processing a topic after a checkpoint fails to save', async () => {
+    const checkpointStore = new InMemoryCheckpointStore();
+    const save = jest.spyOn(checkpointStore, 'save').mockRejectedValueOnce(new Error('disk full'));
+    const processor = new MessageProcessor(transport, { consumerId: 'agent-1', checkpointStore });
+    const handled: string[] = [];
+    const errors: any[] = [];
+    processor.on('messageError', (event) => errors.push(event));
+    await processor.subscribe(topicId, (content) => { handled.push(JSON.parse(content).id); });
+
+    await publish({ id: 'm1', timestamp: now });
+    await publish({ id: 'm2', timestamp: now });
+    await settle(processor);
+
+    expect(handled).toEqual(['m1', 'm2']);
+    expect(errors).toEqual([expect.objectContaining({ sequenceNumber: 1, error: new Error('disk full') })]);
+    expect(save).toHaveBeenCalledTimes(2);
+    expect((await checkpointStore.load('agent-1', topicId))!.sequenceNumber).toBe(2);
+  });
+
+  it('should resume from a persisted checkpoint after restart', async () => {
+    const checkpointPath = path.join(tmpDir, 'checkpoints.json');
+
+    const first = new MessageProcessor(transport, {
+      consumerId: 'agent-1',
+      checkpointStore: new FileCheckpointStore(checkpointPath)
+    });
+    const firstRun: string[] = [];
+    const subscription = await first.subscribe(topicId, (content) => { firstRun.push(JSON.parse(content).id); });
+
+    await publish({ id: 'task-1', timestamp: now });
+    await publish({ id: 'task-2', timestamp: now });
+    await settle(first);
+    subscription.unsubscribe();
+
+    // Published while the agent was down
+    now += 1000;
+    await publish({ id: 'task-3', timestamp: now });
+
+    const restarted = new MessageProcessor(transport, {
+      consumerId: 'agent-1',
+      checkpointStore: new FileCheckpointStore(checkpointPath)
+    });
+    const secondRun: string[] = [];
+    await restarted.subscribe(topicId, (content) => { secondRun.push(JSON.parse(content).id); });
+    await settle(restarted);
+
+    expect(firstRun).toEqual(['task-1', 'task-2']);
+    expect(secondRun).toEqual(['task-3']);
+  });
+
+  it('should resume a Hedera subscription from the checkpoint time in milliseconds', async () => {
+    const queries: TopicMessageQuery[] = [];
+    const subscribe = jest.spyOn(TopicMessageQuery.prototype, 'subscribe')
+      .mockImplementation(function (this: TopicMessageQuery) {
+        queries.push(this);
+        return { unsubscribe: () => {} } as any;
+      });
+
+    try {
+      const checkpointStore = new InMemoryCheckpointStore();
+      await checkpointStore.save({ consumerId: 'agent-1', topicId, sequenceNumber: 7, consensusTimestamp: now, recentIds: [] });
+      const processor = new MessageProcessor(new HederaTransport({} as Client), { consumerId: 'agent-1', checkpointStore });
+      await processor.subscribe(topicId, () => undefined);
+
+      expect(queries[0].startTime!.toDate().getTime()).toBe(now);
+    } finally {
+      subscribe.mockRestore();
+    }
+  });
+
+  it('should keep checkpoints separate per consumer', async () => {
+    const checkpointStore = new FileCheckpointStore(path.join(tmpDir, 'shared.json'));
+    const agent = new MessageProcessor(transport, { consumerId: 'agent', checkpointStore });
+    await agent.subscribe(topicId, () => undefined);
+    await publish({ id: 'm1', timestamp: now });
+    await settle(agent);
+
+    const engine = new MessageProcessor(transport, { consumerId: 'engine', checkpointStore });
+    const handled: string[] = [];
+    await engine.subscribe(topicId, (content) => { handled.push(JSON.parse(content).id); });
+    await settle(engine);
+
+    expect(handled).toEqual(['m1']);
+  });
+});
@@ -0,0 +1,216 @@
+import { describe, it, expect } from '@jest/globals';
+import { PrivateKey } from '@hashgraph/sdk';
+import {
+  MessageType,
+  PROTOCOL_NAME,
+  PROTOCOL_VERSION,
+  SwarmMessage
+} from '../../swarm-protocol/src/protocol/messages';
+import {
+  ProtocolError,
+  createMessage,
+  decodeMessage,
+  encodeMessage
+} from '../../swarm-protocol/src/protocol/codec';
+import { signJson } from '../../swarm-protocol/src/utils/signatures';
+import { InMemoryTransport } from '../../swarm-protocol/src/transport/InMemoryTransport';
+import { HCSMessageHandler } from '../../swarm-protocol/src/communication/HCSMessageHandler';
+import { AgentKeyRegistry } from '../../swarm-protocol/src/communication/AgentKeyRegistry';
+import { ConsensusEngine } from '../../swarm-protocol/src/consensus/ConsensusEngine';
+
+describe('Swarm Protocol Unit Tests', () => {
+  const bid = {
+    taskId: 'task-1',
+    agentId: '0.0.1001',
+    estimatedTime: 60000,
+    confidence: 0.8,
+    requestedReward: 5
+  };
+
+  describe('Envelopes', () => {
+    it('should round-trip current messages', () => {
+      const message = createMessage(MessageType.AGENT_BID, '0.0.1001', bid);
+      const decoded = decodeMessage(encodeMessage(message));
+
+      expect(message).toMatchObject({ protocol: PROTOCOL_NAME, version: PROTOCOL_VERSION });
+      expect(decoded).toEqual(expect.objectContaining({ ok: true, version: PROTOCOL_VERSION, message }));
+    });
+
+    it('should keep unknown payload fields in place', () => {
+      const raw = JSON.stringify(createMessage(MessageType.AGENT_BID, '0.0.1001', bid))
+        .replace('"taskId"', '"note":"added later","taskId"');
+      const decoded = decodeMessage(raw);
+
+      expect(decoded.ok && JSON.stringify(decoded.message.payload)).toBe(JSON.stringify({ note: 'added later', ...bid }));
+    });
+
+    it('should refuse to encode invalid payloads', () => {
+      const message = createMessage(MessageType.AGENT_BID, '0.0.1001', { ...bid, confidence: 3 });
+
+      expect(() => encodeMessage(message)).toThrow(ProtocolError);
+      expect(() => encodeMessage(message)).toThrow('Invalid AGENT_BID payload: confidence');
+    });
+
+    it('should report why a message cannot be decoded', () => {
+      const valid = createMessage(MessageType.HEARTBEAT, '0.0.1001', {});
+      const reasons = [
+        'not json',
+        JSON.stringify([1, 2]),
+        JSON.stringify({ ...valid, type: 'TELEPORT' }),
+        JSON.stringify({ ...valid, version: PROTOCOL_VERSION + 1 }),
+        JSON.stringify({ ...valid, type: MessageType.CONSENSUS_VOTE, payload: { support: 'yes' } }),
+        JSON.stringify({ ...valid, sender: undefined })
+      ].map(content => {
+        const decoded = decodeMessage(content);
+        return decoded.ok ? 'ok' : decoded.reason;
+      });
+
+      expect(reasons).toEqual([
+        'malformed',
+        'malformed',
+        'unknown_type',
+        'unsupported_version',
+        'invalid_payload',
+        'malformed'
+      ]);
+    });
+
+    it('should report content an upgrade cannot handle instead of throwing', () => {
+      const decoded = decodeMessage({ type: MessageType.HEARTBEAT, sender: '0.0.1001', payload: {}, nonce: BigInt(1) });
+
+      expect(decoded).toEqual(expect.objectContaining({ ok: false, reason: 'malformed', error: expect.stringContaining('BigInt') }));
+    });
+  });
+
+  describe('Legacy upgrades', () => {
+    const decodeLegacy = (data: object): SwarmMessage => {
+      const decoded = decodeMessage(JSON.stringify(data));
+      if (!decoded.ok) {
+        throw new Error(decoded.error);
+      }
+      expect(decoded.version).toBe(0);
+      return decoded.message;
+    };
+
+    it('should upgrade consensus engine proposals and votes', () => {
+      const proposal = decodeLegacy({
+        type: 'CONSENSUS_PROPOSAL',
+        proposal: { id: 'p-1', taskId: 'task-1', solution: 42, proposer: '0.0.1001', confidence: 0.7, deadline: 1000 },
+        timestamp: 500
+      });
+      const vote = decodeLegacy({
+        type: 'CONSENSUS_VOTE',
+        proposalId: 'p-1',
+        vote: { voter: '0.0.1002', support: true },
+        timestamp: 600
+      });
+
+      expect(proposal).toMatchObject({ sender: '0.0.1001', timestamp: 500, payload: { id: 'p-1', solution: 42 } });
+      expect(vote).toMatchObject({ sender: '0.0.1002', payload: { proposalId: 'p-1', support: true } });
+    });
+
+    it('should upgrade knowledge graph updates with ISO timestamps', () => {
+      const message = decodeLegacy({
+        type: 'ADD_NODE',
+        node: { id: 'node-fact-1', type: 'fact', content: {} },
+        agentId: 'kg-agent',
+        timestamp: '2024-01-01T00:00:00.000Z'
+      });
+
+      expect(message.type).toBe(MessageType.KNOWLEDGE_NODE_ADDED);
+      expect(message.sender).toBe('kg-agent');
+      expect(message.timestamp).toBe(Date.parse('2024-01-01T00:00:00.000Z'));
+    });
+
+    it('should upgrade flat task announcements from the scripts', () => {
+      const message = decodeLegacy({
+        type: 'TASK_ANNOUNCEMENT',
+        taskId: 'TEST-1',
+        title: 'Test Task',
+        description: 'Analyze data',
+        requester: '0.0.9',
+        reward: 10,
+        capabilities: ['DATA_ANALYSIS'],
+        deadline: '2024-01-01T01:00:00.000Z',
+        timestamp: '2024-01-01T00:00:00.000Z'
+      });
+
+      expect(message.payload).toEqual(expect.objectContaining({
+        id: 'TEST-1',
+        title: 'Test Task',
+        bounty: 10,
+        requiredCapabilities: ['DATA_ANALYSIS'],
+        deadline: Date.parse('2024-01-01T01:00:00.000Z')
+      }));
+    });
+
+    it('should give id-less messages a stable id', () => {
+      const legacy = { type: 'AGENT_BID', sender: '0.0.1001', timestamp: 1, payload: bid };
+
+      expect(decodeLegacy(legacy).id).toMatch(/^legacy-/);
+      expect(decodeLegacy(legacy).id).toBe(decodeLegacy({ ...legacy }).id);
+    });
+  });
+
+  describe('Cross-package compatibility', () => {
+    it('should let message handlers read signed consensus engine proposals', async () => {
+      const transport = new InMemoryTransport();
+      const topicId = '0.0.900';
+      const aliceKey = PrivateKey.generateED25519();
+
+      const registry = new AgentKeyRegistry();
+      registry.register('0.0.1001', aliceKey.publicKey, 'contract');
+
+      const handler = new HCSMessageHandler(transport, '0.0.1002', PrivateKey.generateED25519().toStringDer(), undefined, registry);
+      const received: SwarmMessage[] = [];
+      await handler.subscribeToTopic(topicId, (message) => received.push(message));
+
+      const engine = new ConsensusEngine(transport, topicId, { signingKey: aliceKey.toStringDer() });
+      const proposalId = await engine.proposeSolution('task-1', { answer: 42 }, '0.0.1001', 0.9);
+      await transport.flush();
+      engine.shutdown();
+
+      expect(received).toEqual([expect.objectContaining({
+        type: MessageType.CONSENSUS_PROPOSAL,
+        sender: '0.0.1001',
+        payload: expect.objectContaining({ id: proposalId, solution: { answer: 42 } })
+      })]);
+    });
+
+    it('should still verify legacy signed consensus votes', async () => {
+      const transport = new InMemoryTransport();
+      const topicId = '0.0.901';
+      const proposerKey = PrivateKey.generateED25519();
+      const voterKey = PrivateKey.generateED25519();
+
+      const registry = new AgentKeyRegistry();
+      registry.register('0.0.1001', proposerKey.publicKey, 'contract');
+      registry.register('0.0.1002', voterKey.publicKey, 'contract');
+
+      const proposer = new ConsensusEngine(transport, topicId, { signingKey: proposerKey.toStringDer() });
+      const verifier = new ConsensusEngine(transport, topicId, { keyRegistry: registry });
+      const votes: any[] = [];
+      const rejected: any[] = [];
+      verifier.on('voteReceived', (event) => votes.push(event));
+      verifier.on('messageRejected', (event) => rejected.push(event));
+
+      const proposalId = await proposer.proposeSolution('task-1', 'answer', '0.0.1001');
+      const legacyVote = {
+        type: 'CONSENSUS_VOTE',
+        proposalId,
+        vote: { voter: '0.0.1002', support: true },
+        timestamp: Date.now()
+      };
+      await transport.publish(topicId, JSON.stringify(signJson(voterKey, legacyVote)));
+      await transport.publish(topicId, JSON.stringify(signJson(voterKey, {
+        ...legacyVote,
+        vote: { voter: '0.0.1001', support: false }
+      })));
+      await transport.flush();
+
+      expect(votes).toEqual([expect.objectContaining({ proposalId, support: true })]);
+      expect(rejected.map(r => r.reason)).toEqual(['invalid_signature']);
+      [proposer, verifier].forEach(engine => engine.shutdown());
+    });
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect, afterEach } from '@jest/globals';
+import { EventEmitter } from 'events';
+import { ReputationRegistry } from '../../swarm-protocol/src/reputation/ReputationRegistry';
+import { InMemoryReputationContract, ReputationScoreUpdate } from '../../swarm-protocol/src/reputation/ReputationContract';
+import { ReputationSync } from '../../swarm-protocol/src/reputation/ReputationSync';
+
+describe('Reputation Sync Unit Tests', () => {
+  let syncs: ReputationSync[] = [];
+
+  afterEach(() => {
+    syncs.forEach(sync => sync.stop());
+    syncs = [];
+  });
+
+  const setup = (oracle: boolean, batchSize = 2) => {
+    const registry = new ReputationRegistry();
+    const contract = new InMemoryReputationContract();
+    for (const accountId of ['0.0.1001', '0.0.1002', '0.0.1003']) {
+      contract.registerAgent(accountId, ['analysis']);
+    }
+
+    const batches: ReputationScoreUpdate[][] = [];
+    const update = contract.updateReputations.bind(contract);
+    contract.updateReputations = async (updates) => {
+      batches.push(updates);
+      return update(updates);
+    };
+
+    const sync = new ReputationSync(registry, contract, { oracle, batchSize, reconcileInterval: 0 });
+    syncs.push(sync);
+    sync.start();
+    return { registry, contract, sync, batches };
+  };
+
+  it('should publish local reputation changes in batches', async () => {
+    const { registry, contract, sync, batches } = setup(true);
+    const engine = new EventEmitter();
+    sync.attach(engine);
+
+    for (const [accountId, points] of [['0.0.1001', 5], ['0.0.1001', 5], ['0.0.1002', -2], ['0.0.1003', 10]] as const) {
+      registry.adjust(accountId, points, 1000);
+      engine.emit('reputationUpdated', { accountId });
+    }
+    await sync.flush();
+
+    expect(batches).toEqual([
+      [{ accountId: '0.0.1001', score: 110 }, { accountId: '0.0.1002', score: 98 }],
+      [{ accountId: '0.0.1003', score: 110 }]
+    ]);
+    expect((await contract.getAgent('0.0.1002'))!.reputationScore).toBe(98);
+
+    // Nothing left to publish
+    engine.emit('reputationUpdated', { accountId: '0.0.1001' });
+    expect(await sync.flush()).toBe(0);
+  });
+
+  it('should seed unknown agents from the chain and correct drift', async () => {
+    const { registry, contract, sync } = setup(true, 10);
+    registry.adjust('0.0.1001', 20, 1000);
+    const drifts: any[] = [];
+    sync.on('driftDetected', (drift) => drifts.push(drift));
+
+    const loaded = await sync.loadAgents(['0.0.1001', '0.0.1002', '0.0.9999']);
+    expect(loaded.map(reputation => reputation.accountId)).toEqual(['0.0.1002']);
+    expect(registry.getScore('0.0.1001')).toBe(120);
+
+    // Someone else moved an agent's score on-chain
+    await contract.updateReputations([{ accountId: '0.0.1002', score: 150 }]);
+    expect(drifts).toEqual([{ accountId: '0.0.1002', localScore: 100, onChainScore: 150 }]);
+
+    const reconciled = await sync.reconcile();
+    expect(reconciled).toEqual([
+      { accountId: '0.0.1001', localScore: 120, onChainScore: 100 },
+      { accountId: '0.0.1002', localScore: 100, onChainScore: 150 }
+    ]);
+    expect((await contract.getAgent('0.0.1001'))!.reputationScore).toBe(120);
+    expect((await contract.getAgent('0.0.1002'))!.reputationScore).toBe(100);
+  });
+
+  it('should only report drift when not the oracle', async () => {
+    const { registry, contract, sync, batches } = setup(false);
+    registry.adjust('0.0.1001', 20, 1000);
+
+    expect(await sync.reconcile(['0.0.1001'])).toHaveLength(1);
+    expect(batches).toEqual([]);
+    expect((await contract.getAgent('0.0.1001'))!.reputationScore).toBe(100);
+  });
+
+  it('should stop publishing for agents deactivated by slashing', async () => {
+    const { registry, contract, sync, batches } = setup(true);
+    const slashed = new Promise<any>(resolve => sync.once('agentSlashed', resolve));
+
+    registry.adjust('0.0.1001', -10, 1000);
+    sync.queue('0.0.1001');
+    contract.slashAgent('0.0.1001', BigInt(5 * 10 ** 8), 'malicious');
+
+    expect(await slashed).toEqual(expect.objectContaining({ accountId: '0.0.1001', reason: 'malicious', isActive: false }));
+    expect(await sync.flush()).toBe(0);
+    expect(batches).toEqual([]);
+  });
+});
@@ -0,0 +1,156 @@
+import { describe, it, expect } from '@jest/globals';
+import { ConsensusLedger, LedgerEntry } from '../../swarm-protocol/src/consensus/ConsensusLedger';
+import {
+  BayesianModel,
+  BetaModel,
+  EloModel,
+  FixedDeltaModel
+} from '../../swarm-protocol/src/reputation/ReputationModel';
+import { ReputationRegistry } from '../../swarm-protocol/src/reputation/ReputationRegistry';
+import { MessageType } from '../../swarm-protocol/src/protocol/messages';
+import { createMessage } from '../../swarm-protocol/src/protocol/codec';
+import * as fixtures from './fixtures/distributor';
+
+describe('Reputation Unit Tests', () => {
+  describe('Models', () => {
+    it('should keep the fixed deltas within the score range', () => {
+      const model = new FixedDeltaModel();
+      const vote = (success: boolean) => ({ kind: 'vote' as const, success });
+
+      expect(model.score(model.update(model.initialState(), vote(true)))).toBe(105);
+      expect(model.score(model.update(model.initialState(), vote(false)))).toBe(98);
+      expect(model.score(model.update(model.initialState(), { kind: 'proposal', success: true }))).toBe(110);
+      expect(model.score(model.update(model.fromScore(198), vote(true)))).toBe(200);
+    });
+
+    it('should give diminishing Elo gains to highly rated agents', () => {
+      const model = new EloModel();
+      const success = { kind: 'vote' as const, success: true };
+      const once = model.update(model.initialState(), success);
+      const twice = model.update(once, success);
+
+      expect(model.score(once)).toBe(108);
+      expect(model.score(twice) - model.score(once)).toBeLessThan(8);
+    });
+
+    it('should count evidence in the Beta model', () => {
+      const model = new BetaModel();
+      let state = model.initialState();
+      for (let i = 0; i < 3; i++) {
+        state = model.update(state, { kind: 'vote', success: true });
+      }
+
+      expect(model.score(state)).toBe(160); // 4 of 5 with the uniform prior
+      const slashed = model.adjust(state, -40);
+      expect(model.score(slashed)).toBeCloseTo(120);
+      expect(slashed.alpha + slashed.beta).toBeCloseTo(5);
+    });
+
+    it('should rank unproven agents cautiously in the Bayesian model', () => {
+      const model = new BayesianModel();
+      const state = model.update(model.initialState(), { kind: 'vote', success: true });
+
+      expect(model.score(model.initialState())).toBe(50);
+      expect(state.mean).toBeCloseTo(120);
+      expect(model.score(state)).toBeGreaterThan(70);
+    });
+  });
+
+  describe('ReputationRegistry', () => {
+    it('should decay inactive agents towards the baseline in consensus time', () => {
+      const registry = new ReputationRegistry({ halfLife: 1000 });
+      registry.adjust('alice', 50, 0);
+
+      expect(registry.getScore('alice')).toBe(150);
+      expect(registry.getScore('alice', 1000)).toBe(125);
+
+      const update = registry.record('alice', { kind: 'vote', success: true }, 2000);
+      expect(update).toEqual({ accountId: 'alice', previousScore: 112.5, score: 117.5, delta: 5 });
+      expect(registry.get('alice')!.lastActive).toBe(2000);
+    });
+
+    it('should detect agents that vote together even when wrong', () => {
+      const registry = new ReputationRegistry();
+      const detected: string[][][] = [];
+
+      for (let i = 0; i < 10; i++) {
+        const ringSupport = i % 2 === 0;
+        detected.push(registry.recordVotes([
+          ...['h1', 'h2', 'h3', 'h4'].map(voter => ({ voter, support: true })),
+          ...['r1', 'r2', 'r3'].map(voter => ({ voter, support: ringSupport }))
+        ], true));
+      }
+
+      expect(detected.slice(0, 9).every(rings => rings.length === 0)).toBe(true);
+      expect(detected[9]).toEqual([['r1', 'r2', 'r3']]);
+      expect(registry.getRing('h1')).toBeUndefined();
+      expect(registry.getWeight('r1')).toBeCloseTo(100 / 3);
+      expect(registry.getWeight('h1')).toBe(100);
+
+      // A loaded score keeps the voting record, so the ring stays detected
+      registry.load([{ accountId: 'r1', score: 150, tasksCompleted: 0, consensusParticipation: 0 }]);
+      expect(registry.getScore('r1')).toBe(150);
+      expect(registry.get('r1')!.voting!.cast).toBe(10);
+      expect(registry.getRing('r1')).toEqual(['r1', 'r2', 'r3']);
+    });
+  });
+
+  describe('Capabilities', () => {
+    const create = fixtures.distributors();
+    const rules = { votingThreshold: 0.66, minParticipants: 2, quorum: 0.5, reputationWeighting: true };
+
+    const log = () => {
+      let sequenceNumber = 0;
+      const entry = (type: MessageType, sender: string, payload: any, at: number): LedgerEntry => ({
+        message: createMessage(type, sender, payload, { timestamp: at }),
+        sequenceNumber: ++sequenceNumber,
+        consensusTimestamp: at
+      });
+      return {
+        proposal: (id: string, proposer: string, capabilities: string[], at: number) =>
+          entry(MessageType.CONSENSUS_PROPOSAL, proposer, {
+            id, taskId: `task-${id}`, solution: id, proposer, confidence: 0.5, deadline: at + 1000, capabilities
+          }, at),
+        vote: (proposalId: string, voter: string, support: boolean, at: number) =>
+          entry(MessageType.CONSENSUS_VOTE, voter, { proposalId, support }, at),
+        tick: (at: number) => entry(MessageType.HEARTBEAT, 'clock', {}, at)
+      };
+    };
+
+    it('should score agents per capability and rank bids by the shared registry', async () => {
+      const entries = log();
+      const registry = new ReputationRegistry();
+      const ledger = new ConsensusLedger(rules, [], registry);
+
+      // alice's rust solution is accepted, her python one rejected
+      ledger.apply(entries.proposal('p-1', 'alice', ['rust'], 1000));
+      ledger.apply(entries.vote('p-1', 'bob', true, 1100));
+      ledger.apply(entries.proposal('p-2', 'alice', ['python'], 1200));
+      ledger.apply(entries.vote('p-2', 'bob', false, 1300));
+      ledger.apply(entries.vote('p-2', 'carol', false, 1300));
+      ledger.apply(entries.tick(2201));
+
+      expect(registry.getScore('alice')).toBe(113);
+      expect(registry.getScore('alice', undefined, ['rust'])).toBe(115);
+      expect(registry.getScore('alice', undefined, ['python'])).toBe(98);
+      expect(ledger.getProposal('p-2')!.capabilities).toEqual(['python']);
+
+      // Claimed reputation is ignored in favour of the registry's python score
+      const { distributor } = create({ reputation: registry });
+      const bid = (agentId: string) => fixtures.bid(agentId, 'task-3', {
+        requestedReward: 50,
+        confidence: 0.8,
+        capabilities: ['python'],
+        reputation: agentId === 'alice' ? 200 : 100
+      });
+      const assignment = await fixtures.assign(
+        distributor,
+        fixtures.task('task-3', { description: 'python work', requiredCapabilities: ['python'], requester: 'erin' }),
+        [bid('alice'), bid('dave')]
+      );
+
+      expect(assignment.assignedAgents).toEqual(['dave']);
+      expect(distributor.getTask('task-3')!.ranking).toEqual(['dave', 'alice']);
+    });
+  });
+});
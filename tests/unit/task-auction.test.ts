@@ -0,0 +1,151 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import { TaskAssignment, Task } from '../../swarm-protocol/src/consensus/TaskDistributor';
+import { clearAuction, computeBidCommitment, dutchPrice } from '../../swarm-protocol/src/consensus/TaskAuction';
+import { ReputationRegistry } from '../../swarm-protocol/src/reputation/ReputationRegistry';
+import { TaskStatus } from '../../swarm-protocol/src/contracts/ContractCodec';
+import * as fixtures from './fixtures/distributor';
+
+describe('Task Auction Unit Tests', () => {
+  const create = fixtures.distributors({ bidWindowDuration: 200, revealPeriod: 100 });
+
+  const setup = () => {
+    const registry = new ReputationRegistry();
+    return { ...create({ reputation: registry }), registry };
+  };
+
+  const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+  const task = (overrides: Partial<Task> = {}): Task => fixtures.task('t-1', {
+    description: 'translate the manual',
+    requiredCapabilities: ['translation'],
+    ...overrides
+  });
+
+  const bid = (agentId: string, requestedReward: number) => fixtures.bid(agentId, 't-1', {
+    requestedReward,
+    confidence: 0.8,
+    capabilities: ['translation']
+  });
+
+  it('should pay first-price winners their ask and Vickrey winners the first losing ask', () => {
+    const bids = [bid('0.0.1001', 60), bid('0.0.1002', 40), bid('0.0.1003', 50)];
+
+    const firstPrice = clearAuction({ type: 'first-price', reservePrice: 80 }, bids, 2);
+    expect(firstPrice.rewards).toEqual({ '0.0.1002': 40, '0.0.1003': 50 });
+    expect(firstPrice.ranking).toEqual(['0.0.1002', '0.0.1003', '0.0.1001']);
+
+    expect(clearAuction({ type: 'vickrey', reservePrice: 80 }, bids, 1).rewards).toEqual({ '0.0.1002': 50 });
+    expect(clearAuction({ type: 'vickrey', reservePrice: 80 }, bids, 3).rewards).toEqual({
+      '0.0.1002': 80, '0.0.1003': 80, '0.0.1001': 80
+    });
+  });
+
+  it('should lower the Dutch reward each interval down to the floor', () => {
+    const terms = { type: 'dutch' as const, reservePrice: 100, priceStep: 10, priceInterval: 1000, floorPrice: 65, startedAt: 0 };
+
+    expect(dutchPrice(terms, 999)).toBe(100);
+    expect(dutchPrice(terms, 2500)).toBe(80);
+    expect(dutchPrice(terms, 60000)).toBe(65);
+  });
+
+  it('should run a sealed Vickrey auction and penalise bids never revealed', async () => {
+    const { distributor, registry } = setup();
+    await distributor.announceTask(task({ auction: { type: 'vickrey' } }));
+    const terms = distributor.getTask('t-1')!.task.auction!;
+    expect(terms).toEqual(expect.objectContaining({ reservePrice: 100, revealDeadline: terms.commitDeadline! + 100 }));
+    expect(() => distributor.submitBid(bid('0.0.1001', 40))).toThrow('sealed bids');
+
+    const bids = [bid('0.0.1001', 40), bid('0.0.1002', 55), bid('0.0.1003', 30)];
+    bids.forEach(b => distributor.commitBid({ taskId: 't-1', agentId: b.agentId, commitment: computeBidCommitment(b, `salt-${b.agentId}`) }));
+    expect(() => distributor.revealBid(bids[0], 'salt-0.0.1001')).toThrow('before bidding closes');
+
+    const assigned = new Promise<TaskAssignment>(resolve => distributor.once('taskAssigned', resolve));
+    await sleep(terms.commitDeadline! - Date.now() + 5);
+    expect(() => distributor.commitBid({ taskId: 't-1', agentId: '0.0.1004', commitment: 'late' })).toThrow('Bidding has closed');
+    expect(() => distributor.revealBid({ ...bids[0], requestedReward: 20 }, 'salt-0.0.1001')).toThrow('does not match');
+    distributor.revealBid(bids[0], 'salt-0.0.1001');
+    distributor.revealBid(bids[1], 'salt-0.0.1002');
+
+    const assignment = await assigned;
+    expect(assignment).toEqual(expect.objectContaining({
+      assignedAgents: ['0.0.1001'],
+      rewards: { '0.0.1001': 55 },
+      totalReward: 55
+    }));
+    expect(registry.getScore('0.0.1003')).toBe(95);
+    expect(registry.getScore('0.0.1002')).toBe(100);
+  });
+
+  it('should wait for capacity when every revealed bidder is busy', async () => {
+    const { distributor } = setup();
+    await distributor.announceTask(task({ auction: { type: 'first-price' } }));
+    distributor.updateAgentProfile(fixtures.profile('0.0.1001', { capabilities: ['translation'], activeTaskCount: 1, maxConcurrentTasks: 1 }));
+    const terms = distributor.getTask('t-1')!.task.auction!;
+    const offer = bid('0.0.1001', 40);
+    distributor.commitBid({ taskId: 't-1', agentId: '0.0.1001', commitment: computeBidCommitment(offer, 'salt') });
+    await sleep(terms.commitDeadline! - Date.now() + 5);
+    distributor.revealBid(offer, 'salt');
+
+    const blocked = new Promise<any>(resolve => distributor.once('taskAssignmentFailed', resolve));
+    expect(await blocked).toEqual({ taskId: 't-1', reason: 'Every bidder is at its concurrency limit' });
+    expect(distributor.getTaskStatus('t-1')).toBe(TaskStatus.Open);
+
+    const assigned = new Promise<TaskAssignment>(resolve => distributor.once('taskAssigned', resolve));
+    distributor.updateAgentProfile(fixtures.profile('0.0.1001', { capabilities: ['translation'], maxConcurrentTasks: 1 }));
+    expect((await assigned).assignedAgents).toEqual(['0.0.1001']);
+  });
+
+  it('should cancel a sealed auction that no one reveals', async () => {
+    const { distributor } = setup();
+    await distributor.announceTask(task({ auction: { type: 'first-price' } }));
+    distributor.commitBid({ taskId: 't-1', agentId: '0.0.1001', commitment: 'abc' });
+
+    const cancelled = new Promise<any>(resolve => distributor.once('taskCancelled', resolve));
+    expect(await cancelled).toEqual({ taskId: 't-1', reason: 'Sealed auction found no agents' });
+  });
+
+  it('should refuse open bids above the reserve price', async () => {
+    const { distributor } = setup();
+    await distributor.announceTask(task({ auction: { type: 'open', reservePrice: 50 } }));
+
+    expect(() => distributor.submitBid(bid('0.0.1001', 60))).toThrow('reserve price of 50');
+    distributor.submitBid(bid('0.0.1002', 50));
+  });
+
+  it('should assign a Dutch auction to the first agent to accept the offer', async () => {
+    const { distributor } = setup();
+    await distributor.announceTask(task({ bounty: 200, maxAgents: 2, auction: { type: 'dutch', priceInterval: 1 } }));
+    expect(distributor.getTask('t-1')!.task.auction).toEqual(expect.objectContaining({
+      reservePrice: 100,
+      priceStep: 5,
+      floorPrice: 50
+    }));
+    expect(() => distributor.submitBid(bid('0.0.1001', 120))).toThrow('reserve price of 100');
+
+    // Dropping 5 every millisecond, the offer is at its floor by now
+    await sleep(20);
+    expect(() => distributor.submitBid(bid('0.0.1001', 70))).toThrow('offered reward of 50');
+    const assigned = new Promise<TaskAssignment>(resolve => distributor.once('taskAssigned', resolve));
+    distributor.submitBid(bid('0.0.1002', 45));
+    expect(() => distributor.submitBid(bid('0.0.1003', 40))).toThrow('Offer already taken');
+
+    expect(await assigned).toEqual(expect.objectContaining({ assignedAgents: ['0.0.1002'], rewards: { '0.0.1002': 50 } }));
+    expect(distributor.getTaskStatus('t-1')).toBe(TaskStatus.InProgress);
+  });
+
+  it('should reopen a Dutch offer when the assignment fails', async () => {
+    const { distributor, assigner } = setup();
+    jest.spyOn(assigner, 'assignTask').mockRejectedValueOnce(new Error('Agent not active'));
+    await distributor.announceTask(task({ auction: { type: 'dutch', priceInterval: 1000 } }));
+
+    const failed = new Promise<any>(resolve => distributor.once('taskAssignmentFailed', resolve));
+    distributor.submitBid(bid('0.0.1001', 100));
+    expect(await failed).toEqual({ taskId: 't-1', reason: 'Agent not active' });
+    await sleep(0);
+    expect(distributor.getTask('t-1')!.bids).toEqual([]);
+
+    const assigned = new Promise<TaskAssignment>(resolve => distributor.once('taskAssigned', resolve));
+    distributor.submitBid(bid('0.0.1002', 100));
+    expect((await assigned).assignedAgents).toEqual(['0.0.1002']);
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect } from '@jest/globals';
+import { TaskDistributor, Task } from '../../swarm-protocol/src/consensus/TaskDistributor';
+import { TaskGraph, SubTask } from '../../swarm-protocol/src/consensus/TaskGraph';
+import { TaskStatus } from '../../swarm-protocol/src/contracts/ContractCodec';
+import * as fixtures from './fixtures/distributor';
+
+describe('Task Graph Unit Tests', () => {
+  const create = fixtures.distributors();
+  const setup = () => create().distributor;
+
+  // The phases of a research session, as in the research agent example
+  const research = (subtasks: SubTask[] = [
+    { id: 'literature', description: 'review the literature', requiredCapabilities: ['research'] },
+    { id: 'data', description: 'analyse datasets', requiredCapabilities: ['analysis'], dependsOn: ['literature'], bountyShare: 2 },
+    { id: 'hypotheses', description: 'generate hypotheses', requiredCapabilities: ['research'], dependsOn: ['literature'] },
+    { id: 'synthesis', description: 'synthesise findings', requiredCapabilities: ['writing'], dependsOn: ['data', 'hypotheses'] }
+  ]): Task => ({
+    id: 'r-1',
+    description: 'research quantum error correction',
+    requiredCapabilities: [],
+    bounty: 1001,
+    deadline: Date.now() + 60000,
+    requester: '0.0.9000',
+    subtasks
+  });
+
+  // Have one agent bid on, solve and pass review of a sub-task
+  const solve = async (distributor: TaskDistributor, taskId: string, agentId: string, solutionHash: string) => {
+    const task = distributor.getTask(taskId)!.task;
+    const assigned = new Promise(resolve => distributor.once('taskAssigned', resolve));
+    distributor.submitBid(fixtures.bid(agentId, taskId, { requestedReward: 10, capabilities: task.requiredCapabilities }));
+    await assigned;
+    await distributor.handleTaskCompletion(taskId, agentId, true, solutionHash);
+    distributor.completeTask(taskId);
+  };
+
+  const announced = (distributor: TaskDistributor) => distributor.getSubtasks('r-1').map(record => record.task.id);
+
+  it('should order sub-tasks by dependency and split the bounty by share', () => {
+    const graph = new TaskGraph(research());
+
+    expect(graph.order).toEqual(['literature', 'data', 'hypotheses', 'synthesis']);
+    expect(graph.order.map(id => graph.bountyOf(id))).toEqual([200, 400, 200, 201]);
+    expect(graph.takeReady().map(task => task.id)).toEqual(['r-1/literature']);
+    expect(graph.takeReady()).toEqual([]);
+  });
+
+  it('should reject malformed graphs', () => {
+    const step = (id: string, dependsOn: string[] = []): SubTask => ({ id, description: id, requiredCapabilities: [], dependsOn });
+
+    expect(() => new TaskGraph(research([step('a', ['b']), step('b', ['a'])]))).toThrow('dependency cycle');
+    expect(() => new TaskGraph(research([step('a', ['missing'])]))).toThrow('unknown sub-task missing');
+    expect(() => new TaskGraph(research([step('a'), step('a')]))).toThrow('Duplicate sub-task');
+  });
+
+  it('should announce sub-tasks as their dependencies complete and pass their outputs on', async () => {
+    const distributor = setup();
+    const completed = new Promise<any>(resolve => distributor.once('taskGraphCompleted', resolve));
+    await distributor.announceTask(research());
+
+    expect(distributor.getTaskStatus('r-1')).toBe(TaskStatus.InProgress);
+    expect(announced(distributor)).toEqual(['r-1/literature']);
+    expect(() => distributor.submitBid(fixtures.bid('0.0.1001', 'r-1'))).toThrow('not open');
+
+    await solve(distributor, 'r-1/literature', '0.0.1001', 'QmPapers');
+    expect(announced(distributor)).toEqual(['r-1/literature', 'r-1/data', 'r-1/hypotheses']);
+    expect(distributor.getTask('r-1/data')!.task).toEqual(expect.objectContaining({
+      parentId: 'r-1',
+      bounty: 400,
+      inputs: { literature: ['QmPapers'] }
+    }));
+
+    await solve(distributor, 'r-1/data', '0.0.1002', 'QmData');
+    expect(announced(distributor)).not.toContain('r-1/synthesis');
+    await solve(distributor, 'r-1/hypotheses', '0.0.1001', 'QmIdeas');
+    expect(distributor.getTask('r-1/synthesis')!.task.inputs).toEqual({ data: ['QmData'], hypotheses: ['QmIdeas'] });
+    await solve(distributor, 'r-1/synthesis', '0.0.1003', 'QmReport');
+
+    const outputs = { literature: ['QmPapers'], data: ['QmData'], hypotheses: ['QmIdeas'], synthesis: ['QmReport'] };
+    expect(await completed).toEqual({ taskId: 'r-1', outputs });
+    expect(distributor.getTask('r-1')).toEqual(expect.objectContaining({ status: TaskStatus.UnderReview, outputs }));
+  });
+
+  it('should cancel the parent and pending sub-tasks when a sub-task is cancelled', async () => {
+    const distributor = setup();
+    await distributor.announceTask(research());
+    await solve(distributor, 'r-1/literature', '0.0.1001', 'QmPapers');
+
+    await distributor.cancelTask('r-1/data', 'no datasets available');
+
+    expect(distributor.getTask('r-1')!.history.slice(-1)[0]).toEqual(
+      expect.objectContaining({ status: TaskStatus.Cancelled, reason: 'Sub-task data cancelled' })
+    );
+    expect(distributor.getTaskStatus('r-1/literature')).toBe(TaskStatus.Completed);
+    expect(distributor.getTaskStatus('r-1/hypotheses')).toBe(TaskStatus.Cancelled);
+    expect(announced(distributor)).not.toContain('r-1/synthesis');
+  });
+
+  it('should cancel sub-tasks with their parent when it expires', async () => {
+    const distributor = setup();
+    await distributor.announceTask(research());
+
+    const expired = distributor.expireOverdueTasks(Date.now() + 120000);
+
+    expect(expired.map(record => record.task.id)).toEqual(['r-1']);
+    expect(distributor.getTask('r-1/literature')!.history.slice(-1)[0].reason).toBe('Parent task cancelled: Deadline passed');
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect } from '@jest/globals';
+import { TaskDistributor, Task } from '../../swarm-protocol/src/consensus/TaskDistributor';
+import { InvalidTaskTransitionError, TaskLifecycle } from '../../swarm-protocol/src/consensus/TaskLifecycle';
+import { TaskStatus } from '../../swarm-protocol/src/contracts/ContractCodec';
+import * as fixtures from './fixtures/distributor';
+
+describe('Task Lifecycle Unit Tests', () => {
+  const create = fixtures.distributors();
+  const setup = () => create().distributor;
+
+  const task = (id: string, overrides: Partial<Task> = {}): Task => fixtures.task(id, {
+    description: 'summarise papers',
+    requiredCapabilities: ['nlp'],
+    minAgents: 2,
+    maxAgents: 2,
+    ...overrides
+  });
+
+  const bid = (agentId: string, taskId: string) => fixtures.bid(agentId, taskId, { capabilities: ['nlp'] });
+
+  const assign = (distributor: TaskDistributor, taskId: string, agents: string[]) =>
+    fixtures.assign(distributor, task(taskId), agents.map(agentId => bid(agentId, taskId)));
+
+  it('should only allow the orchestrator transitions', () => {
+    const lifecycle = new TaskLifecycle();
+    lifecycle.open(task('t-1'), 0);
+
+    expect(() => lifecycle.transition('t-1', TaskStatus.Completed, 1)).toThrow(InvalidTaskTransitionError);
+    lifecycle.transition('t-1', TaskStatus.InProgress, 1);
+    lifecycle.transition('t-1', TaskStatus.UnderReview, 2);
+    lifecycle.transition('t-1', TaskStatus.Disputed, 3, 'wrong citation');
+    lifecycle.transition('t-1', TaskStatus.Completed, 4);
+    expect(() => lifecycle.transition('t-1', TaskStatus.Cancelled, 5)).toThrow(InvalidTaskTransitionError);
+    expect(lifecycle.get('t-1')!.history.map(entry => entry.status)).toEqual([
+      TaskStatus.Open, TaskStatus.InProgress, TaskStatus.UnderReview, TaskStatus.Disputed, TaskStatus.Completed
+    ]);
+  });
+
+  it('should go under review once every assigned agent has reported', async () => {
+    const { distributor, assigner } = create();
+    await assign(distributor, 't-1', ['0.0.1001', '0.0.1002']);
+    expect(distributor.getTaskStatus('t-1')).toBe(TaskStatus.InProgress);
+    expect(assigner.getAssignment('t-1')).toEqual(['0.0.1001', '0.0.1002']);
+
+    await distributor.handleTaskCompletion('t-1', '0.0.1001', true, 'QmA');
+    expect(distributor.getTaskStatus('t-1')).toBe(TaskStatus.InProgress);
+    await expect(distributor.handleTaskCompletion('t-1', '0.0.1001', true)).rejects.toThrow('already reported');
+    await expect(distributor.handleTaskCompletion('t-1', '0.0.1003', true)).rejects.toThrow('not assigned');
+
+    await distributor.handleTaskCompletion('t-1', '0.0.1002', false);
+    expect(distributor.getTaskStatus('t-1')).toBe(TaskStatus.UnderReview);
+    expect(distributor.getTask('t-1')!.completions['0.0.1001']).toEqual(
+      expect.objectContaining({ success: true, solutionHash: 'QmA' })
+    );
+
+    distributor.completeTask('t-1', 'Consensus reached');
+    expect(distributor.getTaskHistory('t-1').map(entry => TaskStatus[entry.status])).toEqual([
+      'Open', 'InProgress', 'UnderReview', 'Completed'
+    ]);
+    expect(distributor.getAssignment('t-1')!.assignedAgents).toEqual(['0.0.1001', '0.0.1002']);
+    expect(() => distributor.submitBid(bid('0.0.1003', 't-1'))).toThrow('not open');
+  });
+
+  it('should cancel open and in-progress tasks past their deadline', async () => {
+    const distributor = setup();
+    distributor.updateAgentProfile(fixtures.profile('0.0.1001', { capabilities: ['nlp'] }));
+    await assign(distributor, 't-1', ['0.0.1001', '0.0.1002']);
+    await distributor.announceTask(task('t-2', { deadline: Date.now() + 120000 }));
+    expect(distributor.getAgentWorkload('0.0.1001')).toBe(1);
+
+    const expired = distributor.expireOverdueTasks(Date.now() + 90000);
+
+    expect(expired.map(record => record.task.id)).toEqual(['t-1']);
+    expect(distributor.getTask('t-1')).toEqual(expect.objectContaining({ status: TaskStatus.Cancelled, expired: true }));
+    expect(distributor.getAgentWorkload('0.0.1001')).toBe(0);
+    await expect(distributor.handleTaskCompletion('t-1', '0.0.1001', true)).rejects.toThrow('Cancelled');
+    expect(distributor.getTaskStatus('t-2')).toBe(TaskStatus.Open);
+  });
+
+  it('should query tasks by status, agent and requester', async () => {
+    const distributor = setup();
+    await assign(distributor, 't-1', ['0.0.1001', '0.0.1002']);
+    await distributor.announceTask(task('t-2', { requester: '0.0.9001' }));
+    await distributor.cancelTask('t-2', 'no longer needed');
+
+    expect(distributor.queryTasks({ agentId: '0.0.1002' }).map(record => record.task.id)).toEqual(['t-1']);
+    expect(distributor.queryTasks({ status: TaskStatus.Cancelled, requester: '0.0.9001' })).toHaveLength(1);
+    expect(distributor.getQueueStatus()).toEqual({
+      pendingTasks: 0, activeTasks: 1, totalBids: 0, queuedTasks: 0, queue: [], estimatedWait: undefined
+    });
+  });
+});
@@ -0,0 +1,146 @@
+import { describe, it, expect } from '@jest/globals';
+import { TaskDistributor, TaskDistributorConfig } from '../../swarm-protocol/src/consensus/TaskDistributor';
+import { ReputationRegistry } from '../../swarm-protocol/src/reputation/ReputationRegistry';
+import { TaskStatus } from '../../swarm-protocol/src/contracts/ContractCodec';
+import * as fixtures from './fixtures/distributor';
+
+describe('Task Liveness Unit Tests', () => {
+  const MINUTE = 60 * 1000;
+  const create = fixtures.distributors({ heartbeatTimeout: 5 * MINUTE });
+
+  const setup = (config: Partial<TaskDistributorConfig> = {}) => {
+    const registry = new ReputationRegistry();
+    return { ...create({ config, reputation: registry }), registry };
+  };
+
+  // Earlier agents bid with more confidence, so they rank higher
+  const assign = async (distributor: TaskDistributor, taskId: string, bidders: string[], maxAgents = 1) => {
+    await fixtures.assign(
+      distributor,
+      fixtures.task(taskId, {
+        description: 'label images',
+        requiredCapabilities: ['vision'],
+        deadline: Date.now() + 60 * MINUTE,
+        minAgents: maxAgents,
+        maxAgents
+      }),
+      bidders.map((agentId, rank) => fixtures.bid(agentId, taskId, {
+        estimatedTime: 10 * MINUTE,
+        requestedReward: 50,
+        confidence: 0.9 - rank * 0.1,
+        capabilities: ['vision']
+      }))
+    );
+    return Date.now();
+  };
+
+  it('should hand a silent agent\'s place to the next-best bidder and penalise it', async () => {
+    const { distributor, registry, assigner } = setup();
+    const start = await assign(distributor, 't-1', ['0.0.1001', '0.0.1002', '0.0.1003']);
+    expect(distributor.getAssignment('t-1')!.assignedAgents).toEqual(['0.0.1001']);
+
+    const reassigned: any[] = [];
+    distributor.on('taskReassigned', (event) => reassigned.push(event));
+    distributor.recordHeartbeat('0.0.1001', [{ taskId: 't-1' }], start + MINUTE);
+
+    expect(distributor.checkLiveness(start + 5 * MINUTE)).toEqual([]);
+    expect(distributor.checkLiveness(start + 7 * MINUTE)).toEqual([
+      { taskId: 't-1', agentId: '0.0.1001', reason: 'No heartbeat' }
+    ]);
+
+    expect(reassigned).toEqual([{ taskId: 't-1', from: '0.0.1001', to: '0.0.1002', reason: 'No heartbeat' }]);
+    expect(registry.getScore('0.0.1001')).toBe(90);
+    expect(assigner.getAssignment('t-1')).toEqual(['0.0.1002']);
+    await expect(distributor.handleTaskCompletion('t-1', '0.0.1001', true)).rejects.toThrow('not assigned');
+
+    await distributor.handleTaskCompletion('t-1', '0.0.1002', true, 'QmLabels');
+    expect(distributor.getTaskStatus('t-1')).toBe(TaskStatus.UnderReview);
+    expect(distributor.getTask('t-1')!.abandonments).toEqual([
+      expect.objectContaining({ agentId: '0.0.1001', reason: 'No heartbeat', replacedBy: '0.0.1002' })
+    ]);
+  });
+
+  it('should drop agents that miss a progress checkpoint or overrun their estimate', async () => {
+    const { distributor } = setup({ heartbeatTimeout: 0, progressCheckpoints: [0.25, 0.5] });
+    const start = await assign(distributor, 't-1', ['0.0.1001', '0.0.1002', '0.0.1003'], 2);
+
+    // Both have 20 minutes; checkpoints fall at 5 and 10 minutes
+    distributor.recordHeartbeat('0.0.1001', [{ taskId: 't-1', progress: 0.2 }], start + 4 * MINUTE);
+    distributor.recordHeartbeat('0.0.1002', [{ taskId: 't-1', progress: 0.2 }], start + 4 * MINUTE);
+    distributor.recordHeartbeat('0.0.1002', [{ taskId: 't-1', progress: 0.5 }], start + 9 * MINUTE);
+
+    const dropped = distributor.checkLiveness(start + 11 * MINUTE);
+    expect(dropped).toEqual([{ taskId: 't-1', agentId: '0.0.1001', reason: 'Missed progress checkpoint' }]);
+    expect(distributor.getTask('t-1')!.agents['0.0.1002'].progress).toBe(0.5);
+    expect(distributor.getAssignment('t-1')!.assignedAgents).toEqual(['0.0.1002', '0.0.1003']);
+
+    // The replacement gets its own 20 minutes from when it took over
+    distributor.recordHeartbeat('0.0.1003', [{ taskId: 't-1', progress: 0.3 }], start + 17 * MINUTE);
+
+    // 0.0.1002 reported at the second checkpoint but never finishes
+    expect(distributor.checkLiveness(start + 21 * MINUTE)).toEqual([
+      { taskId: 't-1', agentId: '0.0.1002', reason: 'Missed deadline' }
+    ]);
+  });
+
+  it('should only hand a place to bidders with capacity that keep the team\'s capabilities', async () => {
+    const { distributor } = setup();
+    const bidder = (agentId: string, capabilities: string[], confidence: number) => fixtures.bid(agentId, 't-1', {
+      estimatedTime: 10 * MINUTE, requestedReward: 20, confidence, capabilities
+    });
+    await fixtures.assign(
+      distributor,
+      fixtures.task('t-1', { requiredCapabilities: ['vision', 'nlp'], deadline: Date.now() + 60 * MINUTE, minAgents: 2, maxAgents: 2 }),
+      [bidder('0.0.1001', ['vision'], 0.9), bidder('0.0.1002', ['nlp'], 0.8), bidder('0.0.1003', ['nlp'], 0.7),
+        bidder('0.0.1004', ['vision'], 0.6), bidder('0.0.1005', ['nlp'], 0.5)]
+    );
+    const start = Date.now();
+    expect(distributor.getAssignment('t-1')!.assignedAgents).toEqual(['0.0.1001', '0.0.1002']);
+
+    // 0.0.1003 took on other work meanwhile
+    distributor.updateAgentProfile(fixtures.profile('0.0.1003', { capabilities: ['nlp'], activeTaskCount: 1, maxConcurrentTasks: 1 }));
+    distributor.recordHeartbeat('0.0.1001', [{ taskId: 't-1' }], start + 4 * MINUTE);
+
+    // 0.0.1004 is ranked higher but brings vision, which the team still has
+    expect(distributor.checkLiveness(start + 6 * MINUTE)).toEqual([
+      { taskId: 't-1', agentId: '0.0.1002', reason: 'No heartbeat' }
+    ]);
+    expect(distributor.getAssignment('t-1')!.assignedAgents).toEqual(['0.0.1001', '0.0.1005']);
+  });
+
+  it('should take back and report replacements the contract refuses', async () => {
+    const { distributor, assigner } = setup();
+    await assign(distributor, 't-1', ['0.0.1001', '0.0.1002', '0.0.1003'], 2);
+    distributor.updateAgentProfile(fixtures.profile('0.0.1003', { capabilities: ['vision'] }));
+    const failed = new Promise<any>(resolve => distributor.once('taskAssignmentFailed', resolve));
+    assigner.replaceAgent = async () => { throw new Error('Agent not active'); };
+
+    distributor.recordHeartbeat('0.0.1002', [{ taskId: 't-1' }], Date.now() + 2 * MINUTE);
+    distributor.checkLiveness(Date.now() + 6 * MINUTE);
+    expect(distributor.getAssignment('t-1')!.assignedAgents).toEqual(['0.0.1002', '0.0.1003']);
+
+    expect(await failed).toEqual({ taskId: 't-1', reason: 'Agent not active' });
+    expect(distributor.getAssignment('t-1')).toEqual(expect.objectContaining({
+      assignedAgents: ['0.0.1002'],
+      rewards: { '0.0.1002': 50 },
+      totalReward: 50
+    }));
+    expect(distributor.getTask('t-1')!.abandonments).toEqual([
+      expect.not.objectContaining({ replacedBy: expect.anything() })
+    ]);
+    expect(distributor.getAgentWorkload('0.0.1003')).toBe(0);
+    expect(distributor.getTaskStatus('t-1')).toBe(TaskStatus.InProgress);
+  });
+
+  it('should cancel the task once every agent has abandoned it', async () => {
+    const { distributor } = setup();
+    const start = await assign(distributor, 't-1', ['0.0.1001', '0.0.1002']);
+    const cancelled = new Promise<any>(resolve => distributor.once('taskCancelled', resolve));
+
+    distributor.checkLiveness(start + 6 * MINUTE);
+    distributor.checkLiveness(start + 12 * MINUTE);
+
+    expect(await cancelled).toEqual({ taskId: 't-1', reason: 'Abandoned by every assigned agent' });
+    expect(distributor.getTask('t-1')!.abandonments.map(abandonment => abandonment.agentId)).toEqual(['0.0.1001', '0.0.1002']);
+  });
+});
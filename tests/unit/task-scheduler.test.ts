@@ -0,0 +1,97 @@
+import { describe, it, expect } from '@jest/globals';
+import { TaskAssignment, Task, AgentProfile } from '../../swarm-protocol/src/consensus/TaskDistributor';
+import { TaskQueue } from '../../swarm-protocol/src/consensus/TaskScheduler';
+import { TaskStatus } from '../../swarm-protocol/src/contracts/ContractCodec';
+import { task, bid, distributors, profile as agentProfile } from './fixtures/distributor';
+
+describe('Task Scheduler Unit Tests', () => {
+  const create = distributors();
+  const setup = (bidWindowDuration: number = 50) => create({ config: { bidWindowDuration } }).distributor;
+
+  const profile = (accountId: string, overrides: Partial<AgentProfile> = {}) =>
+    agentProfile(accountId, { maxConcurrentTasks: 1, ...overrides });
+
+  it('should queue by priority and deadline and estimate waits from the release pace', () => {
+    const queue = new TaskQueue();
+    queue.enqueue(task('low', { priority: 'low' }), 0);
+    queue.enqueue(task('late', { priority: 'high', deadline: 2000 }), 0);
+    queue.enqueue(task('soon', { priority: 'high', deadline: 1000 }), 0);
+    queue.enqueue(task('critical', { priority: 'critical' }), 0);
+
+    expect(queue.list().map(entry => entry.taskId)).toEqual(['critical', 'soon', 'late', 'low']);
+    expect(queue.estimateWait()).toBeUndefined();
+
+    expect(queue.release(1000)!.id).toBe('critical');
+    expect(queue.release(2000)!.id).toBe('soon');
+    expect(queue.estimateWait()).toBe(3000);
+    expect(queue.get('low')).toEqual(expect.objectContaining({ position: 1, estimatedWait: 2000 }));
+  });
+
+  it('should close bidding sooner for critical tasks', async () => {
+    const distributor = setup(400);
+    const assigned: string[] = [];
+    distributor.on('taskAssigned', (assignment: TaskAssignment) => assigned.push(assignment.taskId));
+    const both = new Promise(resolve => distributor.on('taskAssigned', () => assigned.length === 2 && resolve(undefined)));
+
+    await distributor.announceTask(task('t-1'));
+    await distributor.announceTask(task('t-2', { priority: 'critical' }));
+    distributor.submitBid(bid('0.0.1001', 't-1'));
+    distributor.submitBid(bid('0.0.1002', 't-2'));
+
+    await both;
+    expect(assigned).toEqual(['t-2', 't-1']);
+  });
+
+  it('should queue tasks while agents are saturated and announce the most urgent as capacity frees', async () => {
+    const distributor = setup();
+    distributor.updateAgentProfile(profile('0.0.1001'));
+    const queued: string[] = [];
+    distributor.on('taskQueued', entry => queued.push(entry.taskId));
+
+    await distributor.announceTask(task('t-1'));
+    await distributor.announceTask(task('t-2', { priority: 'low' }));
+    await distributor.announceTask(task('t-3', { priority: 'critical' }));
+
+    expect(queued).toEqual(['t-2', 't-3']);
+    expect(distributor.getQueueStatus()).toEqual(expect.objectContaining({
+      pendingTasks: 1,
+      queuedTasks: 2,
+      queue: [expect.objectContaining({ taskId: 't-3', position: 0 }), expect.objectContaining({ taskId: 't-2', position: 1 })]
+    }));
+    expect(() => distributor.submitBid(bid('0.0.1001', 't-2'))).toThrow('queued');
+
+    const announced = new Promise<Task>(resolve => distributor.once('taskAnnounced', resolve));
+    await distributor.cancelTask('t-1', 'no longer needed');
+    expect((await announced).id).toBe('t-3');
+
+    const status = distributor.getQueueStatus();
+    expect(status.queue.map(entry => entry.taskId)).toEqual(['t-2']);
+    expect(status.estimatedWait).toEqual(expect.any(Number));
+
+    await distributor.cancelTask('t-2', 'no longer needed');
+    expect(distributor.getQueueStatus().queuedTasks).toBe(0);
+    expect(distributor.getTaskStatus('t-2')).toBe(TaskStatus.Cancelled);
+  });
+
+  it('should skip bidders at their limit and retry once one has capacity', async () => {
+    const distributor = setup();
+    distributor.updateAgentProfile(profile('0.0.1001', { activeTaskCount: 1 }));
+    distributor.updateAgentProfile(profile('0.0.1002'));
+    distributor.updateAgentProfile(profile('0.0.1003'));
+
+    const assigned = new Promise<TaskAssignment>(resolve => distributor.once('taskAssigned', resolve));
+    await distributor.announceTask(task('t-1'));
+    distributor.submitBid(bid('0.0.1001', 't-1'));
+    distributor.submitBid(bid('0.0.1002', 't-1'));
+    expect((await assigned).assignedAgents).toEqual(['0.0.1002']);
+
+    const failed = new Promise<any>(resolve => distributor.once('taskAssignmentFailed', resolve));
+    await distributor.announceTask(task('t-2'));
+    distributor.submitBid(bid('0.0.1001', 't-2'));
+    expect(await failed).toEqual({ taskId: 't-2', reason: 'Every bidder is at its concurrency limit' });
+
+    const retried = new Promise<TaskAssignment>(resolve => distributor.once('taskAssigned', resolve));
+    distributor.updateAgentProfile(profile('0.0.1001'));
+    expect(await retried).toEqual(expect.objectContaining({ taskId: 't-2', assignedAgents: ['0.0.1001'] }));
+  });
+});
@@ -0,0 +1,162 @@
+import { describe, it, expect } from '@jest/globals';
+import { ConsensusProposal } from '../../swarm-protocol/src/consensus/ConsensusLedger';
+import { splitReward } from '../../swarm-protocol/src/settlement/RewardSplit';
+import { InMemorySettlementLedger } from '../../swarm-protocol/src/settlement/SettlementLedger';
+import { TaskSettlement, verdictFromProposal } from '../../swarm-protocol/src/settlement/TaskSettlement';
+import { TaskStatus } from '../../swarm-protocol/src/contracts/ContractCodec';
+import * as fixtures from './fixtures/distributor';
+
+describe('Task Settlement Unit Tests', () => {
+  const create = fixtures.distributors();
+
+  const HBAR = BigInt(10 ** 8);
+  const token = { type: 'token' as const, tokenId: '0.0.7777' };
+
+  const participant = (agentId: string, reward: number, overrides = {}) => ({
+    agentId,
+    reward,
+    contribution: 1,
+    succeeded: true,
+    agreed: true,
+    ...overrides
+  });
+
+  // A team of three asking 30, 30 and 20 of a bounty of 100, done and accepted
+  const completedTask = async () => {
+    const { distributor } = create();
+    const bid = (agentId: string, requestedReward: number) =>
+      fixtures.bid(agentId, 't-1', { requestedReward, capabilities: ['nlp'] });
+    await fixtures.assign(
+      distributor,
+      fixtures.task('t-1', { description: 'summarise papers', requiredCapabilities: ['nlp'], minAgents: 3, maxAgents: 3 }),
+      [bid('0.0.1001', 30), bid('0.0.1002', 30), bid('0.0.1003', 20)]
+    );
+
+    await distributor.handleTaskCompletion('t-1', '0.0.1001', true, 'hash-a');
+    await distributor.handleTaskCompletion('t-1', '0.0.1002', true, 'hash-b');
+    await distributor.handleTaskCompletion('t-1', '0.0.1003', false);
+    return distributor.completeTask('t-1', 'Consensus reached');
+  };
+
+  it('should pay agreed rewards by contribution and refund the rest', () => {
+    const split = splitReward(BigInt(1000), 100, [
+      participant('0.0.1001', 40),
+      participant('0.0.1002', 30, { contribution: 0.5 }),
+      participant('0.0.1003', 20, { succeeded: false }),
+      participant('0.0.1004', 10, { agreed: false })
+    ]);
+
+    expect(split.shares.map(share => share.amount)).toEqual([BigInt(400), BigInt(150), BigInt(0), BigInt(0)]);
+    expect(split.shares.map(share => share.reason)).toEqual([
+      'Delivered 100% of the work for its reward of 40',
+      'Delivered 50% of the work for its reward of 30',
+      'Did not complete its part',
+      'Opposed the accepted solution'
+    ]);
+    expect(split.refund).toBe(BigInt(450));
+  });
+
+  it('should scale rewards down when they exceed the bounty', () => {
+    const split = splitReward(BigInt(100), 100, [participant('0.0.1001', 90), participant('0.0.1002', 60)]);
+
+    expect(split.shares.map(share => share.amount)).toEqual([BigInt(60), BigInt(40)]);
+    expect(split.shares[0].reason).toContain('scaled down to fit the bounty');
+    expect(split.refund).toBe(BigInt(0));
+  });
+
+  it('should set the split, finalize an HBAR bounty and keep a receipt', async () => {
+    const record = await completedTask();
+    const ledger = new InMemorySettlementLedger();
+    ledger.escrow('t-1', '0.0.9000', BigInt(100) * HBAR);
+    ledger.assign('t-1', record.assignment!.assignedAgents);
+    const settlement = new TaskSettlement(ledger);
+
+    const receipt = await settlement.settle(record, { finalSolution: 'hash-a' }, { contributions: { '0.0.1002': 0.5 } });
+
+    expect(receipt.shares.map(share => [share.agentId, share.amount])).toEqual([
+      ['0.0.1001', BigInt(30) * HBAR],
+      ['0.0.1002', BigInt(15) * HBAR],
+      ['0.0.1003', BigInt(0)]
+    ]);
+    expect(receipt.refund).toBe(BigInt(55) * HBAR);
+    expect(receipt.transactions).toEqual({
+      rewardSplit: expect.stringMatching(/^0\.0\.2@\d+\.000000001$/),
+      finalize: expect.stringMatching(/^0\.0\.2@\d+\.000000002$/)
+    });
+    expect(ledger.getBalance('0.0.1002')).toBe(BigInt(15) * HBAR);
+    expect(ledger.getBalance('0.0.9000')).toBe(BigInt(55) * HBAR);
+    expect(ledger.getFinalSolution('t-1')).toBe('hash-a');
+    expect(settlement.getReceipt('t-1')).toBe(receipt);
+
+    await expect(settlement.settle(record, { finalSolution: 'hash-a' })).rejects.toThrow('already settled');
+  });
+
+  it('should pay token bounties and withhold the share of dissenters', async () => {
+    const record = await completedTask();
+    const ledger = new InMemorySettlementLedger();
+    ledger.escrow('t-1', '0.0.9000', BigInt(5000), token);
+    ledger.assign('t-1', record.assignment!.assignedAgents);
+    const settlement = new TaskSettlement(ledger);
+
+    const proposal = {
+      id: 'p-1',
+      status: 'accepted',
+      rejectors: new Map([['0.0.1002', {}]])
+    } as unknown as ConsensusProposal;
+    const receipt = await settlement.settle(record, verdictFromProposal(proposal, 'hash-a'));
+
+    expect(receipt.currency).toEqual(token);
+    expect(ledger.getBalance('0.0.1001', token)).toBe(BigInt(1500));
+    expect(ledger.getBalance('0.0.1002', token)).toBe(BigInt(0));
+    expect(ledger.getBalance('0.0.9000', token)).toBe(BigInt(3500));
+    expect(ledger.getBalance('0.0.9000')).toBe(BigInt(0));
+    expect(() => verdictFromProposal({ ...proposal, status: 'rejected' }, 'hash-a')).toThrow('was not accepted');
+  });
+
+  it('should refund the whole bounty when no agent earned a share', async () => {
+    const record = await completedTask();
+    const ledger = new InMemorySettlementLedger();
+    ledger.escrow('t-1', '0.0.9000', BigInt(100));
+    ledger.assign('t-1', record.assignment!.assignedAgents);
+    const settlement = new TaskSettlement(ledger);
+
+    const receipt = await settlement.settle(record, {
+      finalSolution: 'hash-a',
+      dissenters: ['0.0.1001', '0.0.1002', '0.0.1003']
+    });
+
+    expect(receipt.shares.every(share => share.amount === BigInt(0))).toBe(true);
+    expect(receipt.refund).toBe(BigInt(100));
+    expect(ledger.getRewardSplit('t-1')).toEqual([]);
+    expect(ledger.getBalance('0.0.9000')).toBe(BigInt(100));
+  });
+
+  it('should only let the settlement oracle pay assigned agents', async () => {
+    const requester = new InMemorySettlementLedger('0.0.9000', ['0.0.2']);
+    requester.escrow('t-1', '0.0.9000', BigInt(100));
+    requester.assign('t-1', ['0.0.1001']);
+    await expect(requester.setRewardSplit('t-1', [])).rejects.toThrow('Only settlement oracle');
+    await expect(requester.finalizeTask('t-1', 'hash-a')).rejects.toThrow('Only settlement oracle');
+
+    const oracle = new InMemorySettlementLedger();
+    oracle.escrow('t-1', '0.0.9000', BigInt(100));
+    oracle.assign('t-1', ['0.0.1001']);
+    await expect(oracle.setRewardSplit('t-1', [{ accountId: '0.0.9000', amount: BigInt(0) }])).rejects.toThrow('Not assigned to task');
+    const twice = { accountId: '0.0.1001', amount: BigInt(50) };
+    await expect(oracle.setRewardSplit('t-1', [twice, twice])).rejects.toThrow('Duplicate recipient');
+    await oracle.setRewardSplit('t-1', [{ accountId: '0.0.1001', amount: BigInt(100) }]);
+    await oracle.finalizeTask('t-1', 'hash-a');
+    expect(oracle.getBalance('0.0.1001')).toBe(BigInt(100));
+  });
+
+  it('should only settle completed tasks with an escrowed bounty', async () => {
+    const record = await completedTask();
+    const settlement = new TaskSettlement(new InMemorySettlementLedger());
+    const failures: any[] = [];
+    settlement.on('settlementFailed', failure => failures.push(failure));
+
+    await expect(settlement.settle(record, { finalSolution: 'hash-a' })).rejects.toThrow('No bounty is escrowed for task t-1');
+    await expect(settlement.settle({ ...record, status: TaskStatus.UnderReview }, { finalSolution: 'hash-a' })).rejects.toThrow('has not been completed');
+    expect(failures).toEqual([{ taskId: 't-1', reason: 'No bounty is escrowed for task t-1' }]);
+  });
+});
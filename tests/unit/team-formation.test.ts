@@ -0,0 +1,81 @@
+import { describe, it, expect } from '@jest/globals';
+import { TaskAssignment } from '../../swarm-protocol/src/consensus/TaskDistributor';
+import { TeamCandidate, expectedTeamQuality, formTeam } from '../../swarm-protocol/src/consensus/TeamFormation';
+import * as fixtures from './fixtures/distributor';
+
+describe('Team Formation Unit Tests', () => {
+  const create = fixtures.distributors();
+
+  const candidate = (agentId: string, capabilities: string[], requestedReward: number, quality: number): TeamCandidate => ({
+    bid: fixtures.bid(agentId, 't-1', { requestedReward, confidence: quality, capabilities }),
+    quality
+  });
+
+  const constraints = { requiredCapabilities: ['vision', 'nlp'], minAgents: 1, maxAgents: 3, budget: 100 };
+  const ids = (team: ReturnType<typeof formTeam>) => team!.members.map(bid => bid.agentId);
+
+  it('should cover every required capability within the budget', () => {
+    const team = formTeam([
+      candidate('generalist', ['vision', 'nlp'], 120, 0.95),
+      candidate('seer', ['vision'], 40, 0.9),
+      candidate('reader', ['nlp'], 30, 0.8),
+      candidate('scribe', ['nlp'], 70, 0.85)
+    ], constraints);
+
+    expect(ids(team).sort()).toEqual(['reader', 'seer']);
+    expect(team!.totalReward).toBe(70);
+    expect(team!.expectedQuality).toBeCloseTo(0.85);
+    expect(team!.explanations.map(explanation => explanation.reason)).toEqual([
+      'Only member with vision (quality 0.90, asks 40)',
+      'Only member with nlp (quality 0.80, asks 30)'
+    ]);
+  });
+
+  it('should only add backups worth their cost', () => {
+    const seer = candidate('seer', ['vision', 'nlp'], 30, 0.6);
+    const backup = candidate('backup', ['vision', 'nlp'], 30, 0.6);
+
+    expect(ids(formTeam([seer, backup], { ...constraints, costWeight: 1 }))).toEqual(['seer']);
+
+    const team = formTeam([seer, backup], { ...constraints, costWeight: 0.2 });
+    expect(ids(team)).toEqual(['seer', 'backup']);
+    expect(team!.explanations[1]).toEqual(expect.objectContaining({
+      soleProvider: [],
+      marginalQuality: expect.closeTo(0.24, 5)
+    }));
+    expect(expectedTeamQuality([seer, backup], ['vision'])).toBeCloseTo(0.84);
+  });
+
+  it('should respect team size limits and give up when nothing qualifies', () => {
+    const bids = [
+      candidate('seer', ['vision'], 20, 0.9),
+      candidate('reader', ['nlp'], 20, 0.9),
+      candidate('backup', ['nlp'], 20, 0.5)
+    ];
+
+    expect(ids(formTeam(bids, { ...constraints, minAgents: 3, costWeight: 1 }))).toHaveLength(3);
+    expect(formTeam(bids, { ...constraints, maxAgents: 1 })).toBeNull();
+    expect(formTeam(bids, { ...constraints, budget: 30 })).toBeNull();
+  });
+
+  it('should assign the team with its explanations from open bids', async () => {
+    const { distributor } = create();
+    const bid = (agentId: string, capabilities: string[], requestedReward: number) =>
+      fixtures.bid(agentId, 't-1', { requestedReward, capabilities });
+    const assigned = new Promise<TaskAssignment>(resolve => distributor.once('taskAssigned', resolve));
+    await distributor.announceTask(fixtures.task('t-1', {
+      description: 'caption videos',
+      requiredCapabilities: ['vision', 'nlp'],
+      maxAgents: undefined
+    }));
+
+    expect(() => distributor.submitBid(bid('0.0.1000', ['audio'], 10))).toThrow('lacks required capabilities');
+    distributor.submitBid(bid('0.0.1001', ['vision'], 40));
+    distributor.submitBid(bid('0.0.1002', ['nlp'], 40));
+    distributor.submitBid(bid('0.0.1003', ['vision', 'nlp'], 150));
+
+    const assignment = await assigned;
+    expect(assignment.assignedAgents).toEqual(['0.0.1001', '0.0.1002']);
+    expect(assignment.explanations!.map(explanation => explanation.soleProvider)).toEqual([['vision'], ['nlp']]);
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { Client, TopicMessageQuery } from '@hashgraph/sdk';
+import { InMemoryTransport } from '../../swarm-protocol/src/transport/InMemoryTransport';
+import { HederaTransport } from '../../swarm-protocol/src/transport/HederaTransport';
+import { TransportMessage, decodeContents } from '../../swarm-protocol/src/transport/SwarmTransport';
+
+describe('InMemoryTransport Unit Tests', () => {
+  let transport: InMemoryTransport;
+  let now: number;
+
+  beforeEach(() => {
+    now = 1_700_000_000_000;
+    transport = new InMemoryTransport({ clock: () => now });
+  });
+
+  describe('Topics', () => {
+    it('should create topics with Hedera-style ids', async () => {
+      const first = await transport.createTopic({ memo: 'tasks' });
+      const second = await transport.createTopic({ memo: 'consensus' });
+
+      expect(first).toBe('0.0.1000');
+      expect(second).toBe('0.0.1001');
+      expect(transport.getTopicIds()).toEqual([first, second]);
+    });
+
+    it('should create unknown topics on first use', async () => {
+      await transport.publish('0.0.5000001', 'hello');
+
+      expect(await transport.getLatestSequenceNumber('0.0.5000001')).toBe(1);
+      expect(await transport.createTopic({ memo: 'next' })).toBe('0.0.1000');
+    });
+  });
+
+  describe('Ordering', () => {
+    it('should assign per-topic sequence numbers', async () => {
+      const a1 = await transport.publish('0.0.1', 'a1');
+      const b1 = await transport.publish('0.0.2', 'b1');
+      const a2 = await transport.publish('0.0.1', 'a2');
+
+      expect(a1.sequenceNumber).toBe(1);
+      expect(b1.sequenceNumber).toBe(1);
+      expect(a2.sequenceNumber).toBe(2);
+    });
+
+    it('should keep consensus timestamps strictly increasing under a frozen clock', async () => {
+      const first = await transport.publish('0.0.1', 'first');
+      const second = await transport.publish('0.0.2', 'second');
+      now -= 5000; // Clock going backwards must not reorder messages
+      const third = await transport.publish('0.0.1', 'third');
+
+      expect(second.consensusTimestamp).toBeGreaterThan(first.consensusTimestamp);
+      expect(third.consensusTimestamp).toBeGreaterThan(second.consensusTimestamp);
+    });
+  });
+
+  describe('Subscriptions', () => {
+    it('should deliver messages asynchronously in consensus order', async () => {
+      const received: string[] = [];
+      transport.subscribe('0.0.1', (message) => received.push(decodeContents(message)));
+
+      await transport.publish('0.0.1', 'one');
+      await transport.publish('0.0.1', 'two');
+
+      expect(received).toEqual([]);
+
+      await transport.flush();
+      expect(received).toEqual(['one', 'two']);
+    });
+
+    it('should replay history to late subscribers', async () => {
+      await transport.publish('0.0.1', 'old');
+
+      const received: TransportMessage[] = [];
+      transport.subscribe('0.0.1', (message) => received.push(message));
+      await transport.publish('0.0.1', 'new');
+      await transport.flush();
+
+      expect(received.map(m => m.sequenceNumber)).toEqual([1, 2]);
+    });
+
+    it('should honour the subscription start time', async () => {
+      const old = await transport.publish('0.0.1', 'old');
+      now += 1000;
+      await transport.publish('0.0.1', 'new');
+
+      const received: string[] = [];
+      transport.subscribe('0.0.1', (message) => received.push(decodeContents(message)), {
+        startTime: old.consensusTimestamp + 1
+      });
+      await transport.flush();
+
+      expect(received).toEqual(['new']);
+    });
+
+    it('should stop delivering after unsubscribe', async () => {
+      const handler = jest.fn();
+      const subscription = transport.subscribe('0.0.1', handler);
+
+      await transport.publish('0.0.1', 'queued');
+      subscription.unsubscribe();
+      await transport.flush();
+
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('should flush messages published by handlers', async () => {
+      const received: string[] = [];
+      transport.subscribe('0.0.1', async (message) => {
+        await transport.publish('0.0.2', `echo:${decodeContents(message)}`);
+      });
+      transport.subscribe('0.0.2', (message) => received.push(decodeContents(message)));
+
+      await transport.publish('0.0.1', 'ping');
+      await transport.flush();
+
+      expect(received).toEqual(['echo:ping']);
+    });
+  });
+});
+
+describe('HederaTransport Unit Tests', () => {
+  it('should pass the start time to the mirror node query in milliseconds', () => {
+    const queries: TopicMessageQuery[] = [];
+    const subscribe = jest.spyOn(TopicMessageQuery.prototype, 'subscribe')
+      .mockImplementation(function (this: TopicMessageQuery) {
+        queries.push(this);
+        return { unsubscribe: () => {} } as any;
+      });
+
+    try {
+      const transport = new HederaTransport({} as Client);
+      transport.subscribe('0.0.5000', () => {}, { startTime: 1_700_000_000_123 });
+      transport.subscribe('0.0.5000', () => {});
+
+      expect(queries[0].startTime!.toDate().getTime()).toBe(1_700_000_000_123);
+      expect(queries[1].startTime!.toDate().getTime()).toBe(0);
+    } finally {
+      subscribe.mockRestore();
+    }
+  });
+});
@@ -1,6 +1,6 @@
 import { useState, useCallback } from 'react';
 import { useWallet } from '@/contexts/WalletContext';
-import { swarmContracts } from '@/lib/contracts/swarm-contracts';
+import { swarmContracts, ContractRevertError } from '@/lib/contracts/swarm-contracts';
 import { useToast } from '@/components/hooks/use-toast';
 
 export function useSwarmContracts() {
@@ -8,6 +8,10 @@ export function useSwarmContracts() {
   const { toast } = useToast();
   const [isLoading, setIsLoading] = useState(false);
 
+  // The contract's revert reason when there is one
+  const describeError = (error: any, fallback: string) =>
+    error instanceof ContractRevertError ? error.reason || error.message : error.message || fallback;
+
   const registerAgent = useCallback(async (
     capabilities: string[],
     stake: number
@@ -23,16 +27,11 @@ export function useSwarmContracts() {
 
     setIsLoading(true);
     try {
-      const { functionName, parameters } = swarmContracts.registerAgent(
-        capabilities,
-        stake
-      );
-
       const result = await executeContract(
         swarmContracts.getSwarmOrchestratorAddress(),
-        functionName,
-        parameters,
-        150000,
+        swarmContracts.orchestrator,
+        swarmContracts.registerAgent(capabilities),
+        200000,
         stake // Payable amount for stake
       );
 
@@ -45,7 +44,7 @@ export function useSwarmContracts() {
     } catch (error: any) {
       toast({
         title: 'Registration failed',
-        description: error.message || 'Failed to register agent',
+        description: describeError(error, 'Failed to register agent'),
         variant: 'destructive',
       });
       throw error;
@@ -54,8 +53,7 @@ export function useSwarmContracts() {
     }
   }, [walletState.isConnected, executeContract, toast]);
 
-  const submitTask = useCallback(async (
-    taskId: string,
+  const createTask = useCallback(async (
     description: string,
     requiredCapabilities: string[],
     bounty: number,
@@ -72,32 +70,24 @@ export function useSwarmContracts() {
 
     setIsLoading(true);
     try {
-      const { functionName, parameters } = swarmContracts.submitTask(
-        taskId,
-        description,
-        requiredCapabilities,
-        bounty,
-        deadline
-      );
-
       const result = await executeContract(
         swarmContracts.getSwarmOrchestratorAddress(),
-        functionName,
-        parameters,
-        200000,
+        swarmContracts.orchestrator,
+        swarmContracts.createTask(description, requiredCapabilities, deadline),
+        300000,
         bounty // Payable amount for bounty
       );
 
       toast({
         title: 'Task Submitted',
-        description: `Task ${taskId} has been submitted with a bounty of ${bounty} tinybars`,
+        description: `Your task has been submitted with a bounty of ${bounty} tinybars`,
       });
 
       return result;
     } catch (error: any) {
       toast({
         title: 'Task submission failed',
-        description: error.message || 'Failed to submit task',
+        description: describeError(error, 'Failed to submit task'),
         variant: 'destructive',
       });
       throw error;
@@ -108,8 +98,7 @@ export function useSwarmContracts() {
 
   const submitSolution = useCallback(async (
     taskId: string,
-    solution: string,
-    confidence: number
+    solutionHash: string
   ) => {
     if (!walletState.isConnected) {
       toast({
@@ -122,17 +111,11 @@ export function useSwarmContracts() {
 
     setIsLoading(true);
     try {
-      const { functionName, parameters } = swarmContracts.submitSolution(
-        taskId,
-        solution,
-        confidence
-      );
-
       const result = await executeContract(
         swarmContracts.getSwarmOrchestratorAddress(),
-        functionName,
-        parameters,
-        150000
+        swarmContracts.orchestrator,
+        swarmContracts.submitSolution(taskId, solutionHash),
+        200000
       );
 
       toast({
@@ -144,132 +127,7 @@ export function useSwarmContracts() {
     } catch (error: any) {
       toast({
         title: 'Solution submission failed',
-        description: error.message || 'Failed to submit solution',
-        variant: 'destructive',
-      });
-      throw error;
-    } finally {
-      setIsLoading(false);
-    }
-  }, [walletState.isConnected, executeContract, toast]);
-
-  const voteOnSolution = useCallback(async (
-    taskId: string,
-    support: boolean
-  ) => {
-    if (!walletState.isConnected) {
-      toast({
-        title: 'Wallet not connected',
-        description: 'Please connect your wallet to vote',
-        variant: 'destructive',
-      });
-      return;
-    }
-
-    setIsLoading(true);
-    try {
-      const { functionName, parameters } = swarmContracts.voteOnSolution(
-        taskId,
-        support
-      );
-
-      const result = await executeContract(
-        swarmContracts.getSwarmOrchestratorAddress(),
-        functionName,
-        parameters,
-        100000
-      );
-
-      toast({
-        title: 'Vote Submitted',
-        description: `Your ${support ? 'support' : 'rejection'} vote has been recorded`,
-      });
-
-      return result;
-    } catch (error: any) {
-      toast({
-        title: 'Vote failed',
-        description: error.message || 'Failed to submit vote',
-        variant: 'destructive',
-      });
-      throw error;
-    } finally {
-      setIsLoading(false);
-    }
-  }, [walletState.isConnected, executeContract, toast]);
-
-  const withdrawStake = useCallback(async (amount: number) => {
-    if (!walletState.isConnected) {
-      toast({
-        title: 'Wallet not connected',
-        description: 'Please connect your wallet to withdraw stake',
-        variant: 'destructive',
-      });
-      return;
-    }
-
-    setIsLoading(true);
-    try {
-      const { functionName, parameters } = swarmContracts.withdrawStake(amount);
-
-      const result = await executeContract(
-        swarmContracts.getSwarmOrchestratorAddress(),
-        functionName,
-        parameters,
-        100000
-      );
-
-      toast({
-        title: 'Stake Withdrawn',
-        description: `${amount} tinybars have been withdrawn from your stake`,
-      });
-
-      return result;
-    } catch (error: any) {
-      toast({
-        title: 'Withdrawal failed',
-        description: error.message || 'Failed to withdraw stake',
-        variant: 'destructive',
-      });
-      throw error;
-    } finally {
-      setIsLoading(false);
-    }
-  }, [walletState.isConnected, executeContract, toast]);
-
-  const updateCapabilities = useCallback(async (capabilities: string[]) => {
-    if (!walletState.isConnected) {
-      toast({
-        title: 'Wallet not connected',
-        description: 'Please connect your wallet to update capabilities',
-        variant: 'destructive',
-      });
-      return;
-    }
-
-    setIsLoading(true);
-    try {
-      const { functionName, parameters } = swarmContracts.updateCapabilities(
-        capabilities
-      );
-
-      const result = await executeContract(
-        swarmContracts.getSwarmOrchestratorAddress(),
-        functionName,
-        parameters,
-        100000
-      );
-
-      toast({
-        title: 'Capabilities Updated',
-        description: `Your agent capabilities have been updated`,
-      });
-
-      return result;
-    } catch (error: any) {
-      toast({
-        title: 'Update failed',
-        description: error.message || 'Failed to update capabilities',
+        description: describeError(error, 'Failed to submit solution'),
         variant: 'destructive',
       });
       throw error;
@@ -281,11 +139,8 @@ export function useSwarmContracts() {
   return {
     isLoading,
     registerAgent,
-    submitTask,
+    createTask,
     submitSolution,
-    voteOnSolution,
-    withdrawStake,
-    updateCapabilities,
     contractAddresses: {
       swarmOrchestrator: swarmContracts.getSwarmOrchestratorAddress(),
       evolutionEngine: swarmContracts.getEvolutionEngineAddress(),
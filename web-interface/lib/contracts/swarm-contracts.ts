@@ -1,6 +1,22 @@
-import { ContractFunctionParameters } from '@hashgraph/sdk';
-import SwarmOrchestratorABI from '@hedera-swarm/contracts/artifacts/contracts/SwarmOrchestrator.sol/SwarmOrchestrator.json';
-import EvolutionEngineABI from '@hedera-swarm/contracts/artifacts/contracts/EvolutionEngine.sol/EvolutionEngine.json';
+import {
+  AgentDNA,
+  ContractAgent,
+  ContractTask,
+  DNATrait,
+  EncodedCall,
+  EvolutionEngineCodec,
+  SwarmOrchestratorCodec
+} from '@hedera-swarm/protocol/dist/contracts/ContractCodec';
+
+export type { ContractAgent, ContractTask, AgentDNA, DNATrait, EncodedCall };
+export { TaskStatus } from '@hedera-swarm/protocol/dist/contracts/ContractCodec';
+export {
+  ContractRevertError,
+  ContractCustomError,
+  ContractPanicError,
+  OrchestratorRevertReason,
+  EvolutionRevertReason
+} from '@hedera-swarm/protocol/dist/contracts/ContractErrors';
 
 // Contract addresses (update these with your deployed contract IDs)
 export const CONTRACT_ADDRESSES = {
@@ -14,8 +30,15 @@ export const CONTRACT_ADDRESSES = {
   }
 };
 
+/**
+ * Calls to the swarm contracts, encoded by the typed client shared with the
+ * agent SDK. Only functions the deployed contracts actually have can be
+ * encoded; results and reverts are decoded by the same codecs.
+ */
 export class SwarmContracts {
   private network: 'testnet' | 'mainnet';
+  readonly orchestrator = new SwarmOrchestratorCodec();
+  readonly evolution = new EvolutionEngineCodec();
 
   constructor(network: 'testnet' | 'mainnet' = 'testnet') {
     this.network = network;
@@ -32,205 +55,101 @@ export class SwarmContracts {
   // SwarmOrchestrator Functions
 
   /**
-   * Register as an agent in the swarm
+   * Register as an agent in the swarm; the stake is the payable amount
    */
-  registerAgent(
-    capabilities: string[],
-    stake: number
-  ): { functionName: string; parameters: ContractFunctionParameters } {
-    const params = new ContractFunctionParameters()
-      .addStringArray(capabilities)
-      .addUint256(stake);
-
-    return {
-      functionName: 'registerAgent',
-      parameters: params
-    };
+  registerAgent(capabilities: string[]): EncodedCall {
+    return this.orchestrator.registerAgent(capabilities);
   }
 
   /**
-   * Submit a new task to the swarm
+   * Create a new task; the bounty is the payable amount and the contract
+   * assigns the task id
    */
-  submitTask(
-    taskId: string,
+  createTask(
     description: string,
     requiredCapabilities: string[],
-    bounty: number,
     deadline: number
-  ): { functionName: string; parameters: ContractFunctionParameters } {
-    const params = new ContractFunctionParameters()
-      .addString(taskId)
-      .addString(description)
-      .addStringArray(requiredCapabilities)
-      .addUint256(bounty)
-      .addUint256(deadline);
-
-    return {
-      functionName: 'submitTask',
-      parameters: params
-    };
+  ): EncodedCall {
+    return this.orchestrator.createTask(description, requiredCapabilities, deadline);
   }
 
   /**
    * Assign agents to a task
    */
-  assignTask(
-    taskId: string,
-    agentAddresses: string[]
-  ): { functionName: string; parameters: ContractFunctionParameters } {
-    const params = new ContractFunctionParameters()
-      .addString(taskId)
-      .addAddressArray(agentAddresses);
-
-    return {
-      functionName: 'assignTask',
-      parameters: params
-    };
+  assignTask(taskId: string, agentAddresses: string[]): EncodedCall {
+    return this.orchestrator.assignTask(taskId, agentAddresses);
   }
 
   /**
-   * Submit a solution for consensus
+   * Submit the IPFS hash of a solution for review
    */
-  submitSolution(
-    taskId: string,
-    solution: string,
-    confidence: number
-  ): { functionName: string; parameters: ContractFunctionParameters } {
-    const params = new ContractFunctionParameters()
-      .addString(taskId)
-      .addString(solution)
-      .addUint256(confidence);
-
-    return {
-      functionName: 'submitSolution',
-      parameters: params
-    };
+  submitSolution(taskId: string, solutionHash: string): EncodedCall {
+    return this.orchestrator.submitSolution(taskId, solutionHash);
   }
 
   /**
-   * Vote on a solution
+   * Finalize a task under review with the consensus solution
    */
-  voteOnSolution(
-    taskId: string,
-    support: boolean
-  ): { functionName: string; parameters: ContractFunctionParameters } {
-    const params = new ContractFunctionParameters()
-      .addString(taskId)
-      .addBool(support);
-
-    return {
-      functionName: 'voteOnSolution',
-      parameters: params
-    };
+  finalizeTask(taskId: string, finalSolution: string): EncodedCall {
+    return this.orchestrator.finalizeTask(taskId, finalSolution);
   }
 
-  /**
-   * Finalize consensus for a task
-   */
-  finalizeConsensus(
-    taskId: string
-  ): { functionName: string; parameters: ContractFunctionParameters } {
-    const params = new ContractFunctionParameters()
-      .addString(taskId);
-
-    return {
-      functionName: 'finalizeConsensus',
-      parameters: params
-    };
+  getAgent(agentAddress: string): EncodedCall {
+    return this.orchestrator.getAgent(agentAddress);
   }
 
-  /**
-   * Withdraw agent stake
-   */
-  withdrawStake(
-    amount: number
-  ): { functionName: string; parameters: ContractFunctionParameters } {
-    const params = new ContractFunctionParameters()
-      .addUint256(amount);
-
-    return {
-      functionName: 'withdrawStake',
-      parameters: params
-    };
+  getTask(taskId: string): EncodedCall {
+    return this.orchestrator.getTask(taskId);
   }
 
-  /**
-   * Update agent capabilities
-   */
-  updateCapabilities(
-    capabilities: string[]
-  ): { functionName: string; parameters: ContractFunctionParameters } {
-    const params = new ContractFunctionParameters()
-      .addStringArray(capabilities);
+  decodeAgent(result: Uint8Array): ContractAgent | null {
+    return this.orchestrator.decodeAgent(result);
+  }
 
-    return {
-      functionName: 'updateCapabilities',
-      parameters: params
-    };
+  decodeTask(result: Uint8Array): ContractTask | null {
+    return this.orchestrator.decodeTask(result);
   }
 
   // EvolutionEngine Functions
 
   /**
-   * Propose an evolution for an agent
+   * Mint DNA for an agent; trait values are hex-encoded bytes
    */
-  proposeEvolution(
-    agentAddress: string,
-    newCapabilities: string[],
-    justification: string
-  ): { functionName: string; parameters: ContractFunctionParameters } {
-    const params = new ContractFunctionParameters()
-      .addAddress(agentAddress)
-      .addStringArray(newCapabilities)
-      .addString(justification);
-
-    return {
-      functionName: 'proposeEvolution',
-      parameters: params
-    };
+  mintAgentDNA(traits: string[], traitValues: string[], uri: string): EncodedCall {
+    return this.evolution.mintAgentDNA(traits, traitValues, uri);
   }
 
   /**
-   * Vote on an evolution proposal
+   * Mutate owned DNA; the breeding fee is the payable amount
    */
-  voteOnEvolution(
-    proposalId: number,
-    support: boolean
-  ): { functionName: string; parameters: ContractFunctionParameters } {
-    const params = new ContractFunctionParameters()
-      .addUint256(proposalId)
-      .addBool(support);
-
-    return {
-      functionName: 'voteOnEvolution',
-      parameters: params
-    };
+  mutate(tokenId: number): EncodedCall {
+    return this.evolution.mutate(tokenId);
   }
 
   /**
-   * Execute an approved evolution
+   * Breed two DNA tokens; twice the breeding fee is the payable amount
    */
-  executeEvolution(
-    proposalId: number
-  ): { functionName: string; parameters: ContractFunctionParameters } {
-    const params = new ContractFunctionParameters()
-      .addUint256(proposalId);
+  crossbreed(parentA: number, parentB: number): EncodedCall {
+    return this.evolution.crossbreed(parentA, parentB);
+  }
+
+  getDNA(tokenId: number): EncodedCall {
+    return this.evolution.getDNA(tokenId);
+  }
 
-    return {
-      functionName: 'executeEvolution',
-      parameters: params
-    };
+  decodeDNA(result: Uint8Array): AgentDNA {
+    return this.evolution.decodeDNA(result);
   }
 
   // Utility function to get ABI
   getSwarmOrchestratorABI() {
-    return SwarmOrchestratorABI.abi;
+    return JSON.parse(this.orchestrator.abi.formatJson());
   }
 
   getEvolutionEngineABI() {
-    return EvolutionEngineABI.abi;
+    return JSON.parse(this.evolution.abi.formatJson());
   }
 }
 
 // Export singleton instance
-export const swarmContracts = new SwarmContracts();
\ No newline at end of file
+export const swarmContracts = new SwarmContracts();
@@ -9,12 +9,10 @@ import {
 import { 
   AccountId, 
   AccountBalanceQuery,
-  Client,
-  ContractExecuteTransaction,
-  ContractFunctionParameters,
-  ContractId,
-  Hbar
+  Client
 } from '@hashgraph/sdk';
+import { ContractCodec, EncodedCall } from '@hedera-swarm/protocol/dist/contracts/ContractCodec';
+import { HederaContractClient } from '@hedera-swarm/protocol/dist/contracts/HederaContractClient';
 
 export interface WalletConnectionState {
   isConnected: boolean;
@@ -168,10 +166,13 @@ export class WalletConnectClient {
     }
   }
 
+  /**
+   * Execute an encoded contract call; reverts are thrown as ContractRevertError
+   */
   async executeContract(
     contractId: string,
-    functionName: string,
-    parameters: ContractFunctionParameters,
+    codec: ContractCodec,
+    call: EncodedCall,
     gas: number = 100000,
     payableAmount?: number
   ): Promise<any> {
@@ -186,21 +187,15 @@ export class WalletConnectClient {
 
       client.setOperator(this.accountId, this.signer as any);
 
-      const transaction = new ContractExecuteTransaction()
-        .setContractId(ContractId.fromString(contractId))
-        .setGas(gas)
-        .setFunction(functionName, parameters);
-
-      if (payableAmount) {
-        transaction.setPayableAmount(Hbar.fromTinybars(payableAmount));
-      }
-
-      const txResponse = await transaction.execute(client);
-      const receipt = await txResponse.getReceipt(client);
+      const contract = new HederaContractClient(client, contractId, codec);
+      const { transactionId } = await contract.execute(call, {
+        gas,
+        payableAmount: payableAmount ? BigInt(payableAmount) : undefined
+      });
 
       return {
-        status: receipt.status.toString(),
-        transactionId: txResponse.transactionId?.toString(),
+        status: 'SUCCESS',
+        transactionId,
         contractId: contractId
       };
     } catch (error) {